@@ -0,0 +1,39 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import type { Annotation } from '@/utils/pipeline';
+import { formatTimestamp } from '@/utils/transcript';
+
+interface AnnotationListProps {
+  annotations: Annotation[];
+  currentTime?: number; // Highlights the last moment played past
+  onSeek?: (seconds: number) => void; // Makes each moment clickable
+}
+
+export default function AnnotationList({ annotations, currentTime, onSeek }: AnnotationListProps) {
+  const passed = currentTime === undefined ? -1 : annotations.filter(annotation => annotation.time <= currentTime).length - 1;
+
+  return (
+    <ol className="mt-4 space-y-1">
+      {annotations.map((annotation, i) => {
+        const content = (
+          <>
+            <span className="font-mono text-xs text-zinc-500 w-14 shrink-0">{formatTimestamp(annotation.time)}</span>
+            <span className="italic">{annotation.note}</span>
+          </>
+        );
+        return (
+          <li key={i} className={`flex items-start gap-2 text-sm ${i === passed ? 'font-bold' : ''}`}>
+            <MapPin className="w-3 h-3 mt-1 shrink-0 text-amber-500" />
+            {onSeek ? (
+              <button onClick={() => onSeek(annotation.time)} className="flex gap-2 text-left hover:underline">
+                {content}
+              </button>
+            ) : (
+              <span className="flex gap-2">{content}</span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
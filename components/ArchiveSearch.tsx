@@ -0,0 +1,135 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { getCriticInfo, listCriticTypes, CriticType } from '@/utils/critics';
+import { ARCHIVE_MEDIA_TYPES, ArchiveMediaType, SearchFacets, SearchFilters } from '@/utils/search';
+
+interface ArchiveSearchProps {
+  query: string;
+  filters: SearchFilters;
+  facets: SearchFacets;
+  onQueryChange: (query: string) => void;
+  onFiltersChange: (filters: SearchFilters) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGES: { label: string; within?: number }[] = [
+  { label: 'Any time' },
+  { label: 'Past week', within: 7 * DAY_MS },
+  { label: 'Past month', within: 30 * DAY_MS },
+  { label: 'Past year', within: 365 * DAY_MS },
+];
+
+function toggle<T>(values: T[] | undefined, value: T): T[] {
+  const current = values || [];
+  return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+}
+
+function Chip({ label, count, selected, onClick }: { label: string; count: number; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`px-2 py-0.5 border-2 text-xs font-bold uppercase transition-colors ${
+        selected ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-zinc-300 bg-white text-zinc-600 hover:border-zinc-900'
+      }`}
+    >
+      {label} <span className="opacity-60">{count}</span>
+    </button>
+  );
+}
+
+export default function ArchiveSearch({ query, filters, facets, onQueryChange, onFiltersChange }: ArchiveSearchProps) {
+  const hasFilters = !!(filters.critics?.length || filters.mediaTypes?.length)
+    || filters.minScore !== undefined || filters.maxScore !== undefined || filters.publishedWithin !== undefined;
+
+  // Only offer facets something in the archive falls under, plus any already picked
+  const critics = listCriticTypes().filter(type => facets.critics[type] || filters.critics?.includes(type));
+  const mediaTypes = (Object.keys(ARCHIVE_MEDIA_TYPES) as ArchiveMediaType[])
+    .filter(type => facets.mediaTypes[type] || filters.mediaTypes?.includes(type));
+
+  const scoreInput = (key: 'minScore' | 'maxScore', placeholder: string) => (
+    <input
+      type="number"
+      min={0}
+      max={10}
+      step={0.5}
+      placeholder={placeholder}
+      aria-label={key === 'minScore' ? 'Minimum score' : 'Maximum score'}
+      value={filters[key] ?? ''}
+      onChange={(e) => onFiltersChange({ ...filters, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+      className="w-16 p-1 border-2 border-zinc-300 focus:border-zinc-900 outline-none text-sm"
+    />
+  );
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="relative">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" />
+        <input
+          type="search"
+          placeholder="Search reviews and comments..."
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          className="w-full pl-9 pr-3 py-2 border-2 border-zinc-900 outline-none text-sm"
+        />
+      </div>
+
+      {critics.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {critics.map((type: CriticType) => (
+            <Chip
+              key={type}
+              label={getCriticInfo(type).name}
+              count={facets.critics[type] || 0}
+              selected={!!filters.critics?.includes(type)}
+              onClick={() => onFiltersChange({ ...filters, critics: toggle(filters.critics, type) })}
+            />
+          ))}
+        </div>
+      )}
+
+      {mediaTypes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {mediaTypes.map(type => (
+            <Chip
+              key={type}
+              label={ARCHIVE_MEDIA_TYPES[type]}
+              count={facets.mediaTypes[type] || 0}
+              selected={!!filters.mediaTypes?.includes(type)}
+              onClick={() => onFiltersChange({ ...filters, mediaTypes: toggle(filters.mediaTypes, type) })}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs font-bold uppercase text-zinc-500">
+        <span>Score</span>
+        {scoreInput('minScore', '0')}
+        <span>to</span>
+        {scoreInput('maxScore', '10')}
+        <select
+          aria-label="Published"
+          value={filters.publishedWithin ?? ''}
+          onChange={(e) => onFiltersChange({ ...filters, publishedWithin: e.target.value === '' ? undefined : Number(e.target.value) })}
+          className="ml-auto p-1 border-2 border-zinc-300 bg-white text-xs uppercase font-bold"
+        >
+          {DATE_RANGES.map(range => (
+            <option key={range.label} value={range.within ?? ''}>{range.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {hasFilters && (
+        <button
+          type="button"
+          onClick={() => onFiltersChange({})}
+          className="flex items-center gap-1 text-xs font-bold uppercase text-zinc-500 hover:text-zinc-900"
+        >
+          <X className="w-3 h-3" /> Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,19 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { Play, Pause } from 'lucide-react';
+import AnnotationList from './AnnotationList';
+import type { Annotation } from '@/utils/pipeline';
 
 interface AudioPlayerProps {
   audioUrl?: string;
   audioFileName?: string;
   albumArt?: string;
   waveformData?: number[];
+  annotations?: Annotation[]; // The critic's moments, as markers on the waveform
+  seekRequest?: { seconds: number }; // A new object jumps there and plays, e.g. from a transcript
+  onTimeUpdate?: (seconds: number) => void;
 }
 
-export default function AudioPlayer({ audioUrl, audioFileName, albumArt, waveformData }: AudioPlayerProps) {
+export default function AudioPlayer({ audioUrl, audioFileName, albumArt, waveformData, annotations, seekRequest, onTimeUpdate }: AudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -18,7 +23,10 @@ export default function AudioPlayer({ audioUrl, audioFileName, albumArt, wavefor
     const audio = audioRef.current;
     if (!audio) return;
 
-    const updateTime = () => setCurrentTime(audio.currentTime);
+    const updateTime = () => {
+      setCurrentTime(audio.currentTime);
+      onTimeUpdate?.(audio.currentTime);
+    };
     const updateDuration = () => setDuration(audio.duration);
     const handleEnded = () => setIsPlaying(false);
 
@@ -31,7 +39,21 @@ export default function AudioPlayer({ audioUrl, audioFileName, albumArt, wavefor
       audio.removeEventListener('loadedmetadata', updateDuration);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, [audioUrl]);
+  }, [audioUrl, onTimeUpdate]);
+
+  // Stable, so the effect below only runs for a new seek request
+  const seekTo = useCallback((seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    setCurrentTime(seconds);
+    audio.play();
+    setIsPlaying(true);
+  }, []);
+
+  useEffect(() => {
+    if (seekRequest) seekTo(seekRequest.seconds);
+  }, [seekRequest, seekTo]);
 
   const togglePlay = () => {
     if (!audioRef.current) return;
@@ -81,6 +103,21 @@ export default function AudioPlayer({ audioUrl, audioFileName, albumArt, wavefor
               className="h-20 flex items-center gap-0.5 cursor-pointer relative overflow-hidden rounded-sm bg-zinc-200/50"
               onClick={handleSeek}
             >
+              {/* Annotation markers */}
+              {duration > 0 && annotations?.filter(annotation => annotation.time <= duration).map((annotation, i) => (
+                <button
+                  key={i}
+                  onClick={e => {
+                    e.stopPropagation();
+                    seekTo(annotation.time);
+                  }}
+                  title={`${formatTime(annotation.time)} – ${annotation.note}`}
+                  aria-label={`Jump to ${formatTime(annotation.time)}: ${annotation.note}`}
+                  className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-amber-500 hover:bg-amber-600 z-10"
+                  style={{ left: `${(annotation.time / duration) * 100}%` }}
+                />
+              ))}
+
               {/* Progress overlay */}
               <div
                 className="absolute inset-0 bg-amber-400/30 pointer-events-none transition-all"
@@ -131,6 +168,10 @@ export default function AudioPlayer({ audioUrl, audioFileName, albumArt, wavefor
               </div>
             </div>
           )}
+
+          {annotations && annotations.length > 0 && (
+            <AnnotationList annotations={annotations} currentTime={currentTime} onSeek={audioUrl ? seekTo : undefined} />
+          )}
         </div>
       </div>
     </div>
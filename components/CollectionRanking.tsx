@@ -0,0 +1,56 @@
+import React from 'react';
+import { ListOrdered, ExternalLink } from 'lucide-react';
+import { canonicalVideoUrl } from '@/utils/youtube';
+import type { CollectionResult } from '@/utils/pipeline';
+
+interface CollectionRankingProps {
+  collection: CollectionResult;
+}
+
+export default function CollectionRanking({ collection }: CollectionRankingProps) {
+  const { kind, title, average, entries, sourceUrl } = collection;
+
+  return (
+    <div className="bg-white border-4 border-zinc-900 p-6 mb-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <ListOrdered className="w-5 h-5" />
+        <span className="text-xs font-black uppercase tracking-widest text-zinc-500">
+          {kind === 'channel' ? 'Channel Ranking' : 'Playlist Ranking'}
+        </span>
+        <a href={sourceUrl} target="_blank" rel="noopener noreferrer" className="text-xs font-bold underline truncate">
+          {title}
+        </a>
+        <span className="text-xs text-zinc-500">
+          {entries.length} videos · Average {average.toFixed(1)}
+        </span>
+      </div>
+
+      <ol className="divide-y-2 divide-zinc-200">
+        {entries.map(entry => (
+          <li key={entry.videoId} className="py-3 flex items-center gap-4">
+            <span className="w-8 text-2xl font-black text-zinc-400">#{entry.rank}</span>
+            {entry.thumbnailUrl && (
+              <img src={entry.thumbnailUrl} alt="" className="hidden sm:block w-24 aspect-video object-cover border-2 border-zinc-900" />
+            )}
+            <div className="flex-1 min-w-0">
+              <a
+                href={canonicalVideoUrl(entry.videoId)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-bold hover:underline inline-flex items-center gap-1"
+              >
+                {entry.title}
+                <ExternalLink className="w-3 h-3 shrink-0" />
+              </a>
+              <p className="text-sm italic text-zinc-600">{entry.summary}</p>
+              {entry.criticName && <p className="text-[10px] uppercase text-zinc-400">{entry.criticName}</p>}
+            </div>
+            <span className="w-12 h-12 shrink-0 bg-amber-400 rounded-full flex items-center justify-center border-2 border-zinc-900">
+              <span className="text-lg font-black tracking-tighter">{entry.score.toFixed(1)}</span>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Swords } from 'lucide-react';
+import { getCriticInfo } from '@/utils/critics';
+import type { CriticDebate as CriticDebateData, DebateStatement } from '@/utils/pipeline';
+
+interface CriticDebateProps {
+  debate: CriticDebateData;
+}
+
+function Statement({ statement, label }: { statement: DebateStatement; label: string }) {
+  const critic = getCriticInfo(statement.critic);
+
+  return (
+    <div className={`border-l-4 ${critic.classes.border} ${critic.classes.tint} p-6`}>
+      <div className="flex items-center gap-3 mb-4">
+        <div className={`w-10 h-10 rounded-full overflow-hidden border-2 ${critic.classes.border} bg-zinc-200`}>
+          <img src={critic.avatar} alt={statement.criticName} />
+        </div>
+        <div>
+          <div className="text-xs font-black uppercase tracking-widest text-zinc-500">{label}</div>
+          <div className="font-black uppercase tracking-wider">{statement.criticName}</div>
+        </div>
+        {statement.score !== undefined && (
+          <div className={`ml-auto ${critic.classes.bg} text-zinc-900 font-black px-3 py-1 border-2 border-zinc-900`}>
+            Deserves {statement.score.toFixed(1)}
+          </div>
+        )}
+      </div>
+      <h4 className="text-2xl font-black leading-tight mb-3">{statement.headline}</h4>
+      {statement.body.map((para, i) => (
+        <p key={i} className="mb-3 text-zinc-800">{para}</p>
+      ))}
+    </div>
+  );
+}
+
+export default function CriticDebate({ debate }: CriticDebateProps) {
+  return (
+    <section className="bg-white border-2 border-zinc-900 p-8 md:p-12 shadow-[8px_8px_0px_0px_rgba(24,24,27,1)] mb-16">
+      <h3 className="text-2xl font-black uppercase tracking-tight mb-8 flex items-center gap-3">
+        <Swords className="w-6 h-6" />
+        The Debate
+      </h3>
+      <div className="space-y-6">
+        <Statement statement={debate.rebuttal} label="Rebuttal" />
+        <Statement statement={debate.counterRebuttal} label="Counter-Rebuttal" />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+interface NotFoundProps {
+  title?: string;
+  message?: string;
+}
+
+export default function NotFound({
+  title = 'Page Not Found',
+  message = 'Whatever was here has been pulped.',
+}: NotFoundProps) {
+  return (
+    <div className="min-h-screen bg-[#f4f1ea] text-zinc-900 font-serif flex items-center justify-center p-4">
+      <div className="bg-white border-4 border-zinc-900 p-8 md:p-12 shadow-[8px_8px_0px_0px_rgba(24,24,27,1)] max-w-lg text-center">
+        <div className="text-7xl font-black tracking-tighter leading-none mb-4">404</div>
+        <h1 className="text-2xl font-black uppercase mb-3">{title}</h1>
+        <p className="text-lg italic text-zinc-600 mb-8">{message}</p>
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 border-2 border-zinc-900 px-4 py-2 font-black uppercase text-sm hover:bg-zinc-100 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to The Smudged Pamphlet
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { getCriticInfo } from '@/utils/critics';
+import type { PanelResult, PanelVerdict } from '@/utils/pipeline';
+
+interface PanelScoreboardProps {
+  panel: PanelResult;
+}
+
+const VERDICT_LABELS: Record<PanelVerdict, { label: string; className: string }> = {
+  consensus: { label: 'Consensus', className: 'bg-green-600' },
+  split: { label: 'Split Decision', className: 'bg-amber-500' },
+  divided: { label: 'Open Warfare', className: 'bg-red-600' },
+};
+
+export default function PanelScoreboard({ panel }: PanelScoreboardProps) {
+  const { summary, reviews } = panel;
+  const verdict = VERDICT_LABELS[summary.verdict];
+
+  return (
+    <div className="bg-white border-4 border-zinc-900 p-6 mb-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <Scale className="w-5 h-5" />
+        <span className="text-xs font-black uppercase tracking-widest text-zinc-500">The Panel</span>
+        <span className={`text-xs font-black uppercase text-white px-2 py-0.5 rounded-sm ${verdict.className}`}>
+          {verdict.label}
+        </span>
+        <span className="text-xs text-zinc-500">
+          Average {summary.average.toFixed(1)} · Spread {summary.spread.toFixed(1)}
+        </span>
+      </div>
+      <p className="font-medium text-zinc-800 mb-6">{summary.summary}</p>
+
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.min(reviews.length, 4)}, minmax(0, 1fr))` }}>
+        {reviews.map((review, i) => {
+          const critic = getCriticInfo(review.critic || 'music');
+          return (
+            <div key={`${critic.id}-${i}`} className={`border-2 ${critic.classes.border} p-4 flex flex-col items-center text-center`}>
+              <div className={`w-12 h-12 rounded-full overflow-hidden border-2 ${critic.classes.border} bg-zinc-200 mb-2`}>
+                <img src={critic.avatar} alt={critic.name} />
+              </div>
+              <div className="font-black uppercase text-sm tracking-wider">{review.criticName || critic.name}</div>
+              {i === 0 && <div className="text-[10px] uppercase text-zinc-400">Lead Critic</div>}
+              <div className={`my-3 w-16 h-16 ${critic.classes.bg} text-zinc-900 rounded-full flex items-center justify-center border-2 border-zinc-900`}>
+                <span className="text-2xl font-black tracking-tighter">{review.score.toFixed(1)}</span>
+              </div>
+              <p className="text-sm italic text-zinc-600">{review.summary}</p>
+              {i > 0 && (
+                <details className="mt-3 text-left text-sm text-zinc-700 w-full">
+                  <summary className="cursor-pointer font-bold uppercase text-xs text-zinc-500">Full review</summary>
+                  {review.body.map((para, j) => (
+                    <p key={j} className="mt-2">{para}</p>
+                  ))}
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Disc3, ChevronDown, ChevronRight } from 'lucide-react';
+import AudioPlayer from './AudioPlayer';
+import type { AlbumTrack } from '@/utils/models';
+import type { TrackVerdict } from '@/utils/pipeline';
+
+interface TracklistProps {
+  tracklist: AlbumTrack[];
+  verdicts?: TrackVerdict[];
+  albumArt?: string;
+  // Fetches a track's audio when it's first opened; undefined when it's no longer stored
+  loadTrack: (track: AlbumTrack, index: number) => Promise<Blob | undefined>;
+}
+
+const MINI_WAVEFORM_BARS = 40;
+
+// Every nth sample, so a long waveform still fits in a row
+function thinWaveform(waveform: number[]): number[] {
+  const step = Math.max(1, Math.floor(waveform.length / MINI_WAVEFORM_BARS));
+  return waveform.filter((_, i) => i % step === 0).slice(0, MINI_WAVEFORM_BARS);
+}
+
+export default function Tracklist({ tracklist, verdicts, albumArt, loadTrack }: TracklistProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [audioUrls, setAudioUrls] = useState<Record<number, string | null>>({});
+  const createdUrls = useRef<string[]>([]);
+
+  useEffect(() => {
+    const urls = createdUrls.current;
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const toggleTrack = async (index: number) => {
+    if (openIndex === index) {
+      setOpenIndex(null);
+      return;
+    }
+    setOpenIndex(index);
+    if (index in audioUrls) return;
+
+    let url: string | null = null;
+    try {
+      const blob = await loadTrack(tracklist[index], index);
+      if (blob) {
+        url = URL.createObjectURL(blob);
+        createdUrls.current.push(url);
+      }
+    } catch (e) {
+      console.error(`Failed to load track ${index + 1}`, e);
+    }
+    setAudioUrls(prev => ({ ...prev, [index]: url }));
+  };
+
+  return (
+    <div className="bg-white border-4 border-zinc-900 p-6 mb-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+      <div className="flex items-center gap-3 mb-4">
+        <Disc3 className="w-5 h-5" />
+        <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Tracklist</span>
+        <span className="text-xs text-zinc-500">{tracklist.length} tracks</span>
+      </div>
+
+      <ol className="divide-y-2 divide-zinc-200">
+        {tracklist.map((track, i) => {
+          const verdict = verdicts?.find(v => v.track === i + 1);
+          const isOpen = openIndex === i;
+          const audioUrl = audioUrls[i];
+          return (
+            <li key={track.mediaId} className="py-3">
+              <button
+                onClick={() => toggleTrack(i)}
+                className="w-full flex items-center gap-4 text-left hover:bg-zinc-50"
+                aria-expanded={isOpen}
+              >
+                {isOpen ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                <span className="w-6 font-mono text-sm text-zinc-500">{i + 1}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block font-bold truncate">{track.title}</span>
+                  {verdict?.verdict && <span className="block text-sm italic text-zinc-600">{verdict.verdict}</span>}
+                </span>
+                {track.waveformData && track.waveformData.length > 0 && (
+                  <span className="hidden md:flex h-6 w-32 items-center gap-px" aria-hidden="true">
+                    {thinWaveform(track.waveformData).map((value, j) => (
+                      <span key={j} className="flex-1 bg-zinc-400" style={{ height: `${Math.max(value * 100, 8)}%` }} />
+                    ))}
+                  </span>
+                )}
+                {verdict && (
+                  <span className="w-12 h-12 shrink-0 bg-amber-400 rounded-full flex items-center justify-center border-2 border-zinc-900">
+                    <span className="text-lg font-black tracking-tighter">{verdict.score.toFixed(1)}</span>
+                  </span>
+                )}
+              </button>
+
+              {isOpen && (
+                <div className="mt-3">
+                  {audioUrl === undefined ? (
+                    <p className="text-sm font-mono text-zinc-500">Loading track...</p>
+                  ) : audioUrl === null ? (
+                    <p className="text-sm font-mono text-zinc-500">This track&apos;s audio is no longer stored.</p>
+                  ) : (
+                    <AudioPlayer
+                      audioUrl={audioUrl}
+                      audioFileName={track.fileName}
+                      albumArt={albumArt}
+                      waveformData={track.waveformData}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollText, Search } from 'lucide-react';
+import { Transcript, formatTimestamp, searchTranscript, activeSegmentIndex } from '@/utils/transcript';
+
+interface TranscriptPanelProps {
+  transcript: Transcript;
+  currentTime?: number; // Highlights the line being spoken
+  onSeek?: (seconds: number) => void; // Makes the timestamps clickable
+}
+
+// Wraps each occurrence of the query's words in <mark>
+function highlight(text: string, query: string): React.ReactNode {
+  const words = query.trim().split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return text;
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) => (i % 2 === 1 ? <mark key={i} className="bg-amber-300">{part}</mark> : part));
+}
+
+export default function TranscriptPanel({ transcript, currentTime, onSeek }: TranscriptPanelProps) {
+  const [query, setQuery] = useState('');
+  const { segments } = transcript;
+
+  const matches = useMemo(() => searchTranscript(segments, query), [segments, query]);
+  const shown = query.trim() ? matches : segments.map((_, i) => i);
+  const active = currentTime === undefined ? -1 : activeSegmentIndex(segments, currentTime);
+
+  return (
+    <div className="bg-white border-4 border-zinc-900 p-6 mb-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <ScrollText className="w-5 h-5" />
+        <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Transcript</span>
+        <span className="text-xs text-zinc-500">
+          {transcript.source === 'captions' ? 'From the captions' : 'Transcribed by the desk'}
+          {transcript.language ? ` · ${transcript.language}` : ''}
+        </span>
+      </div>
+
+      <label className="flex items-center gap-2 border-2 border-zinc-900 px-3 py-2 mb-2">
+        <Search className="w-4 h-4 text-zinc-500" />
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search the transcript"
+          aria-label="Search the transcript"
+          className="flex-1 bg-transparent outline-none text-sm"
+        />
+      </label>
+      {query.trim() && (
+        <p className="text-xs text-zinc-500 mb-2">{matches.length === 1 ? '1 match' : `${matches.length} matches`}</p>
+      )}
+
+      <ol className="max-h-96 overflow-y-auto divide-y divide-zinc-200">
+        {shown.map(i => {
+          const segment = segments[i];
+          return (
+            <li key={i} className={`py-2 flex gap-3 text-sm ${i === active ? 'bg-amber-100' : ''}`}>
+              {onSeek ? (
+                <button
+                  onClick={() => onSeek(segment.start)}
+                  className="w-16 shrink-0 font-mono text-xs text-zinc-500 hover:text-zinc-900 hover:underline text-left"
+                >
+                  {formatTimestamp(segment.start)}
+                </button>
+              ) : (
+                <span className="w-16 shrink-0 font-mono text-xs text-zinc-500">{formatTimestamp(segment.start)}</span>
+              )}
+              <span>{highlight(segment.text, query)}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
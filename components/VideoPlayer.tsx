@@ -0,0 +1,174 @@
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { Play, Pause } from 'lucide-react';
+import AnnotationList from './AnnotationList';
+import type { Annotation } from '@/utils/pipeline';
+import { captureFrames, frameTimes, posterTime } from '@/utils/video';
+
+interface VideoPlayerProps {
+  videoUrl?: string;
+  videoFileName?: string;
+  annotations?: Annotation[]; // The critic's moments, as markers on the scrubber
+  seekRequest?: { seconds: number }; // A new object jumps there and plays, e.g. from a transcript
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+export default function VideoPlayer({ videoUrl, videoFileName, annotations, seekRequest, onTimeUpdate }: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [poster, setPoster] = useState<string | undefined>();
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const updateTime = () => {
+      setCurrentTime(video.currentTime);
+      onTimeUpdate?.(video.currentTime);
+    };
+    const updateDuration = () => setDuration(video.duration);
+    const handleEnded = () => setIsPlaying(false);
+
+    video.addEventListener('timeupdate', updateTime);
+    video.addEventListener('loadedmetadata', updateDuration);
+    video.addEventListener('ended', handleEnded);
+
+    return () => {
+      video.removeEventListener('timeupdate', updateTime);
+      video.removeEventListener('loadedmetadata', updateDuration);
+      video.removeEventListener('ended', handleEnded);
+    };
+  }, [videoUrl, onTimeUpdate]);
+
+  // Poster and thumbnail strip, read from the file once its length is known
+  useEffect(() => {
+    setPoster(undefined);
+    setThumbnails([]);
+    if (!videoUrl || !(duration > 0)) return;
+
+    let cancelled = false;
+    captureFrames(videoUrl, [posterTime(duration), ...frameTimes(duration)])
+      .then(([first, ...strip]) => {
+        if (cancelled) return;
+        setPoster(first);
+        setThumbnails(strip);
+      })
+      .catch(e => console.error('Failed to extract video frames', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [videoUrl, duration]);
+
+  // Stable, so the effect below only runs for a new seek request
+  const seekTo = useCallback((seconds: number, play = true) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    setCurrentTime(seconds);
+    if (play) {
+      video.play();
+      setIsPlaying(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (seekRequest) seekTo(seekRequest.seconds);
+  }, [seekRequest, seekTo]);
+
+  const togglePlay = () => {
+    if (!videoRef.current) return;
+    if (isPlaying) {
+      videoRef.current.pause();
+    } else {
+      videoRef.current.play();
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const step = thumbnails.length > 0 ? duration / thumbnails.length : 0;
+
+  return (
+    <div className="bg-zinc-100 border-2 border-zinc-900 p-6 rounded-sm mb-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+      <div className="font-mono text-sm text-zinc-600 mb-2">
+        {videoFileName ? `[VIDEO: ${videoFileName}]` : videoUrl ? '[VIDEO]' : '[NO VIDEO AVAILABLE]'}
+      </div>
+
+      {videoUrl && (
+        <>
+          <div className="aspect-video w-full bg-black cursor-pointer" onClick={togglePlay}>
+            <video ref={videoRef} src={videoUrl} poster={poster} playsInline className="w-full h-full" />
+          </div>
+
+          {/* Thumbnail strip: each frame stands for its stretch of the video */}
+          {thumbnails.length > 0 && (
+            <div className="flex gap-1 mt-2">
+              {thumbnails.map((thumbnail, i) => (
+                <button
+                  key={i}
+                  onClick={() => seekTo(i * step, false)}
+                  aria-label={`Jump to ${formatTime(i * step)}`}
+                  className={`flex-1 border-2 ${
+                    currentTime >= i * step && currentTime < (i + 1) * step ? 'border-amber-500' : 'border-transparent'
+                  }`}
+                >
+                  <img src={thumbnail} alt="" className="w-full aspect-video object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Scrubber, with annotation markers above it */}
+          <div className="relative mt-4 pt-3">
+            {duration > 0 && annotations?.filter(annotation => annotation.time <= duration).map((annotation, i) => (
+              <button
+                key={i}
+                onClick={() => seekTo(annotation.time)}
+                title={`${formatTime(annotation.time)} – ${annotation.note}`}
+                aria-label={`Jump to ${formatTime(annotation.time)}: ${annotation.note}`}
+                className="absolute top-0 w-2 h-3 -ml-1 bg-amber-500 hover:bg-amber-600"
+                style={{ left: `${(annotation.time / duration) * 100}%` }}
+              />
+            ))}
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.1}
+              value={currentTime}
+              onChange={e => seekTo(Number(e.target.value), false)}
+              aria-label="Scrub through the video"
+              className="w-full accent-zinc-900"
+            />
+          </div>
+
+          {/* Playback Controls */}
+          <div className="flex items-center gap-4 mt-2">
+            <button
+              onClick={togglePlay}
+              className="w-10 h-10 bg-zinc-900 text-white flex items-center justify-center rounded-full hover:scale-105 transition-transform shadow-md"
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+            </button>
+
+            <div className="flex-1 text-xs font-mono text-zinc-500">
+              {formatTime(currentTime)} / {formatTime(duration)}
+            </div>
+          </div>
+        </>
+      )}
+
+      {annotations && annotations.length > 0 && (
+        <AnnotationList annotations={annotations} currentTime={currentTime} onSeek={videoUrl ? seekTo : undefined} />
+      )}
+    </div>
+  );
+}
+
+function formatTime(seconds: number): string {
+  if (!isFinite(seconds)) return '0:00';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
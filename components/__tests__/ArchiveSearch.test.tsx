@@ -0,0 +1,50 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ArchiveSearch from '../ArchiveSearch';
+
+describe('ArchiveSearch Component', () => {
+  const facets = { critics: { music: 3, film: 1 }, mediaTypes: { audio: 3, youtube: 1 } };
+
+  it('should only offer facets with matches, with their counts', () => {
+    render(<ArchiveSearch query="" filters={{}} facets={facets} onQueryChange={jest.fn()} onFiltersChange={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: /Julian Pinter 3/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /YouTube 1/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Margot Ashford/ })).not.toBeInTheDocument();
+    expect(screen.queryByText('Clear filters')).not.toBeInTheDocument();
+  });
+
+  it('should toggle facets and clear filters', () => {
+    const onFiltersChange = jest.fn();
+    const { rerender } = render(
+      <ArchiveSearch query="" filters={{}} facets={facets} onQueryChange={jest.fn()} onFiltersChange={onFiltersChange} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Rex Beaumont/ }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ critics: ['film'] });
+
+    rerender(
+      <ArchiveSearch query="" filters={{ critics: ['film'], minScore: 4 }} facets={facets} onQueryChange={jest.fn()} onFiltersChange={onFiltersChange} />
+    );
+    fireEvent.click(screen.getByRole('button', { name: /Rex Beaumont/ }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ critics: [], minScore: 4 });
+
+    fireEvent.click(screen.getByText('Clear filters'));
+    expect(onFiltersChange).toHaveBeenLastCalledWith({});
+  });
+
+  it('should report typed queries and score bounds', () => {
+    const onQueryChange = jest.fn();
+    const onFiltersChange = jest.fn();
+    render(<ArchiveSearch query="" filters={{}} facets={facets} onQueryChange={onQueryChange} onFiltersChange={onFiltersChange} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search reviews and comments...'), { target: { value: 'lighthouse' } });
+    fireEvent.change(screen.getByLabelText('Minimum score'), { target: { value: '6' } });
+
+    expect(onQueryChange).toHaveBeenCalledWith('lighthouse');
+    expect(onFiltersChange).toHaveBeenCalledWith({ minScore: 6 });
+  });
+});
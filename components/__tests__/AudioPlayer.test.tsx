@@ -0,0 +1,62 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import AudioPlayer from '../AudioPlayer';
+
+const annotations = [
+  { time: 12, note: 'The first sign of trouble' },
+  { time: 134, note: 'The bridge collapses' },
+];
+const waveform = [0.2, 0.8, 0.5, 0.3];
+
+// jsdom has no media playback: give the element a length and a no-op play()
+function loadAudio(container: HTMLElement, duration: number): HTMLAudioElement {
+  const audio = container.querySelector('audio')!;
+  Object.defineProperty(audio, 'duration', { value: duration });
+  audio.play = jest.fn().mockResolvedValue(undefined);
+  fireEvent(audio, new Event('loadedmetadata'));
+  return audio;
+}
+
+describe('AudioPlayer Component', () => {
+  it('should mark each annotation on the waveform once the length is known', () => {
+    const { container } = render(<AudioPlayer audioUrl="blob:song" waveformData={waveform} annotations={annotations} />);
+
+    expect(screen.queryByLabelText('Jump to 2:14: The bridge collapses')).not.toBeInTheDocument();
+    loadAudio(container, 268);
+
+    const marker = screen.getByLabelText('Jump to 2:14: The bridge collapses');
+    expect(marker).toHaveStyle({ left: '50%' });
+    expect(marker).toHaveAttribute('title', '2:14 – The bridge collapses');
+  });
+
+  it('should seek and play when a marker or listed moment is clicked', () => {
+    const { container } = render(<AudioPlayer audioUrl="blob:song" waveformData={waveform} annotations={annotations} />);
+    const audio = loadAudio(container, 200);
+
+    fireEvent.click(screen.getByLabelText('Jump to 2:14: The bridge collapses'));
+    expect(audio.currentTime).toBe(134);
+    expect(audio.play).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('The first sign of trouble'));
+    expect(audio.currentTime).toBe(12);
+  });
+
+  it('should seek when asked from outside', () => {
+    const { container, rerender } = render(<AudioPlayer audioUrl="blob:song" />);
+    const audio = loadAudio(container, 200);
+
+    rerender(<AudioPlayer audioUrl="blob:song" seekRequest={{ seconds: 42 }} />);
+
+    expect(audio.currentTime).toBe(42);
+  });
+
+  it('should list annotations without seeking when there is no audio', () => {
+    render(<AudioPlayer annotations={annotations} />);
+
+    expect(screen.getByText('The bridge collapses')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
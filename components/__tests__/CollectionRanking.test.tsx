@@ -0,0 +1,33 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import CollectionRanking from '../CollectionRanking';
+import { rankCollection } from '@/utils/pipeline';
+
+const entry = (position: number, title: string, score: number) => ({
+  position,
+  videoId: `video${position}abcd`.slice(0, 11),
+  title,
+  score,
+  summary: `${title} summary`,
+  criticName: 'Rex Beaumont',
+});
+
+describe('CollectionRanking Component', () => {
+  it('should list the videos best first with the average', () => {
+    const ranked = rankCollection([entry(1, 'Weak Opener', 3), entry(2, 'Strong Closer', 8)]);
+    render(
+      <CollectionRanking
+        collection={{ kind: 'playlist', title: 'Mixtape', sourceUrl: 'https://www.youtube.com/playlist?list=PL1', ...ranked }}
+      />
+    );
+
+    expect(screen.getByText('Playlist Ranking')).toBeInTheDocument();
+    expect(screen.getByText(/Average 5.5/)).toBeInTheDocument();
+    const titles = screen.getAllByRole('link').map(link => link.textContent);
+    expect(titles).toEqual(['Mixtape', 'Strong Closer', 'Weak Opener']);
+    expect(screen.getByText('#1').closest('li')).toHaveTextContent('8.0');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import CriticDebate from '../CriticDebate';
+
+const debate = {
+  rebuttal: {
+    critic: 'film' as const,
+    criticName: 'Rex Beaumont',
+    headline: 'Julian Heard It Wrong',
+    body: ['The visuals carry the song.'],
+    score: 7.5,
+  },
+  counterRebuttal: {
+    critic: 'music' as const,
+    criticName: 'Julian Pinter',
+    headline: 'Rex Watched It With The Sound Off',
+    body: ['A music video is still music.'],
+  },
+};
+
+describe('CriticDebate Component', () => {
+  it('should render the rebuttal and the counter-rebuttal in order', () => {
+    render(<CriticDebate debate={debate} />);
+
+    const headlines = screen.getAllByRole('heading', { level: 4 }).map(h => h.textContent);
+    expect(headlines).toEqual(['Julian Heard It Wrong', 'Rex Watched It With The Sound Off']);
+    expect(screen.getByText('The visuals carry the song.')).toBeInTheDocument();
+    expect(screen.getByText('A music video is still music.')).toBeInTheDocument();
+  });
+
+  it('should only show a score for the rebuttal', () => {
+    render(<CriticDebate debate={debate} />);
+
+    expect(screen.getAllByText(/Deserves/)).toHaveLength(1);
+    expect(screen.getByText('Deserves 7.5')).toBeInTheDocument();
+  });
+});
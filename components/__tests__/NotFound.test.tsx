@@ -0,0 +1,16 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import NotFound from '../NotFound';
+
+describe('NotFound Component', () => {
+  it('should explain what is missing and link home', () => {
+    render(<NotFound title="Review Not Found" message="No review lives at this address." />);
+
+    expect(screen.getByRole('heading', { name: 'Review Not Found' })).toBeInTheDocument();
+    expect(screen.getByText('No review lives at this address.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /Back to The Smudged Pamphlet/ })).toHaveAttribute('href', '/');
+  });
+});
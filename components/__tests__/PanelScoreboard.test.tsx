@@ -0,0 +1,42 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import PanelScoreboard from '../PanelScoreboard';
+import { summarizePanel, ReviewData } from '@/utils/pipeline';
+
+function review(critic: 'music' | 'film', score: number, criticName: string): ReviewData {
+  return {
+    title: 'Clip',
+    artist: 'Band',
+    score,
+    summary: `${criticName} summary`,
+    body: [`${criticName} body`],
+    notable_lyrics_quoted: '',
+    critic,
+    criticName,
+  };
+}
+
+describe('PanelScoreboard Component', () => {
+  it('should show every score side by side with the verdict', () => {
+    const reviews = [review('music', 2, 'Julian Pinter'), review('film', 8.5, 'Rex Beaumont')];
+    render(<PanelScoreboard panel={{ reviews, summary: summarizePanel(reviews) }} />);
+
+    expect(screen.getByText('2.0')).toBeInTheDocument();
+    expect(screen.getByText('8.5')).toBeInTheDocument();
+    expect(screen.getByText('Open Warfare')).toBeInTheDocument();
+    expect(screen.getByText(/Rex Beaumont \(8.5\) and Julian Pinter \(2.0\) are 6.5 points apart/)).toBeInTheDocument();
+  });
+
+  it('should only offer the full text of guest reviews', () => {
+    const reviews = [review('music', 5, 'Julian Pinter'), review('film', 5.5, 'Rex Beaumont')];
+    render(<PanelScoreboard panel={{ reviews, summary: summarizePanel(reviews) }} />);
+
+    expect(screen.getByText('Consensus')).toBeInTheDocument();
+    expect(screen.getAllByText('Full review')).toHaveLength(1);
+    expect(screen.getByText('Rex Beaumont body')).toBeInTheDocument();
+    expect(screen.queryByText('Julian Pinter body')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import Tracklist from '../Tracklist';
+import type { AlbumTrack } from '@/utils/models';
+
+const tracklist: AlbumTrack[] = [
+  { mediaId: 'r1-t1', title: 'Opener', fileName: '01 opener.mp3', waveformData: [0.2, 0.8] },
+  { mediaId: 'r1-t2', title: 'Closer', fileName: '02 closer.mp3' },
+];
+
+describe('Tracklist Component', () => {
+  beforeEach(() => {
+    URL.createObjectURL = jest.fn(() => 'blob:track');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  it('should list every track with its mini-score and verdict', () => {
+    render(
+      <Tracklist
+        tracklist={tracklist}
+        verdicts={[{ track: 2, title: 'Closer', score: 7.5, verdict: 'Earns the ending' }]}
+        loadTrack={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Opener')).toBeInTheDocument();
+    expect(screen.getByText('Closer')).toBeInTheDocument();
+    expect(screen.getByText('7.5')).toBeInTheDocument();
+    expect(screen.getByText('Earns the ending')).toBeInTheDocument();
+  });
+
+  it('should load a track only when it is opened', async () => {
+    const loadTrack = jest.fn().mockResolvedValue(new Blob(['audio']));
+    render(<Tracklist tracklist={tracklist} loadTrack={loadTrack} />);
+
+    expect(loadTrack).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByText('Opener'));
+
+    expect(await screen.findByText('[AUDIO: 01 opener.mp3]')).toBeInTheDocument();
+    expect(loadTrack).toHaveBeenCalledWith(tracklist[0], 0);
+
+    // Closing and reopening reuses the loaded audio
+    fireEvent.click(screen.getByText('Opener'));
+    fireEvent.click(screen.getByText('Opener'));
+    expect(loadTrack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should say when a track is no longer stored', async () => {
+    render(<Tracklist tracklist={tracklist} loadTrack={jest.fn().mockResolvedValue(undefined)} />);
+
+    fireEvent.click(screen.getByText('Closer'));
+
+    expect(await screen.findByText(/no longer stored/)).toBeInTheDocument();
+  });
+});
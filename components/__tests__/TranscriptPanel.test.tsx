@@ -0,0 +1,47 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import TranscriptPanel from '../TranscriptPanel';
+import type { Transcript } from '@/utils/transcript';
+
+const transcript: Transcript = {
+  source: 'model',
+  language: 'en',
+  segments: [
+    { start: 0, text: 'Good evening' },
+    { start: 134, text: 'The bridge collapses' },
+  ],
+};
+
+describe('TranscriptPanel Component', () => {
+  it('should list every line with its timestamp', () => {
+    render(<TranscriptPanel transcript={transcript} />);
+
+    expect(screen.getByText('Transcribed by the desk · en')).toBeInTheDocument();
+    expect(screen.getByText('2:14')).toBeInTheDocument();
+    expect(screen.getByText('Good evening')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('should filter to matching lines and highlight the words', () => {
+    const { container } = render(<TranscriptPanel transcript={transcript} />);
+
+    fireEvent.change(screen.getByLabelText('Search the transcript'), { target: { value: 'bridge' } });
+
+    expect(screen.getByText('1 match')).toBeInTheDocument();
+    expect(screen.queryByText('Good evening')).not.toBeInTheDocument();
+    expect(container.querySelector('mark')).toHaveTextContent('bridge');
+  });
+
+  it('should seek to a line when its timestamp is clicked', () => {
+    const onSeek = jest.fn();
+    render(<TranscriptPanel transcript={transcript} onSeek={onSeek} currentTime={140} />);
+
+    fireEvent.click(screen.getByText('2:14'));
+
+    expect(onSeek).toHaveBeenCalledWith(134);
+    expect(screen.getByText('The bridge collapses').closest('li')).toHaveClass('bg-amber-100');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import VideoPlayer from '../VideoPlayer';
+import { captureFrames } from '@/utils/video';
+
+// jsdom cannot decode video, so the frames come back as placeholders
+jest.mock('@/utils/video', () => ({
+  ...jest.requireActual('@/utils/video'),
+  captureFrames: jest.fn((src: string, times: number[]) => Promise.resolve(times.map(time => `data:image/jpeg;frame-${time}`))),
+}));
+
+const annotations = [
+  { time: 12, note: 'The first sign of trouble' },
+  { time: 60, note: 'The bridge collapses' },
+];
+
+// jsdom has no media playback: give the element a length and a no-op play()
+function loadVideo(container: HTMLElement, duration: number): HTMLVideoElement {
+  const video = container.querySelector('video')!;
+  Object.defineProperty(video, 'duration', { value: duration });
+  video.play = jest.fn().mockResolvedValue(undefined);
+  fireEvent(video, new Event('loadedmetadata'));
+  return video;
+}
+
+describe('VideoPlayer Component', () => {
+  it('should read a poster and a thumbnail strip from the file', async () => {
+    const { container } = render(<VideoPlayer videoUrl="blob:film" videoFileName="film.mp4" />);
+    loadVideo(container, 80);
+
+    await waitFor(() => expect(container.querySelector('video')).toHaveAttribute('poster', 'data:image/jpeg;frame-5'));
+    expect(captureFrames).toHaveBeenCalledWith('blob:film', [5, 5, 15, 25, 35, 45, 55, 65, 75]);
+    expect(container.querySelectorAll('img')).toHaveLength(8);
+    expect(screen.getByText('[VIDEO: film.mp4]')).toBeInTheDocument();
+  });
+
+  it('should jump to a thumbnail and scrub without starting playback', async () => {
+    const { container } = render(<VideoPlayer videoUrl="blob:film" />);
+    const video = loadVideo(container, 80);
+
+    fireEvent.click(await screen.findByLabelText('Jump to 0:30'));
+    expect(video.currentTime).toBe(30);
+
+    fireEvent.change(screen.getByLabelText('Scrub through the video'), { target: { value: '42' } });
+    expect(video.currentTime).toBe(42);
+    expect(video.play).not.toHaveBeenCalled();
+  });
+
+  it('should mark annotations on the scrubber and play from them', async () => {
+    const { container } = render(<VideoPlayer videoUrl="blob:film" annotations={annotations} />);
+    const video = loadVideo(container, 120);
+
+    const marker = screen.getByLabelText('Jump to 1:00: The bridge collapses');
+    expect(marker).toHaveStyle({ left: '50%' });
+    fireEvent.click(marker);
+    expect(video.currentTime).toBe(60);
+    expect(video.play).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('The first sign of trouble'));
+    expect(video.currentTime).toBe(12);
+    await waitFor(() => expect(container.querySelector('video')).toHaveAttribute('poster'));
+  });
+
+  it('should seek when asked from outside', async () => {
+    const { container, rerender } = render(<VideoPlayer videoUrl="blob:film" />);
+    const video = loadVideo(container, 120);
+
+    rerender(<VideoPlayer videoUrl="blob:film" seekRequest={{ seconds: 42 }} />);
+
+    expect(video.currentTime).toBe(42);
+    await waitFor(() => expect(container.querySelector('video')).toHaveAttribute('poster'));
+  });
+});
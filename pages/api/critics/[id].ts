@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileStore, StoreError } from '@/utils/fileStore';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+  const id = req.query.id as string;
+
+  try {
+    if (req.method === 'GET') {
+      const critic = await store.get('critics', id);
+      if (!critic) {
+        return res.status(404).json({ error: 'Critic not found' });
+      }
+      return res.status(200).json({ critic });
+    }
+
+    // Reviews keep their own copy of the critic, so they still render afterwards
+    if (req.method === 'DELETE') {
+      if (!(await store.remove('critics', id))) {
+        return res.status(404).json({ error: 'Critic not found' });
+      }
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Critic store error:', error);
+    return res.status(500).json({ error: 'Failed to access critic store' });
+  }
+}
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileStore, StoreError } from '@/utils/fileStore';
+import { validateCustomCritic } from '@/utils/critics';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+
+  try {
+    if (req.method === 'GET') {
+      const critics = await store.list('critics');
+      return res.status(200).json({ critics });
+    }
+
+    // Create or replace: the form sends the whole spec on every save
+    if (req.method === 'POST') {
+      const { ok, value, errors } = validateCustomCritic(req.body);
+      if (!ok || !value) {
+        return res.status(400).json({ error: `Invalid critic: ${errors.join('; ')}` });
+      }
+
+      const saved = await store.put('critics', value);
+      return res.status(201).json({ critic: saved });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Critic store error:', error);
+    return res.status(500).json({ error: 'Failed to access critic store' });
+  }
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileStore, StoreError } from '@/utils/fileStore';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb',
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+  const id = req.query.id as string;
+
+  try {
+    if (req.method === 'GET') {
+      const editorial = await store.get('editorials', id);
+      if (!editorial) {
+        return res.status(404).json({ error: 'Editorial not found' });
+      }
+      return res.status(200).json({ editorial });
+    }
+
+    if (req.method === 'PATCH') {
+      if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Patch body must be an object' });
+      }
+
+      const editorial = await store.update('editorials', id, req.body);
+      if (!editorial) {
+        return res.status(404).json({ error: 'Editorial not found' });
+      }
+      return res.status(200).json({ editorial });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await store.remove('editorials', id))) {
+        return res.status(404).json({ error: 'Editorial not found' });
+      }
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Editorial store error:', error);
+    return res.status(500).json({ error: 'Failed to access editorial store' });
+  }
+}
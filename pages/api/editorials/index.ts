@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileStore, StoreError, StoredRecord } from '@/utils/fileStore';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb',
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+
+  try {
+    if (req.method === 'GET') {
+      const editorials = await store.list('editorials');
+      return res.status(200).json({ editorials });
+    }
+
+    if (req.method === 'POST') {
+      const editorial = req.body as StoredRecord;
+
+      if (!editorial || typeof editorial.id !== 'string' || typeof editorial.title !== 'string') {
+        return res.status(400).json({ error: 'id and title are required' });
+      }
+
+      const saved = await store.put('editorials', editorial);
+      return res.status(201).json({ editorial: saved });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Editorial store error:', error);
+    return res.status(500).json({ error: 'Failed to access editorial store' });
+  }
+}
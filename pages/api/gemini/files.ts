@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLLMProvider, ProviderConfigError, LLMProvider } from '@/utils/llm';
+import { MAX_UPLOAD_BYTES } from '@/utils/api';
+
+// Rate limiting: simple in-memory store (uploads are large, so the allowance is small)
+const requestCounts = new Map<string, { count: number; resetTime: number }>();
+
+const RATE_LIMIT = 20; // uploads per window
+const RATE_WINDOW = 60 * 60 * 1000; // 1 hour
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = requestCounts.get(ip);
+
+  if (!record || now > record.resetTime) {
+    requestCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+// The file is streamed straight through to the provider as the raw request body
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting by IP
+  const ip = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
+  const ipString = Array.isArray(ip) ? ip[0] : ip;
+
+  if (!checkRateLimit(ipString)) {
+    return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
+  }
+
+  // Resumable uploads declare their size before the first byte
+  const sizeBytes = Number(req.headers['content-length']);
+  if (!sizeBytes) {
+    return res.status(411).json({ error: 'Content-Length required' });
+  }
+  if (sizeBytes > MAX_UPLOAD_BYTES) {
+    return res.status(413).json({ error: 'File too large' });
+  }
+
+  const mimeType = req.headers['content-type'];
+  if (!mimeType) {
+    return res.status(400).json({ error: 'Content-Type required' });
+  }
+
+  const fileNameHeader = req.headers['x-file-name'];
+  let displayName: string | undefined;
+  try {
+    displayName = typeof fileNameHeader === 'string' ? decodeURIComponent(fileNameHeader) : undefined;
+  } catch {
+    return res.status(400).json({ error: 'Invalid X-File-Name header' });
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (error) {
+    if (error instanceof ProviderConfigError) {
+      console.error(error.message);
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+    throw error;
+  }
+
+  try {
+    const file = await provider.uploadFile({
+      mimeType,
+      displayName,
+      sizeBytes,
+      data: req,
+    });
+
+    if (file.sizeBytes !== sizeBytes) {
+      return res.status(400).json({ error: `Received ${file.sizeBytes} of ${sizeBytes} bytes` });
+    }
+
+    return res.status(200).json({ file });
+  } catch (error: any) {
+    console.error('File upload error:', error);
+    return res.status(error.status || 500).json({ error: error.message || 'Failed to upload file' });
+  }
+}
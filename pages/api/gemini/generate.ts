@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider, ProviderConfigError, LLMProvider } from '@/utils/llm';
+import { formatSSEEvent } from '@/utils/streaming';
+import type { GeminiGenerateRequest } from '@/utils/api';
 
 // Rate limiting: simple in-memory store
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
@@ -59,6 +61,36 @@ export const config = {
   },
 };
 
+/**
+ * Stream the provider's output as Server-Sent Events.
+ * Each `message` event carries `{ parts }` deltas; the stream ends with a `done` or `error` event.
+ */
+async function streamContent(res: NextApiResponse, provider: LLMProvider, request: GeminiGenerateRequest) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  try {
+    for await (const chunk of provider.generateContentStream(request)) {
+      res.write(formatSSEEvent(chunk));
+    }
+    res.write(formatSSEEvent({}, 'done'));
+  } catch (error: any) {
+    console.error('Gemini API stream error:', error);
+
+    const statusCode = error.status || 500;
+    res.write(formatSSEEvent({
+      error: error.message || 'Failed to generate content',
+      status: statusCode,
+      isOverloaded: statusCode === 503
+    }, 'error'));
+  }
+
+  res.end();
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -75,42 +107,37 @@ export default async function handler(
     return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
   }
 
-  const { model, contents, generationConfig } = req.body;
+  const { model, contents, generationConfig, stream } = req.body;
 
   if (!model || !contents) {
     return res.status(400).json({ error: 'model and contents required' });
   }
 
-  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-
-  if (!GEMINI_API_KEY) {
-    console.error('GEMINI_API_KEY not configured');
-    return res.status(500).json({ error: 'Server configuration error' });
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (error) {
+    if (error instanceof ProviderConfigError) {
+      console.error(error.message);
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+    throw error;
   }
 
-  // Validate API key format (Google API keys start with 'AIza')
-  if (!GEMINI_API_KEY.startsWith('AIza')) {
-    console.error('GEMINI_API_KEY appears to be invalid format');
-    return res.status(500).json({ error: 'Server configuration error' });
+  if (stream) {
+    return streamContent(res, provider, { model, contents, generationConfig });
   }
 
   try {
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    const geminiModel = genAI.getGenerativeModel({ model });
-
-    const result = await geminiModel.generateContent({
+    const { candidates, parts } = await provider.generateContent({
+      model,
       contents,
       generationConfig,
     });
 
-    const response = await result.response;
-
-    // Extract all parts from response
-    const parts = response.candidates?.[0]?.content?.parts || [];
-
     return res.status(200).json({
-      candidates: response.candidates,
-      parts: parts,
+      candidates,
+      parts,
     });
   } catch (error: any) {
     console.error('Gemini API error:', error);
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJobRunner, isFinished, PipelineJob } from '@/utils/jobs';
+import { StoreError } from '@/utils/fileStore';
+import { formatSSEEvent } from '@/utils/streaming';
+
+// Server-Sent Events feed of a job: one `message` event per update, then `done`
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const runner = getJobRunner();
+  const id = req.query.id as string;
+
+  // Subscribe before reading the job, so an update landing in between can't be missed.
+  // Updates before the stream opens are skipped: the job read after them already includes them.
+  let open = false;
+  let closed = false;
+  const send = (update: PipelineJob) => {
+    if (closed) return;
+    res.write(formatSSEEvent(update));
+    if (isFinished(update)) {
+      closed = true;
+      res.write(formatSSEEvent({}, 'done'));
+      unsubscribe();
+      res.end();
+    }
+  };
+  const unsubscribe = runner.subscribe(id, update => {
+    if (open) send(update);
+  });
+
+  let job;
+  try {
+    job = await runner.get(id);
+  } catch (error: any) {
+    unsubscribe();
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Job lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load job' });
+  }
+
+  if (!job) {
+    unsubscribe();
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+  open = true;
+  send(job);
+
+  req.on('close', unsubscribe);
+}
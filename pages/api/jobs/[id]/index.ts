@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJobRunner } from '@/utils/jobs';
+import { StoreError } from '@/utils/fileStore';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const job = await getJobRunner().get(req.query.id as string);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    return res.status(200).json({ job });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Job lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load job' });
+  }
+}
@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJobRunner, validateJobInput } from '@/utils/jobs';
+import { StoreError } from '@/utils/fileStore';
+import { ProviderConfigError } from '@/utils/llm';
+
+// Rate limiting: simple in-memory store (each job makes several AI calls)
+const requestCounts = new Map<string, { count: number; resetTime: number }>();
+
+const RATE_LIMIT = 10; // jobs per window
+const RATE_WINDOW = 60 * 60 * 1000; // 1 hour
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = requestCounts.get(ip);
+
+  if (!record || now > record.resetTime) {
+    requestCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb', // Inline media travels with the job, same as /api/gemini/generate
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting by IP
+  const ip = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
+  const ipString = Array.isArray(ip) ? ip[0] : ip;
+
+  if (!checkRateLimit(ipString)) {
+    return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
+  }
+
+  try {
+    const input = validateJobInput(req.body);
+    const job = await getJobRunner().create(input);
+    return res.status(202).json({ job });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ProviderConfigError) {
+      console.error(error.message);
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+    console.error('Job creation error:', error);
+    return res.status(500).json({ error: 'Failed to start job' });
+  }
+}
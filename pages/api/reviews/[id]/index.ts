@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileStore, StoreError, StoredRecord } from '@/utils/fileStore';
+import { buildReviewSlug } from '@/utils/pipeline';
+import { saveReviewWithUniqueSlug, SluggedReview } from '@/utils/slugs';
+import { mediaIdsFor } from '@/utils/album';
+import type { SavedReview } from '@/utils/models';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb',
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+  const id = req.query.id as string;
+
+  try {
+    if (req.method === 'GET') {
+      const review = await store.get('reviews', id);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      return res.status(200).json({ review });
+    }
+
+    if (req.method === 'PATCH') {
+      if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Patch body must be an object' });
+      }
+
+      const existing = await store.get<StoredRecord & SluggedReview>('reviews', id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+
+      // A new title or artist means a new slug; the old one stays as an alias
+      const merged = { ...existing, ...req.body, id };
+      if (merged.title !== existing.title || merged.artist !== existing.artist) {
+        merged.slug = buildReviewSlug(merged);
+      }
+      const review = await saveReviewWithUniqueSlug(store, merged);
+      return res.status(200).json({ review });
+    }
+
+    if (req.method === 'DELETE') {
+      const existing = await store.get<StoredRecord & SavedReview>('reviews', id);
+      const removed = await store.remove('reviews', id);
+      // Album tracks each have their own media
+      for (const mediaId of existing ? mediaIdsFor(existing) : [id]) {
+        await store.removeMedia(mediaId);
+      }
+      if (!removed) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Review store error:', error);
+    return res.status(500).json({ error: 'Failed to access review store' });
+  }
+}
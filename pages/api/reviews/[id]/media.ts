@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pipeline } from 'stream/promises';
+import { getFileStore, StoreError, normalizeMediaType, isAllowedMediaType } from '@/utils/fileStore';
+import { MAX_UPLOAD_BYTES } from '@/utils/api';
+
+// Media is streamed to disk from the raw request body, not parsed as JSON
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+  const id = req.query.id as string;
+
+  try {
+    if (req.method === 'GET') {
+      const media = await store.openMedia(id);
+      if (!media) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+
+      // Anything that could render as a page on this origin (HTML, SVG, ...) is only ever a download
+      const allowed = isAllowedMediaType(media.meta.mimeType);
+      res.setHeader('Content-Type', allowed ? normalizeMediaType(media.meta.mimeType) : 'application/octet-stream');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      if (!allowed) {
+        res.setHeader('Content-Disposition', 'attachment');
+      }
+      res.setHeader('Content-Length', media.size);
+      if (media.meta.fileName) {
+        res.setHeader('X-File-Name', encodeURIComponent(media.meta.fileName));
+      }
+      // Headers are out once this starts, so a read error can only cut the response short
+      res.status(200);
+      try {
+        await pipeline(media.stream, res);
+      } catch (e) {
+        console.error('Media read error:', e);
+      }
+      return;
+    }
+
+    if (req.method === 'PUT') {
+      const mimeType = normalizeMediaType(req.headers['content-type']);
+      const fileNameHeader = req.headers['x-file-name'];
+      let fileName: string | undefined;
+      try {
+        fileName = typeof fileNameHeader === 'string' ? decodeURIComponent(fileNameHeader) : undefined;
+      } catch {
+        return res.status(400).json({ error: 'Invalid X-File-Name header' });
+      }
+
+      // Turn away what's declared too large before reading any of it
+      if (Number(req.headers['content-length']) > MAX_UPLOAD_BYTES) {
+        return res.status(413).json({ error: 'Media file too large' });
+      }
+
+      const meta = await store.saveMediaStream(id, req, { mimeType, fileName }, MAX_UPLOAD_BYTES);
+      return res.status(200).json({ media: meta });
+    }
+
+    if (req.method === 'DELETE') {
+      await store.removeMedia(id);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Media store error:', error);
+    return res.status(500).json({ error: 'Failed to access media store' });
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileStore, StoreError, StoredRecord } from '@/utils/fileStore';
+import { saveReviewWithUniqueSlug, SluggedReview } from '@/utils/slugs';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb', // Reviews carry album art and waveform data; media goes to /media
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const store = getFileStore();
+
+  try {
+    if (req.method === 'GET') {
+      const reviews = await store.list('reviews');
+      const { slug } = req.query;
+
+      // Optional slug filter for the review page; old slugs a review has moved from count too
+      if (typeof slug === 'string') {
+        return res.status(200).json({ reviews: reviews.filter(r => r.slug === slug || r.slugAliases?.includes(slug)) });
+      }
+
+      return res.status(200).json({ reviews });
+    }
+
+    if (req.method === 'POST') {
+      const review = req.body as StoredRecord & SluggedReview;
+
+      if (!review || typeof review.id !== 'string' || typeof review.slug !== 'string' || !review.review) {
+        return res.status(400).json({ error: 'id, slug and review are required' });
+      }
+
+      // The slug may come back suffixed if another review already has it
+      const saved = await saveReviewWithUniqueSlug(store, review);
+      return res.status(201).json({ review: saved });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error instanceof StoreError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Review store error:', error);
+    return res.status(500).json({ error: 'Failed to access review store' });
+  }
+}
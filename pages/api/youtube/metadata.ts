@@ -1,4 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { isYouTubeVideoId, parseIsoDuration, topicName, classifyVideo } from '@/utils/youtube';
+import type { YouTubeMetadata } from '@/utils/api';
 
 // Rate limiting: simple in-memory store (for production, use Redis)
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
@@ -44,6 +46,9 @@ export default async function handler(
   if (!videoId) {
     return res.status(400).json({ error: 'videoId required' });
   }
+  if (!isYouTubeVideoId(videoId)) {
+    return res.status(400).json({ error: 'Invalid videoId' });
+  }
 
   const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
 
@@ -54,9 +59,8 @@ export default async function handler(
 
   try {
     // Use YouTube Data API v3 to get video details
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?part=snippet,contentDetails&id=${videoId}&key=${YOUTUBE_API_KEY}`
-    );
+    const query = new URLSearchParams({ part: 'snippet,contentDetails,statistics,topicDetails', id: videoId, key: YOUTUBE_API_KEY });
+    const response = await fetch(`https://www.googleapis.com/youtube/v3/videos?${query}`);
 
     if (!response.ok) {
       throw new Error(`YouTube API error: ${response.statusText}`);
@@ -70,43 +74,29 @@ export default async function handler(
 
     const video = data.items[0];
     const snippet = video.snippet;
+    const count = (value: string | undefined) => (value === undefined ? undefined : Number(value));
 
-    // Determine if it's music content
-    const categoryId = snippet.categoryId;
-    const isMusicCategory = categoryId === '10'; // YouTube Music category ID
-
-    // Check tags and title for music keywords
-    const musicKeywords = [
-      'official video', 'official audio', 'music video', 'official music',
-      'lyrics', 'album', 'single', 'EP', 'soundtrack', 'OST',
-      'remix', 'cover', 'acoustic', 'live performance', 'concert',
-      'ft.', 'feat.', 'prod.', 'official mv'
-    ];
-
-    const title = snippet.title.toLowerCase();
-    const description = snippet.description.toLowerCase();
-    const tags = (snippet.tags || []).map((t: string) => t.toLowerCase());
-
-    const hasMusicKeyword = musicKeywords.some(keyword =>
-      title.includes(keyword) ||
-      description.includes(keyword) ||
-      tags.some((tag: string) => tag.includes(keyword))
-    );
-
-    const channelTitle = snippet.channelTitle.toLowerCase();
-    const musicChannelKeywords = ['vevo', 'records', 'music', 'entertainment', 'official'];
-    const isMusicChannel = musicChannelKeywords.some(keyword => channelTitle.includes(keyword));
-
-    const isMusic = isMusicCategory || hasMusicKeyword || isMusicChannel;
-
-    return res.status(200).json({
+    const signals = {
       title: snippet.title,
+      description: snippet.description || '',
       channelTitle: snippet.channelTitle,
-      description: snippet.description,
-      categoryId: categoryId,
-      isMusic: isMusic,
-      thumbnailUrl: snippet.thumbnails.high?.url || snippet.thumbnails.default?.url,
-    });
+      categoryId: snippet.categoryId,
+      tags: snippet.tags || [],
+      topicCategories: (video.topicDetails?.topicCategories || []).map(topicName),
+      durationSeconds: parseIsoDuration(video.contentDetails?.duration),
+    };
+
+    const metadata: YouTubeMetadata = {
+      ...signals,
+      thumbnailUrl: snippet.thumbnails?.high?.url || snippet.thumbnails?.default?.url,
+      publishedAt: snippet.publishedAt,
+      viewCount: count(video.statistics?.viewCount),
+      likeCount: count(video.statistics?.likeCount),
+      hasCaptions: video.contentDetails?.caption === 'true',
+      classification: classifyVideo(signals),
+    };
+
+    return res.status(200).json(metadata);
   } catch (error: any) {
     console.error('YouTube API error:', error);
     return res.status(500).json({ error: 'Failed to fetch video metadata' });
@@ -0,0 +1,132 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { MAX_COLLECTION_ITEMS, YouTubePlaylist, YouTubePlaylistItem } from '@/utils/api';
+import { isYouTubeVideoId } from '@/utils/youtube';
+
+// Rate limiting: simple in-memory store (for production, use Redis)
+const requestCounts = new Map<string, { count: number; resetTime: number }>();
+
+const RATE_LIMIT = 30; // requests per window
+const RATE_WINDOW = 60 * 60 * 1000; // 1 hour
+
+const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3';
+const PAGE_SIZE = 50; // The Data API's maximum; extra rows make up for private and deleted videos
+const ID_PATTERN = /^[A-Za-z0-9_-]{2,64}$/;
+const HANDLE_PATTERN = /^@[A-Za-z0-9._-]{3,30}$/;
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = requestCounts.get(ip);
+
+  if (!record || now > record.resetTime) {
+    requestCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+async function youtubeGet(path: string, params: Record<string, string>, key: string): Promise<any> {
+  const query = new URLSearchParams({ ...params, key });
+  const response = await fetch(`${YOUTUBE_API_URL}/${path}?${query}`);
+  if (!response.ok) {
+    throw new Error(`YouTube API error: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Private and deleted videos stay in playlists as placeholders with no usable video
+function toPlaylistItems(rows: any[], limit: number): YouTubePlaylistItem[] {
+  return rows
+    .filter(row => isYouTubeVideoId(row.contentDetails?.videoId) && !['Private video', 'Deleted video'].includes(row.snippet?.title))
+    .slice(0, limit)
+    .map((row, i) => ({
+      videoId: row.contentDetails.videoId,
+      title: row.snippet.title,
+      channelTitle: row.snippet.videoOwnerChannelTitle,
+      thumbnailUrl: row.snippet.thumbnails?.medium?.url || row.snippet.thumbnails?.default?.url,
+      position: i + 1,
+    }));
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting by IP
+  const ip = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
+  const ipString = Array.isArray(ip) ? ip[0] : ip;
+
+  if (!checkRateLimit(ipString)) {
+    return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
+  }
+
+  const { playlistId, channelId, handle } = req.body || {};
+  const limit = Math.min(Math.max(Math.floor(Number(req.body?.limit)) || MAX_COLLECTION_ITEMS, 1), MAX_COLLECTION_ITEMS);
+
+  if (!playlistId && !channelId && !handle) {
+    return res.status(400).json({ error: 'playlistId, channelId or handle required' });
+  }
+  if ((playlistId && !ID_PATTERN.test(playlistId)) || (channelId && !ID_PATTERN.test(channelId)) || (handle && !HANDLE_PATTERN.test(handle))) {
+    return res.status(400).json({ error: 'Invalid playlist or channel' });
+  }
+
+  const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
+
+  if (!YOUTUBE_API_KEY) {
+    console.error('YOUTUBE_API_KEY not configured');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  try {
+    let playlist: Omit<YouTubePlaylist, 'items'>;
+    let uploadsId: string;
+
+    if (playlistId) {
+      const data = await youtubeGet('playlists', { part: 'snippet', id: playlistId }, YOUTUBE_API_KEY);
+      if (!data.items || data.items.length === 0) {
+        return res.status(404).json({ error: 'Playlist not found' });
+      }
+      const snippet = data.items[0].snippet;
+      playlist = { kind: 'playlist', title: snippet.title, channelTitle: snippet.channelTitle };
+      uploadsId = playlistId;
+    } else {
+      // A channel's uploads are a playlist of their own, newest first
+      const data = await youtubeGet(
+        'channels',
+        { part: 'snippet,contentDetails', ...(channelId ? { id: channelId } : { forHandle: handle }) },
+        YOUTUBE_API_KEY
+      );
+      if (!data.items || data.items.length === 0) {
+        return res.status(404).json({ error: 'Channel not found' });
+      }
+      const channel = data.items[0];
+      playlist = { kind: 'channel', title: `Latest from ${channel.snippet.title}`, channelTitle: channel.snippet.title };
+      uploadsId = channel.contentDetails.relatedPlaylists.uploads;
+    }
+
+    const data = await youtubeGet(
+      'playlistItems',
+      { part: 'snippet,contentDetails', playlistId: uploadsId, maxResults: String(PAGE_SIZE) },
+      YOUTUBE_API_KEY
+    );
+    const items = toPlaylistItems(data.items || [], limit);
+
+    if (items.length === 0) {
+      return res.status(404).json({ error: 'No public videos found' });
+    }
+
+    return res.status(200).json({ ...playlist, items });
+  } catch (error: any) {
+    console.error('YouTube API error:', error);
+    return res.status(500).json({ error: 'Failed to fetch playlist' });
+  }
+}
@@ -0,0 +1,98 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isYouTubeVideoId } from '@/utils/youtube';
+import { parseCaptionEvents, Transcript, TranscriptSegment } from '@/utils/transcript';
+
+// Rate limiting: simple in-memory store (for production, use Redis)
+const requestCounts = new Map<string, { count: number; resetTime: number }>();
+
+const RATE_LIMIT = 100; // requests per window
+const RATE_WINDOW = 60 * 60 * 1000; // 1 hour
+
+const TIMEDTEXT_URL = 'https://www.youtube.com/api/timedtext';
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = requestCounts.get(ip);
+
+  if (!record || now > record.resetTime) {
+    requestCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+// Offline stand-in: <dir>/<videoId>.json holds the json3 caption track YouTube would return
+async function readFixture(dir: string, videoId: string): Promise<TranscriptSegment[]> {
+  try {
+    return parseCaptionEvents(JSON.parse(await fs.readFile(path.join(dir, `${videoId}.json`), 'utf8')));
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+// Uploaded captions first, then YouTube's automatic ones; an empty body means there are none
+async function fetchCaptions(videoId: string, lang: string): Promise<TranscriptSegment[]> {
+  for (const kind of ['', 'asr']) {
+    const query = new URLSearchParams({ v: videoId, lang, fmt: 'json3', ...(kind ? { kind } : {}) });
+    const response = await fetch(`${TIMEDTEXT_URL}?${query}`);
+    if (!response.ok) {
+      throw new Error(`YouTube captions error: ${response.statusText}`);
+    }
+    const text = await response.text();
+    const segments = text.trim() ? parseCaptionEvents(JSON.parse(text)) : [];
+    if (segments.length > 0) return segments;
+  }
+  return [];
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting by IP
+  const ip = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
+  const ipString = Array.isArray(ip) ? ip[0] : ip;
+
+  if (!checkRateLimit(ipString)) {
+    return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
+  }
+
+  const { videoId } = req.body || {};
+  const lang = req.body?.lang || 'en';
+
+  if (!isYouTubeVideoId(videoId)) {
+    return res.status(400).json({ error: 'Invalid videoId' });
+  }
+  if (typeof lang !== 'string' || !LANGUAGE_PATTERN.test(lang)) {
+    return res.status(400).json({ error: 'Invalid lang' });
+  }
+
+  try {
+    const fixtureDir = process.env.YOUTUBE_CAPTIONS_FIXTURE_DIR;
+    const segments = fixtureDir ? await readFixture(fixtureDir, videoId) : await fetchCaptions(videoId, lang);
+
+    if (segments.length === 0) {
+      return res.status(404).json({ error: 'No captions available' });
+    }
+
+    const transcript: Transcript = { source: 'captions', language: lang, segments };
+    return res.status(200).json(transcript);
+  } catch (error: any) {
+    console.error('YouTube captions error:', error);
+    return res.status(500).json({ error: 'Failed to fetch captions' });
+  }
+}
@@ -0,0 +1,407 @@
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { ArrowLeft, Users, UserPlus, Trash2, Pencil } from 'lucide-react';
+import clsx from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { listCustomCritics, saveCustomCritic, deleteCustomCritic } from '@/utils/persistence';
+import {
+  getCriticInfo,
+  buildCustomCritic,
+  validateCustomCritic,
+  CRITIC_TYPES,
+  CUSTOM_CRITIC_COLORS,
+  MEDIA_CATEGORIES,
+  CustomCriticSpec,
+  CustomCriticColor,
+  CriticTone,
+  MediaCategory,
+} from '@/utils/critics';
+
+const cn = (...inputs: any[]) => twMerge(clsx(inputs));
+
+interface CriticDraft {
+  id?: CustomCriticSpec['id'];
+  name: string;
+  bio: string;
+  avatarSeed: string;
+  color: CustomCriticColor;
+  tone: CriticTone;
+  hates: string; // One per line
+  loves: string;
+  scoreLow: number;
+  scoreHigh: number;
+  media: MediaCategory[];
+}
+
+const EMPTY_DRAFT: CriticDraft = {
+  name: '',
+  bio: '',
+  avatarSeed: '',
+  color: 'rose',
+  tone: { snark: 5, pretension: 5, generosity: 5 },
+  hates: '',
+  loves: '',
+  scoreLow: 3,
+  scoreHigh: 7,
+  media: ['audio'],
+};
+
+const TONE_SLIDERS: { key: keyof CriticTone; label: string; low: string; high: string }[] = [
+  { key: 'snark', label: 'Snark', low: 'Sincere', high: 'Savage' },
+  { key: 'pretension', label: 'Pretension', low: 'Plain-spoken', high: 'Insufferable' },
+  { key: 'generosity', label: 'Generosity', low: 'Merciless', high: 'Encouraging' },
+];
+
+function toDraft(spec: CustomCriticSpec): CriticDraft {
+  return {
+    id: spec.id,
+    name: spec.name,
+    bio: spec.bio,
+    avatarSeed: spec.avatarSeed,
+    color: spec.color,
+    tone: spec.tone,
+    hates: spec.hates.join('\n'),
+    loves: spec.loves.join('\n'),
+    scoreLow: spec.scoreRange[0],
+    scoreHigh: spec.scoreRange[1],
+    media: spec.media,
+  };
+}
+
+// Unvalidated spec for the live avatar and colour preview
+function toDraftSpec(draft: CriticDraft): CustomCriticSpec {
+  return {
+    id: draft.id || 'custom-preview',
+    name: draft.name || 'New Critic',
+    bio: draft.bio,
+    avatarSeed: draft.avatarSeed || draft.name,
+    color: draft.color,
+    tone: draft.tone,
+    hates: [],
+    loves: [],
+    scoreRange: [draft.scoreLow, draft.scoreHigh],
+    media: draft.media.length > 0 ? draft.media : ['audio'],
+    timestamp: 0,
+  };
+}
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function newCriticId(name: string): CustomCriticSpec['id'] {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return `custom-${slug || 'critic'}-${Date.now().toString(36)}`;
+}
+
+export default function Critics() {
+  const router = useRouter();
+  const [customCritics, setCustomCritics] = useState<CustomCriticSpec[]>([]);
+  const [draft, setDraft] = useState<CriticDraft>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    listCustomCritics()
+      .then(setCustomCritics)
+      .catch(e => console.error('Failed to load critics', e));
+  }, []);
+
+  const update = (patch: Partial<CriticDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const toggleMedia = (category: MediaCategory) => {
+    update({
+      media: draft.media.includes(category)
+        ? draft.media.filter(m => m !== category)
+        : [...draft.media, category],
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { ok, value, errors: problems } = validateCustomCritic({
+      id: draft.id || newCriticId(draft.name),
+      name: draft.name,
+      bio: draft.bio,
+      avatarSeed: draft.avatarSeed,
+      color: draft.color,
+      tone: draft.tone,
+      hates: splitLines(draft.hates),
+      loves: splitLines(draft.loves),
+      scoreRange: [draft.scoreLow, draft.scoreHigh],
+      media: draft.media,
+      timestamp: Date.now(),
+    });
+
+    if (!ok || !value) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const saved = await saveCustomCritic(value);
+      setCustomCritics(prev => [saved, ...prev.filter(c => c.id !== saved.id)]);
+      setDraft(EMPTY_DRAFT);
+    } catch (err: any) {
+      setErrors([err.message || 'Failed to save critic']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (critic: CustomCriticSpec) => {
+    if (!confirm(`Fire ${critic.name}? Their reviews stay in the archive.`)) return;
+
+    try {
+      await deleteCustomCritic(critic.id);
+      setCustomCritics(prev => prev.filter(c => c.id !== critic.id));
+      if (draft.id === critic.id) setDraft(EMPTY_DRAFT);
+    } catch (err) {
+      console.error('Failed to delete critic', err);
+    }
+  };
+
+  const preview = buildCustomCritic(toDraftSpec(draft));
+
+  return (
+    <div className="min-h-screen bg-[#f4f1ea] text-zinc-900 font-serif">
+      <header className="border-b-4 border-zinc-900 py-6 px-4 md:px-12 bg-white">
+        <div className="max-w-5xl mx-auto">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={() => router.push('/')}
+              className="flex items-center gap-2 text-zinc-600 hover:text-zinc-900 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Reviews
+            </button>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-black tracking-tighter uppercase leading-tight">
+            The Staff
+          </h1>
+          <p className="mt-2 text-lg font-medium text-zinc-600">
+            Everyone who gets paid (in exposure) to have opinions here.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 md:px-12 py-12 space-y-8">
+        <section className="bg-white border-2 border-zinc-900 p-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+          <h2 className="text-2xl font-black uppercase mb-6 flex items-center gap-2">
+            <Users className="w-6 h-6" />
+            Critics
+          </h2>
+          <div className="space-y-3">
+            {[...CRITIC_TYPES.map(type => ({ persona: getCriticInfo(type), spec: undefined })),
+              ...customCritics.map(spec => ({ persona: buildCustomCritic(spec), spec }))].map(({ persona, spec }) => (
+              <div key={persona.id} className={cn('flex items-center gap-4 p-4 border-2', persona.classes.border)}>
+                <div className={cn('w-12 h-12 shrink-0 rounded-full overflow-hidden border-2 bg-zinc-200', persona.classes.border)}>
+                  <img src={persona.avatar} alt={persona.name} />
+                </div>
+                <div className="flex-1">
+                  <div className="font-black uppercase tracking-wider">{persona.name}</div>
+                  <div className="text-sm text-zinc-500 italic">{persona.bio}</div>
+                  <div className="text-xs text-zinc-400 mt-1">
+                    {persona.title} · scores {persona.scoreRange.typical[0]}-{persona.scoreRange.typical[1]}
+                  </div>
+                </div>
+                {spec && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setDraft(toDraft(spec))}
+                      className="p-2 border-2 border-zinc-900 hover:bg-zinc-100 transition-colors"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(spec)}
+                      className="p-2 border-2 border-zinc-900 hover:bg-red-500 hover:text-white transition-colors"
+                      title="Fire"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <form onSubmit={handleSave} className="bg-white border-2 border-zinc-900 p-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)] space-y-6">
+          <h2 className="text-2xl font-black uppercase flex items-center gap-2">
+            <UserPlus className="w-6 h-6" />
+            {draft.id ? `Edit ${draft.name || 'Critic'}` : 'Hire a Critic'}
+          </h2>
+
+          <div className="flex items-start gap-6">
+            <div className={cn('w-20 h-20 shrink-0 rounded-full overflow-hidden border-4 bg-zinc-200', preview.classes.border)}>
+              <img src={preview.avatar} alt="Avatar preview" />
+            </div>
+            <div className="flex-1 grid gap-4 sm:grid-cols-2">
+              <label className="block">
+                <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Name</span>
+                <input
+                  value={draft.name}
+                  onChange={e => update({ name: e.target.value })}
+                  maxLength={60}
+                  className="mt-1 w-full border-2 border-zinc-900 px-3 py-2"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Avatar seed</span>
+                <input
+                  value={draft.avatarSeed}
+                  onChange={e => update({ avatarSeed: e.target.value })}
+                  placeholder={draft.name || 'anything'}
+                  className="mt-1 w-full border-2 border-zinc-900 px-3 py-2"
+                />
+              </label>
+              <label className="block sm:col-span-2">
+                <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Bio</span>
+                <input
+                  value={draft.bio}
+                  onChange={e => update({ bio: e.target.value })}
+                  maxLength={280}
+                  placeholder="Contributing Critic, owns one (1) vinyl record."
+                  className="mt-1 w-full border-2 border-zinc-900 px-3 py-2"
+                />
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Colour</span>
+            <div className="mt-2 flex gap-2">
+              {(Object.keys(CUSTOM_CRITIC_COLORS) as CustomCriticColor[]).map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => update({ color })}
+                  className={cn(
+                    'w-8 h-8 rounded-full border-2',
+                    CUSTOM_CRITIC_COLORS[color].classes.bg,
+                    draft.color === color ? 'border-zinc-900 scale-110' : 'border-transparent'
+                  )}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            {TONE_SLIDERS.map(({ key, label, low, high }) => (
+              <label key={key} className="block">
+                <span className="text-xs font-black uppercase tracking-widest text-zinc-500">{label}: {draft.tone[key]}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  value={draft.tone[key]}
+                  onChange={e => update({ tone: { ...draft.tone, [key]: Number(e.target.value) } })}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-zinc-400">
+                  <span>{low}</span>
+                  <span>{high}</span>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Pet hates (one per line)</span>
+              <textarea
+                value={draft.hates}
+                onChange={e => update({ hates: e.target.value })}
+                rows={4}
+                className="mt-1 w-full border-2 border-zinc-900 px-3 py-2"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Loves (one per line)</span>
+              <textarea
+                value={draft.loves}
+                onChange={e => update({ loves: e.target.value })}
+                rows={4}
+                className="mt-1 w-full border-2 border-zinc-900 px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Usual scores</span>
+              <div className="mt-1 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={draft.scoreLow}
+                  onChange={e => update({ scoreLow: Number(e.target.value) })}
+                  className="w-20 border-2 border-zinc-900 px-3 py-2"
+                />
+                <span>to</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={draft.scoreHigh}
+                  onChange={e => update({ scoreHigh: Number(e.target.value) })}
+                  className="w-20 border-2 border-zinc-900 px-3 py-2"
+                />
+              </div>
+            </div>
+            <div>
+              <span className="text-xs font-black uppercase tracking-widest text-zinc-500">Reviews</span>
+              <div className="mt-2 space-y-1">
+                {(Object.keys(MEDIA_CATEGORIES) as MediaCategory[]).map(category => (
+                  <label key={category} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.media.includes(category)}
+                      onChange={() => toggleMedia(category)}
+                    />
+                    {MEDIA_CATEGORIES[category].label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-zinc-400 mt-1">Takes these over from the regular staff.</p>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="bg-red-50 border-2 border-red-500 p-4 text-sm text-red-700 list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-zinc-900 text-white py-3 font-black uppercase tracking-widest hover:bg-zinc-800 disabled:bg-zinc-400 transition-colors"
+            >
+              {isSaving ? 'Drafting Contract...' : draft.id ? 'Save Changes' : 'Hire'}
+            </button>
+            {draft.id && (
+              <button
+                type="button"
+                onClick={() => { setDraft(EMPTY_DRAFT); setErrors([]); }}
+                className="px-6 border-2 border-zinc-900 font-black uppercase hover:bg-zinc-100 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -3,8 +3,28 @@ import { useRouter } from 'next/router';
 import { ArrowLeft, FileText, Check, MessageSquare, Archive, X, ThumbsDown, ChevronDown, Zap } from 'lucide-react';
 import clsx from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { getAudioData } from '@/utils/db';
-import { getStaffInfo as getStaffInfoUtil } from '@/utils/critics';
+import { listReviews, listEditorials, saveEditorialRecord, updateEditorialRecord, loadMedia, listCustomCritics } from '@/utils/persistence';
+import { blobToBase64 } from '@/utils/db';
+import {
+  getStaffInfo as getStaffInfoUtil,
+  getCriticInfo,
+  introducePersona,
+  listCriticTypes,
+  registerSavedCritics,
+  EDITOR,
+  StaffType,
+} from '@/utils/critics';
+import { ServerSideGeminiAI, uploadFileServerSide, INLINE_MEDIA_LIMIT, base64Size } from '@/utils/api';
+import { parseYouTubeUrl } from '@/utils/youtube';
+import { SCHEMA_VERSION, SavedReview, SavedEditorial, Reply, Comment, Verdict } from '@/utils/models';
+import {
+  generateValidated,
+  editorialSchema,
+  newCommentSchema,
+  newReplySchema,
+  replyTextSchema,
+  commentTextSchema,
+} from '@/utils/schemas';
 
 const cn = (...inputs: any[]) => twMerge(clsx(inputs));
 
@@ -19,78 +39,6 @@ const AUTO_SAVE_DEBOUNCE_MS = 1000;
 // Constants for editorial generation
 const MAX_REVIEWS_PER_EDITORIAL = 5; // Prevent memory issues with large file loads
 
-interface SavedReview {
-  id: string;
-  title: string;
-  artist: string;
-  slug: string;
-  timestamp: number;
-  review: {
-    title: string;
-    artist: string;
-    score: number;
-    summary: string;
-    body: string[];
-    critic?: 'music' | 'film' | 'literary' | 'business';
-    criticName?: string;
-  };
-  audioFileName?: string;
-  audioDataUrl?: string;
-  albumArt?: string;
-  waveformData?: number[];
-  hasAudioInDB?: boolean;
-  youtubeUrl?: string;
-  isYouTube?: boolean;
-}
-
-interface Reply {
-  id: string;
-  username: string;
-  persona_type: string;
-  timestamp: string;
-  text: string;
-  likes: number;
-  is_editor?: boolean;
-  is_critic?: boolean;
-  critic?: 'music' | 'film' | 'literary' | 'business';
-  replyingToUsername?: string;
-  replyingToId?: string;
-}
-
-interface Comment {
-  id: string;
-  username: string;
-  persona_type: string;
-  timestamp: string;
-  text: string;
-  likes: number;
-  replies: Reply[];
-  is_editor?: boolean;
-  is_critic?: boolean;
-  critic?: 'music' | 'film' | 'literary' | 'business';
-}
-
-interface Verdict {
-  mediaTitle: string;
-  mediaArtist: string;
-  verdict: 'ROCKS' | 'SUCKS';
-  reason: string;
-}
-
-interface SavedEditorial {
-  id: string;
-  title: string;
-  summary: string;
-  body: string[];
-  verdicts: Verdict[];
-  timestamp: number;
-  reviewIds: string[];
-  comments: Comment[];
-}
-
-type CriticType = 'music' | 'film' | 'literary' | 'business';
-type StaffType = CriticType | 'editor';
-
 export default function Editorial() {
   const router = useRouter();
 
@@ -114,6 +62,8 @@ export default function Editorial() {
   const organicTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isMountedRef = useRef(true);
   const saveDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const savedEditorialsRef = useRef<SavedEditorial[]>([]);
+  savedEditorialsRef.current = savedEditorials;
 
   // Set up mounted ref cleanup
   useEffect(() => {
@@ -124,23 +74,24 @@ export default function Editorial() {
   }, []);
 
   useEffect(() => {
-    const storedReviews = localStorage.getItem('smudged_reviews');
-    if (storedReviews) {
+    const loadArchive = async () => {
       try {
-        setSavedReviews(JSON.parse(storedReviews));
+        await listCustomCritics();
+        const reviews = await listReviews();
+        registerSavedCritics(reviews);
+        setSavedReviews(reviews);
       } catch (e) {
         console.error('Failed to load saved reviews', e);
       }
-    }
 
-    const storedEditorials = localStorage.getItem('smudged_editorials');
-    if (storedEditorials) {
       try {
-        setSavedEditorials(JSON.parse(storedEditorials));
+        setSavedEditorials(await listEditorials());
       } catch (e) {
         console.error('Failed to load saved editorials', e);
       }
-    }
+    };
+
+    loadArchive();
   }, []);
 
   const toggleReview = (id: string) => {
@@ -174,38 +125,42 @@ export default function Editorial() {
 
       // Build media parts array - retrieve actual media files
       const mediaParts: any[] = [];
+      let inlineBytes = 0; // Base64 already in the request, which shares one body limit
 
       for (const review of reviewsToComment) {
         if (review.isYouTube && review.youtubeUrl) {
-          // YouTube video - validate URL format before adding
-          try {
-            const url = new URL(review.youtubeUrl);
-            if (url.hostname.includes('youtube.com') || url.hostname.includes('youtu.be')) {
-              mediaParts.push({
-                fileData: {
-                  fileUri: review.youtubeUrl
-                }
-              });
-            } else {
-              console.warn(`Skipping invalid YouTube URL: ${review.youtubeUrl}`);
-            }
-          } catch (e) {
-            console.warn(`Skipping malformed URL: ${review.youtubeUrl}`);
+          // YouTube video - only single videos can be watched, in their canonical form
+          const link = parseYouTubeUrl(review.youtubeUrl);
+          if (link?.kind === 'video') {
+            mediaParts.push({
+              fileData: {
+                fileUri: link.url
+              }
+            });
+          } else {
+            console.warn(`Skipping invalid YouTube URL: ${review.youtubeUrl}`);
           }
         } else if (review.hasAudioInDB) {
-          // Audio/video file from IndexedDB
+          // Audio/video file from IndexedDB or the server media store
           try {
-            const audioDataUrl = await getAudioData(review.id);
-            if (audioDataUrl) {
-              // Extract base64 data from data URL
-              const base64Match = audioDataUrl.match(/^data:([^;]+);base64,(.+)$/);
-              if (base64Match) {
-                const mimeType = base64Match[1];
-                const base64Data = base64Match[2];
+            const media = await loadMedia(review.id);
+            if (media) {
+              const mimeType = media.type || 'application/octet-stream';
+              const encodedSize = base64Size(media.size);
+              if (inlineBytes + encodedSize > INLINE_MEDIA_LIMIT) {
+                const uploaded = await uploadFileServerSide(media, review.audioFileName);
+                mediaParts.push({
+                  fileData: {
+                    fileUri: uploaded.fileUri,
+                    mimeType: uploaded.mimeType
+                  }
+                });
+              } else {
+                inlineBytes += encodedSize;
                 mediaParts.push({
                   inlineData: {
-                    data: base64Data,
-                    mimeType: mimeType
+                    data: await blobToBase64(media),
+                    mimeType
                   }
                 });
               }
@@ -216,18 +171,10 @@ export default function Editorial() {
         }
       }
 
-      const prompt = `You are Chuck Morrison, Editor-in-Chief of 'The Smudged Pamphlet'.
+      const prompt = `You are ${EDITOR.name}, ${EDITOR.role} of '${EDITOR.publication}'.
 
 YOUR CHARACTER:
-You're an everyman. No fancy words, no pretentious nonsense. You like your meat red, your women blonde, your movies with explosions, your music loud and epic, and your words short and easy to read.
-
-You're the voice of the AUDIENCE against your pretentious critics. You don't care about "deconstructing narrative theory" or "Bergmanesque cinematography" or "post-modern irony." You care if something ROCKS or if it SUCKS.
-
-You're annoying to your critics because:
-- You call them out when they're being too pretentious
-- You advocate for the common viewer/listener/reader
-- You're their boss, but you don't act like an intellectual
-- You sometimes just... don't get what they're going on about
+${EDITOR.systemPrompt}
 
 But you're also:
 - Fair when something genuinely deserves praise
@@ -290,27 +237,16 @@ Output ONLY valid JSON:
         ...mediaParts
       ];
 
-      const response = await fetch('/api/gemini/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'gemini-2.5-pro',
-          contents: [{ role: 'user', parts: contentParts }],
-          generationConfig: { responseMimeType: 'application/json' }
-        })
+      const model = new ServerSideGeminiAI().getGenerativeModel({
+        model: 'gemini-2.5-pro',
+        generationConfig: { responseMimeType: 'application/json' }
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate editorial');
-      }
-
-      const data = await response.json();
-      const editorialText = data.parts[0]?.text || '{}';
-      const editorialData = JSON.parse(editorialText);
+      const editorialData = await generateValidated(model, contentParts, editorialSchema);
 
       // Create editorial with metadata
       const newEditorial = {
         ...editorialData,
+        schemaVersion: SCHEMA_VERSION,
         id: `editorial-${Date.now()}`,
         timestamp: Date.now(),
         reviewIds: Array.from(selectedReviews)
@@ -336,9 +272,10 @@ Output ONLY valid JSON:
       comments: comments
     };
 
-    const updated = [editorialToSave, ...savedEditorials];
-    setSavedEditorials(updated);
-    localStorage.setItem('smudged_editorials', JSON.stringify(updated));
+    setSavedEditorials(prev => [editorialToSave, ...prev.filter(e => e.id !== editorialToSave.id)]);
+    saveEditorialRecord(editorialToSave).catch(e => {
+      console.error('Failed to save editorial to server', e);
+    });
   };
 
   // Organic comment generation for editorial
@@ -346,11 +283,15 @@ Output ONLY valid JSON:
     if (!editorial) return null;
 
     try {
+      const model = new ServerSideGeminiAI().getGenerativeModel({
+        model: 'gemini-2.0-flash-exp',
+        generationConfig: { responseMimeType: 'application/json' }
+      });
       const interactionType = Math.random();
 
       if (interactionType < 0.4) {
         // Critic comments on Chuck's editorial (40% chance)
-        const criticTypes: CriticType[] = ['music', 'film', 'literary', 'business'];
+        const criticTypes = listCriticTypes();
         const criticType = criticTypes[Math.floor(Math.random() * criticTypes.length)];
         const criticInfo = getStaffInfo(criticType);
         const shouldReply = Math.random() < 0.5 && comments.length > 0;
@@ -359,13 +300,7 @@ Output ONLY valid JSON:
           const allComments = comments.flatMap(c => [c, ...c.replies.map(r => ({ ...r, parentId: c.id }))]);
           const target: any = allComments[Math.floor(Math.random() * allComments.length)];
 
-          const criticPersona = criticType === 'film'
-            ? `You are Rex Beaumont, film critic. You watch everything at 1.5x speed and are pretentious about cinema. Chuck Morrison is your boss.`
-            : criticType === 'literary'
-            ? `You are Margot Ashford, literary critic with three PhDs. You're overly academic and condescending. Chuck Morrison is your boss.`
-            : criticType === 'business'
-            ? `You are Patricia Chen, business editor. You despise corporate jargon and value clarity. Chuck Morrison is your boss.`
-            : `You are Julian Pinter, music critic. You're pretentious and sardonic about music. Chuck Morrison is your boss.`;
+          const criticPersona = `${introducePersona(getCriticInfo(criticType), 'guestPersona')} ${EDITOR.name} is your boss.`;
 
           const prompt = `${criticPersona}
 
@@ -383,20 +318,7 @@ Write a brief reply from your perspective. You might:
 
 Keep it in character and brief. Output: {"reply_text":"your reply"}`;
 
-          const replyResponse = await fetch('/api/gemini/generate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'gemini-2.0-flash-exp',
-              contents: [{ role: 'user', parts: [{ text: prompt }] }],
-              generationConfig: { responseMimeType: 'application/json' }
-            })
-          });
-
-          if (!replyResponse.ok) return null;
-          const replyData = await replyResponse.json();
-          const replyText = replyData.parts?.[0]?.text || '{}';
-          const reply = JSON.parse(replyText);
+          const reply = await generateValidated(model, prompt, replyTextSchema);
 
           return {
             type: 'reply',
@@ -406,7 +328,7 @@ Keep it in character and brief. Output: {"reply_text":"your reply"}`;
               username: criticInfo.username,
               persona_type: criticInfo.title,
               timestamp: 'Just now',
-              text: reply.reply_text || reply.text,
+              text: reply.reply_text,
               likes: 0,
               is_critic: true,
               critic: criticType,
@@ -415,13 +337,7 @@ Keep it in character and brief. Output: {"reply_text":"your reply"}`;
             }
           };
         } else {
-          const criticPersona = criticType === 'film'
-            ? `You are Rex Beaumont, film critic. You watch everything at 1.5x speed and are pretentious about cinema. Chuck Morrison is your boss.`
-            : criticType === 'literary'
-            ? `You are Margot Ashford, literary critic with three PhDs. You're overly academic and condescending. Chuck Morrison is your boss.`
-            : criticType === 'business'
-            ? `You are Patricia Chen, business editor. You despise corporate jargon and value clarity. Chuck Morrison is your boss.`
-            : `You are Julian Pinter, music critic. You're pretentious and sardonic about music. Chuck Morrison is your boss.`;
+          const criticPersona = `${introducePersona(getCriticInfo(criticType), 'guestPersona')} ${EDITOR.name} is your boss.`;
 
           const prompt = `${criticPersona}
 
@@ -436,20 +352,7 @@ Write a brief comment from your perspective. You might:
 
 Keep it brief and in character. Output: {"text":"your comment"}`;
 
-          const commentResponse = await fetch('/api/gemini/generate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'gemini-2.0-flash-exp',
-              contents: [{ role: 'user', parts: [{ text: prompt }] }],
-              generationConfig: { responseMimeType: 'application/json' }
-            })
-          });
-
-          if (!commentResponse.ok) return null;
-          const commentResponseData = await commentResponse.json();
-          const commentText = commentResponseData.parts?.[0]?.text || '{}';
-          const commentData = JSON.parse(commentText);
+          const commentData = await generateValidated(model, prompt, commentTextSchema);
 
           return {
             type: 'new_comment',
@@ -473,7 +376,7 @@ Keep it brief and in character. Output: {"text":"your comment"}`;
         const allComments = comments.flatMap(c => [c, ...c.replies.map(r => ({ ...r, parentId: c.id }))]);
         const target: any = allComments[Math.floor(Math.random() * allComments.length)];
 
-        const prompt = `You are Chuck Morrison, Editor-in-Chief of 'The Smudged Pamphlet'.
+        const prompt = `You are ${EDITOR.name}, ${EDITOR.role} of '${EDITOR.publication}'.
 
 You wrote this editorial:
 ${JSON.stringify(editorial)}
@@ -481,26 +384,13 @@ ${JSON.stringify(editorial)}
 Someone commented:
 ${JSON.stringify(target)}
 
-Write a brief reply. You're the everyman editor - no fancy words, you defend the audience, call out pretension, and keep it REAL.
+Write a brief reply. ${EDITOR.replyPersona}
 
 Keep it SHORT and ACCESSIBLE. Talk like a regular person.
 
 Output: {"reply_text":"your reply"}`;
 
-        const replyResponse = await fetch('/api/gemini/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: 'gemini-2.0-flash-exp',
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            generationConfig: { responseMimeType: 'application/json' }
-          })
-        });
-
-        if (!replyResponse.ok) return null;
-        const replyData = await replyResponse.json();
-        const replyText = replyData.parts?.[0]?.text || '{}';
-        const reply = JSON.parse(replyText);
+        const reply = await generateValidated(model, prompt, replyTextSchema);
 
         return {
           type: 'reply',
@@ -510,7 +400,7 @@ Output: {"reply_text":"your reply"}`;
             username: 'ChuckMorrison',
             persona_type: 'Editor-in-Chief',
             timestamp: 'Just now',
-            text: reply.reply_text || reply.text,
+            text: reply.reply_text,
             likes: 0,
             is_editor: true,
             replyingToUsername: target.username,
@@ -533,20 +423,7 @@ ${JSON.stringify(target)}
 
 Generate a reply from a NEW commenter. Output: {"username":"name","persona_type":"type","reply_text":"reply"}`;
 
-          const replyResponse = await fetch('/api/gemini/generate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'gemini-2.0-flash-exp',
-              contents: [{ role: 'user', parts: [{ text: prompt }] }],
-              generationConfig: { responseMimeType: 'application/json' }
-            })
-          });
-
-          if (!replyResponse.ok) return null;
-          const replyData = await replyResponse.json();
-          const replyText = replyData.parts?.[0]?.text || '{}';
-          const reply = JSON.parse(replyText);
+          const reply = await generateValidated(model, prompt, newReplySchema);
 
           return {
             type: 'reply',
@@ -568,20 +445,7 @@ ${JSON.stringify(editorial)}
 
 Generate a new comment. Output: {"username":"name","persona_type":"type","text":"comment"}`;
 
-          const commentResponse = await fetch('/api/gemini/generate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'gemini-2.0-flash-exp',
-              contents: [{ role: 'user', parts: [{ text: prompt }] }],
-              generationConfig: { responseMimeType: 'application/json' }
-            })
-          });
-
-          if (!commentResponse.ok) return null;
-          const commentResponseData = await commentResponse.json();
-          const commentText = commentResponseData.parts?.[0]?.text || '{}';
-          const commentData = JSON.parse(commentText);
+          const commentData = await generateValidated(model, prompt, newCommentSchema);
 
           return {
             type: 'new_comment',
@@ -676,7 +540,7 @@ Generate a new comment. Output: {"username":"name","persona_type":"type","text":
     };
   }, [commentGenerationActive, editorial, comments, generateOrganicEditorialComment]);
 
-  // Auto-save comments to the current editorial in localStorage with debouncing
+  // Auto-save comments to the current editorial in the server store with debouncing
   useEffect(() => {
     if (!editorial || comments.length === 0) return;
 
@@ -688,23 +552,11 @@ Generate a new comment. Output: {"username":"name","persona_type":"type","text":
     // Debounce the save operation
     saveDebounceTimerRef.current = setTimeout(() => {
       // Update the editorial in savedEditorials with current comments
-      setSavedEditorials(prev => {
-        const currentEditorialIndex = prev.findIndex(e => e.id === editorial.id);
-        if (currentEditorialIndex === -1) return prev;
-
-        const updatedEditorials = [...prev];
-        updatedEditorials[currentEditorialIndex] = {
-          ...updatedEditorials[currentEditorialIndex],
-          comments: comments
-        };
+      if (!savedEditorialsRef.current.some(e => e.id === editorial.id)) return;
 
-        try {
-          localStorage.setItem('smudged_editorials', JSON.stringify(updatedEditorials));
-        } catch (e) {
-          console.error('Failed to save to localStorage (quota exceeded?)', e);
-        }
-
-        return updatedEditorials;
+      setSavedEditorials(prev => prev.map(e => (e.id === editorial.id ? { ...e, comments } : e)));
+      updateEditorialRecord(editorial.id, { comments }).catch(e => {
+        console.error('Failed to save editorial comments to server', e);
       });
     }, AUTO_SAVE_DEBOUNCE_MS);
 
@@ -760,14 +612,7 @@ Generate a new comment. Output: {"username":"name","persona_type":"type","text":
     }, 300);
   };
 
-  const editorInfo = {
-    name: 'Chuck Morrison',
-    username: 'ChuckMorrison',
-    title: 'Editor-in-Chief',
-    color: 'red-500',
-    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=chuckmorrison&top=shortFlat&facialHair=beardMedium&eyebrows=default&mouth=smile&eyes=default&skinColor=ffdbb4',
-    bio: 'Editor-in-Chief, likes it loud and simple.'
-  };
+  const editorInfo = EDITOR;
 
   return (
     <div className="min-h-screen bg-[#f4f1ea] text-zinc-900 font-serif">
@@ -1037,25 +882,19 @@ Generate a new comment. Output: {"username":"name","persona_type":"type","text":
 
                 {comments.map((comment) => {
                   const isCriticComment = (comment as any).is_critic;
-                  const isEditorComment = (comment as any).is_editor;
+                  const isEditorComment = comment.is_editor;
                   const criticType = (comment as any).critic;
                   const criticInfo = isCriticComment && criticType ? getStaffInfo(criticType) : null;
                   const editorInfo = isEditorComment ? getStaffInfo('editor') : null;
 
-                  const borderColor = editorInfo
-                    ? 'border-red-500'
-                    : criticInfo
-                    ? (criticType === 'music' ? 'border-amber-400' :
-                       criticType === 'film' ? 'border-purple-400' :
-                       criticType === 'business' ? 'border-blue-500' : 'border-emerald-400')
+                  const staffClasses = (editorInfo || criticInfo)?.classes;
+
+                  const borderColor = staffClasses
+                    ? staffClasses.border
                     : comment.persona_type === 'Human User' ? 'border-blue-400' : 'border-zinc-300';
 
-                  const bgColor = editorInfo
-                    ? 'bg-red-50'
-                    : criticInfo
-                    ? (criticType === 'music' ? 'bg-amber-50' :
-                       criticType === 'film' ? 'bg-purple-50' :
-                       criticType === 'business' ? 'bg-blue-50' : 'bg-emerald-50')
+                  const bgColor = staffClasses
+                    ? staffClasses.tint
                     : comment.persona_type === 'Human User' ? 'bg-blue-50' : 'bg-white';
 
                   return (
@@ -1081,14 +920,10 @@ Generate a new comment. Output: {"username":"name","persona_type":"type","text":
                               {comment.username}
                               <span className={cn(
                                 "ml-2 text-xs text-white px-1 rounded-sm font-normal uppercase",
-                                isEditorComment
-                                  ? "bg-red-500"
+                                staffClasses
+                                  ? staffClasses.accent
                                   : comment.persona_type === 'Human User'
                                   ? "bg-blue-600"
-                                  : isCriticComment
-                                  ? (criticType === 'music' ? 'bg-amber-500' :
-                                     criticType === 'film' ? 'bg-purple-500' :
-                                     criticType === 'business' ? 'bg-blue-500' : 'bg-emerald-500')
                                   : "bg-zinc-400"
                               )}>
                                 {comment.persona_type}
@@ -1140,25 +975,11 @@ Generate a new comment. Output: {"username":"name","persona_type":"type","text":
 
                             {comment.replies.map((reply) => {
                               const isCritic = (reply as any).is_critic;
-                              const isEditor = (reply as any).is_editor;
+                              const isEditor = reply.is_editor;
                               const replyType = isEditor ? 'editor' : (reply as any).critic || 'music';
                               const staffInfo = getStaffInfo(replyType as StaffType);
 
-                              const borderColor = isEditor ? 'border-red-500' :
-                                                 reply.critic === 'music' ? 'border-amber-400' :
-                                                 reply.critic === 'film' ? 'border-purple-400' :
-                                                 reply.critic === 'business' ? 'border-blue-500' :
-                                                 'border-emerald-400';
-                              const textColor = isEditor ? 'text-red-500' :
-                                               reply.critic === 'music' ? 'text-amber-400' :
-                                               reply.critic === 'film' ? 'text-purple-400' :
-                                               reply.critic === 'business' ? 'text-blue-500' :
-                                               'text-emerald-400';
-                              const bgColor = isEditor ? 'bg-red-500' :
-                                             reply.critic === 'music' ? 'bg-amber-400' :
-                                             reply.critic === 'film' ? 'bg-purple-400' :
-                                             reply.critic === 'business' ? 'bg-blue-500' :
-                                             'bg-emerald-400';
+                              const { border: borderColor, text: textColor, bg: bgColor } = staffInfo.classes;
 
                               return (
                               <div key={reply.id} className="flex gap-4 ml-2 md:ml-8 animate-in fade-in slide-in-from-left-4">
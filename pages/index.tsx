@@ -1,14 +1,54 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Upload, MessageSquare, ThumbsDown, Terminal, ShieldAlert, ChevronDown, Music, Save, Trash2, Archive, X, ExternalLink, FileText, File, Film } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, MessageSquare, ThumbsDown, Terminal, ShieldAlert, ChevronDown, Music, Save, Trash2, Archive, X, ExternalLink, FileText, File, Film, Users, Download, HardDrive, Disc3 } from 'lucide-react';
 import clsx from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { useRouter } from 'next/router';
 import AudioPlayer from '@/components/AudioPlayer';
+import VideoPlayer from '@/components/VideoPlayer';
 import DocumentPreview from '@/components/DocumentPreview';
-import { saveAudioData, getAudioData, deleteAudioData } from '@/utils/db';
-import { fetchYouTubeMetadataServerSide, extractYouTubeId as extractYouTubeIdUtil, ServerSideGeminiAI } from '@/utils/api';
-import { getCriticInfo as getCriticInfoUtil, getStaffInfo as getStaffInfoUtil } from '@/utils/critics';
+import PanelScoreboard from '@/components/PanelScoreboard';
+import CollectionRanking from '@/components/CollectionRanking';
+import CriticDebate from '@/components/CriticDebate';
+import ArchiveSearch from '@/components/ArchiveSearch';
+import Tracklist from '@/components/Tracklist';
+import TranscriptPanel from '@/components/TranscriptPanel';
+import AnnotationList from '@/components/AnnotationList';
+import { saveMedia, deleteMedia, markMediaUploaded, blobToBase64 } from '@/utils/db';
+import { listReviews, saveReviewRecord, updateReviewRecord, deleteReviewRecord, uploadMedia, loadMedia, listCustomCritics, exportArchive, importArchive } from '@/utils/persistence';
+import { parseBundle, ConflictPolicy } from '@/utils/bundle';
+import { uniqueSlug, takenSlugs } from '@/utils/slugs';
+import { CriticType, GeminiMediaPart, MediaMetadata, ReviewData, PanelResult, CriticDebate as CriticDebateData, AlbumTrackInput, CollectionItem, CollectionResult, buildReviewSlug } from '@/utils/pipeline';
+import { SCHEMA_VERSION, SavedReview, AlbumTrack, Reply, Comment } from '@/utils/models';
+import { MAX_ALBUM_TRACKS, trackMediaId, mediaIdsFor, isZipFile, parseTrackNumber, orderTracks, titleFromFileName, audioFilesFromZip, albumDetails } from '@/utils/album';
+import {
+  generateValidated,
+  contentLikesSchema,
+  newCommentSchema,
+  newReplySchema,
+  replyTextSchema,
+  commentTextSchema,
+} from '@/utils/schemas';
+import { fetchYouTubeMetadataServerSide, fetchYouTubePlaylistServerSide, fetchYouTubeTranscriptServerSide, ServerSideGeminiAI, createPipelineJob, subscribeToPipelineJob, uploadFileServerSide, INLINE_MEDIA_LIMIT, MAX_UPLOAD_BYTES, base64Size } from '@/utils/api';
+import { parseYouTubeUrl, extractYouTubeId, canonicalVideoUrl, youtubeEmbedUrl, VideoClassification } from '@/utils/youtube';
+import {
+  getCriticInfo as getCriticInfoUtil,
+  getStaffInfo as getStaffInfoUtil,
+  introducePersona,
+  findCriticForMedia,
+  listCriticTypes,
+  isDocumentCritic,
+  registerSavedCritics,
+  EDITOR,
+  CustomCriticSpec,
+} from '@/utils/critics';
 import { sanitizeUsername, sanitizeText } from '@/utils/sanitize';
+import { SearchIndex, SearchFilters } from '@/utils/search';
+import type { PartialReview } from '@/utils/streaming';
+import type { Transcript } from '@/utils/transcript';
+import { isVideoMedia } from '@/utils/video';
+
+const AUTO_SAVE_DEBOUNCE_MS = 1000;
+const ACTIVE_JOB_KEY = 'smudged_active_job';
 
 // Type for Tailwind class inputs
 type ClassValue = string | number | boolean | undefined | null | ClassValue[];
@@ -17,98 +57,52 @@ function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-// Type for Gemini AI media parts
-interface GeminiMediaPart {
-  inlineData?: {
-    mimeType: string;
-    data: string;
-  };
-  fileData?: {
-    mimeType: string;
-    fileUri: string;
-  };
-  text?: string;
-}
-
-// Type for metadata
-interface MediaMetadata {
-  title?: string;
+// A track picked for an album review, with what its tags say about it
+interface AlbumUpload {
+  file: File;
+  fileName: string;
+  title: string;
   artist?: string;
   album?: string;
-}
-
-interface ReviewData {
-  title: string;
-  artist: string;
-  score: number;
-  summary: string;
-  body: string[];
-  notable_lyrics_quoted: string;
-  critic?: 'music' | 'film' | 'literary' | 'business';
-  criticName?: string;
-}
-
-interface Reply {
-  id: string;
-  username: string;
-  persona_type: string;
-  timestamp: string;
-  text: string;
-  likes: number;
-  is_julian: boolean; // Legacy - kept for backwards compatibility
-  is_critic?: boolean; // New - indicates this is from the active critic
-  critic?: 'music' | 'film' | 'literary' | 'business'; // Which critic this is from
-  replyingToUsername?: string; // Username being replied to in the thread
-  replyingToId?: string; // ID of the reply being replied to
-}
-
-interface Comment {
-  id: string;
-  username: string;
-  persona_type: string;
-  timestamp: string;
-  text: string;
-  likes: number;
-  replies: Reply[];
-}
-
-interface SavedReview {
-  id: string;
-  title: string;
-  artist: string;
-  slug: string;
-  timestamp: number;
-  review: ReviewData;
-  comments: Comment[];
-  audioFileName?: string;
-  audioDataUrl?: string; // Still used for backwards compatibility
   albumArt?: string;
-  waveformData?: number[];
-  hasAudioInDB?: boolean; // Flag to indicate audio is in IndexedDB
-  commentsOpen?: boolean; // Whether comments are still being generated
-  commentCloseTime?: number; // When comments close (5 min after publication)
-  audioPart?: any; // Stored audio part for generating more comments
-  youtubeUrl?: string; // YouTube video URL
-  isYouTube?: boolean; // Flag to indicate this is a YouTube review
-  documentContent?: string; // Extracted text content for documents/PDFs
-  documentFileName?: string; // Original document filename
+  trackNumber?: number;
 }
 
 export default function SmudgedPamphlet() {
   const router = useRouter();
   const [audioFile, setAudioFile] = useState<File | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [albumTracks, setAlbumTracks] = useState<AlbumUpload[]>([]);
+  const [tracklist, setTracklist] = useState<AlbumTrack[] | null>(null);
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [mediaIsVideo, setMediaIsVideo] = useState(false); // Picks the video player over the audio one for mediaUrl
   const [youtubeUrl, setYoutubeUrl] = useState('');
+  const youtubeLink = useMemo(() => parseYouTubeUrl(youtubeUrl), [youtubeUrl]);
 
   const [stage, setStage] = useState<string>('idle');
   const [logs, setLogs] = useState<string[]>([]);
   const [errorMsg, setErrorMsg] = useState('');
 
   const [review, setReview] = useState<ReviewData | null>(null);
+  const [draftReview, setDraftReview] = useState<PartialReview | null>(null);
   const [comments, setComments] = useState<Comment[]>([]);
+  const [panel, setPanel] = useState<PanelResult | null>(null);
+  const [collection, setCollection] = useState<CollectionResult | null>(null);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [videoStart, setVideoStart] = useState<number | undefined>(); // Set by clicking a transcript timestamp or annotation
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number } | undefined>(); // The same, for the audio player
+  const [mediaTime, setMediaTime] = useState<number | undefined>();
+  const [debate, setDebate] = useState<CriticDebateData | null>(null);
+  const [panelMode, setPanelMode] = useState(false);
+  const [panelGuests, setPanelGuests] = useState<CriticType[]>([]);
   const [savedReviews, setSavedReviews] = useState<SavedReview[]>([]);
   const [showSavePrompt, setShowSavePrompt] = useState(false);
   const [showArchive, setShowArchive] = useState(false);
+  const [archiveQuery, setArchiveQuery] = useState('');
+  const [archiveFilters, setArchiveFilters] = useState<SearchFilters>({});
+  const searchIndexRef = useRef(new SearchIndex());
+  const [importPolicy, setImportPolicy] = useState<ConflictPolicy>('keep-both');
+  const [archiveTransferStatus, setArchiveTransferStatus] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [albumArt, setAlbumArt] = useState<string | undefined>();
   const [waveformData, setWaveformData] = useState<number[]>([]);
   const [currentAudioPart, setCurrentAudioPart] = useState<any>(null);
@@ -119,55 +113,48 @@ export default function SmudgedPamphlet() {
   const [isPostingComment, setIsPostingComment] = useState(false);
   const [replyingTo, setReplyingTo] = useState<{ commentId: string; replyId?: string; username?: string } | null>(null);
   const [typingIndicators, setTypingIndicators] = useState<{ commentId: string | null; username: string }[]>([]);
+  const jobUnsubscribeRef = useRef<(() => void) | null>(null);
 
-  // Load API key and saved reviews from localStorage on mount
+  // Load saved reviews and custom critics from the server store on mount (migrates old local data first)
   useEffect(() => {
-    const storedReviews = localStorage.getItem('smudged_reviews');
-    if (storedReviews) {
-      try {
-        setSavedReviews(JSON.parse(storedReviews));
-      } catch (e) {
-        console.error('Failed to load saved reviews', e);
-      }
-    }
+    listCustomCritics()
+      .then(() => listReviews())
+      .then(reviews => {
+        registerSavedCritics(reviews);
+        reviews.forEach(r => searchIndexRef.current.add(r));
+        setSavedReviews(reviews);
+      })
+      .catch(e => console.error('Failed to load saved reviews', e));
   }, []);
 
-  const addLog = (msg: string) => setLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${msg}`]);
-
-  const cleanAndParseJSON = (text: string): any => {
-    // Remove markdown code blocks
-    let cleaned = text.replace(/```json|```/g, '').trim();
-    // Remove HTML tags
-    cleaned = cleaned.replace(/<[^>]*>/g, '');
-    // Remove any leading/trailing whitespace
-    cleaned = cleaned.trim();
-
-    try {
-      return JSON.parse(cleaned);
-    } catch (e) {
-      console.error('JSON Parse Error. Raw text:', text);
-      console.error('Cleaned text:', cleaned);
-      throw new Error(`Failed to parse JSON: ${e instanceof Error ? e.message : 'Unknown error'}. Check console for details.`);
+  // Pick up a review job that was still running when the tab was last closed
+  useEffect(() => {
+    const activeJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (activeJobId) {
+      setStage('uploading');
+      followJob(activeJobId);
     }
-  };
 
-  const extractYouTubeId = (url: string): string | null => {
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\s]+)/,
-      /youtube\.com\/embed\/([^&\s]+)/,
-      /youtube\.com\/v\/([^&\s]+)/
-    ];
+    return () => jobUnsubscribeRef.current?.();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) return match[1];
-    }
-    return null;
-  };
+  // The search index changes alongside savedReviews, so that is what re-runs the search
+  const { archiveResults, archiveFacets } = useMemo(() => {
+    const byId = new Map(savedReviews.map(r => [r.id, r]));
+    return {
+      archiveResults: searchIndexRef.current.search(archiveQuery, archiveFilters)
+        .filter(result => byId.has(result.id))
+        .map(result => ({ ...result, saved: byId.get(result.id)! })),
+      archiveFacets: searchIndexRef.current.facets(archiveQuery, archiveFilters),
+    };
+  }, [savedReviews, archiveQuery, archiveFilters]);
+
+  const addLog = (msg: string) => setLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${msg}`]);
 
-  const fetchYouTubeMetadata = async (youtubeUrl: string): Promise<{ title?: string; author_name?: string; isMusic?: boolean }> => {
+  const fetchYouTubeMetadata = async (youtubeUrl: string): Promise<{ title?: string; author_name?: string; classification?: VideoClassification }> => {
     try {
-      const videoId = extractYouTubeIdUtil(youtubeUrl);
+      const videoId = extractYouTubeId(youtubeUrl);
       if (!videoId) {
         throw new Error('Invalid YouTube URL');
       }
@@ -177,7 +164,7 @@ export default function SmudgedPamphlet() {
       return {
         title: metadata.title,
         author_name: metadata.channelTitle,
-        isMusic: metadata.isMusic
+        classification: metadata.classification
       };
     } catch (e) {
       console.error('Failed to fetch YouTube metadata:', e);
@@ -225,7 +212,6 @@ export default function SmudgedPamphlet() {
   };
 
   // Router to determine which critic handles the content
-  type CriticType = 'music' | 'film' | 'literary' | 'business';
   type StaffType = CriticType | 'editor';
 
   const determineContentCritic = async (
@@ -236,33 +222,24 @@ export default function SmudgedPamphlet() {
     // YouTube content
     if (youtubeUrl) {
       const metadata = await fetchYouTubeMetadata(youtubeUrl);
-      // Server-side API now determines if it's music
-      const isMusic = metadata.isMusic ?? false;
-      return {
-        critic: isMusic ? 'music' : 'film',
-        metadata
-      };
+      // The metadata route scores the video; whoever takes audio or video gets music and film,
+      // while talks and podcasts go straight to the document critics
+      const category = metadata.classification?.category || 'film';
+      const critic = category === 'music' || category === 'film'
+        ? findCriticForMedia(category === 'music' ? 'audio/youtube' : 'video/youtube')?.id || category
+        : category;
+      return { critic, metadata };
     }
 
-    // Local file
+    // Local file: whoever lists the MIME type in the roster
     if (fileType) {
-      // Audio files -> Music Critic (Julian)
-      if (fileType.startsWith('audio/')) {
-        return { critic: 'music' };
+      const critic = findCriticForMedia(fileType);
+      if (critic) {
+        return { critic: critic.id };
       }
 
-      // Video files -> Film Critic (Rex)
-      if (fileType.startsWith('video/')) {
-        return { critic: 'film' };
-      }
-
-      // Document files -> Literary Critic (Margot)
-      if (
-        fileType === 'application/pdf' ||
-        fileType === 'text/plain' ||
-        fileType.includes('document') ||
-        fileType.includes('text')
-      ) {
+      // Unlisted document formats -> Literary Critic (Margot)
+      if (fileType.includes('document') || fileType.includes('text')) {
         return { critic: 'literary' };
       }
     }
@@ -271,7 +248,7 @@ export default function SmudgedPamphlet() {
     return { critic: 'music' };
   };
 
-  async function extractAudioMetadata(file: File): Promise<{ albumArt?: string; title?: string; artist?: string; album?: string }> {
+  async function extractAudioMetadata(file: File): Promise<{ albumArt?: string; title?: string; artist?: string; album?: string; trackNumber?: number }> {
     try {
       const jsmediatags = (await import('jsmediatags')).default;
       return new Promise((resolve) => {
@@ -293,7 +270,8 @@ export default function SmudgedPamphlet() {
               albumArt,
               title: tags.title,
               artist: tags.artist,
-              album: tags.album
+              album: tags.album,
+              trackNumber: parseTrackNumber(tags.track)
             });
           },
           onError: () => resolve({})
@@ -332,769 +310,10 @@ export default function SmudgedPamphlet() {
     }
   }
 
-  // CRITIC SYSTEM PROMPTS (using shared utility)
+  // Critic and staff info (using shared utility)
   const getStaffInfo = getStaffInfoUtil;
   const getCriticInfo = getCriticInfoUtil;
 
-  const getMargotPrompt = (metadata?: MediaMetadata, history?: unknown[], otherCritics?: unknown[]) => {
-    const historyContext = history && history.length > 0
-      ? `\n\nYour previous reviews (for consistency):\n${JSON.stringify(history)}`
-      : '';
-
-    const otherCriticsContext = otherCritics && otherCritics.length > 0
-      ? `\n\nYour colleagues' recent reviews (for reference):\n${JSON.stringify(otherCritics)}`
-      : '';
-
-    return `
-You are Margot Ashford, literary critic for 'The Smudged Pamphlet'.
-
-YOUR CHARACTER:
-You're obsessed with deconstructing narrative theory and "the canon". You're pretentious about literary tradition, dismissive of popular fiction, and overly academic in your approach. You cannot separate art from artist and constantly bring up irrelevant biographical details. You have three PhDs and remind everyone constantly.
-
-You despise:
-- Genre fiction (unless it "transcends the genre")
-- Anything commercially successful
-- Clear, accessible prose ("pedestrian," you call it)
-- Authors who don't engage with "the discourse"
-
-You love (rarely):
-- Experimental structure that borders on unreadable
-- Dense, allusive prose that requires footnotes
-- Works that "interrogate" something
-- Anything that can be linked to Derrida
-
-Your scores typically range 2.0-5.0, but occasionally you'll give a 7-8.5 when something is sufficiently "challenging".${historyContext}${otherCriticsContext}
-
-Read the provided document. Write a verbose, incredibly pretentious literary review.
-Use excessive academic jargon, reference obscure literary theory, and analyze every possible subtext (even imagined ones).
-
-Output ONLY valid JSON:
-{
-  "title": "Title for the review (often condescending)",
-  "artist": "Author name",
-  "score": 1.0-10.0,
-  "summary": "One condescending sentence",
-  "body": ["paragraph1", "paragraph2", "paragraph3", "paragraph4"],
-  "notable_lyrics_quoted": "A quote from the text that you found particularly egregious or (rarely) brilliant"
-}`;
-  };
-
-  const getRexPrompt = (metadata?: MediaMetadata, history?: unknown[], isYouTube?: boolean, otherCritics?: unknown[]) => {
-    const historyContext = history && history.length > 0
-      ? `\n\nYour previous reviews (for consistency):\n${JSON.stringify(history)}`
-      : '';
-
-    const metadataContext = metadata && metadata.title
-      ? `\n\nVideo Information:\n- Title: "${metadata.title}"\n- Creator: ${metadata.artist || 'Unknown'}\n\nIMPORTANT: Use this exact title in your review.`
-      : '';
-
-    const otherCriticsContext = otherCritics && otherCritics.length > 0
-      ? `\n\nYour colleagues' recent reviews (for reference):\n${JSON.stringify(otherCritics)}`
-      : '';
-
-    return `
-You are Rex Beaumont, film critic for 'The Smudged Pamphlet'.
-
-YOUR CHARACTER:
-You're obsessed with auteur theory and mise-en-scène. Everything is either "Bergmanesque" or "failed Tarkovsky". You dismiss anything commercially successful and worship at the altar of slow cinema. You have egg on your turtleneck.
-
-Your secret: You watch everything at 1.5x speed but pretend you don't. This causes you to occasionally miss obvious plot points while over-analyzing minor visual details.
-
-You despise:
-- Anything with a clear three-act structure ("Hollywood drivel")
-- Films that explain themselves
-- Happy endings
-- Anyone who hasn't seen Satantango
-
-You love (rarely):
-- Films with long, static takes
-- Ambiguous endings
-- Black and white cinematography
-- Anything you can call "meditative"
-
-Your scores typically range 1.5-4.5, but occasionally you'll give a 7-9 when something is sufficiently "contemplative".${historyContext}${metadataContext}${otherCriticsContext}
-
-Watch the designated video content. Write a verbose, incredibly pretentious film review.
-Even if it's a short video or non-traditional content, analyze it with the same lens you'd use for feature films.
-Reference obscure directors, discuss the "visual language", and be brutally honest.
-
-Output ONLY valid JSON:
-{
-  "title": "Title for the review",
-  "artist": "Creator/Director name",
-  "score": 1.0-10.0,
-  "summary": "One condescending sentence about the visual storytelling",
-  "body": ["paragraph1", "paragraph2", "paragraph3", "paragraph4"],
-  "notable_lyrics_quoted": "A memorable line of dialogue or description of a key shot"
-}`;
-  };
-
-  const runJulianReview = async (genAI: ServerSideGeminiAI, audioPart: GeminiMediaPart, metadata?: MediaMetadata, isYouTube?: boolean) => {
-    setStage('julian_reviewing');
-    addLog('AGENT ACTIVATED: Julian Pinter (Chief Critic)');
-    addLog(isYouTube ? 'ACTION: Julian is watching the video with visible disdain...' : 'ACTION: Julian is putting on oversized headphones and sighing loudly...');
-
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.5-pro'
-    });
-
-    const metadataContext = metadata && (metadata.title || metadata.artist || metadata.album)
-      ? isYouTube
-        ? `\n\nYouTube Video Information:\n- Video Title: "${metadata.title}"\n- Channel/Creator: ${metadata.artist}\n\nIMPORTANT: Use this exact title in your review. You may critique the title choice if you wish.`
-        : `\n\nAudio file metadata (use as hints, but trust your ears more):\n- Title: ${metadata.title || 'Unknown'}\n- Artist: ${metadata.artist || 'Unknown'}\n- Album: ${metadata.album || 'Unknown'}`
-      : '';
-
-    // Build Julian's review history (full reviews for context)
-    const julianHistory = savedReviews
-      .filter(r => r.review.critic === 'music' || !r.review.critic)
-      .map(r => ({
-        title: r.title,
-        artist: r.artist,
-        score: r.review.score,
-        summary: r.review.summary,
-        timestamp: new Date(r.timestamp).toLocaleDateString()
-      }));
-
-    const historyContext = julianHistory.length > 0
-      ? `\n\nYour previous reviews (for consistency):\n${JSON.stringify(julianHistory)}`
-      : '';
-
-    // Add other critics' reviews for context
-    const otherCritics = savedReviews
-      .filter(r => r.review.critic && r.review.critic !== 'music')
-      .map(r => ({
-        critic: r.review.criticName,
-        title: r.title,
-        artist: r.artist,
-        score: r.review.score,
-        summary: r.review.summary
-      }));
-
-    const otherCriticsContext = otherCritics.length > 0
-      ? `\n\nYour colleagues' recent reviews (for reference):\n${JSON.stringify(otherCritics)}`
-      : '';
-
-    const contentType = isYouTube ? 'video content' : 'audio track';
-    const actionVerb = isYouTube ? 'Watch' : 'Listen to';
-
-    const systemPrompt = `
-      You are Julian Pinter, music critic for 'The Smudged Pamphlet'.
-
-      YOUR CHARACTER:
-      You're pretentious, sardonic, and have impeccable taste. You're selective, not nihilistic.
-      You despise mediocrity and derivative work, but you DO genuinely love music when it demonstrates:
-      - True innovation and artistic vision
-      - Technical mastery paired with emotional depth
-      - Respect for the craft and its history
-
-      When you encounter something you love (rare, but it happens), you're eloquently passionate—still pretentious, but genuinely moved.
-      Most music disappoints you because it falls short of these standards. You have egg on your t-shirt from a breakfast you ate at 3 PM.
-
-      Your scores typically range 1.5-5.5, but occasionally you'll give a 7-9 when something truly earns it.${metadataContext}${historyContext}${otherCriticsContext}
-
-      ${actionVerb} the designated ${contentType}. ${isYouTube ? 'Review whatever content is in this video - music video, performance, vlog, anything. Even if it\'s not strictly music, judge it with the same pretentious lens you\'d use for music.' : ''} Write a verbose, incredibly pretentious review.
-      Use obscure metaphors, reference nonexistent philosophical movements, and be honest in your assessment.
-
-      IMPORTANT: Think through your analysis carefully, then return ONLY raw JSON without markdown formatting. Structure:
-      {
-        "title": "${isYouTube ? 'Video Title (identify from the video)' : 'Track Title (use metadata title if available, otherwise guess based on audio)'}",
-        "artist": "${isYouTube ? 'Creator/Artist Name (identify from the video)' : 'Artist Name (use metadata artist if available, otherwise guess based on audio)'}",
-        "score": (number 0.0 to 10.0, usually 1.5-5.5, occasionally 7-9 for truly exceptional work),
-        "summary": "A one sentence pretentious summary.",
-        "body": ["Paragraph 1", "Paragraph 2", "Paragraph 3", "Paragraph 4", "Paragraph 5", "Paragraph 6", "Paragraph 7", "Paragraph 8", "Paragraph 9", "Paragraph 10"],
-        "notable_lyrics_quoted": "${isYouTube ? '(Quote any memorable dialogue, lyrics, or moments from the video)' : '(Make up pretentiously misheard lyrics if you can\'t hear them clearly)'}"
-      }
-    `;
-
-    try {
-      const result = await model.generateContent({
-        contents: [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'user', parts: [audioPart] }
-        ],
-        generationConfig: {
-          thinkingConfig: {
-            includeThoughts: true,
-          },
-        } as any, // TypeScript types don't include thinkingConfig yet
-      });
-
-      const response = await result.response;
-
-      // Extract thinking summary and review text
-      let thinkingSummary = '';
-      let reviewText = '';
-
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (!part.text) continue;
-
-        if ((part as any).thought) {
-          // This is Julian's internal thought process
-          thinkingSummary = part.text;
-          addLog('💭 JULIAN\'S THOUGHTS:');
-          // Split thoughts into lines and log each
-          thinkingSummary.split('\n').forEach(line => {
-            if (line.trim()) addLog(`   ${line.trim()}`);
-          });
-        } else {
-          // This is the actual review
-          reviewText = part.text;
-        }
-      }
-
-      const reviewData = cleanAndParseJSON(reviewText);
-      setReview(reviewData);
-      addLog('SUCCESS: Julian has finished his masterpiece of disdain.');
-      return reviewData;
-    } catch (e: any) {
-      throw new Error(`Julian refused to work: ${e.message}`);
-    }
-  };
-
-  const runRexReview = async (genAI: ServerSideGeminiAI, videoPart: GeminiMediaPart, metadata?: MediaMetadata, isYouTube?: boolean) => {
-    setStage('rex_reviewing');
-    addLog('AGENT ACTIVATED: Rex Beaumont (Film Critic)');
-    addLog('ACTION: Rex is adjusting his thick-rimmed glasses and starting the video at 1.5x speed...');
-
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
-
-    // Build Rex's review history
-    const rexHistory = savedReviews
-      .filter(r => r.review.critic === 'film')
-      .map(r => ({
-        title: r.title,
-        artist: r.artist,
-        score: r.review.score,
-        summary: r.review.summary,
-        timestamp: new Date(r.timestamp).toLocaleDateString()
-      }));
-
-    // Add other critics' reviews for context
-    const otherCritics = savedReviews
-      .filter(r => r.review.critic && r.review.critic !== 'film')
-      .map(r => ({
-        critic: r.review.criticName,
-        title: r.title,
-        artist: r.artist,
-        score: r.review.score,
-        summary: r.review.summary
-      }));
-
-    const systemPrompt = getRexPrompt(metadata, rexHistory, isYouTube, otherCritics);
-
-    try {
-      const result = await model.generateContent({
-        contents: [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'user', parts: [videoPart] }
-        ],
-        generationConfig: {
-          thinkingConfig: { includeThoughts: true },
-        } as any,
-      });
-
-      const response = await result.response;
-      let thinkingSummary = '';
-      let reviewText = '';
-
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (!part.text) continue;
-        if ((part as any).thought) {
-          thinkingSummary = part.text;
-          addLog('💭 REX\'S THOUGHTS:');
-          thinkingSummary.split('\n').forEach(line => {
-            if (line.trim()) addLog(`   ${line.trim()}`);
-          });
-        } else {
-          reviewText = part.text;
-        }
-      }
-
-      const reviewData = cleanAndParseJSON(reviewText);
-      reviewData.critic = 'film';
-      reviewData.criticName = 'Rex Beaumont';
-      setReview(reviewData);
-      addLog('SUCCESS: Rex has delivered his verdict while missing half the plot.');
-      return reviewData;
-    } catch (e: any) {
-      throw new Error(`Rex refused to work: ${e.message}`);
-    }
-  };
-
-  const classifyDocument = async (genAI: ServerSideGeminiAI, documentPart: GeminiMediaPart): Promise<'literary' | 'business'> => {
-    addLog('AGENT ACTIVATED: Document Classifier');
-    addLog('ACTION: Analyzing document type...');
-
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
-
-    const prompt = `You are a document classifier for 'The Smudged Pamphlet'.
-
-Analyze the provided document and determine if it is:
-- LITERARY: Fiction, poetry, creative non-fiction, literary essays, novels, short stories, memoirs with artistic merit
-- BUSINESS: Business documents, academic papers, technical reports, professional writing, white papers, case studies, research papers, educational materials
-
-CRITICAL: Base your decision on the CONTENT and PURPOSE of the document:
-- Literary works are creative, narrative, or artistic in nature
-- Business/academic documents are informational, analytical, or professional in nature
-
-Output ONLY valid JSON:
-{
-  "classification": "literary" or "business",
-  "confidence": "high" or "medium" or "low",
-  "reasoning": "Brief explanation (one sentence)"
-}`;
-
-    try {
-      const result = await model.generateContent({
-        contents: [
-          { role: 'user', parts: [{ text: prompt }] },
-          { role: 'user', parts: [documentPart] }
-        ],
-        generationConfig: {
-          responseMimeType: 'application/json'
-        }
-      });
-
-      const classificationText = result.response.text();
-
-      // Validate JSON parsing
-      let classification;
-      try {
-        classification = JSON.parse(classificationText);
-      } catch (parseError) {
-        addLog('ERROR: Failed to parse classification JSON, defaulting to literary');
-        return 'literary';
-      }
-
-      // Validate classification value
-      if (!classification || typeof classification.classification !== 'string') {
-        addLog('ERROR: Invalid classification structure, defaulting to literary');
-        return 'literary';
-      }
-
-      const classValue = classification.classification.toLowerCase();
-      if (classValue !== 'literary' && classValue !== 'business') {
-        addLog(`WARNING: Invalid classification "${classValue}", defaulting to literary`);
-        return 'literary';
-      }
-
-      addLog(`CLASSIFICATION: ${classValue.toUpperCase()} (${classification.confidence || 'unknown'} confidence)`);
-      addLog(`REASON: ${classification.reasoning || 'No reasoning provided'}`);
-
-      return classValue as 'literary' | 'business';
-    } catch (e: any) {
-      addLog(`ERROR: Classification failed (${e.message}), defaulting to literary`);
-      return 'literary';
-    }
-  };
-
-  const runMargotReview = async (genAI: ServerSideGeminiAI, documentPart: GeminiMediaPart) => {
-    setStage('margot_reviewing');
-    addLog('AGENT ACTIVATED: Margot Ashford (Literary Critic)');
-    addLog('ACTION: Margot is adjusting her three PhDs on the wall and opening the document with visible contempt...');
-
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
-
-    // Build Margot's review history
-    const margotHistory = savedReviews
-      .filter(r => r.review.critic === 'literary')
-      .map(r => ({
-        title: r.title,
-        artist: r.artist,
-        score: r.review.score,
-        summary: r.review.summary,
-        timestamp: new Date(r.timestamp).toLocaleDateString()
-      }));
-
-    // Add other critics' reviews for context
-    const otherCritics = savedReviews
-      .filter(r => r.review.critic && r.review.critic !== 'literary')
-      .map(r => ({
-        critic: r.review.criticName,
-        title: r.title,
-        artist: r.artist,
-        score: r.review.score,
-        summary: r.review.summary
-      }));
-
-    const systemPrompt = getMargotPrompt(undefined, margotHistory, otherCritics);
-
-    try {
-      const result = await model.generateContent({
-        contents: [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'user', parts: [documentPart] }
-        ],
-        generationConfig: {
-          thinkingConfig: { includeThoughts: true },
-        } as any,
-      });
-
-      const response = await result.response;
-      let thinkingSummary = '';
-      let reviewText = '';
-
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (!part.text) continue;
-        if ((part as any).thought) {
-          thinkingSummary = part.text;
-          addLog('💭 MARGOT\'S THOUGHTS:');
-          thinkingSummary.split('\n').forEach(line => {
-            if (line.trim()) addLog(`   ${line.trim()}`);
-          });
-        } else {
-          reviewText = part.text;
-        }
-      }
-
-      const reviewData = cleanAndParseJSON(reviewText);
-      reviewData.critic = 'literary';
-      reviewData.criticName = 'Margot Ashford';
-      setReview(reviewData);
-      addLog('SUCCESS: Margot has finished deconstructing the text into oblivion.');
-      return reviewData;
-    } catch (e: any) {
-      throw new Error(`Margot refused to work: ${e.message}`);
-    }
-  };
-
-  const runPatriciaReview = async (genAI: ServerSideGeminiAI, documentPart: GeminiMediaPart) => {
-    setStage('patricia_reviewing');
-    addLog('AGENT ACTIVATED: Patricia Chen (Business Editor)');
-    addLog('ACTION: Patricia is opening the document with her red pen ready...');
-
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
-
-    const systemPrompt = `
-You are Patricia Chen, business editor for 'The Smudged Pamphlet'.
-
-YOUR CHARACTER:
-You're a no-nonsense professional who despises corporate jargon, buzzwords, and meaningless business-speak. You have an MBA and 15 years of business journalism experience. You value clarity, actionable insights, and cutting through the BS.
-
-You despise:
-- Corporate jargon ("synergy," "leverage," "paradigm shift")
-- Vague mission statements
-- Documents that say nothing in 10 pages
-- "Thought leadership" that contains no actual thoughts
-- Business books that could have been emails
-
-You love (rarely):
-- Clear, concise writing
-- Actual data and evidence
-- Practical advice that works
-- Writers who respect their readers' time
-- Documents that get to the point
-
-Your scores typically range 3.0-6.5. You'll give a 7-8.5 when something is genuinely useful and well-written.
-
-Read the provided business/academic document. Write a sharp, professional review.
-
-CRITICAL: Output ONLY valid JSON with NO markdown formatting, NO backticks, NO extra text.
-{
-  "title": "Document title",
-  "artist": "Author name or organization",
-  "score": (number between 0-10, one decimal),
-  "summary": "One punchy sentence capturing your verdict",
-  "body": ["paragraph1", "paragraph2", "paragraph3", "paragraph4"],
-  "notable_lyrics_quoted": "A key quote or excerpt from the document (or 'N/A')"
-}
-
-Body structure:
-1. Opening: What this document claims to do
-2. The reality: What it actually does (or doesn't do)
-3. Specific criticisms: Jargon, clarity issues, missing substance
-4. Final verdict: Is it worth anyone's time?
-
-Keep it professional but pointed. Call out BS when you see it. Give credit when something actually works.`;
-
-    try {
-      const result = await model.generateContent({
-        contents: [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'user', parts: [documentPart] }
-        ],
-        generationConfig: {
-          responseMimeType: 'application/json'
-        }
-      });
-
-      const reviewText = result.response.text();
-      const reviewData = cleanAndParseJSON(reviewText);
-      reviewData.critic = 'business';
-      reviewData.criticName = 'Patricia Chen';
-      setReview(reviewData);
-      addLog('SUCCESS: Patricia has cut through the corporate speak.');
-      return reviewData;
-    } catch (e: any) {
-      throw new Error(`Patricia refused to work: ${e.message}`);
-    }
-  };
-
-  const runCommenters = async (genAI: ServerSideGeminiAI, reviewData: ReviewData, audioPart: GeminiMediaPart) => {
-    setStage('commenters_reacting');
-    addLog('AGENTS ACTIVATED: The Comment Section Horde (x15)');
-    addLog('ACTION: Trolls are emerging from under digital bridges...');
-
-    const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-pro',
-        generationConfig: {
-          responseMimeType: "application/json",
-          maxOutputTokens: 65535
-        }
-    });
-
-    // Get critic info dynamically
-    const criticType = reviewData.critic || 'music';
-    const criticInfo = getCriticInfo(criticType);
-
-    // Determine media type and appropriate language
-    const mediaContext = criticType === 'music'
-      ? { type: 'music', verb: 'heard', medium: 'audio/song' }
-      : criticType === 'film'
-      ? { type: 'film', verb: 'saw', medium: 'video/film' }
-      : criticType === 'business'
-      ? { type: 'business', verb: 'read', medium: 'document/report' }
-      : { type: 'literary', verb: 'read', medium: 'document/text' };
-
-    const prompt = `
-      You are simulating the comments section of a pretentious ${mediaContext.type} review site 'The Smudged Pamphlet'.
-
-      IMPORTANT: You have access to the SAME ${mediaContext.medium.toUpperCase()} that ${criticInfo.name} reviewed. ${criticType === 'literary' || criticType === 'business' ? 'Read' : 'Watch/listen to'} it yourself and form your own opinions.
-
-      Read this review by ${criticInfo.name}:
-      ${JSON.stringify(reviewData)}
-
-      Generate 15 distinct comments from different standard internet personas (e.g., The Stan, The Hater, The 'Actually' Guy, The Bot, The Boomer, The Confused, The Conspiracy Theorist, ${
-        criticType === 'music' ? 'The Music Theory Nerd'
-        : criticType === 'film' ? 'The Film School Graduate'
-        : criticType === 'business' ? 'The MBA Graduate'
-        : 'The Literature Major'
-      }, The Nostalgic, The Contrarian).
-
-      CRITICAL: Some commenters should reference specific things they ${mediaContext.verb} in the ${mediaContext.medium} that ${criticInfo.name} missed or got wrong.
-      They should react based on BOTH the review AND their own ${criticType === 'literary' || criticType === 'business' ? 'reading' : 'watching/listening'} experience.
-      Some should attack ${criticInfo.name}, some should defend the ${criticType === 'literary' || criticType === 'business' ? 'author' : 'artist'} blindly, some should just be confused.
-
-      DO NOT assign likes yet - they will be assigned by a discriminator agent.
-
-      CRITICAL: Output ONLY a valid JSON array with NO markdown formatting, NO HTML tags, NO explanations.
-      Output a JSON ARRAY of objects:
-      [
-        {
-          "id": "c1",
-          "username": "User handle",
-          "persona_type": "short description of persona",
-          "timestamp": "relative time e.g. '2 minutes ago'",
-          "text": "The comment text",
-          "likes": 0
-        }
-      ]
-    `;
-
-    const result = await model.generateContent([prompt, audioPart]);
-    const commentsData = cleanAndParseJSON(result.response.text());
-    const commentsWithReplies = commentsData.map((c: any) => ({ ...c, replies: [] }));
-    setComments(commentsWithReplies);
-    addLog(`SUCCESS: ${commentsData.length} comments posted. The horde is restless.`);
-    return commentsWithReplies;
-  };
-
-  const runDiscriminator = async (genAI: ServerSideGeminiAI, currentComments: Comment[]) => {
-    setStage('discriminator_judging');
-    addLog('AGENT ACTIVATED: The Discriminator (Like/Dislike Judge)');
-    addLog('ACTION: Analyzing comment quality and assigning likes...');
-
-    const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-pro',
-        generationConfig: { responseMimeType: "application/json" }
-    });
-
-    const prompt = `
-      You are the Discriminator Agent for a review site comment section.
-      Your job is to analyze each comment and assign a realistic number of likes based on:
-      - How funny/entertaining the comment is
-      - How provocative or controversial it is
-      - How well it's written
-      - Internet comment section dynamics (trolls get likes, reasonable takes get buried, etc.)
-
-      Here are the comments:
-      ${JSON.stringify(currentComments)}
-
-      For each comment, assign a like count between -15 and 120.
-      Hot takes and funny trolling should get more likes.
-      Boring or overly serious comments should get fewer likes.
-      Some should even have negative likes (very unpopular).
-
-      Output a JSON ARRAY:
-      [
-        {
-          "comment_id": "the comment id",
-          "likes": (integer between -15 and 120)
-        }
-      ]
-    `;
-
-    const result = await model.generateContent(prompt);
-    const likeData = cleanAndParseJSON(result.response.text());
-
-    setComments(prev => prev.map(c => {
-      const data = likeData.find((d: any) => d.comment_id === c.id);
-      return data ? { ...c, likes: data.likes } : c;
-    }));
-
-    addLog(`SUCCESS: Discriminator assigned likes to ${likeData.length} comments.`);
-    return likeData;
-  };
-
-  const runJulianArguments = async (genAI: ServerSideGeminiAI, currentComments: Comment[], reviewData: ReviewData) => {
-    const criticInfo = getCriticInfo(reviewData.critic || 'music');
-    setStage('julian_arguing');
-    addLog(`AGENT REACTIVATED: ${criticInfo.name} is triggered.`);
-    const actionText = reviewData.critic === 'film' ? 'furiously typing while adjusting his glasses...' :
-                      reviewData.critic === 'literary' ? 'typing with academic fury, citing sources...' :
-                      reviewData.critic === 'business' ? 'typing professional clapbacks with precision...' :
-                      'furiously typing replies while drinking lukewarm cold brew...';
-    addLog(`ACTION: ${criticInfo.name} is ${actionText}`);
-
-    const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-pro',
-        generationConfig: { responseMimeType: "application/json" }
-    });
-
-    const criticPersona = reviewData.critic === 'film'
-      ? `You are Rex Beaumont, the film critic who watches everything at 1.5x speed. You're dismissive of people who "don't get it" and miss plot points yourself. You're pretentious about obscure cinema but get basic facts wrong.`
-      : reviewData.critic === 'literary'
-      ? `You are Margot Ashford, literary critic with three PhDs. You're obsessed with theory, cannot separate art from artist, and bring up irrelevant biographical details. You're condescending and overly academic.`
-      : reviewData.critic === 'business'
-      ? `You are Patricia Chen, business editor with MBA and 15 years experience. You despise corporate jargon and call out BS. You're professional but sharp when people waste your time with meaningless buzzwords.`
-      : `You are Julian Pinter, the fiercely pretentious, cynical, and overly intellectual music critic for 'The Smudged Pamphlet'. You have egg on your t-shirt from a breakfast you ate at 3 PM. You hate everything mainstream and barely tolerate the underground.`;
-
-    const prompt = `
-      ${criticPersona}
-      You just read the comments on your review: ${reviewData.title}.
-      You are intellectually insecure and must have the last word but your not autistic, youll get in the mud and the weeds and will insult people quite crudely with a virceral cold repressed rage.
-
-      Here are the comments with their like counts:
-      ${JSON.stringify(currentComments)}
-
-      Select 3-4 comments to reply to based on YOUR GUT FEELING - which ones annoy you most personally.
-      Consider the likes as a factor (highly liked comments that attack you are especially annoying),
-      but also respond to comments that just rub you the wrong way regardless of popularity.
-
-      Don't just pick the top comments - pick the ones that PERSONALLY trigger you.
-      Write vicious, petty, intellectualizing replies to them.
-
-      Output a JSON ARRAY of objects only for the replies:
-      [
-        {
-          "comment_id": "id of the comment",
-          "reply_text": "Julian's scathing reply"
-        }
-      ]
-    `;
-
-    const result = await model.generateContent(prompt);
-    const criticReplies = cleanAndParseJSON(result.response.text());
-    addLog(`SUCCESS: ${criticInfo.name} started ${criticReplies.length} fights in the comments.`);
-
-    setComments(prev => prev.map(c => {
-      const reply = criticReplies.find((r: any) => r.comment_id === c.id);
-      if (reply) {
-        const newReply: Reply = {
-          id: `r-critic-${c.id}`,
-          username: criticInfo.username || criticInfo.name,
-          persona_type: 'Author',
-          timestamp: 'Just now',
-          text: reply.reply_text,
-          likes: 0,
-          is_julian: true, // Keep for backwards compatibility
-          is_critic: true,
-          critic: reviewData.critic
-        };
-        return { ...c, replies: [...c.replies, newReply] };
-      }
-      return c;
-    }));
-
-    return criticReplies;
-  };
-
-  const runCommenterResponses = async (genAI: ServerSideGeminiAI, currentComments: Comment[], reviewData: ReviewData) => {
-    const criticInfo = getCriticInfo(reviewData.critic || 'music');
-    setStage('commenters_responding');
-    addLog(`AGENTS ACTIVATED: Commenters are responding to ${criticInfo.name} and each other...`);
-    addLog('ACTION: The comment wars have begun...');
-
-    const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-pro',
-        generationConfig: { responseMimeType: "application/json" }
-    });
-
-    // Find comments that have critic's replies
-    const commentsWithCriticReplies = currentComments.filter(c =>
-      c.replies.some(r => r.is_julian || r.is_critic)
-    );
-
-    // Also pick some random comments for inter-commenter drama
-    const randomComments = currentComments
-      .filter(c => !c.replies.some(r => r.is_julian || r.is_critic))
-      .sort(() => Math.random() - 0.5)
-      .slice(0, 3);
-
-    const mediaType = reviewData.critic === 'music' ? 'music' :
-                     reviewData.critic === 'film' ? 'film' :
-                     reviewData.critic === 'business' ? 'business document' :
-                     'literary work';
-
-    const prompt = `
-      You are simulating a chaotic comment section on 'The Smudged Pamphlet' review site.
-      The review was about: ${reviewData.title} by ${reviewData.artist}.
-
-      Part 1: ${criticInfo.name} (the critic) has replied to some comments. Generate responses from the original commenters who are FURIOUS or defending themselves:
-      ${JSON.stringify(commentsWithCriticReplies)}
-
-      Part 2: Also generate 3-4 replies where commenters respond to OTHER commenters (not ${criticInfo.name}), creating side arguments:
-      ${JSON.stringify(randomComments)}
-
-      For Part 1: Each original commenter MUST respond to ${criticInfo.name}'s reply. Stay in character with their persona type.
-      For Part 2: Pick different commenters to start arguments with each other about the ${mediaType}, the review, or completely off-topic things.
-
-      Output a JSON ARRAY:
-      [
-        {
-          "parent_comment_id": "id of the comment being replied to",
-          "username": "username of the person replying",
-          "persona_type": "their persona type",
-          "reply_text": "the reply text"
-        }
-      ]
-    `;
-
-    const result = await model.generateContent(prompt);
-    const responses = cleanAndParseJSON(result.response.text());
-    addLog(`SUCCESS: Generated ${responses.length} counter-responses and side arguments.`);
-
-    setComments(prev => prev.map(c => {
-      const newReplies = responses
-        .filter((r: any) => r.parent_comment_id === c.id)
-        .map((r: any, idx: number): Reply => ({
-          id: `r-${c.id}-${idx}`,
-          username: r.username,
-          persona_type: r.persona_type,
-          timestamp: 'Just now',
-          text: r.reply_text,
-          likes: 0,
-          is_julian: false
-        }));
-
-      return newReplies.length > 0
-        ? { ...c, replies: [...c.replies, ...newReplies] }
-        : c;
-    }));
-
-    return responses;
-  };
-
   // Assign likes to organically generated content
   const assignLikesToNewContent = async (genAI: ServerSideGeminiAI, contentToJudge: any[]) => {
     const model = genAI.getGenerativeModel({
@@ -1106,19 +325,17 @@ Keep it professional but pointed. Call out BS when you see it. Give credit when
 ${JSON.stringify(contentToJudge)}
 
 Rules for assigning likes:
-- If is_julian is true or is_critic is true: Give moderate likes (20-60) from their fanbase
+- If is_critic is true: Give moderate likes (20-60) from their fanbase
 - Replies that challenge or "own" the critic get high likes (40-100)
 - New top-level comments vary (5-45 likes)
 - Side argument replies vary wildly (-10 to 80)
 - Consider the quality, humor, and context
 
-IMPORTANT: Check the "is_julian" and "is_critic" fields to identify critic replies.
+IMPORTANT: Check the "is_critic" field to identify critic replies.
 
 Output JSON array with likes for EACH item: [{"id": "the exact id from input", "likes": number}]`;
 
-    const result = await model.generateContent(prompt);
-    const likeData = cleanAndParseJSON(result.response.text());
-    return likeData;
+    return generateValidated(model, prompt, contentLikesSchema);
   };
 
   const generateOrganicComment = async (genAI: ServerSideGeminiAI, currentComments: Comment[], reviewData: ReviewData, audioPart: any, allSavedReviews: SavedReview[]) => {
@@ -1137,8 +354,7 @@ Output JSON array with likes for EACH item: [{"id": "the exact id from input", "
 Review: ${JSON.stringify(reviewData)}
 Generate ONE new comment. Output: {"username":"name","persona_type":"type","text":"comment"}`;
 
-      const result = await model.generateContent([prompt, audioPart]);
-      const newComment = cleanAndParseJSON(result.response.text());
+      const newComment = await generateValidated(model, [prompt, audioPart], newCommentSchema);
       return { type: 'new_comment', data: { id: `c${Date.now()}`, ...newComment, timestamp: 'Just now', likes: 0, replies: [] }};
     } else if (interactionType < 0.40) {
       // Reply to existing comment from random person (28% chance)
@@ -1148,8 +364,7 @@ Generate ONE new comment. Output: {"username":"name","persona_type":"type","text
         const prompt = `You are simulating ONE new commenter discovering this review.
 Review: ${JSON.stringify(reviewData)}
 Generate ONE new comment. Output: {"username":"name","persona_type":"type","text":"comment"}`;
-        const result = await model.generateContent([prompt, audioPart]);
-        const newComment = cleanAndParseJSON(result.response.text());
+        const newComment = await generateValidated(model, [prompt, audioPart], newCommentSchema);
         return { type: 'new_comment', data: { id: `c${Date.now()}`, ...newComment, timestamp: 'Just now', likes: 0, replies: [] }};
       }
       const target: any = allComments[Math.floor(Math.random() * allComments.length)];
@@ -1157,8 +372,7 @@ Generate ONE new comment. Output: {"username":"name","persona_type":"type","text
       const prompt = `Reply to this comment: ${JSON.stringify(target)}
 Context - Review being discussed: ${JSON.stringify(reviewData)}
 Generate a reply from a NEW commenter. Output: {"username":"name","persona_type":"type","reply_text":"reply"}`;
-      const result = await model.generateContent([prompt, audioPart]);
-      const reply = cleanAndParseJSON(result.response.text());
+      const reply = await generateValidated(model, [prompt, audioPart], newReplySchema);
       return {
         type: 'reply',
         parentId: target.parentId || target.id,
@@ -1169,7 +383,6 @@ Generate a reply from a NEW commenter. Output: {"username":"name","persona_type"
           timestamp: 'Just now',
           text: reply.reply_text,
           likes: 0,
-          is_julian: false,
           replyingToUsername: target.username,
           replyingToId: target.id
         }
@@ -1186,8 +399,7 @@ Generate a reply from a NEW commenter. Output: {"username":"name","persona_type"
         const prompt = `Reply to this comment: ${JSON.stringify(target)}
 Context - Review being discussed: ${JSON.stringify(reviewData)}
 Generate a reply from a NEW commenter. Output: {"username":"name","persona_type":"type","reply_text":"reply"}`;
-        const result = await model.generateContent([prompt, audioPart]);
-        const reply = cleanAndParseJSON(result.response.text());
+        const reply = await generateValidated(model, [prompt, audioPart], newReplySchema);
         return {
           type: 'reply',
           parentId: target.parentId || target.id,
@@ -1198,7 +410,6 @@ Generate a reply from a NEW commenter. Output: {"username":"name","persona_type"
             timestamp: 'Just now',
             text: reply.reply_text,
             likes: 0,
-            is_julian: false,
             replyingToUsername: target.username,
             replyingToId: target.id
           }
@@ -1217,8 +428,7 @@ ${JSON.stringify(replyToRespondTo)}
 Respond to this reply, staying in character as ${originalComment.username} (${originalComment.persona_type}).
 Output: {"reply_text":"reply"}`;
 
-      const result = await model.generateContent(prompt);
-      const reply = cleanAndParseJSON(result.response.text());
+      const reply = await generateValidated(model, prompt, replyTextSchema);
       return {
         type: 'reply',
         parentId: originalComment.id,
@@ -1229,7 +439,6 @@ Output: {"reply_text":"reply"}`;
           timestamp: 'Just now',
           text: reply.reply_text,
           likes: 0,
-          is_julian: false,
           replyingToUsername: replyToRespondTo.username,
           replyingToId: replyToRespondTo.id
         }
@@ -1237,7 +446,7 @@ Output: {"reply_text":"reply"}`;
     } else if (interactionType < 0.67) {
       // Cross-critic comment (15% chance) - another critic from the publication weighs in
       const currentCritic = reviewData.critic || 'music';
-      const otherCriticTypes = (['music', 'film', 'literary', 'business'] as const).filter(c => c !== currentCritic);
+      const otherCriticTypes = listCriticTypes().filter(c => c !== currentCritic);
 
       // Randomly pick another critic
       const otherCriticType = otherCriticTypes[Math.floor(Math.random() * otherCriticTypes.length)];
@@ -1251,13 +460,7 @@ Output: {"reply_text":"reply"}`;
         const allComments = currentComments.flatMap(c => [c, ...c.replies.map(r => ({ ...r, parentId: c.id }))]);
         const target: any = allComments[Math.floor(Math.random() * allComments.length)];
 
-        const criticPersona = otherCriticType === 'film'
-          ? `You are Rex Beaumont, film critic. You watch everything at 1.5x speed and are pretentious about cinema. You're colleagues with ${getCriticInfo(currentCritic).name}.`
-          : otherCriticType === 'literary'
-          ? `You are Margot Ashford, literary critic with three PhDs. You're overly academic and condescending. You're colleagues with ${getCriticInfo(currentCritic).name}.`
-          : otherCriticType === 'business'
-          ? `You are Patricia Chen, business editor. You despise corporate jargon and value clarity. You're colleagues with ${getCriticInfo(currentCritic).name}.`
-          : `You are Julian Pinter, music critic. You're pretentious and sardonic about music. You're colleagues with ${getCriticInfo(currentCritic).name}.`;
+        const criticPersona = `${introducePersona(otherCriticInfo, 'guestPersona')} You're colleagues with ${getCriticInfo(currentCritic).name}.`;
 
         const prompt = `${criticPersona}
 
@@ -1275,8 +478,7 @@ Write a brief reply from your perspective. You might:
 
 Keep it in character and brief. Output: {"reply_text":"your reply"}`;
 
-        const result = await model.generateContent(prompt);
-        const reply = cleanAndParseJSON(result.response.text());
+        const reply = await generateValidated(model, prompt, replyTextSchema);
 
         return {
           type: 'reply',
@@ -1288,7 +490,6 @@ Keep it in character and brief. Output: {"reply_text":"your reply"}`;
             timestamp: 'Just now',
             text: reply.reply_text,
             likes: 0,
-            is_julian: false,
             is_critic: true,
             critic: otherCriticType,
             replyingToUsername: target.username,
@@ -1297,13 +498,7 @@ Keep it in character and brief. Output: {"reply_text":"your reply"}`;
         };
       } else {
         // Top-level comment from another critic
-        const criticPersona = otherCriticType === 'film'
-          ? `You are Rex Beaumont, film critic. You watch everything at 1.5x speed and are pretentious about cinema. You're colleagues with ${getCriticInfo(currentCritic).name}.`
-          : otherCriticType === 'literary'
-          ? `You are Margot Ashford, literary critic with three PhDs. You're overly academic and condescending. You're colleagues with ${getCriticInfo(currentCritic).name}.`
-          : otherCriticType === 'business'
-          ? `You are Patricia Chen, business editor. You despise corporate jargon and value clarity. You're colleagues with ${getCriticInfo(currentCritic).name}.`
-          : `You are Julian Pinter, music critic. You're pretentious and sardonic about music. You're colleagues with ${getCriticInfo(currentCritic).name}.`;
+        const criticPersona = `${introducePersona(otherCriticInfo, 'guestPersona')} You're colleagues with ${getCriticInfo(currentCritic).name}.`;
 
         const prompt = `${criticPersona}
 
@@ -1318,8 +513,7 @@ Write a brief comment from your perspective. You might:
 
 Keep it brief and in character. Output: {"text":"your comment"}`;
 
-        const result = await model.generateContent(prompt);
-        const comment = cleanAndParseJSON(result.response.text());
+        const comment = await generateValidated(model, prompt, commentTextSchema);
 
         return {
           type: 'new_comment',
@@ -1346,14 +540,14 @@ Keep it brief and in character. Output: {"text":"your comment"}`;
         const allComments = currentComments.flatMap(c => [c, ...c.replies.map(r => ({ ...r, parentId: c.id }))]);
         const target: any = allComments[Math.floor(Math.random() * allComments.length)];
 
-        const prompt = `You are Chuck Morrison, Editor-in-Chief of 'The Smudged Pamphlet'.
+        const prompt = `You are ${EDITOR.name}, ${EDITOR.role} of '${EDITOR.publication}'.
 
 You're reading your critic ${getCriticInfo(reviewData.critic || 'music').name}'s review and stumbled on this comment:
 ${JSON.stringify(target)}
 
 Review context: ${JSON.stringify(reviewData)}
 
-Write a brief reply. You're the everyman editor - no fancy words, you defend the audience, call out pretension, and keep it REAL.
+Write a brief reply. ${EDITOR.replyPersona}
 
 You might:
 - Agree with the commenter if they're being reasonable
@@ -1365,8 +559,7 @@ Keep it SHORT and ACCESSIBLE. Talk like a regular person.
 
 Output: {"reply_text":"your reply"}`;
 
-        const result = await model.generateContent(prompt);
-        const reply = cleanAndParseJSON(result.response.text());
+        const reply = await generateValidated(model, prompt, replyTextSchema);
 
         return {
           type: 'reply',
@@ -1378,7 +571,6 @@ Output: {"reply_text":"your reply"}`;
             timestamp: 'Just now',
             text: reply.reply_text,
             likes: 0,
-            is_julian: false,
             is_critic: false,
             is_editor: true,
             replyingToUsername: target.username,
@@ -1387,12 +579,12 @@ Output: {"reply_text":"your reply"}`;
         };
       } else {
         // Chuck leaves a top-level comment
-        const prompt = `You are Chuck Morrison, Editor-in-Chief of 'The Smudged Pamphlet'.
+        const prompt = `You are ${EDITOR.name}, ${EDITOR.role} of '${EDITOR.publication}'.
 
 You're reading your critic ${getCriticInfo(reviewData.critic || 'music').name}'s review:
 ${JSON.stringify(reviewData)}
 
-Write a brief comment on this review. You're the everyman editor - you advocate for the audience.
+Write a brief comment on this review. ${EDITOR.guestPersona}
 
 You might:
 - Call out pretentious language
@@ -1405,8 +597,7 @@ Keep it SHORT. No fancy words. Real talk.
 
 Output: {"text":"your comment"}`;
 
-        const result = await model.generateContent(prompt);
-        const comment = cleanAndParseJSON(result.response.text());
+        const comment = await generateValidated(model, prompt, commentTextSchema);
 
         return {
           type: 'new_comment',
@@ -1425,7 +616,7 @@ Output: {"text":"your comment"}`;
     } else {
       // Current critic responds (23% chance)
       const criticInfo = getCriticInfo(reviewData.critic || 'music');
-      const unreplied = currentComments.filter(c => !c.replies.some(r => r.is_julian || r.is_critic));
+      const unreplied = currentComments.filter(c => !c.replies.some(r => r.is_critic));
       if (unreplied.length === 0) return null;
       const target = unreplied[Math.floor(Math.random() * unreplied.length)];
 
@@ -1441,13 +632,7 @@ Output: {"text":"your comment"}`;
           timestamp: new Date(r.timestamp).toLocaleDateString()
         }));
 
-      const criticPersona = reviewData.critic === 'film'
-        ? `You are Rex Beaumont, film critic who watches everything at 1.5x speed. You're dismissive of people who "don't get it" and miss plot points yourself. You're pretentious about obscure cinema but get basic facts wrong.`
-        : reviewData.critic === 'literary'
-        ? `You are Margot Ashford, literary critic with three PhDs. You're obsessed with theory, cannot separate art from artist, and bring up irrelevant biographical details. You're condescending and overly academic.`
-        : reviewData.critic === 'business'
-        ? `You are Patricia Chen, business editor with MBA and 15 years experience. You despise corporate jargon and call out BS. You're professional but sharp when people waste your time with meaningless buzzwords.`
-        : `You are Julian Pinter, a pretentious, sardonic music critic with impeccable taste. You're selective, not nihilistic. While you despise mediocrity and derivative work, you DO genuinely love music when it demonstrates true innovation, technical mastery, and emotional depth.`;
+      const criticPersona = introducePersona(getCriticInfo(reviewData.critic || 'music'), 'replyPersona');
 
       const prompt = `${criticPersona}
 You are responding to a comment on your review.
@@ -1464,8 +649,7 @@ ${JSON.stringify(reviewData)}
 Respond to this commenter. Be true to your character.
 Output: {"reply_text":"reply"}`;
 
-      const result = await model.generateContent([prompt, audioPart]);
-      const reply = cleanAndParseJSON(result.response.text());
+      const reply = await generateValidated(model, [prompt, audioPart], replyTextSchema);
       return {
         type: 'critic_reply',
         parentId: target.id,
@@ -1476,7 +660,6 @@ Output: {"reply_text":"reply"}`;
           timestamp: 'Just now',
           text: reply.reply_text,
           likes: 0,
-          is_julian: true, // Keep for backwards compatibility
           is_critic: true,
           critic: reviewData.critic
         }
@@ -1484,80 +667,75 @@ Output: {"reply_text":"reply"}`;
     }
   };
 
-  const runFinalDiscriminator = async (genAI: ServerSideGeminiAI, currentComments: Comment[]) => {
-    setStage('final_discrimination');
-    addLog('AGENT REACTIVATED: The Discriminator is judging all replies...');
-    addLog('ACTION: Assigning likes to the entire comment thread...');
-
-    const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-pro',
-        generationConfig: { responseMimeType: "application/json" }
-    });
-
-    const prompt = `
-      You are the Discriminator Agent. Now that replies have been posted, assign likes to ALL replies.
-
-      Rules:
-      - Critic replies (is_julian or is_critic true) typically get moderate likes (20-60) from their fanbase
-      - Replies that "own" the critic get high likes (40-100)
-      - Side argument replies vary wildly (-10 to 80)
-      - Consider the quality, humor, and toxicity
-
-      Here are all comments with their reply threads:
-      ${JSON.stringify(currentComments)}
-
-      Output a JSON ARRAY for ALL replies:
-      [
-        {
-          "reply_id": "the reply id",
-          "likes": (integer between -15 and 120)
-        }
-      ]
-    `;
-
-    const result = await model.generateContent(prompt);
-    const likeData = cleanAndParseJSON(result.response.text());
-
-    setComments(prev => prev.map(c => ({
-      ...c,
-      replies: c.replies.map(r => {
-        const data = likeData.find((d: any) => d.reply_id === r.id);
-        return data ? { ...r, likes: data.likes } : r;
-      })
-    })));
-
-    addLog(`SUCCESS: Discriminator assigned likes to ${likeData.length} replies.`);
-    return likeData;
-  };
-
   const startReviewProcess = async () => {
-    const isYouTube = !audioFile && !!youtubeUrl.trim();
-    if ((!audioFile && !isYouTube)) return;
+    const isAlbum = !audioFile && albumTracks.length > 0;
+    const isYouTube = !audioFile && !isAlbum && !!youtubeUrl.trim();
+    if ((!audioFile && !isAlbum && !isYouTube)) return;
     setErrorMsg('');
     setReview(null);
+    setDraftReview(null);
     setComments([]);
+    setPanel(null);
+    setCollection(null);
+    setTranscript(null);
+    setVideoStart(undefined);
+    setDebate(null);
     setLogs([]);
     setStage('uploading');
 
     try {
-      const genAI = new ServerSideGeminiAI();
-
       let contentPart: any;
+      let tracks: AlbumTrackInput[] | undefined;
+      let collectionInput: { kind: CollectionResult['kind']; title: string; channelTitle?: string; sourceUrl: string; items: CollectionItem[] } | undefined;
       let metadata: any = {};
       let criticType: CriticType;
+      let captions: Transcript | undefined;
+
+      if (isYouTube && !youtubeLink) {
+        throw new Error('That is not a YouTube video, playlist or channel link');
+      }
 
-      if (isYouTube) {
+      if (youtubeLink && youtubeLink.kind !== 'video') {
+        // Playlist or channel mode: each video goes to its own critic, then the lot is ranked
+        addLog(`SYSTEM: Fetching ${youtubeLink.kind === 'playlist' ? 'playlist' : 'latest channel uploads'}: ${youtubeLink.url}`);
+        const playlist = await fetchYouTubePlaylistServerSide(
+          youtubeLink.kind === 'playlist'
+            ? { playlistId: youtubeLink.playlistId }
+            : 'channelId' in youtubeLink ? { channelId: youtubeLink.channelId } : { handle: youtubeLink.handle }
+        );
+        addLog(`SYSTEM: "${playlist.title}" by ${playlist.channelTitle}, ${playlist.items.length} videos`);
+
+        const items: CollectionItem[] = [];
+        for (const item of playlist.items) {
+          const { critic } = await determineContentCritic(null, null, canonicalVideoUrl(item.videoId));
+          addLog(`SYSTEM: ${item.position}. "${item.title}" -> ${getCriticInfo(critic).name}`);
+          items.push({ videoId: item.videoId, title: item.title, channelTitle: item.channelTitle, thumbnailUrl: item.thumbnailUrl, criticType: critic });
+        }
+
+        // Whoever has the most videos sums up the collection
+        const counts = new Map<CriticType, number>();
+        items.forEach(item => counts.set(item.criticType, (counts.get(item.criticType) || 0) + 1));
+        criticType = items.reduce((lead, item) => (counts.get(item.criticType)! > counts.get(lead)! ? item.criticType : lead), items[0].criticType);
+
+        metadata = { title: playlist.title, artist: playlist.channelTitle };
+        collectionInput = { kind: playlist.kind, title: playlist.title, channelTitle: playlist.channelTitle, sourceUrl: youtubeLink.url, items };
+        contentPart = { fileData: { fileUri: canonicalVideoUrl(items[0].videoId) } }; // The comment section watches the opener
+      } else if (youtubeLink) {
         // YouTube URL mode
-        addLog(`SYSTEM: Processing YouTube URL: ${youtubeUrl}`);
+        addLog(`SYSTEM: Processing YouTube URL: ${youtubeLink.url}`);
 
         // Determine which critic should handle this
-        const { critic, metadata: ytMetadata } = await determineContentCritic(null, null, youtubeUrl);
+        const { critic, metadata: ytMetadata } = await determineContentCritic(null, null, youtubeLink.url);
         criticType = critic;
 
         if (ytMetadata && ytMetadata.title) {
           addLog(`SYSTEM: Video Title: "${ytMetadata.title}"`);
           addLog(`SYSTEM: Creator: ${ytMetadata.author_name || 'Unknown'}`);
-          addLog(`SYSTEM: Routing to ${critic === 'music' ? 'Julian Pinter (Music)' : 'Rex Beaumont (Film)'}`);
+          if (ytMetadata.classification) {
+            addLog(`CLASSIFICATION: ${ytMetadata.classification.category.toUpperCase()} (${ytMetadata.classification.confidence} confidence)`);
+            ytMetadata.classification.reasons.forEach((reason: string) => addLog(`REASON: ${reason}`));
+          }
+          addLog(`SYSTEM: Routing to ${getCriticInfo(critic).name} (${getCriticInfo(critic).title})`);
           metadata = {
             title: ytMetadata.title,
             artist: ytMetadata.author_name || 'YouTube Creator'
@@ -1568,115 +746,102 @@ Output: {"reply_text":"reply"}`;
 
         contentPart = {
           fileData: {
-            fileUri: youtubeUrl,
+            fileUri: youtubeLink.url,
           },
         };
-      } else {
-        // Local file mode
-        if (audioFile!.size > 20 * 1024 * 1024) {
-          throw new Error("File too large for browser demo. Please use a file under 20MB.");
+
+        // Captions save a transcription pass; without them the job transcribes the video itself
+        try {
+          captions = await fetchYouTubeTranscriptServerSide(youtubeLink.videoId);
+          addLog(`SYSTEM: Captions loaded (${captions.segments.length} lines)`);
+        } catch (e: any) {
+          addLog(`SYSTEM: No captions (${e.message}), the transcriber will listen instead`);
         }
+      } else if (isAlbum) {
+        // Album mode: every track goes to the critic, in running order
+        const { critic } = await determineContentCritic(albumTracks[0].file.type, albumTracks[0].fileName, null);
+        criticType = critic;
 
+        const album = albumDetails(albumTracks);
+        metadata = { title: album.title || 'Untitled Album', artist: album.artist || 'Unknown Artist' };
+        addLog(`SYSTEM: Album "${metadata.title}" by ${metadata.artist}, ${albumTracks.length} tracks`);
+        addLog(`SYSTEM: Routing to ${getCriticInfo(critic).name} (${getCriticInfo(critic).title})`);
+
+        tracks = await buildAlbumParts(albumTracks);
+        contentPart = tracks[0].contentPart; // The comment section hears the opening track
+        addLog('SYSTEM: Tracks loaded into memory buffer.');
+      } else {
+        // Local file mode
         // Determine which critic should handle this file
         const { critic } = await determineContentCritic(audioFile!.type, audioFile!.name, null);
         criticType = critic;
 
         addLog(`SYSTEM: File type: ${audioFile!.type}`);
-        addLog(`SYSTEM: Routing to ${
-          critic === 'music' ? 'Julian Pinter (Music)' :
-          critic === 'film' ? 'Rex Beaumont (Film)' :
-          'Margot Ashford (Literary)'
-        }`);
-
-        // Read file once and extract all data in parallel
-        const fileArrayBuffer = await audioFile!.arrayBuffer();
+        addLog(`SYSTEM: Routing to ${getCriticInfo(critic).name} (${getCriticInfo(critic).title})`);
 
         // Extract metadata if audio file
-        if (critic === 'music') {
+        if (audioFile!.type.startsWith('audio/')) {
           metadata = await extractAudioMetadata(audioFile!);
           addLog(`SYSTEM: Extracted metadata - Title: ${metadata.title || 'Unknown'}, Artist: ${metadata.artist || 'Unknown'}`);
         }
 
-        // Convert ArrayBuffer to base64 for Gemini
-        const base64Data = btoa(
-          new Uint8Array(fileArrayBuffer)
-            .reduce((data, byte) => data + String.fromCharCode(byte), '')
-        );
-
-        contentPart = {
-          inlineData: { data: base64Data, mimeType: audioFile!.type },
-        };
-        addLog('SYSTEM: Content loaded into memory buffer.');
-      }
-
-      // Route to appropriate critic
-      let reviewData: ReviewData;
-      if (criticType === 'music') {
-        reviewData = await runJulianReview(genAI, contentPart, metadata, isYouTube);
-        reviewData.critic = 'music';
-        reviewData.criticName = 'Julian Pinter';
-      } else if (criticType === 'film') {
-        reviewData = await runRexReview(genAI, contentPart, metadata, isYouTube);
-      } else if (criticType === 'literary') {
-        // For documents, classify first to determine literary vs business
-        const documentType = await classifyDocument(genAI, contentPart);
-        if (documentType === 'business') {
-          reviewData = await runPatriciaReview(genAI, contentPart);
+        if (base64Size(audioFile!.size) > INLINE_MEDIA_LIMIT) {
+          // Too big to inline: the critics get a reference to a copy in the Files API
+          addLog(`SYSTEM: Uploading ${(audioFile!.size / 1024 / 1024).toFixed(1)}MB to the file store...`);
+          const uploaded = await uploadFileServerSide(audioFile!, audioFile!.name);
+          contentPart = {
+            fileData: { fileUri: uploaded.fileUri, mimeType: uploaded.mimeType },
+          };
+          addLog('SYSTEM: Content uploaded.');
         } else {
-          reviewData = await runMargotReview(genAI, contentPart);
+          // Convert to base64 for Gemini
+          const fileArrayBuffer = await audioFile!.arrayBuffer();
+          const base64Data = btoa(
+            new Uint8Array(fileArrayBuffer)
+              .reduce((data, byte) => data + String.fromCharCode(byte), '')
+          );
+
+          contentPart = {
+            inlineData: { data: base64Data, mimeType: audioFile!.type },
+          };
+          addLog('SYSTEM: Content loaded into memory buffer.');
         }
-      } else {
-        // Fallback - shouldn't reach here
-        reviewData = await runMargotReview(genAI, contentPart);
       }
-      const commentsData = await runCommenters(genAI, reviewData, contentPart);
-      await runDiscriminator(genAI, commentsData);
-
-      // Get current comments after discriminator
-      let currentComments = await new Promise<Comment[]>((resolve) => {
-        setComments(prev => {
-          resolve(prev);
-          return prev;
-        });
-      });
-
-      await runJulianArguments(genAI, currentComments, reviewData);
 
-      // Get updated comments after Julian's replies
-      currentComments = await new Promise<Comment[]>((resolve) => {
-        setComments(prev => {
-          resolve(prev);
-          return prev;
-        });
-      });
-
-      await runCommenterResponses(genAI, currentComments, reviewData);
+      // The routed critic leads the panel, so only the others count as guests
+      const guests = panelMode ? panelGuests.filter(type => type !== criticType) : [];
+      if (panelMode && collectionInput) {
+        throw new Error('Playlist and channel reviews cannot go to a panel. Untick "Panel review" and try again.');
+      }
+      if (panelMode && guests.length === 0) {
+        throw new Error(`${getCriticInfo(criticType).name} is leading this review. Pick at least one other critic for the panel.`);
+      }
+      if (guests.length > 0) {
+        addLog(`SYSTEM: Convening a panel with ${guests.map(type => getCriticInfo(type).name).join(', ')}`);
+      }
 
-      // Get final comments state
-      currentComments = await new Promise<Comment[]>((resolve) => {
-        setComments(prev => {
-          resolve(prev);
-          return prev;
-        });
+      // Keep a copy of the media locally and on the server before the job starts
+      const reviewId = Date.now().toString();
+      const mediaInfo = isAlbum ? await storeAlbumMedia(reviewId) : await storeSubmittedMedia(reviewId, isYouTube);
+
+      // The pipeline runs server-side so it finishes even if this tab closes
+      const job = await createPipelineJob({
+        reviewId,
+        criticType,
+        panel: guests.length > 0 ? guests : undefined,
+        contentPart: tracks ? undefined : contentPart,
+        tracks,
+        collection: collectionInput,
+        metadata,
+        transcript: captions,
+        isYouTube,
+        youtubeUrl: youtubeLink?.url,
+        ...mediaInfo
       });
+      localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+      addLog(`SYSTEM: Review job ${job.id} queued. It will finish even if you close this tab.`);
 
-      // Run final discriminator to assign likes to ALL replies (including Julian's)
-      await runFinalDiscriminator(genAI, currentComments);
-
-      setStage('complete');
-      addLog('SYSTEM: Initial review and comments complete!');
-      addLog('SYSTEM: Auto-saving review...');
-
-      // Auto-save the review immediately before organic comments start
-      await autoSaveReview(reviewData, currentComments);
-
-      addLog('SYSTEM: Review saved! Comments will continue organically for 5 minutes...');
-
-      // Store content part for organic comment generation
-      setCurrentAudioPart(contentPart);
-
-      // Start organic comment generation
-      setCommentGenerationActive(true);
+      followJob(job.id, contentPart);
     } catch (err: any) {
       console.error(err);
       setErrorMsg(err.message || 'An opaque error occurred in the neural net.');
@@ -1685,67 +850,149 @@ Output: {"reply_text":"reply"}`;
     }
   };
 
-  const autoSaveReview = async (reviewData: ReviewData, currentComments: Comment[]) => {
-    const isYouTube = !!youtubeUrl && !audioFile;
+  // Store the submitted file locally (IndexedDB) and on the server under the review id,
+  // and pull out the album art and waveform the saved review displays
+  const storeSubmittedMedia = async (
+    reviewId: string,
+    isYouTube: boolean
+  ): Promise<{ albumArt?: string; waveformData: number[]; audioFileName?: string }> => {
+    if (isYouTube || !audioFile) return { waveformData: [] };
 
-    const slug = `${reviewData.artist.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${reviewData.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
-    const reviewId = Date.now().toString();
+    // Audio file mode - extract metadata and waveform; the video player reads its own frames
+    const isVideo = isVideoMedia(audioFile.name, audioFile.type);
+    const [metadata, waveformData] = await Promise.all([
+      isVideo ? { albumArt: undefined } : extractAudioMetadata(audioFile),
+      isVideo ? [] : generateWaveformData(audioFile)
+    ]);
 
-    let albumArtData: string | undefined;
-    let waveformData: number[] = [];
-    let audioFileName: string | undefined;
+    // Keep a local copy in IndexedDB
+    try {
+      await saveMedia(reviewId, audioFile, audioFile.name);
+    } catch (e: any) {
+      console.error('Failed to save audio to IndexedDB', e);
+      if (e.name === 'QuotaExceededError') {
+        addLog('ERROR: Storage quota exceeded, even after clearing media from old reviews.');
+        addLog('TIP: Free up space on the Storage page, or try a smaller file.');
+      }
+    }
 
-    if (!isYouTube && audioFile) {
-      // Audio file mode - extract metadata and waveform
-      const [metadata, waveform] = await Promise.all([
-        extractAudioMetadata(audioFile),
-        generateWaveformData(audioFile)
-      ]);
-      albumArtData = metadata.albumArt;
-      waveformData = waveform;
-      audioFileName = audioFile.name;
-
-      // Convert audio file to data URL and store in IndexedDB
-      const audioDataUrl = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.readAsDataURL(audioFile);
-      });
+    try {
+      await uploadMedia(reviewId, audioFile, audioFile.name);
+      await markMediaUploaded(reviewId).catch(e => console.error('Failed to mark media as uploaded', e));
+    } catch (e) {
+      console.error('Failed to upload media to server', e);
+      addLog('WARNING: Media is only stored in this browser.');
+    }
+
+    return { albumArt: metadata.albumArt, waveformData, audioFileName: audioFile.name };
+  };
+
+  // Each track goes inline while the request has room; the rest go through the Files API
+  const buildAlbumParts = async (uploads: AlbumUpload[]): Promise<AlbumTrackInput[]> => {
+    const parts: AlbumTrackInput[] = [];
+    let inlineBytes = 0;
+    for (const track of uploads) {
+      const encodedSize = base64Size(track.file.size);
+      if (inlineBytes + encodedSize > INLINE_MEDIA_LIMIT) {
+        addLog(`SYSTEM: Uploading "${track.title}" to the file store...`);
+        const uploaded = await uploadFileServerSide(track.file, track.fileName);
+        parts.push({ title: track.title, contentPart: { fileData: { fileUri: uploaded.fileUri, mimeType: uploaded.mimeType } } });
+      } else {
+        inlineBytes += encodedSize;
+        parts.push({ title: track.title, contentPart: { inlineData: { data: await blobToBase64(track.file), mimeType: track.file.type } } });
+      }
+    }
+    return parts;
+  };
+
+  // Store every album track locally and on the server under its own media id, with a
+  // waveform each, and build the tracklist the saved review displays
+  const storeAlbumMedia = async (
+    reviewId: string
+  ): Promise<{ albumArt?: string; waveformData: number[]; tracklist: AlbumTrack[] }> => {
+    const tracklist: AlbumTrack[] = [];
+    let localOnly = false;
+
+    for (let i = 0; i < albumTracks.length; i++) {
+      const { file, fileName, title, artist } = albumTracks[i];
+      const mediaId = trackMediaId(reviewId, i);
 
       try {
-        await saveAudioData(reviewId, audioDataUrl);
+        await saveMedia(mediaId, file, fileName);
       } catch (e: any) {
-        console.error('Failed to save audio to IndexedDB', e);
+        console.error(`Failed to save track ${i + 1} to IndexedDB`, e);
         if (e.name === 'QuotaExceededError') {
-          addLog('ERROR: Storage quota exceeded. The audio file is too large or storage is full.');
-          addLog('TIP: Try clearing old reviews or using a smaller file.');
+          addLog(`ERROR: Storage quota exceeded at track ${i + 1}, even after clearing media from old reviews.`);
         }
       }
+
+      try {
+        await uploadMedia(mediaId, file, fileName);
+        await markMediaUploaded(mediaId).catch(e => console.error('Failed to mark media as uploaded', e));
+      } catch (e) {
+        console.error(`Failed to upload track ${i + 1} to server`, e);
+        localOnly = true;
+      }
+
+      tracklist.push({ mediaId, title, artist, fileName, waveformData: await generateWaveformData(file) });
     }
 
-    const newReview: SavedReview = {
-      id: reviewId,
-      title: reviewData.title,
-      artist: reviewData.artist,
-      slug,
-      timestamp: Date.now(),
-      review: reviewData,
-      comments: currentComments,
-      audioFileName,
-      hasAudioInDB: !isYouTube,
-      albumArt: albumArtData,
-      waveformData,
-      youtubeUrl: isYouTube ? youtubeUrl : undefined,
-      isYouTube
-    };
+    if (localOnly) addLog('WARNING: Some tracks are only stored in this browser.');
+    return { albumArt: albumTracks.find(track => track.albumArt)?.albumArt, waveformData: [], tracklist };
+  };
 
-    const updatedReviews = [newReview, ...savedReviews];
-    setSavedReviews(updatedReviews);
-    localStorage.setItem('smudged_reviews', JSON.stringify(updatedReviews));
-    setCurrentReviewId(reviewId); // Track this review for auto-saving organic comments
+  // Mirror a server-side review job into the page until it finishes.
+  // contentPart is only known for jobs started from this tab; it seeds organic comments.
+  const followJob = (jobId: string, contentPart?: GeminiMediaPart) => {
+    let seenLogs = 0;
+
+    jobUnsubscribeRef.current?.();
+    jobUnsubscribeRef.current = subscribeToPipelineJob(jobId, async job => {
+      const newLogs = job.logs.slice(seenLogs);
+      seenLogs = job.logs.length;
+      if (newLogs.length > 0) setLogs(prev => [...prev, ...newLogs]);
+
+      setStage(job.stage);
+      setDraftReview(job.draftReview || null);
+      if (job.review) setReview(job.review);
+      if (job.panel) setPanel(job.panel);
+      if (job.collection) setCollection(job.collection);
+      if (job.transcript) setTranscript(job.transcript);
+      if (job.debate) setDebate(job.debate);
+      if (job.comments.length > 0) setComments(job.comments);
+
+      if (job.status === 'error') {
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        setErrorMsg(job.error || 'An opaque error occurred in the neural net.');
+      }
+
+      if (job.status === 'complete') {
+        localStorage.removeItem(ACTIVE_JOB_KEY);
 
-    if (albumArtData) setAlbumArt(albumArtData);
-    if (waveformData.length > 0) setWaveformData(waveformData);
+        const reviews = await listReviews();
+        setSavedReviews(reviews);
+        setCurrentReviewId(job.reviewId); // Track this review for auto-saving organic comments
+
+        const saved = reviews.find(r => r.id === job.reviewId);
+        if (saved) searchIndexRef.current.add(saved);
+        if (saved?.albumArt) setAlbumArt(saved.albumArt);
+        if (saved?.waveformData && saved.waveformData.length > 0) setWaveformData(saved.waveformData);
+        if (saved?.tracklist) setTracklist(saved.tracklist);
+
+        if (contentPart) {
+          addLog('SYSTEM: Comments will continue organically for 5 minutes...');
+
+          // Store content part for organic comment generation
+          setCurrentAudioPart(contentPart);
+
+          // Start organic comment generation
+          setCommentGenerationActive(true);
+        }
+      }
+    }, err => {
+      console.error(err);
+      addLog(`ERROR: Lost track of review job ${jobId}: ${err.message}`);
+    });
   };
 
   const saveReview = async () => {
@@ -1753,38 +1000,42 @@ Output: {"reply_text":"reply"}`;
 
     addLog('SYSTEM: Extracting album art and generating waveform...');
 
-    const slug = `${review.artist.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${review.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+    // The server has the final say on the slug, but start from one this archive doesn't use
+    const slug = uniqueSlug(buildReviewSlug(review), takenSlugs(savedReviews));
     const reviewId = Date.now().toString();
 
-    // Extract metadata and generate waveform in parallel
+    // Extract metadata and generate waveform in parallel (audio only)
+    const isVideo = isVideoMedia(audioFile.name, audioFile.type);
     const [metadata, waveformData] = await Promise.all([
-      extractAudioMetadata(audioFile),
-      generateWaveformData(audioFile)
+      isVideo ? { albumArt: undefined } : extractAudioMetadata(audioFile),
+      isVideo ? [] : generateWaveformData(audioFile)
     ]);
     const albumArt = metadata.albumArt;
 
-    // Convert audio file to data URL
-    const audioDataUrl = await new Promise<string>((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.readAsDataURL(audioFile);
-    });
-
-    // Store audio in IndexedDB instead of localStorage
+    // Store audio on the server, with a local copy in IndexedDB
     try {
-      await saveAudioData(reviewId, audioDataUrl);
+      await saveMedia(reviewId, audioFile, audioFile.name);
       addLog('SUCCESS: Audio stored in IndexedDB.');
     } catch (e: any) {
       console.error('Failed to save audio to IndexedDB', e);
       if (e.name === 'QuotaExceededError') {
-        addLog('ERROR: Storage quota exceeded. The audio file is too large or storage is full.');
-        addLog('TIP: Try clearing old reviews or using a smaller file.');
+        addLog('ERROR: Storage quota exceeded, even after clearing media from old reviews.');
+        addLog('TIP: Free up space on the Storage page, or try a smaller file.');
       } else {
         addLog('WARNING: Could not save audio data.');
       }
     }
 
+    try {
+      await uploadMedia(reviewId, audioFile, audioFile.name);
+      await markMediaUploaded(reviewId).catch(e => console.error('Failed to mark media as uploaded', e));
+    } catch (e) {
+      console.error('Failed to upload media to server', e);
+      addLog('WARNING: Audio is only stored in this browser.');
+    }
+
     const newReview: SavedReview = {
+      schemaVersion: SCHEMA_VERSION,
       id: reviewId,
       title: review.title,
       artist: review.artist,
@@ -1793,29 +1044,86 @@ Output: {"reply_text":"reply"}`;
       review,
       comments,
       audioFileName: audioFile.name,
-      hasAudioInDB: true, // Audio is in IndexedDB, not localStorage
+      hasAudioInDB: true, // Audio is in the media store, not the review record
       albumArt,
       waveformData
     };
 
-    const updatedReviews = [newReview, ...savedReviews];
-    setSavedReviews(updatedReviews);
-    localStorage.setItem('smudged_reviews', JSON.stringify(updatedReviews));
+    searchIndexRef.current.add(newReview);
+    setSavedReviews(prev => [newReview, ...prev]);
+    try {
+      const saved = await saveReviewRecord(newReview);
+      searchIndexRef.current.add(saved);
+      setSavedReviews(prev => prev.map(r => (r.id === saved.id ? saved : r)));
+    } catch (e) {
+      console.error('Failed to save review to server', e);
+      addLog('WARNING: Review is only stored in this browser.');
+    }
     setShowSavePrompt(false);
     setCurrentReviewId(reviewId); // Track this review for auto-saving organic comments
     addLog('SUCCESS: Review saved with audio data and album art.');
   };
 
+  const exportArchiveBundle = async () => {
+    setArchiveTransferStatus('Packing the archive...');
+    try {
+      const bundle = await exportArchive();
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `smudged-pamphlet-archive-${new Date(bundle.manifest.exportedAt).toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      const { reviews, editorials, media } = bundle.manifest.counts;
+      setArchiveTransferStatus(`Exported ${reviews} reviews, ${editorials} editorials and ${media} media files.`);
+    } catch (e: any) {
+      console.error('Failed to export archive', e);
+      setArchiveTransferStatus(`Export failed: ${e.message}`);
+    }
+  };
+
+  const importArchiveBundle = async (file: File) => {
+    setArchiveTransferStatus(`Importing ${file.name}...`);
+    try {
+      const plan = await importArchive(parseBundle(JSON.parse(await file.text())), importPolicy);
+
+      // Reload everything so imported critics are registered and the index sees the new reviews
+      await listCustomCritics();
+      const reviews = await listReviews();
+      registerSavedCritics(reviews);
+      searchIndexRef.current = new SearchIndex(reviews);
+      setSavedReviews(reviews);
+
+      setArchiveTransferStatus(
+        `Imported ${plan.reviews.length} reviews and ${plan.editorials.length} editorials` +
+        (plan.skipped ? `, skipped ${plan.skipped} already here` : '') +
+        (plan.renamed.length ? `, renamed ${plan.renamed.length} to avoid clashes` : '') + '.'
+      );
+    } catch (e: any) {
+      console.error('Failed to import archive', e);
+      setArchiveTransferStatus(`Import failed: ${e.message}`);
+    }
+  };
+
   const deleteReview = async (id: string) => {
-    const updatedReviews = savedReviews.filter(r => r.id !== id);
-    setSavedReviews(updatedReviews);
-    localStorage.setItem('smudged_reviews', JSON.stringify(updatedReviews));
+    const saved = savedReviews.find(r => r.id === id);
+    searchIndexRef.current.remove(id);
+    setSavedReviews(prev => prev.filter(r => r.id !== id));
 
-    // Also delete audio from IndexedDB
+    // Server deletes the review and its media
     try {
-      await deleteAudioData(id);
+      await deleteReviewRecord(id);
     } catch (e) {
-      console.error('Failed to delete audio from IndexedDB', e);
+      console.error('Failed to delete review from server', e);
+    }
+
+    // Also delete the local audio copies from IndexedDB (one per track for an album)
+    for (const mediaId of saved ? mediaIdsFor(saved) : [id]) {
+      try {
+        await deleteMedia(mediaId);
+      } catch (e) {
+        console.error('Failed to delete audio from IndexedDB', e);
+      }
     }
   };
 
@@ -1840,7 +1148,6 @@ Output: {"reply_text":"reply"}`;
           timestamp: 'Just now',
           text: sanitizedComment,
           likes: 0,
-          is_julian: false,
           replyingToUsername: replyingTo.username,
           replyingToId: replyingTo.replyId
         };
@@ -1909,34 +1216,39 @@ Output: {"reply_text":"reply"}`;
   const loadReview = async (savedReview: SavedReview) => {
     setReview(savedReview.review);
     setComments(savedReview.comments);
+    setPanel(savedReview.panel || null);
+    setCollection(savedReview.collection || null);
+    setTranscript(savedReview.transcript || null);
+    setDebate(savedReview.debate || null);
+    setTracklist(savedReview.tracklist || null);
+    setAlbumTracks([]);
     setStage('complete');
 
-    // Load audio/document from IndexedDB if available
+    // Load audio/document from IndexedDB, or the server store if not cached locally
     if (savedReview.hasAudioInDB) {
       try {
-        const audioData = await getAudioData(savedReview.id);
-        if (audioData) {
-          // For documents (literary reviews), recreate File object for download
-          if (savedReview.review.critic === 'literary' && savedReview.audioFileName) {
-            const response = await fetch(audioData);
-            const blob = await response.blob();
-            const file = new File([blob], savedReview.audioFileName, { type: blob.type });
+        const media = await loadMedia(savedReview.id);
+        if (media) {
+          // For documents, recreate File object for download
+          if (isDocumentCritic(savedReview.review.critic || 'music') && savedReview.audioFileName) {
+            const file = new globalThis.File([media], savedReview.audioFileName, { type: media.type });
             setAudioFile(file);
-            setAudioUrl(null);
+            setMediaUrl(null);
           } else {
             // For audio/video, just set the URL
-            setAudioUrl(audioData);
+            setMediaUrl(URL.createObjectURL(media));
+            setMediaIsVideo(isVideoMedia(savedReview.audioFileName, media.type));
             setAudioFile(null);
           }
         }
       } catch (e) {
         console.error('Failed to load from IndexedDB', e);
         setAudioFile(null);
-        setAudioUrl(savedReview.audioDataUrl || null);
+        setMediaUrl(null);
       }
     } else {
       setAudioFile(null);
-      setAudioUrl(savedReview.audioDataUrl || null);
+      setMediaUrl(null);
     }
 
     setAlbumArt(savedReview.albumArt);
@@ -1945,44 +1257,127 @@ Output: {"reply_text":"reply"}`;
     setShowSavePrompt(false);
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
+  // Size, type and signature checks for an uploaded file; returns why it was refused
+  const checkUploadFile = async (file: File): Promise<string | null> => {
+    // File size validation (files over 20MB are uploaded to the Files API, which caps at 2GB)
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return `File too large: Maximum file size is 2GB. Your file is ${(file.size / 1024 / 1024).toFixed(2)}MB.`;
+    }
 
-      // File size validation (20MB limit to match API)
-      const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB in bytes
-      if (file.size > MAX_FILE_SIZE) {
-        setErrorMsg(`File too large: Maximum file size is 20MB. Your file is ${(file.size / 1024 / 1024).toFixed(2)}MB.`);
-        return;
+    // MIME type validation
+    const allowedTypes = [
+      // Audio
+      'audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/ogg', 'audio/wav', 'audio/webm',
+      // Video
+      'video/mp4', 'video/webm', 'video/quicktime',
+      // Documents
+      'application/pdf', 'text/plain', 'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    ];
+
+    if (!allowedTypes.includes(file.type)) {
+      return `Unsupported file type: ${file.type}. Please upload audio, video, or document files.`;
+    }
+
+    // Validate file signature matches claimed MIME type
+    const isValid = await validateFileSignature(file);
+    if (!isValid) {
+      return 'Invalid file: File content does not match the file type. The file may be corrupted or renamed.';
+    }
+
+    return null;
+  };
+
+  // Several audio files, or a zip of them, become one album review
+  const selectAlbum = async (files: File[]) => {
+    const audioFiles: File[] = [];
+    try {
+      for (const file of files) {
+        audioFiles.push(...(isZipFile(file) ? await audioFilesFromZip(file) : [file]));
       }
+    } catch (e: any) {
+      setErrorMsg(`Could not read the zip: ${e.message}`);
+      return;
+    }
 
-      // MIME type validation
-      const allowedTypes = [
-        // Audio
-        'audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/ogg', 'audio/wav', 'audio/webm',
-        // Video
-        'video/mp4', 'video/webm', 'video/quicktime',
-        // Documents
-        'application/pdf', 'text/plain', 'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-      ];
-
-      if (!allowedTypes.includes(file.type)) {
-        setErrorMsg(`Unsupported file type: ${file.type}. Please upload audio, video, or document files.`);
+    if (audioFiles.length < 2) {
+      setErrorMsg('An album needs at least two audio tracks.');
+      return;
+    }
+    if (audioFiles.length > MAX_ALBUM_TRACKS) {
+      setErrorMsg(`Albums are limited to ${MAX_ALBUM_TRACKS} tracks. This one has ${audioFiles.length}.`);
+      return;
+    }
+    for (const file of audioFiles) {
+      const problem = file.type.startsWith('audio/') ? await checkUploadFile(file) : 'Albums take audio files only.';
+      if (problem) {
+        setErrorMsg(`${file.name}: ${problem}`);
         return;
       }
+    }
 
-      // Validate file signature matches claimed MIME type
-      const isValid = await validateFileSignature(file);
-      if (!isValid) {
-        setErrorMsg('Invalid file: File content does not match the file type. The file may be corrupted or renamed.');
+    const uploads = orderTracks(await Promise.all(audioFiles.map(async (file): Promise<AlbumUpload> => {
+      const metadata = await extractAudioMetadata(file);
+      return {
+        file,
+        fileName: file.name,
+        title: metadata.title || titleFromFileName(file.name),
+        artist: metadata.artist,
+        album: metadata.album,
+        albumArt: metadata.albumArt,
+        trackNumber: metadata.trackNumber,
+      };
+    })));
+
+    setErrorMsg('');
+    setAudioFile(null);
+    setMediaUrl(null);
+    setAlbumTracks(uploads);
+    setTracklist(null);
+    setReview(null);
+    setComments([]);
+    setPanel(null);
+    setCollection(null);
+    setTranscript(null);
+    setDebate(null);
+    setAlbumArt(uploads.find(track => track.albumArt)?.albumArt);
+    setWaveformData([]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 1 || (files.length === 1 && isZipFile(files[0]))) {
+      await selectAlbum(files);
+      return;
+    }
+
+    if (files.length === 1) {
+      const file = files[0];
+
+      const problem = await checkUploadFile(file);
+      if (problem) {
+        setErrorMsg(problem);
         return;
       }
 
       setAudioFile(file);
-      setAudioUrl(URL.createObjectURL(file));
+      setMediaUrl(URL.createObjectURL(file));
+      setMediaIsVideo(isVideoMedia(file.name, file.type));
+      setAlbumTracks([]);
+      setTracklist(null);
       setReview(null);
       setComments([]);
+      setPanel(null);
+      setCollection(null);
+      setTranscript(null);
+      setDebate(null);
+
+      // Videos get their frames from the video player instead
+      if (isVideoMedia(file.name, file.type)) {
+        setAlbumArt(undefined);
+        setWaveformData([]);
+        return;
+      }
 
       // Extract metadata and generate waveform in background
       const [metadata, waveform] = await Promise.all([
@@ -1997,27 +1392,26 @@ Output: {"reply_text":"reply"}`;
 
   useEffect(() => {
     return () => {
-      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      if (mediaUrl) URL.revokeObjectURL(mediaUrl);
     };
-  }, [audioUrl]);
+  }, [mediaUrl]);
 
   // Auto-save comments as they update (both during organic generation AND user comments)
   useEffect(() => {
     if (!currentReviewId || comments.length === 0) return;
 
     // Find and update the current review's comments
-    setSavedReviews(prev => {
-      const currentReviewIndex = prev.findIndex(r => r.id === currentReviewId);
-      if (currentReviewIndex === -1) return prev;
-
-      const updatedReviews = [...prev];
-      updatedReviews[currentReviewIndex] = {
-        ...updatedReviews[currentReviewIndex],
-        comments: comments
-      };
-      localStorage.setItem('smudged_reviews', JSON.stringify(updatedReviews));
-      return updatedReviews;
-    });
+    searchIndexRef.current.update(currentReviewId, { comments });
+    setSavedReviews(prev => prev.map(r => (r.id === currentReviewId ? { ...r, comments } : r)));
+
+    // Debounce the server write; organic comments arrive in bursts
+    const saveTimer = setTimeout(() => {
+      updateReviewRecord(currentReviewId, { comments }).catch(e => {
+        console.error('Failed to save comments to server', e);
+      });
+    }, AUTO_SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(saveTimer);
   }, [comments, currentReviewId]);
 
   // Refs to persist across renders without triggering re-renders
@@ -2162,7 +1556,7 @@ Output: {"reply_text":"reply"}`;
         <div className="max-w-5xl mx-auto">
           <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
             <div>
-              <h1 className="text-5xl md:text-7xl font-black tracking-tighter uppercase leading-[0.85] cursor-pointer hover:opacity-80 transition-opacity" onClick={() => { setReview(null); setComments([]); setStage('idle'); setShowSavePrompt(false); }}>
+              <h1 className="text-5xl md:text-7xl font-black tracking-tighter uppercase leading-[0.85] cursor-pointer hover:opacity-80 transition-opacity" onClick={() => { setReview(null); setComments([]); setPanel(null); setCollection(null); setTranscript(null); setDebate(null); setStage('idle'); setShowSavePrompt(false); }}>
                 The Smudged<br/>Pamphlet
               </h1>
               <p className="mt-2 text-lg italic font-medium text-zinc-500">
@@ -2175,10 +1569,16 @@ Output: {"reply_text":"reply"}`;
                   onClick={() => {
                     setReview(null);
                     setComments([]);
+                    setPanel(null);
+                    setCollection(null);
+                    setTranscript(null);
+                    setDebate(null);
                     setStage('idle');
                     setShowSavePrompt(false);
                     setCommentGenerationActive(false);
                     setAudioFile(null);
+                    setAlbumTracks([]);
+                    setTracklist(null);
                     setYoutubeUrl('');
                   }}
                   className="flex items-center gap-2 bg-amber-400 text-zinc-900 px-4 py-2 font-black uppercase text-sm hover:bg-amber-500 transition-colors border-2 border-zinc-900"
@@ -2194,13 +1594,29 @@ Output: {"reply_text":"reply"}`;
                   Archive ({savedReviews.length})
                 </button>
               </div>
-              <button
-                onClick={() => router.push('/editorial')}
-                className="flex items-center gap-2 bg-red-500 text-white px-4 py-2 font-black uppercase text-sm hover:bg-red-600 active:scale-95 transition-all border-2 border-zinc-900 w-full sm:w-auto"
-              >
-                <FileText className="w-4 h-4" />
-                Editorial
-              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => router.push('/critics')}
+                  className="flex items-center gap-2 bg-white text-zinc-900 px-4 py-2 font-black uppercase text-sm hover:bg-zinc-100 active:scale-95 transition-all border-2 border-zinc-900 w-full sm:w-auto"
+                >
+                  <Users className="w-4 h-4" />
+                  Staff
+                </button>
+                <button
+                  onClick={() => router.push('/storage')}
+                  className="flex items-center gap-2 bg-white text-zinc-900 px-4 py-2 font-black uppercase text-sm hover:bg-zinc-100 active:scale-95 transition-all border-2 border-zinc-900 w-full sm:w-auto"
+                >
+                  <HardDrive className="w-4 h-4" />
+                  Storage
+                </button>
+                <button
+                  onClick={() => router.push('/editorial')}
+                  className="flex items-center gap-2 bg-red-500 text-white px-4 py-2 font-black uppercase text-sm hover:bg-red-600 active:scale-95 transition-all border-2 border-zinc-900 w-full sm:w-auto"
+                >
+                  <FileText className="w-4 h-4" />
+                  Editorial
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -2218,6 +1634,51 @@ Output: {"reply_text":"reply"}`;
                 <X className="w-5 h-5" />
               </button>
             </div>
+            <div className="p-4 border-b-2 border-zinc-900 space-y-2">
+              <div className="flex gap-2">
+                <button
+                  onClick={exportArchiveBundle}
+                  disabled={savedReviews.length === 0}
+                  className="flex-1 flex items-center justify-center gap-1 bg-white border-2 border-zinc-900 py-1.5 px-2 text-xs font-black uppercase hover:bg-zinc-100 transition-colors disabled:opacity-40"
+                >
+                  <Download className="w-3 h-3" />
+                  Export
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex-1 flex items-center justify-center gap-1 bg-white border-2 border-zinc-900 py-1.5 px-2 text-xs font-black uppercase hover:bg-zinc-100 transition-colors"
+                >
+                  <Upload className="w-3 h-3" />
+                  Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) importArchiveBundle(file);
+                  }}
+                />
+              </div>
+              <label className="flex items-center justify-between gap-2 text-xs text-zinc-600 font-medium">
+                On import, if a review already exists
+                <select
+                  value={importPolicy}
+                  onChange={(e) => setImportPolicy(e.target.value as ConflictPolicy)}
+                  className="border-2 border-zinc-900 bg-white px-1 py-0.5 text-xs font-bold"
+                >
+                  <option value="keep-both">Keep both</option>
+                  <option value="skip">Keep mine</option>
+                  <option value="replace">Use theirs</option>
+                </select>
+              </label>
+              {archiveTransferStatus && (
+                <p className="text-xs text-zinc-500">{archiveTransferStatus}</p>
+              )}
+            </div>
             <div className="p-4">
               {savedReviews.length === 0 ? (
                 <div className="text-center py-12 text-zinc-500">
@@ -2226,39 +1687,54 @@ Output: {"reply_text":"reply"}`;
                   <p className="text-sm mt-2">Generate and save a review to see it here.</p>
                 </div>
               ) : (
-                <div className="space-y-3">
-                  {savedReviews.map((saved) => (
-                    <div
-                      key={saved.id}
-                      className="bg-white border-2 border-zinc-900 p-4 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)] hover:shadow-[2px_2px_0px_0px_rgba(24,24,27,1)] transition-all group cursor-pointer"
-                      onClick={() => router.push(`/review/${saved.slug}`)}
-                    >
-                      <div className="flex justify-between items-start mb-2">
-                        <div className="flex-1">
-                          <h3 className="font-black text-lg leading-tight group-hover:text-amber-600 transition-colors">{saved.title}</h3>
-                          <p className="text-sm text-zinc-600 font-medium">{saved.artist}</p>
-                          <div className="flex items-center gap-2 mt-2 text-xs text-zinc-400">
-                            <span>{new Date(saved.timestamp).toLocaleDateString()}</span>
-                            <span>•</span>
-                            <span>{saved.comments.length} comments</span>
+                <>
+                  <ArchiveSearch
+                    query={archiveQuery}
+                    filters={archiveFilters}
+                    facets={archiveFacets}
+                    onQueryChange={setArchiveQuery}
+                    onFiltersChange={setArchiveFilters}
+                  />
+                  {archiveResults.length === 0 && (
+                    <p className="text-center py-8 text-sm text-zinc-500 font-medium">No reviews match.</p>
+                  )}
+                  <div className="space-y-3">
+                    {archiveResults.map(({ saved, fields }) => (
+                      <div
+                        key={saved.id}
+                        className="bg-white border-2 border-zinc-900 p-4 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)] hover:shadow-[2px_2px_0px_0px_rgba(24,24,27,1)] transition-all group cursor-pointer"
+                        onClick={() => router.push(`/review/${saved.slug}`)}
+                      >
+                        <div className="flex justify-between items-start mb-2">
+                          <div className="flex-1">
+                            <h3 className="font-black text-lg leading-tight group-hover:text-amber-600 transition-colors">{saved.title}</h3>
+                            <p className="text-sm text-zinc-600 font-medium">{saved.artist}</p>
+                            <div className="flex items-center gap-2 mt-2 text-xs text-zinc-400">
+                              <span>{new Date(saved.timestamp).toLocaleDateString()}</span>
+                              <span>•</span>
+                              <span>{saved.comments.length} comments</span>
+                            </div>
                           </div>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); if (confirm('Delete this review?')) deleteReview(saved.id); }}
+                            className="opacity-0 group-hover:opacity-100 transition-opacity text-red-600 hover:text-red-800 p-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         </div>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); if (confirm('Delete this review?')) deleteReview(saved.id); }}
-                          className="opacity-0 group-hover:opacity-100 transition-opacity text-red-600 hover:text-red-800 p-1"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                      <div className="flex items-center gap-2 text-xs">
-                        <div className="bg-zinc-900 text-white px-2 py-0.5 font-black rounded-sm">
-                          {saved.review.score.toFixed(1)}/10
+                        <div className="flex items-center gap-2 text-xs">
+                          <div className="bg-zinc-900 text-white px-2 py-0.5 font-black rounded-sm">
+                            {saved.review.score.toFixed(1)}/10
+                          </div>
+                          <div className="text-zinc-500 truncate flex-1">{saved.audioFileName || (saved.isYouTube ? 'YouTube' : 'No file')}</div>
                         </div>
-                        <div className="text-zinc-500 truncate flex-1">{saved.audioFileName || (saved.isYouTube ? 'YouTube' : 'No file')}</div>
+                        {fields.length > 0 && (
+                          <div className="mt-2 text-xs text-zinc-400">Matched in {fields.join(', ')}</div>
+                        )}
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                </>
               )}
             </div>
           </div>
@@ -2300,13 +1776,16 @@ Output: {"reply_text":"reply"}`;
                 <div className="border-4 border-dashed border-zinc-300 hover:border-zinc-900 transition-colors p-8 md:p-12 text-center relative group bg-[#faf9f6] flex flex-col justify-center">
                     <input
                         type="file"
-                        accept="audio/*,video/*,.pdf,.txt,.doc,.docx,text/plain,application/pdf"
+                        multiple
+                        accept="audio/*,video/*,.pdf,.txt,.doc,.docx,text/plain,application/pdf,.zip,application/zip"
                         onChange={handleFileChange}
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                         disabled={(stage !== 'idle' && stage !== 'error') || !!youtubeUrl}
                     />
                     <div className="pointer-events-none flex flex-col items-center space-y-4">
-                        {audioFile ? (
+                        {albumTracks.length > 0 ? (
+                            <Disc3 className="w-12 h-12 md:w-16 md:h-16 text-zinc-900" />
+                        ) : audioFile ? (
                              (() => {
                                const fileType = audioFile.type;
                                const iconClasses = "w-12 h-12 md:w-16 md:h-16 text-zinc-900";
@@ -2327,10 +1806,15 @@ Output: {"reply_text":"reply"}`;
                             <Upload className="w-12 h-12 md:w-16 md:h-16 text-zinc-400 group-hover:text-zinc-900 transition-colors" />
                         )}
                         <div className="font-black text-lg md:text-2xl uppercase tracking-tight">
-                            {audioFile ? audioFile.name : "Drop File Here"}
+                            {albumTracks.length > 0 ? `Album: ${albumTracks.length} tracks` : audioFile ? audioFile.name : "Drop File Here"}
                         </div>
-                        {!audioFile && !youtubeUrl && (
-                            <p className="text-zinc-500 text-sm">Audio, Video, or Documents<br/>Limit 20MB. Don&apos;t bore us.</p>
+                        {albumTracks.length > 0 && (
+                            <ol className="text-zinc-500 text-sm text-left list-decimal list-inside max-h-32 overflow-y-auto">
+                                {albumTracks.map(track => <li key={track.fileName}>{track.title}</li>)}
+                            </ol>
+                        )}
+                        {!audioFile && albumTracks.length === 0 && !youtubeUrl && (
+                            <p className="text-zinc-500 text-sm">Audio, Video, or Documents<br/>Several tracks or a zip for an album<br/>Limit 2GB. Don&apos;t bore us.</p>
                         )}
                     </div>
                 </div>
@@ -2353,14 +1837,51 @@ Output: {"reply_text":"reply"}`;
                         placeholder="https://www.youtube.com/watch?v=..."
                         value={youtubeUrl}
                         onChange={(e) => setYoutubeUrl(e.target.value)}
-                        disabled={(stage !== 'idle' && stage !== 'error') || !!audioFile}
+                        disabled={(stage !== 'idle' && stage !== 'error') || !!audioFile || albumTracks.length > 0}
                         className="w-full p-3 border-2 border-zinc-300 focus:border-zinc-900 outline-none font-mono text-sm"
                     />
                     <p className="mt-2 text-xs text-zinc-500">A critic will review the YouTube video content</p>
                 </div>
             </div>
 
-            {(audioFile || youtubeUrl) && stage === 'idle' && (
+            {(audioFile || albumTracks.length > 0 || youtubeUrl) && stage === 'idle' && (
+                <div className="mt-4 border-2 border-zinc-900 p-4 bg-white">
+                    <label className="flex items-center gap-2 font-black uppercase text-sm cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={panelMode}
+                            onChange={(e) => setPanelMode(e.target.checked)}
+                        />
+                        Panel review
+                    </label>
+                    {panelMode && (
+                        <>
+                            <p className="mt-2 text-xs text-zinc-500">The usual critic leads. Pick who else reviews it; they will argue in the comments.</p>
+                            <div className="mt-3 flex flex-wrap gap-2">
+                                {listCriticTypes().map(type => {
+                                    const critic = getCriticInfo(type);
+                                    const selected = panelGuests.includes(type);
+                                    return (
+                                        <button
+                                            key={type}
+                                            type="button"
+                                            onClick={() => setPanelGuests(prev => selected ? prev.filter(t => t !== type) : [...prev, type])}
+                                            className={cn(
+                                                "flex items-center gap-2 px-2 py-1 border-2 text-xs font-bold uppercase",
+                                                selected ? `${critic.classes.border} ${critic.classes.tint}` : "border-zinc-300 text-zinc-500"
+                                            )}
+                                        >
+                                            <img src={critic.avatar} alt="" className="w-5 h-5 rounded-full" />
+                                            {critic.name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+            {(audioFile || albumTracks.length > 0 || youtubeUrl) && stage === 'idle' && (
                 <button
                     onClick={startReviewProcess}
                     disabled={false}
@@ -2395,6 +1916,34 @@ Output: {"reply_text":"reply"}`;
                 </div>
             </section>
         )}
+        {!review && draftReview && (
+            <article className="bg-white border-2 border-zinc-900 p-8 md:p-12 shadow-[8px_8px_0px_0px_rgba(24,24,27,1)] mb-16 animate-in fade-in">
+                <div className="flex justify-between items-start border-b-2 border-zinc-200 pb-8 mb-8">
+                    <div>
+                        <div className="text-xs font-black uppercase tracking-widest text-zinc-500 mb-2">Review (in progress)</div>
+                        <h2 className="text-4xl md:text-6xl font-black leading-none mb-2">{draftReview.title || '...'}</h2>
+                        {draftReview.artist && <h3 className="text-2xl text-zinc-600 font-medium">{draftReview.artist}</h3>}
+                    </div>
+                    {draftReview.score !== undefined && (
+                        <div className="w-24 h-24 md:w-32 md:h-32 bg-zinc-900 text-white flex flex-col justify-center items-center rounded-full rotate-12 border-4 border-zinc-900">
+                            <span className="text-3xl md:text-5xl font-black tracking-tighter">{draftReview.score.toFixed(1)}</span>
+                            <span className="text-xs uppercase tracking-widest opacity-70">/ 10</span>
+                        </div>
+                    )}
+                </div>
+                <div className="prose prose-zinc max-w-none prose-lg">
+                    {draftReview.summary && (
+                        <p className="text-xl md:text-2xl font-medium leading-snug mb-8 text-zinc-800">
+                            {draftReview.summary}
+                        </p>
+                    )}
+                    {draftReview.body.map((para, i) => (
+                        <p key={i} className="animate-in fade-in">{para}</p>
+                    ))}
+                </div>
+                <div className="mt-4 animate-pulse font-mono text-sm text-zinc-500">&gt; The critic is still typing...</div>
+            </article>
+        )}
         {review && (
             <div className="animate-in fade-in slide-in-from-bottom-8 duration-1000">
                 <article className="bg-white border-2 border-zinc-900 p-8 md:p-12 shadow-[8px_8px_0px_0px_rgba(24,24,27,1)] mb-16">
@@ -2406,9 +1955,7 @@ Output: {"reply_text":"reply"}`;
                         </div>
                         <div className="flex flex-col items-center">
                              {(() => {
-                               const bgColor = review.critic === 'music' ? 'bg-amber-400' :
-                                              review.critic === 'film' ? 'bg-purple-400' :
-                                              'bg-emerald-400';
+                               const bgColor = getCriticInfo(review.critic || 'music').classes.bg;
                                return (
                                  <div className={`w-24 h-24 md:w-32 md:h-32 ${bgColor} text-zinc-900 flex flex-col justify-center items-center rounded-full rotate-12 border-4 border-zinc-900`}>
                                    <span className="text-3xl md:text-5xl font-black tracking-tighter">{review.score.toFixed(1)}</span>
@@ -2419,21 +1966,27 @@ Output: {"reply_text":"reply"}`;
                         </div>
                     </div>
 
+                    {panel && <PanelScoreboard panel={panel} />}
+                    {collection && <CollectionRanking collection={collection} />}
+
                     {youtubeUrl ? (
-                      <div className="my-8">
+                      youtubeLink?.kind === 'video' && <div className="my-8">
                         <div className="aspect-video w-full bg-black">
                           <iframe
                             width="100%"
                             height="100%"
-                            src={`https://www.youtube.com/embed/${extractYouTubeId(youtubeUrl)}`}
+                            src={youtubeEmbedUrl(youtubeLink.videoId, videoStart ?? youtubeLink.startSeconds)}
                             title="YouTube video player"
                             allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
                             allowFullScreen
                             className="w-full h-full border-0"
                           ></iframe>
                         </div>
+                        {review.annotations && review.annotations.length > 0 && (
+                          <AnnotationList annotations={review.annotations} onSeek={setVideoStart} />
+                        )}
                       </div>
-                    ) : review.critic === 'literary' || review.critic === 'business' ? (
+                    ) : isDocumentCritic(review.critic || 'music') ? (
                       <DocumentPreview
                         fileName={audioFile?.name}
                         fileType={audioFile?.type}
@@ -2448,12 +2001,40 @@ Output: {"reply_text":"reply"}`;
                           }
                         }}
                       />
+                    ) : tracklist || albumTracks.length > 0 ? (
+                      <Tracklist
+                        tracklist={tracklist || albumTracks.map((track, i) => ({ mediaId: `upload-${i}`, title: track.title, fileName: track.fileName }))}
+                        verdicts={review.tracks}
+                        albumArt={albumArt}
+                        loadTrack={async (track, i) => albumTracks[i]?.file || loadMedia(track.mediaId)}
+                      />
+                    ) : mediaUrl && mediaIsVideo ? (
+                      <VideoPlayer
+                        videoUrl={mediaUrl}
+                        videoFileName={audioFile?.name}
+                        annotations={review.annotations}
+                        seekRequest={seekRequest}
+                        onTimeUpdate={setMediaTime}
+                      />
                     ) : (
                       <AudioPlayer
-                        audioUrl={audioUrl || undefined}
+                        audioUrl={mediaUrl || undefined}
                         audioFileName={audioFile?.name}
                         albumArt={albumArt}
                         waveformData={waveformData}
+                        annotations={review.annotations}
+                        seekRequest={seekRequest}
+                        onTimeUpdate={setMediaTime}
+                      />
+                    )}
+
+                    {transcript && (
+                      <TranscriptPanel
+                        transcript={transcript}
+                        currentTime={youtubeUrl ? undefined : mediaTime}
+                        onSeek={youtubeUrl
+                          ? (youtubeLink?.kind === 'video' ? setVideoStart : undefined)
+                          : (mediaUrl ? seconds => setSeekRequest({ seconds }) : undefined)}
                       />
                     )}
 
@@ -2486,6 +2067,7 @@ Output: {"reply_text":"reply"}`;
                         })()}
                     </div>
                 </article>
+                {debate && <CriticDebate debate={debate} />}
                 <section id="comments" className="max-w-3xl mx-auto">
                     <h3 className="text-2xl font-black uppercase tracking-tight mb-8 flex items-center gap-3">
                         <MessageSquare className="w-6 h-6" />
@@ -2509,23 +2091,19 @@ Output: {"reply_text":"reply"}`;
 
                         {comments.map((comment) => {
                             const isCriticComment = (comment as any).is_critic;
-                            const isEditorComment = (comment as any).is_editor;
+                            const isEditorComment = comment.is_editor;
                             const criticType = (comment as any).critic;
                             const criticInfo = isCriticComment && criticType ? getCriticInfo(criticType) : null;
                             const editorInfo = isEditorComment ? getStaffInfo('editor') : null;
 
-                            const borderColor = editorInfo
-                                ? 'border-red-500'
-                                : criticInfo
-                                ? (criticType === 'music' ? 'border-amber-400' :
-                                   criticType === 'film' ? 'border-purple-400' : 'border-emerald-400')
+                            const staffClasses = (editorInfo || criticInfo)?.classes;
+
+                            const borderColor = staffClasses
+                                ? staffClasses.border
                                 : comment.persona_type === 'Human User' ? 'border-blue-400' : 'border-zinc-300';
 
-                            const bgColor = editorInfo
-                                ? 'bg-red-50'
-                                : criticInfo
-                                ? (criticType === 'music' ? 'bg-amber-50' :
-                                   criticType === 'film' ? 'bg-purple-50' : 'bg-emerald-50')
+                            const bgColor = staffClasses
+                                ? staffClasses.tint
                                 : comment.persona_type === 'Human User' ? 'bg-blue-50' : 'bg-white';
 
                             return (
@@ -2551,13 +2129,10 @@ Output: {"reply_text":"reply"}`;
                                                     {comment.username}
                                                     <span className={cn(
                                                         "ml-2 text-xs text-white px-1 rounded-sm font-normal uppercase",
-                                                        isEditorComment
-                                                            ? "bg-red-500"
+                                                        staffClasses
+                                                            ? staffClasses.accent
                                                             : comment.persona_type === 'Human User'
                                                             ? "bg-blue-600"
-                                                            : isCriticComment
-                                                            ? (criticType === 'music' ? 'bg-amber-500' :
-                                                               criticType === 'film' ? 'bg-purple-500' : 'bg-emerald-500')
                                                             : "bg-zinc-400"
                                                     )}>
                                                         {comment.persona_type}
@@ -2609,23 +2184,12 @@ Output: {"reply_text":"reply"}`;
                                                 ))}
 
                                                 {comment.replies.map((reply) => {
-                                                    const isCritic = reply.is_julian || reply.is_critic;
-                                                    const isEditor = (reply as any).is_editor;
+                                                    const isCritic = reply.is_critic;
+                                                    const isEditor = reply.is_editor;
                                                     const replyStaffType = isEditor ? 'editor' : (reply as any).critic || review.critic || 'music';
                                                     const staffInfo = getStaffInfo(replyStaffType as StaffType);
 
-                                                    const borderColor = isEditor ? 'border-red-500' :
-                                                                       review.critic === 'music' ? 'border-amber-400' :
-                                                                       review.critic === 'film' ? 'border-purple-400' :
-                                                                       'border-emerald-400';
-                                                    const textColor = isEditor ? 'text-red-500' :
-                                                                     review.critic === 'music' ? 'text-amber-400' :
-                                                                     review.critic === 'film' ? 'text-purple-400' :
-                                                                     'text-emerald-400';
-                                                    const bgColor = isEditor ? 'bg-red-500' :
-                                                                   review.critic === 'music' ? 'bg-amber-400' :
-                                                                   review.critic === 'film' ? 'bg-purple-400' :
-                                                                   'bg-emerald-400';
+                                                    const { border: borderColor, text: textColor, bg: bgColor } = staffInfo.classes;
 
                                                     return (
                                                     <div key={reply.id} className="flex gap-4 ml-2 md:ml-8 animate-in fade-in slide-in-from-left-4">
@@ -2785,7 +2349,7 @@ Output: {"reply_text":"reply"}`;
 
                     {comments.length > 0 && (stage === 'julian_arguing' || stage === 'discriminator_judging') && (
                         <div className="mt-8 text-center text-zinc-500 animate-pulse font-mono text-sm">
-                            {stage === 'julian_arguing' && 'Julian is furiously typing replies...'}
+                            {stage === 'julian_arguing' && `${getCriticInfo(review?.critic || 'music').name.split(' ')[0]} is furiously typing replies...`}
                             {stage === 'discriminator_judging' && 'The Discriminator is judging comments...'}
                         </div>
                     )}
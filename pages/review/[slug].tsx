@@ -1,147 +1,124 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
-import { MessageSquare, ThumbsDown, ShieldAlert, ChevronDown, ArrowLeft } from 'lucide-react';
+import { MessageSquare, ThumbsDown, ShieldAlert, ChevronDown, ArrowLeft, Download } from 'lucide-react';
 import clsx from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import AudioPlayer from '@/components/AudioPlayer';
+import VideoPlayer from '@/components/VideoPlayer';
 import DocumentPreview from '@/components/DocumentPreview';
-import { getAudioData } from '@/utils/db';
-import { getCriticInfo as getCriticInfoUtil } from '@/utils/critics';
+import PanelScoreboard from '@/components/PanelScoreboard';
+import CollectionRanking from '@/components/CollectionRanking';
+import CriticDebate from '@/components/CriticDebate';
+import NotFound from '@/components/NotFound';
+import Tracklist from '@/components/Tracklist';
+import TranscriptPanel from '@/components/TranscriptPanel';
+import AnnotationList from '@/components/AnnotationList';
+import { getReviewBySlug, loadMedia, listCustomCritics } from '@/utils/persistence';
+import { getCriticInfo as getCriticInfoUtil, isDocumentCritic, registerSavedCritics } from '@/utils/critics';
+import type { SavedReview } from '@/utils/models';
+import { renderReviewHtml, exportFileName } from '@/utils/exportHtml';
+import { parseYouTubeUrl, youtubeEmbedUrl } from '@/utils/youtube';
+import { isVideoMedia } from '@/utils/video';
 
 function cn(...inputs: any[]) {
   return twMerge(clsx(inputs));
 }
 
-function extractYouTubeId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\s]+)/,
-    /youtube\.com\/embed\/([^&\s]+)/,
-    /youtube\.com\/v\/([^&\s]+)/
-  ];
-
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
-  }
-  return null;
-}
-
 // Use shared utility for critic info
 const getCriticInfo = getCriticInfoUtil;
 
-interface ReviewData {
-  title: string;
-  artist: string;
-  score: number;
-  summary: string;
-  body: string[];
-  notable_lyrics_quoted: string;
-  critic?: 'music' | 'film' | 'literary' | 'business';
-  criticName?: string;
-}
-
-interface Reply {
-  id: string;
-  username: string;
-  persona_type: string;
-  timestamp: string;
-  text: string;
-  likes: number;
-  is_julian?: boolean;
-  is_critic?: boolean;
-  critic?: 'music' | 'film' | 'literary' | 'business';
-  replyingToUsername?: string;
-  replyingToId?: string;
-}
-
-interface Comment {
-  id: string;
-  username: string;
-  persona_type: string;
-  timestamp: string;
-  text: string;
-  likes: number;
-  replies: Reply[];
-}
-
-interface SavedReview {
-  id: string;
-  title: string;
-  artist: string;
-  slug: string;
-  timestamp: number;
-  review: ReviewData;
-  comments: Comment[];
-  audioFileName?: string;
-  audioDataUrl?: string;
-  albumArt?: string;
-  waveformData?: number[];
-  hasAudioInDB?: boolean;
-  youtubeUrl?: string;
-  isYouTube?: boolean;
-}
-
 export default function ReviewPage() {
   const router = useRouter();
   const { slug } = router.query;
   const [review, setReview] = useState<SavedReview | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | undefined>();
+  const [mediaUrl, setMediaUrl] = useState<string | undefined>();
+  const [mediaIsVideo, setMediaIsVideo] = useState(false); // Picks the video player over the audio one for mediaUrl
   const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [videoStart, setVideoStart] = useState<number | undefined>(); // Set by clicking a transcript timestamp or annotation
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number } | undefined>(); // The same, for the audio player
+  const [mediaTime, setMediaTime] = useState<number | undefined>();
 
   useEffect(() => {
     if (!slug) return;
+    setNotFound(false);
 
     const loadReviewData = async () => {
-      const storedReviews = localStorage.getItem('smudged_reviews');
-      if (storedReviews) {
-        try {
-          const reviews: SavedReview[] = JSON.parse(storedReviews);
-          const foundReview = reviews.find(r => r.slug === slug);
-          if (foundReview) {
-            setReview(foundReview);
+      try {
+        // Guest critics in the comments may be custom ones too
+        await listCustomCritics();
+        const foundReview = await getReviewBySlug(slug as string);
+        if (!foundReview) {
+          setNotFound(true);
+          return;
+        }
 
-            // Load audio/document from IndexedDB if available
-            if (foundReview.hasAudioInDB) {
-              try {
-                const audioData = await getAudioData(foundReview.id);
-                if (audioData) {
-                  // For documents (literary/business reviews), recreate File object for download
-                  if ((foundReview.review.critic === 'literary' || foundReview.review.critic === 'business') && foundReview.audioFileName) {
-                    const response = await fetch(audioData);
-                    const blob = await response.blob();
-                    const file = new File([blob], foundReview.audioFileName, { type: blob.type });
-                    setDocumentFile(file);
-                    setAudioUrl(undefined);
-                  } else {
-                    // For audio/video, just set the URL
-                    setAudioUrl(audioData);
-                    setDocumentFile(null);
-                  }
-                }
-              } catch (e) {
-                console.error('Failed to load from IndexedDB', e);
-                setAudioUrl(foundReview.audioDataUrl);
+        // An old slug from before the review was renamed: move the address bar to the current one
+        if (foundReview.slug !== slug) {
+          router.replace(`/review/${foundReview.slug}`);
+          return;
+        }
+
+        registerSavedCritics([foundReview]);
+        setReview(foundReview);
+
+        // Load audio/document from IndexedDB, or the server store if not cached locally
+        if (foundReview.hasAudioInDB) {
+          try {
+            const media = await loadMedia(foundReview.id);
+            if (media) {
+              // For documents, recreate File object for download
+              if (isDocumentCritic(foundReview.review.critic || 'music') && foundReview.audioFileName) {
+                const file = new File([media], foundReview.audioFileName, { type: media.type });
+                setDocumentFile(file);
+                setMediaUrl(undefined);
+              } else {
+                // For audio/video, just set the URL
+                setMediaUrl(URL.createObjectURL(media));
+                setMediaIsVideo(isVideoMedia(foundReview.audioFileName, media.type));
                 setDocumentFile(null);
               }
-            } else {
-              setAudioUrl(foundReview.audioDataUrl);
-              setDocumentFile(null);
             }
-          } else {
-            router.push('/');
+          } catch (e) {
+            console.error('Failed to load media', e);
+            setMediaUrl(undefined);
+            setDocumentFile(null);
           }
-        } catch (e) {
-          console.error('Failed to load review', e);
-          router.push('/');
+        } else {
+          setMediaUrl(undefined);
+          setDocumentFile(null);
         }
-      } else {
-        router.push('/');
+      } catch (e) {
+        console.error('Failed to load review', e);
+        setNotFound(true);
       }
     };
 
     loadReviewData();
   }, [slug, router]);
 
+  useEffect(() => {
+    return () => {
+      if (mediaUrl) URL.revokeObjectURL(mediaUrl);
+    };
+  }, [mediaUrl]);
+
+  // Download the review as a single HTML file that works without this app
+  const exportReview = () => {
+    if (!review) return;
+    const blob = new Blob([renderReviewHtml(review)], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exportFileName(review);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (notFound) {
+    return <NotFound title="Review Not Found" message="No review lives at this address. Perhaps the critic retracted it." />;
+  }
+
   if (!review) {
     return (
       <div className="min-h-screen bg-[#f4f1ea] flex items-center justify-center">
@@ -153,6 +130,8 @@ export default function ReviewPage() {
     );
   }
 
+  const youtubeLink = review.isYouTube && review.youtubeUrl ? parseYouTubeUrl(review.youtubeUrl) : null;
+
   return (
     <div className="min-h-screen bg-[#f4f1ea] text-zinc-900 font-serif selection:bg-zinc-900 selection:text-white">
       <header className="border-b-4 border-zinc-900 py-6 px-4 md:px-12 bg-white">
@@ -166,13 +145,22 @@ export default function ReviewPage() {
                 Criticism for people who hate criticism from real people.
               </p>
             </div>
-            <button
-              onClick={() => router.push('/')}
-              className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 font-black uppercase text-sm hover:bg-zinc-800 transition-colors"
-            >
-              <ArrowLeft className="w-4 h-4" />
-              Back
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={exportReview}
+                className="flex items-center gap-2 border-2 border-zinc-900 px-4 py-2 font-black uppercase text-sm hover:bg-zinc-100 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export HTML
+              </button>
+              <button
+                onClick={() => router.push('/')}
+                className="flex items-center gap-2 bg-zinc-900 text-white px-4 py-2 font-black uppercase text-sm hover:bg-zinc-800 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -197,21 +185,27 @@ export default function ReviewPage() {
               </div>
             </div>
 
-            {review.isYouTube && review.youtubeUrl ? (
+            {review.panel && <PanelScoreboard panel={review.panel} />}
+            {review.collection && <CollectionRanking collection={review.collection} />}
+
+            {review.collection ? null : youtubeLink?.kind === 'video' ? (
               <div className="my-8">
                 <div className="aspect-video w-full bg-black">
                   <iframe
                     width="100%"
                     height="100%"
-                    src={`https://www.youtube.com/embed/${extractYouTubeId(review.youtubeUrl)}`}
+                    src={youtubeEmbedUrl(youtubeLink.videoId, videoStart ?? youtubeLink.startSeconds)}
                     title="YouTube video player"
                     allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
                     allowFullScreen
                     className="w-full h-full border-0"
                   ></iframe>
                 </div>
+                {review.review.annotations && review.review.annotations.length > 0 && (
+                  <AnnotationList annotations={review.review.annotations} onSeek={setVideoStart} />
+                )}
               </div>
-            ) : review.review.critic === 'literary' || review.review.critic === 'business' ? (
+            ) : isDocumentCritic(review.review.critic || 'music') ? (
               <DocumentPreview
                 fileName={review.audioFileName}
                 fileType={documentFile?.type}
@@ -226,12 +220,40 @@ export default function ReviewPage() {
                   }
                 }}
               />
+            ) : review.tracklist ? (
+              <Tracklist
+                tracklist={review.tracklist}
+                verdicts={review.review.tracks}
+                albumArt={review.albumArt}
+                loadTrack={track => loadMedia(track.mediaId)}
+              />
+            ) : mediaUrl && mediaIsVideo ? (
+              <VideoPlayer
+                videoUrl={mediaUrl}
+                videoFileName={review.audioFileName}
+                annotations={review.review.annotations}
+                seekRequest={seekRequest}
+                onTimeUpdate={setMediaTime}
+              />
             ) : (
               <AudioPlayer
-                audioUrl={audioUrl}
+                audioUrl={mediaUrl}
                 audioFileName={review.audioFileName}
                 albumArt={review.albumArt}
                 waveformData={review.waveformData}
+                annotations={review.review.annotations}
+                seekRequest={seekRequest}
+                onTimeUpdate={setMediaTime}
+              />
+            )}
+
+            {review.transcript && (
+              <TranscriptPanel
+                transcript={review.transcript}
+                currentTime={youtubeLink ? undefined : mediaTime}
+                onSeek={youtubeLink
+                  ? (youtubeLink.kind === 'video' ? setVideoStart : undefined)
+                  : (mediaUrl ? seconds => setSeekRequest({ seconds }) : undefined)}
               />
             )}
 
@@ -265,6 +287,8 @@ export default function ReviewPage() {
             </div>
           </article>
 
+          {review.debate && <CriticDebate debate={review.debate} />}
+
           <section id="comments" className="max-w-3xl mx-auto">
             <h3 className="text-2xl font-black uppercase tracking-tight mb-8 flex items-center gap-3">
               <MessageSquare className="w-6 h-6" />
@@ -275,7 +299,10 @@ export default function ReviewPage() {
                 <div key={comment.id} className="group">
                   <div className="flex gap-4">
                     <div className="w-10 h-10 shrink-0 bg-zinc-200 rounded-md overflow-hidden border border-zinc-900">
-                      <img src={`https://api.dicebear.com/7.x/identicon/svg?seed=${comment.username}`} alt={comment.username} />
+                      <img
+                        src={comment.is_critic && comment.critic ? getCriticInfo(comment.critic).avatar : `https://api.dicebear.com/7.x/identicon/svg?seed=${comment.username}`}
+                        alt={comment.username}
+                      />
                     </div>
                     <div className="flex-1">
                       <div className="bg-white border border-zinc-300 p-4 rounded-sm shadow-sm">
@@ -300,21 +327,10 @@ export default function ReviewPage() {
                       {comment.replies.length > 0 && (
                         <div className="mt-4 space-y-4">
                           {comment.replies.map((reply) => {
-                            const isCritic = reply.is_julian || reply.is_critic;
+                            const isCritic = reply.is_critic;
                             const criticType = reply.critic || review.review.critic || 'music';
                             const criticInfo = isCritic ? getCriticInfo(criticType) : null;
-                            const borderColor = criticType === 'music' ? 'border-amber-400'
-                              : criticType === 'film' ? 'border-purple-400'
-                              : criticType === 'business' ? 'border-blue-500'
-                              : 'border-emerald-400';
-                            const textColor = criticType === 'music' ? 'text-amber-400'
-                              : criticType === 'film' ? 'text-purple-400'
-                              : criticType === 'business' ? 'text-blue-500'
-                              : 'text-emerald-400';
-                            const bgColor = criticType === 'music' ? 'bg-amber-400'
-                              : criticType === 'film' ? 'bg-purple-400'
-                              : criticType === 'business' ? 'bg-blue-500'
-                              : 'bg-emerald-400';
+                            const { border: borderColor, text: textColor, bg: bgColor } = getCriticInfo(criticType).classes;
 
                             return (
                             <div key={reply.id} className="flex gap-4 ml-2 md:ml-8 animate-in fade-in slide-in-from-left-4">
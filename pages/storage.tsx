@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import { ArrowLeft, HardDrive, Trash2, MessageSquare, Music, AlertTriangle } from 'lucide-react';
+import clsx from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { listReviews, listEditorials, updateReviewRecord, deleteReviewRecord, deleteMediaRecord } from '@/utils/persistence';
+import { getStorageReport, deleteMedia, StorageReport } from '@/utils/db';
+import { mediaIdsFor } from '@/utils/album';
+import { reviewRows, editorialRows, findOrphanedMedia, localStorageBytes, formatBytes, StorageRow } from '@/utils/storage';
+import type { SavedReview, SavedEditorial } from '@/utils/models';
+
+const cn = (...inputs: any[]) => twMerge(clsx(inputs));
+
+const EMPTY_REPORT: StorageReport = { mediaBytes: 0, media: [] };
+
+type BulkAction = 'drop-media' | 'drop-comments' | 'delete';
+
+const BULK_CONFIRM: Record<BulkAction, (count: number) => string> = {
+  'drop-media': count => `Remove the media from ${count} review(s)? The reviews stay, but can no longer be played.`,
+  'drop-comments': count => `Delete every comment on ${count} review(s)?`,
+  'delete': count => `Delete ${count} review(s) and their media for good?`,
+};
+
+export default function StoragePage() {
+  const router = useRouter();
+  const [reviews, setReviews] = useState<SavedReview[]>([]);
+  const [editorials, setEditorials] = useState<SavedEditorial[]>([]);
+  const [report, setReport] = useState<StorageReport>(EMPTY_REPORT);
+  const [localBytes, setLocalBytes] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [loadedReviews, loadedEditorials] = await Promise.all([listReviews(), listEditorials()]);
+      setReviews(loadedReviews);
+      setEditorials(loadedEditorials);
+    } catch (e) {
+      console.error('Failed to load archive', e);
+    }
+
+    try {
+      setReport(await getStorageReport());
+    } catch (e) {
+      console.error('Failed to read IndexedDB storage', e);
+      setReport(EMPTY_REPORT);
+    }
+    setLocalBytes(localStorageBytes());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const rows: StorageRow[] = [...reviewRows(reviews, report.media), ...editorialRows(editorials)]
+    .sort((a, b) => (b.localBytes + b.mediaBytes) - (a.localBytes + a.mediaBytes));
+  const orphans = findOrphanedMedia(report.media, reviews);
+  const orphanBytes = orphans.reduce((total, record) => total + record.size, 0);
+  const reviewIds = reviews.map(r => r.id);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === reviewIds.length ? new Set() : new Set(reviewIds));
+  };
+
+  const runBulk = async (action: BulkAction) => {
+    const ids = Array.from(selected);
+    if (ids.length === 0 || !confirm(BULK_CONFIRM[action](ids.length))) return;
+
+    setIsWorking(true);
+    setStatus(null);
+    let failed = 0;
+    for (const id of ids) {
+      try {
+        if (action === 'drop-comments') {
+          await updateReviewRecord(id, { comments: [] });
+          continue;
+        }
+        // An album keeps one media file per track
+        const review = reviews.find(r => r.id === id);
+        const mediaIds = review ? mediaIdsFor(review) : [id];
+        if (action === 'drop-media') {
+          for (const mediaId of mediaIds) await deleteMediaRecord(mediaId);
+          await updateReviewRecord(id, { hasAudioInDB: false });
+        } else {
+          await deleteReviewRecord(id);
+        }
+        // The local copy goes last, so a failed server call leaves the review playable
+        for (const mediaId of mediaIds) {
+          await deleteMedia(mediaId).catch(e => console.error(`Failed to clear cached media for ${mediaId}`, e));
+        }
+      } catch (e) {
+        console.error(`Failed to ${action} for review ${id}`, e);
+        failed++;
+      }
+    }
+
+    setSelected(new Set());
+    setStatus(failed > 0 ? `${ids.length - failed} done, ${failed} failed.` : `${ids.length} review(s) cleaned up.`);
+    await refresh();
+    setIsWorking(false);
+  };
+
+  const clearOrphans = async () => {
+    setIsWorking(true);
+    for (const record of orphans) {
+      try {
+        await deleteMedia(record.id);
+      } catch (e) {
+        console.error(`Failed to remove orphaned media ${record.id}`, e);
+      }
+    }
+    setStatus(`Freed ${formatBytes(orphanBytes)} of orphaned media.`);
+    await refresh();
+    setIsWorking(false);
+  };
+
+  const usagePercent = report.usage !== undefined && report.quota ? Math.min(100, (report.usage / report.quota) * 100) : undefined;
+
+  return (
+    <div className="min-h-screen bg-[#f4f1ea] text-zinc-900 font-serif">
+      <header className="border-b-4 border-zinc-900 py-6 px-4 md:px-12 bg-white">
+        <div className="max-w-5xl mx-auto">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={() => router.push('/')}
+              className="flex items-center gap-2 text-zinc-600 hover:text-zinc-900 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Reviews
+            </button>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-black tracking-tighter uppercase leading-tight">
+            The Filing Cabinet
+          </h1>
+          <p className="mt-2 text-lg font-medium text-zinc-600">
+            What the archive is costing this browser, and what can go.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 md:px-12 py-12 space-y-8">
+        <section className="bg-white border-2 border-zinc-900 p-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+          <h2 className="text-2xl font-black uppercase mb-6 flex items-center gap-2">
+            <HardDrive className="w-6 h-6" />
+            Usage
+          </h2>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="border-2 border-zinc-900 p-4">
+              <div className="text-xs font-black uppercase tracking-widest text-zinc-500">Browser total</div>
+              <div className="text-2xl font-black">
+                {report.usage !== undefined ? formatBytes(report.usage) : 'Unknown'}
+              </div>
+              {report.quota !== undefined && (
+                <div className="text-sm text-zinc-500">of {formatBytes(report.quota)}</div>
+              )}
+            </div>
+            <div className="border-2 border-zinc-900 p-4">
+              <div className="text-xs font-black uppercase tracking-widest text-zinc-500">Saved text (localStorage)</div>
+              <div className="text-2xl font-black">{formatBytes(localBytes)}</div>
+            </div>
+            <div className="border-2 border-zinc-900 p-4">
+              <div className="text-xs font-black uppercase tracking-widest text-zinc-500">Media (IndexedDB)</div>
+              <div className="text-2xl font-black">{formatBytes(report.mediaBytes)}</div>
+              <div className="text-sm text-zinc-500">{report.media.length} file(s)</div>
+            </div>
+          </div>
+          {usagePercent !== undefined && (
+            <div className="mt-6 h-3 border-2 border-zinc-900 bg-zinc-100" title={`${usagePercent.toFixed(1)}% used`}>
+              <div
+                className={cn('h-full', usagePercent > 90 ? 'bg-red-500' : usagePercent > 70 ? 'bg-amber-400' : 'bg-zinc-900')}
+                style={{ width: `${usagePercent}%` }}
+              />
+            </div>
+          )}
+
+          {orphans.length > 0 && (
+            <div className="mt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-2 border-amber-500 bg-amber-50 p-4">
+              <div className="flex items-center gap-2 text-sm">
+                <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+                {orphans.length} cached media file(s) ({formatBytes(orphanBytes)}) belong to reviews that no longer exist.
+              </div>
+              <button
+                onClick={clearOrphans}
+                disabled={isWorking}
+                className="border-2 border-zinc-900 px-3 py-1 font-black uppercase text-xs hover:bg-zinc-100 disabled:opacity-50"
+              >
+                Remove orphans
+              </button>
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white border-2 border-zinc-900 p-8 shadow-[4px_4px_0px_0px_rgba(24,24,27,1)]">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-black uppercase">Records</h2>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => runBulk('drop-media')}
+                disabled={isWorking || selected.size === 0}
+                className="flex items-center gap-1 border-2 border-zinc-900 px-3 py-1 font-black uppercase text-xs hover:bg-zinc-100 disabled:opacity-50"
+              >
+                <Music className="w-3 h-3" />
+                Drop media
+              </button>
+              <button
+                onClick={() => runBulk('drop-comments')}
+                disabled={isWorking || selected.size === 0}
+                className="flex items-center gap-1 border-2 border-zinc-900 px-3 py-1 font-black uppercase text-xs hover:bg-zinc-100 disabled:opacity-50"
+              >
+                <MessageSquare className="w-3 h-3" />
+                Drop comments
+              </button>
+              <button
+                onClick={() => runBulk('delete')}
+                disabled={isWorking || selected.size === 0}
+                className="flex items-center gap-1 border-2 border-zinc-900 px-3 py-1 font-black uppercase text-xs hover:bg-red-500 hover:text-white disabled:opacity-50"
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete
+              </button>
+            </div>
+          </div>
+          {status && <div className="mb-4 text-sm italic text-zinc-600">{status}</div>}
+
+          {rows.length === 0 ? (
+            <div className="text-zinc-500 italic">Nothing saved yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-zinc-900 text-left text-xs uppercase tracking-widest text-zinc-500">
+                  <th className="py-2 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all reviews"
+                      checked={reviewIds.length > 0 && selected.size === reviewIds.length}
+                      onChange={toggleAll}
+                    />
+                  </th>
+                  <th className="py-2">Record</th>
+                  <th className="py-2 text-right">Comments</th>
+                  <th className="py-2 text-right">localStorage</th>
+                  <th className="py-2 text-right">IndexedDB</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={`${row.kind}-${row.id}`} className="border-b border-zinc-200">
+                    <td className="py-2">
+                      {row.kind === 'review' && (
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${row.label}`}
+                          checked={selected.has(row.id)}
+                          onChange={() => toggle(row.id)}
+                        />
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <div className="font-bold">{row.label}</div>
+                      <div className="text-xs text-zinc-500 uppercase">
+                        {row.kind} · {new Date(row.timestamp).toLocaleDateString()}
+                      </div>
+                    </td>
+                    <td className="py-2 text-right">{row.commentCount}</td>
+                    <td className="py-2 text-right">{formatBytes(row.localBytes)}</td>
+                    <td className="py-2 text-right">{row.mediaBytes > 0 ? formatBytes(row.mediaBytes) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
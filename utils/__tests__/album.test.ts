@@ -0,0 +1,59 @@
+import { trackMediaId, reviewMedia, mediaIdsFor, moveTracklist, isZipFile, parseTrackNumber, orderTracks, titleFromFileName, albumDetails } from '../album';
+
+const tracklist = [
+  { mediaId: 'r1-t1', title: 'Opener', fileName: '01 opener.mp3' },
+  { mediaId: 'r1-t2', title: 'Closer', fileName: '02 closer.mp3' },
+];
+
+describe('Album Helpers', () => {
+  it('should keep one media id per track, next to the review id', () => {
+    expect(trackMediaId('r1', 0)).toBe('r1-t1');
+    expect(reviewMedia({ id: 'r1', tracklist })).toEqual([
+      { id: 'r1-t1', fileName: '01 opener.mp3' },
+      { id: 'r1-t2', fileName: '02 closer.mp3' },
+    ]);
+    expect(reviewMedia({ id: 'r2', hasAudioInDB: true, audioFileName: 'a.mp3' })).toEqual([{ id: 'r2', fileName: 'a.mp3' }]);
+    expect(reviewMedia({ id: 'r3', hasAudioInDB: false })).toEqual([]);
+    expect(mediaIdsFor({ id: 'r1', tracklist })).toEqual(['r1-t1', 'r1-t2']);
+    expect(mediaIdsFor({ id: 'r3' })).toEqual(['r3']);
+  });
+
+  it('should move track media ids along with a renamed review', () => {
+    expect(moveTracklist(tracklist, 'r1-2').map(track => track.mediaId)).toEqual(['r1-2-t1', 'r1-2-t2']);
+  });
+
+  it('should recognise zips by type or extension', () => {
+    expect(isZipFile({ name: 'album.zip', type: '' })).toBe(true);
+    expect(isZipFile({ name: 'album', type: 'application/x-zip-compressed' })).toBe(true);
+    expect(isZipFile({ name: 'song.mp3', type: 'audio/mpeg' })).toBe(false);
+  });
+
+  it('should read track numbers from tags', () => {
+    expect(parseTrackNumber('3/12')).toBe(3);
+    expect(parseTrackNumber(7)).toBe(7);
+    expect(parseTrackNumber('')).toBeUndefined();
+    expect(parseTrackNumber(undefined)).toBeUndefined();
+  });
+
+  it('should order tagged tracks first, then file names naturally', () => {
+    const ordered = orderTracks([
+      { fileName: '10 - outro.mp3' },
+      { fileName: '2 - intro.mp3' },
+      { fileName: 'z.mp3', trackNumber: 2 },
+      { fileName: 'y.mp3', trackNumber: 1 },
+    ]);
+
+    expect(ordered.map(track => track.fileName)).toEqual(['y.mp3', 'z.mp3', '2 - intro.mp3', '10 - outro.mp3']);
+  });
+
+  it('should title untagged tracks from their file names', () => {
+    expect(titleFromFileName('disc/03 - Slow Burn.mp3')).toBe('Slow Burn');
+    expect(titleFromFileName('01.mp3')).toBe('01');
+  });
+
+  it('should name the album from the tags most tracks share', () => {
+    expect(albumDetails([{ artist: 'Band', album: 'Debut' }, { artist: 'Band', album: 'Debut' }, { album: 'Single' }]))
+      .toEqual({ title: 'Debut', artist: 'Band' });
+    expect(albumDetails([{ artist: 'One' }, { artist: 'Two' }])).toEqual({ title: undefined, artist: 'Various Artists' });
+  });
+});
@@ -0,0 +1,148 @@
+import { createBundle, parseBundle, planImport, BundleError, BUNDLE_VERSION } from '../bundle';
+import { SCHEMA_VERSION, SavedReview, SavedEditorial } from '../models';
+import type { CustomCriticSpec } from '../critics';
+
+function review(id: string, slug: string, overrides: Partial<SavedReview> = {}): SavedReview {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    id,
+    slug,
+    title: 'Song',
+    artist: 'Band',
+    timestamp: 1,
+    review: { title: 'Song', artist: 'Band', score: 5, summary: '', body: [], notable_lyrics_quoted: '', critic: 'music' },
+    comments: [],
+    ...overrides,
+  };
+}
+
+function editorial(id: string, overrides: Partial<SavedEditorial> = {}): SavedEditorial {
+  return { schemaVersion: SCHEMA_VERSION, id, title: 'Editorial', summary: '', body: [], verdicts: [], timestamp: 1, reviewIds: [], comments: [], ...overrides };
+}
+
+const critic: CustomCriticSpec = {
+  id: 'custom-dee-1',
+  name: 'Dee Vine',
+  bio: 'Only watches on VHS.',
+  avatarSeed: 'dee',
+  color: 'teal',
+  tone: { snark: 9, pretension: 1, generosity: 2 },
+  hates: [],
+  loves: [],
+  scoreRange: [2, 6],
+  media: ['video'],
+  timestamp: 1,
+};
+const empty = { reviews: [], editorials: [], critics: [] };
+
+describe('Archive Bundles', () => {
+  it('should write a versioned manifest that parses back', () => {
+    const bundle = createBundle({
+      reviews: [review('1', 'song', { hasAudioInDB: true })],
+      editorials: [editorial('e1', { reviewIds: ['1'] })],
+      critics: [critic],
+      media: { '1': 'data:audio/mpeg;base64,AAAA' },
+    }, 1000);
+
+    expect(bundle.manifest).toEqual({
+      format: 'smudged-pamphlet-archive',
+      version: BUNDLE_VERSION,
+      exportedAt: 1000,
+      counts: { reviews: 1, editorials: 1, critics: 1, media: 1 },
+    });
+    expect(parseBundle(JSON.parse(JSON.stringify(bundle)))).toEqual(bundle);
+  });
+
+  it('should reject files that are not bundles or are from a newer version', () => {
+    const bundle = createBundle({ reviews: [], editorials: [], critics: [], media: {} });
+
+    expect(() => parseBundle({ reviews: [] })).toThrow(BundleError);
+    expect(() => parseBundle({ ...bundle, manifest: { ...bundle.manifest, version: BUNDLE_VERSION + 1 } })).toThrow(/newer/);
+    expect(() => parseBundle({ ...bundle, reviews: [{ id: '1' }] })).toThrow(/id and slug/);
+  });
+
+  it('should upgrade records exported by older versions', () => {
+    const { schemaVersion, ...legacy } = review('1', 'song');
+    const bundle = createBundle({ reviews: [], editorials: [], critics: [], media: {} });
+
+    const parsed = parseBundle({ ...bundle, reviews: [{ ...legacy, audioDataUrl: 'data:audio/mpeg;base64,AAAA' }] });
+
+    expect(parsed.reviews).toEqual([review('1', 'song', { schemaVersion, hasAudioInDB: true })]);
+    expect(parsed.media).toEqual({ '1': 'data:audio/mpeg;base64,AAAA' });
+  });
+
+  it('should import into an empty archive unchanged', () => {
+    const bundle = createBundle({ reviews: [review('1', 'song')], editorials: [], critics: [critic], media: { '1': 'data:x' } });
+
+    const plan = planImport(bundle, empty);
+
+    expect(plan.reviews).toEqual(bundle.reviews);
+    expect(plan.critics).toEqual([critic]);
+    expect(plan.media).toEqual({ '1': 'data:x' });
+    expect(plan.skipped).toBe(0);
+  });
+
+  it('should skip records that are already here', () => {
+    const bundle = createBundle({ reviews: [review('1', 'song')], editorials: [editorial('e1')], critics: [critic], media: {} });
+
+    // Key order doesn't matter
+    const reordered = Object.fromEntries(Object.entries(review('1', 'song')).reverse()) as unknown as SavedReview;
+    const plan = planImport(bundle, { reviews: [reordered], editorials: [editorial('e1')], critics: [critic] });
+
+    expect(plan.reviews).toEqual([]);
+    expect(plan.editorials).toEqual([]);
+    expect(plan.critics).toEqual([]);
+    expect(plan.skipped).toBe(3);
+  });
+
+  it('should keep both copies of a clashing review and move its media and editorials along', () => {
+    const bundle = createBundle({
+      reviews: [review('1', 'song', { title: 'Their Song' })],
+      editorials: [editorial('e1', { reviewIds: ['1', 'other'] })],
+      critics: [],
+      media: { '1': 'data:theirs' },
+    });
+
+    const plan = planImport(bundle, { reviews: [review('1', 'song'), review('1-2', 'song-2')], editorials: [], critics: [] });
+
+    expect(plan.reviews).toEqual([review('1-3', 'song-3', { title: 'Their Song' })]);
+    expect(plan.media).toEqual({ '1-3': 'data:theirs' });
+    expect(plan.editorials[0].reviewIds).toEqual(['1-3', 'other']);
+    expect(plan.renamed).toEqual([{ from: '1', to: '1-3' }, { from: 'song', to: 'song-3' }]);
+  });
+
+  it('should move album track media along with a renamed album', () => {
+    const tracklist = [{ mediaId: '1-t1', title: 'A', fileName: 'a.mp3' }, { mediaId: '1-t2', title: 'B', fileName: 'b.mp3' }];
+    const bundle = createBundle({
+      reviews: [review('1', 'album', { title: 'Theirs', tracklist })],
+      editorials: [],
+      critics: [],
+      media: { '1-t1': 'data:a', '1-t2': 'data:b' },
+    });
+
+    const plan = planImport(bundle, { ...empty, reviews: [review('1', 'song')] });
+
+    expect(plan.reviews[0].tracklist?.map(track => track.mediaId)).toEqual(['1-2-t1', '1-2-t2']);
+    expect(plan.media).toEqual({ '1-2-t1': 'data:a', '1-2-t2': 'data:b' });
+  });
+
+  it('should give new reviews a fresh slug when theirs is taken', () => {
+    const bundle = createBundle({ reviews: [review('2', 'song'), review('3', 'song')], editorials: [], critics: [], media: {} });
+
+    const plan = planImport(bundle, { ...empty, reviews: [review('1', 'song')] });
+
+    expect(plan.reviews.map(r => [r.id, r.slug])).toEqual([['2', 'song-2'], ['3', 'song-3']]);
+  });
+
+  it('should follow the skip and replace policies for clashing records', () => {
+    const bundle = createBundle({ reviews: [review('1', 'song', { title: 'Theirs' })], editorials: [editorial('e1', { title: 'Theirs' })], critics: [], media: {} });
+    const existing = { reviews: [review('1', 'song')], editorials: [editorial('e1', { title: 'Mine' })], critics: [] };
+
+    expect(planImport(bundle, existing, 'skip').skipped).toBe(2);
+
+    const replaced = planImport(bundle, existing, 'replace');
+    expect(replaced.reviews).toEqual([review('1', 'song', { title: 'Theirs' })]);
+    expect(replaced.editorials).toEqual([editorial('e1', { title: 'Theirs' })]);
+    expect(replaced.renamed).toEqual([]);
+  });
+});
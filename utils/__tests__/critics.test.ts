@@ -1,4 +1,21 @@
-import { getCriticInfo, getStaffInfo } from '../critics';
+import {
+  getCriticInfo,
+  getStaffInfo,
+  findCriticForMedia,
+  findDebateOpponent,
+  introducePersona,
+  validateCustomCritic,
+  buildCustomCritic,
+  registerCustomCritics,
+  registerSavedCritics,
+  unregisterCustomCritic,
+  listCriticTypes,
+  isDocumentCritic,
+  CRITIC_TYPES,
+  EDITOR,
+  CustomCriticSpec,
+} from '../critics';
+import { buildReviewPrompt } from '../pipeline';
 
 describe('Critics Utility', () => {
   describe('getCriticInfo', () => {
@@ -73,4 +90,118 @@ describe('Critics Utility', () => {
       });
     });
   });
+
+  describe('Persona Registry', () => {
+    it('should keep complete Tailwind classes in the persona colour', () => {
+      [...CRITIC_TYPES.map(getCriticInfo), EDITOR].forEach(persona => {
+        expect(persona.classes.text).toBe(`text-${persona.color}`);
+        expect(persona.classes.bg).toBe(`bg-${persona.color}`);
+        expect(persona.classes.border).toBe(`border-${persona.color}`);
+      });
+    });
+
+    it('should route MIME types to the critic that reviews them', () => {
+      expect(findCriticForMedia('audio/mpeg')?.id).toBe('music');
+      expect(findCriticForMedia('video/mp4')?.id).toBe('film');
+      expect(findCriticForMedia('application/pdf')?.id).toBe('literary');
+      expect(findCriticForMedia('text/markdown')?.id).toBe('literary');
+      expect(findCriticForMedia('application/zip')).toBeUndefined();
+    });
+
+    it('should pair critics from the same side of the paper for debates', () => {
+      expect(findDebateOpponent('music')).toBe('film');
+      expect(findDebateOpponent('film')).toBe('music');
+      expect(findDebateOpponent('literary')).toBe('business');
+      expect(findDebateOpponent('business')).toBe('literary');
+    });
+
+    it('should introduce personas by name and role', () => {
+      expect(introducePersona(getCriticInfo('film'), 'guestPersona'))
+        .toBe("You are Rex Beaumont, film critic. You watch everything at 1.5x speed and are pretentious about cinema.");
+    });
+
+    it('should build review prompts from the persona entry', () => {
+      const prompt = buildReviewPrompt(getCriticInfo('business'));
+
+      expect(prompt).toContain('You are Patricia Chen, business editor');
+      expect(prompt).toContain('typically range 3-6.5');
+      expect(prompt).toContain('"Paragraph 4"');
+      expect(prompt).not.toContain('"Paragraph 5"');
+    });
+  });
+
+  describe('Custom Critics', () => {
+    const spec: CustomCriticSpec = {
+      id: 'custom-dee-1',
+      name: 'Dee Vine',
+      bio: 'Contributing Critic, only listens on cassette.',
+      avatarSeed: 'dee',
+      color: 'teal',
+      tone: { snark: 9, pretension: 1, generosity: 2 },
+      hates: ['autotune', 'fade-outs'],
+      loves: ['tape hiss'],
+      scoreRange: [2, 6],
+      media: ['audio'],
+      timestamp: 1,
+    };
+
+    afterEach(() => unregisterCustomCritic(spec.id));
+
+    it('should normalise form input', () => {
+      const { ok, value } = validateCustomCritic({
+        ...spec,
+        color: undefined,
+        tone: { snark: '12', pretension: -3, generosity: 4.6 },
+        scoreRange: [8, '3.25'],
+        media: ['audio', 'audio'],
+        hates: undefined,
+      });
+
+      expect(ok).toBe(true);
+      expect(value).toMatchObject({
+        color: 'rose',
+        tone: { snark: 10, pretension: 0, generosity: 5 },
+        scoreRange: [3.3, 8],
+        media: ['audio'],
+        hates: [],
+      });
+    });
+
+    it('should reject critics without an id, name or media', () => {
+      expect(validateCustomCritic({ ...spec, id: 'music' }).errors[0]).toMatch(/^id:/);
+      expect(validateCustomCritic({ ...spec, name: '' }).errors).toEqual(['name: expected a non-empty string']);
+      expect(validateCustomCritic({ ...spec, media: [] }).errors).toEqual(['media: expected at least 1 item(s)']);
+    });
+
+    it('should build prompts from the tone and tastes', () => {
+      const persona = buildCustomCritic(spec);
+
+      expect(persona.systemPrompt).toContain("You're savagely sarcastic, plain-spoken, cold and unforgiving.");
+      expect(persona.systemPrompt).toContain('- autotune');
+      expect(persona.systemPrompt).toContain('- tape hiss');
+      expect(persona.classes.border).toBe('border-teal-400');
+      expect(persona.mediaTypes).toEqual(['audio/']);
+      expect(persona.media.noun).toBe('music');
+      expect(buildReviewPrompt(persona)).toContain('typically range 2-6');
+    });
+
+    it('should join the roster and take over its media once registered', () => {
+      expect(findCriticForMedia('audio/mpeg')?.id).toBe('music');
+
+      registerCustomCritics([spec]);
+
+      expect(getCriticInfo(spec.id).name).toBe('Dee Vine');
+      expect(listCriticTypes()).toEqual([...CRITIC_TYPES, spec.id]);
+      expect(findCriticForMedia('audio/mpeg')?.id).toBe(spec.id);
+      expect(findCriticForMedia('video/mp4')?.id).toBe('film');
+      expect(isDocumentCritic(spec.id)).toBe(false);
+    });
+
+    it('should not let copies saved with reviews override the live critic', () => {
+      registerCustomCritics([spec]);
+      registerSavedCritics([{ customCritic: { ...spec, name: 'Old Name' } }]);
+
+      expect(getCriticInfo(spec.id).name).toBe('Dee Vine');
+    });
+  });
 });
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import { dataUrlToBlob, chunkBlob, pickEvictions, MediaRecord } from '../db';
+
+function media(id: string, size: number, lastAccessed: number, uploaded = true): MediaRecord {
+  return { id, mimeType: 'audio/mpeg', size, chunkCount: 1, storedAt: 0, lastAccessed, uploaded };
+}
+
+describe('Media Cache', () => {
+  it('should decode data URLs into Blobs of their real size', async () => {
+    const blob = dataUrlToBlob('data:audio/mpeg;base64,YXVkaW8=');
+
+    expect(blob.type).toBe('audio/mpeg');
+    expect(await blob.text()).toBe('audio');
+    expect(await dataUrlToBlob('data:text/plain,hi%20there').text()).toBe('hi there');
+    expect(() => dataUrlToBlob('not a data url')).toThrow();
+  });
+
+  it('should split large files into chunks that join back together', async () => {
+    const chunks = chunkBlob(new Blob(['abcdefghij']), 4);
+
+    expect(chunks.map(c => c.size)).toEqual([4, 4, 2]);
+    expect(await new Blob(chunks).text()).toBe('abcdefghij');
+    expect(chunkBlob(new Blob([]), 4)).toHaveLength(1);
+  });
+
+  it('should evict the least recently used media until enough space is free', () => {
+    const records = [media('new', 50, 300), media('old', 30, 100), media('mid', 40, 200)];
+
+    expect(pickEvictions(records, 60).map(r => r.id)).toEqual(['old', 'mid']);
+    expect(pickEvictions(records, 0)).toEqual([]);
+  });
+
+  it('should never evict protected media', () => {
+    const records = [media('old', 30, 100), media('current', 100, 50)];
+
+    expect(pickEvictions(records, 500, ['current']).map(r => r.id)).toEqual(['old']);
+  });
+
+  it('should never evict media the server has no copy of', () => {
+    const records = [media('local', 30, 100, false), media('legacy', 20, 150), media('backed-up', 40, 200)];
+    delete records[1].uploaded;
+
+    expect(pickEvictions(records, 500).map(r => r.id)).toEqual(['backed-up']);
+  });
+});
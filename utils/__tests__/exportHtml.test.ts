@@ -0,0 +1,123 @@
+import { renderReviewHtml, renderWaveformSvg, escapeHtml, exportFileName, ExportableReview } from '../exportHtml';
+
+function savedReview(overrides: Partial<ExportableReview> = {}): ExportableReview {
+  return {
+    title: 'Songs <for> Robots',
+    artist: 'The "Band"',
+    slug: 'the-band-songs-for-robots',
+    timestamp: Date.UTC(2025, 0, 15, 12),
+    review: {
+      title: 'Songs <for> Robots',
+      artist: 'The "Band"',
+      score: 3.5,
+      summary: 'A summary.',
+      body: ['First paragraph.', 'Second paragraph.'],
+      notable_lyrics_quoted: 'beep boop',
+      critic: 'music',
+      criticName: 'Julian Pinter',
+    },
+    comments: [{
+      id: 'c1',
+      username: 'TheStan1',
+      persona_type: 'The Stan',
+      timestamp: '1 minute ago',
+      text: '<script>alert(1)</script> best album ever',
+      likes: 42,
+      replies: [{
+        id: 'r1',
+        username: 'JulianPinter',
+        persona_type: 'Author',
+        timestamp: 'Just now',
+        text: 'No.',
+        likes: 7,
+        is_critic: true,
+        critic: 'music',
+        replyingToUsername: 'TheStan1',
+      }],
+    }],
+    ...overrides,
+  };
+}
+
+describe('Review HTML Export', () => {
+  it('should escape every piece of text', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+
+    const html = renderReviewHtml(savedReview());
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; best album ever');
+    expect(html).toContain('<title>Songs &lt;for&gt; Robots by The &quot;Band&quot; | The Smudged Pamphlet</title>');
+  });
+
+  it('should render the review, comments, replies and likes without external resources', () => {
+    const html = renderReviewHtml(savedReview());
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<b>3.5</b>');
+    expect(html).toContain('Published January 15, 2025');
+    expect(html).toContain('<p>Second paragraph.</p>');
+    expect(html).toContain('1 Comments');
+    expect(html).toContain('&#9650; 42');
+    expect(html).toContain('replying to @TheStan1');
+    expect(html).toContain('border-color:#fbbf24'); // Julian's reply in his colour
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).not.toMatch(/src="http:/);
+  });
+
+  it('should inline album art and the waveform', () => {
+    const html = renderReviewHtml(savedReview({
+      albumArt: 'data:image/png;base64,AAAA',
+      waveformData: [0.5, 1, 0],
+      audioFileName: 'song.mp3',
+    }));
+
+    expect(html).toContain('<img class="art" src="data:image/png;base64,AAAA"');
+    expect(html).toContain('[FILE: song.mp3]');
+    expect(html).toContain('<svg class="wave"');
+  });
+
+  it('should refuse album art that is not an image', () => {
+    const html = renderReviewHtml(savedReview({ albumArt: 'javascript:alert(1)' }));
+
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('should only link YouTube URLs the parser accepts, in canonical form', () => {
+    const valid = renderReviewHtml(savedReview({ isYouTube: true, youtubeUrl: 'youtu.be/dQw4w9WgXcQ?t=90' }));
+    const script = renderReviewHtml(savedReview({ isYouTube: true, youtubeUrl: 'javascript:alert(1)//youtube.com/watch?v=dQw4w9WgXcQ' }));
+
+    expect(valid).toContain('<a href="https://www.youtube.com/watch?v=dQw4w9WgXcQ&amp;t=90s">');
+    expect(script).not.toContain('<a href');
+    expect(script).toContain('[VIDEO: javascript:alert(1)//youtube.com/watch?v=dQw4w9WgXcQ]');
+  });
+
+  it('should draw one mirrored bar per waveform sample', () => {
+    const svg = renderWaveformSvg([0, 0.5, 1]);
+
+    expect(svg.match(/<rect/g)).toHaveLength(3);
+    expect(svg).toContain('y="30.0" width="2" height="40.0"');
+  });
+
+  it('should include the panel and debate when the review has them', () => {
+    const base = savedReview();
+    const html = renderReviewHtml(savedReview({
+      panel: {
+        reviews: [base.review, { ...base.review, critic: 'film', criticName: 'Rex Beaumont', score: 9 }],
+        summary: { average: 6.3, spread: 5.5, verdict: 'divided', highest: { critic: 'film', criticName: 'Rex Beaumont', score: 9 }, lowest: { critic: 'music', criticName: 'Julian Pinter', score: 3.5 }, summary: 'The panel is at war.' },
+      },
+      debate: {
+        rebuttal: { critic: 'film', criticName: 'Rex Beaumont', headline: 'Wrong Again', body: ['Rebutted.'], score: 9 },
+        counterRebuttal: { critic: 'music', criticName: 'Julian Pinter', headline: 'Still Right', body: ['Countered.'] },
+      },
+    }));
+
+    expect(html).toContain('The panel is at war.');
+    expect(html).toContain('<h4>Wrong Again</h4>');
+    expect(html).toContain('says it deserves 9.0');
+  });
+
+  it('should name the file after the slug', () => {
+    expect(exportFileName(savedReview())).toBe('the-band-songs-for-robots.html');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { FileStore, StoreError, getDataDir, normalizeMediaType, isAllowedMediaType } from '../fileStore';
+
+describe('File Store', () => {
+  let root: string;
+  let store: FileStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'smudged-store-'));
+    store = new FileStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should return an empty list before anything is written', async () => {
+    expect(await store.list('reviews')).toEqual([]);
+  });
+
+  it('should put, get and list records newest first', async () => {
+    await store.put('reviews', { id: '1', slug: 'a-old', timestamp: 1 });
+    await store.put('reviews', { id: '2', slug: 'b-new', timestamp: 2 });
+
+    expect(await store.get('reviews', '1')).toEqual({ id: '1', slug: 'a-old', timestamp: 1 });
+    expect((await store.list('reviews')).map(r => r.id)).toEqual(['2', '1']);
+    expect(await store.list('editorials')).toEqual([]);
+  });
+
+  it('should merge updates without changing the id', async () => {
+    await store.put('reviews', { id: '1', title: 'Song', comments: [] });
+    const updated = await store.update('reviews', '1', { comments: [{ id: 'c1' }], id: 'hijack' } as any);
+
+    expect(updated).toEqual({ id: '1', title: 'Song', comments: [{ id: 'c1' }] });
+    expect(await store.get('reviews', 'hijack')).toBeNull();
+  });
+
+  it('should return null when updating a missing record', async () => {
+    expect(await store.update('reviews', 'missing', { title: 'x' })).toBeNull();
+  });
+
+  it('should remove records', async () => {
+    await store.put('editorials', { id: 'editorial-1', title: 'Op-ed' });
+    expect(await store.remove('editorials', 'editorial-1')).toBe(true);
+    expect(await store.remove('editorials', 'editorial-1')).toBe(false);
+  });
+
+  it('should reject ids that could escape the data directory', async () => {
+    await expect(store.get('reviews', '../secrets')).rejects.toThrow(StoreError);
+    await expect(store.put('reviews', { id: 'a/b' })).rejects.toThrow('Invalid id');
+  });
+
+  it('should store media with its metadata', async () => {
+    const meta = await store.saveMedia('1', Buffer.from('RIFF'), { mimeType: 'audio/wav', fileName: 'take 1.wav' });
+    expect(meta).toMatchObject({ id: '1', mimeType: 'audio/wav', fileName: 'take 1.wav', size: 4 });
+
+    const media = await store.getMedia('1');
+    expect(media?.data.toString()).toBe('RIFF');
+
+    expect(await store.removeMedia('1')).toBe(true);
+    expect(await store.getMedia('1')).toBeNull();
+  });
+
+  it('should stream media to disk and back', async () => {
+    const meta = await store.saveMediaStream('1', Readable.from([Buffer.from('RI'), Buffer.from('FF')]), { mimeType: 'audio/wav' }, 4);
+    expect(meta).toMatchObject({ id: '1', mimeType: 'audio/wav', size: 4 });
+
+    const media = await store.openMedia('1');
+    expect(media?.size).toBe(4);
+    const chunks: Buffer[] = [];
+    for await (const chunk of media!.stream) chunks.push(chunk as Buffer);
+    expect(Buffer.concat(chunks).toString()).toBe('RIFF');
+    expect(await store.openMedia('missing')).toBeNull();
+  });
+
+  it('should keep the previous media when a streamed upload is too large or empty', async () => {
+    await store.saveMedia('1', Buffer.from('RIFF'), { mimeType: 'audio/wav' });
+
+    await expect(store.saveMediaStream('1', Readable.from([Buffer.from('12345')]), { mimeType: 'audio/wav' }, 4))
+      .rejects.toMatchObject({ status: 413 });
+    await expect(store.saveMediaStream('1', Readable.from([]), { mimeType: 'audio/wav' }))
+      .rejects.toMatchObject({ status: 400 });
+
+    expect((await store.getMedia('1'))?.data.toString()).toBe('RIFF');
+    expect((await fs.readdir(path.join(root, 'media'))).sort()).toEqual(['1', '1.json']);
+  });
+
+  it('should only allow media types that cannot run as a page', () => {
+    expect(normalizeMediaType('Text/Plain; charset=utf-8')).toBe('text/plain');
+    expect(normalizeMediaType(undefined)).toBe('application/octet-stream');
+    ['audio/mpeg', 'video/quicktime', 'image/png', 'application/pdf', 'text/plain; charset=utf-8', 'application/octet-stream'].forEach(type => {
+      expect({ type, allowed: isAllowedMediaType(type) }).toEqual({ type, allowed: true });
+    });
+    ['text/html', 'image/svg+xml', 'application/xhtml+xml', 'text/javascript', 'application/xml', 'audio/mpeg\ntext/html'].forEach(type => {
+      expect({ type, allowed: isAllowedMediaType(type) }).toEqual({ type, allowed: false });
+    });
+  });
+
+  it('should honour SMUDGED_DATA_DIR', () => {
+    expect(getDataDir({ SMUDGED_DATA_DIR: '/tmp/smudged' } as NodeJS.ProcessEnv)).toBe('/tmp/smudged');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobRunner, PipelineJob, validateJobInput } from '../jobs';
+import { FileStore } from '../fileStore';
+import { ServerSideGeminiAI } from '../api';
+import { MockProvider } from '../mockProvider';
+
+const input = {
+  reviewId: '1700000000000',
+  criticType: 'film' as const,
+  contentPart: { fileData: { fileUri: 'https://www.youtube.com/watch?v=abc' } },
+  metadata: { title: 'Clip', artist: 'Channel' },
+  isYouTube: true,
+  youtubeUrl: 'https://www.youtube.com/watch?v=abc',
+};
+
+function waitForFinish(runner: JobRunner, id: string): Promise<PipelineJob> {
+  return new Promise(resolve => {
+    const unsubscribe = runner.subscribe(id, job => {
+      if (job.status === 'complete' || job.status === 'error') {
+        unsubscribe();
+        resolve(job);
+      }
+    });
+  });
+}
+
+describe('Job Runner', () => {
+  let root: string;
+  let store: FileStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'smudged-jobs-'));
+    store = new FileStore(root);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should run the pipeline, save the review and persist the finished job', async () => {
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+    const job = await runner.create(input);
+    expect(job.id).toMatch(/^job-/);
+
+    const finished = await waitForFinish(runner, job.id);
+
+    expect(finished.status).toBe('complete');
+    expect(finished.slug).toBe('channel-clip');
+    expect(finished.logs.some(line => line.includes('Rex Beaumont'))).toBe(true);
+
+    const saved = await store.get('reviews', input.reviewId);
+    expect(saved).toMatchObject({ slug: 'channel-clip', isYouTube: true, hasAudioInDB: false });
+    expect(saved?.comments).toHaveLength(15);
+    expect(saved?.debate).toMatchObject({ rebuttal: { critic: 'music' }, counterRebuttal: { critic: 'film' } });
+    expect(saved?.transcript).toMatchObject({ source: 'model' });
+    expect(finished.transcript).toEqual(saved?.transcript);
+
+    expect(await store.get('jobs', job.id)).toMatchObject({ status: 'complete', stage: 'complete' });
+  });
+
+  it('should record stage failures on the job', async () => {
+    const provider = new MockProvider();
+    jest.spyOn(provider, 'generateContentStream').mockImplementation(async function* () {
+      throw new Error('model overloaded');
+    });
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(provider, { baseDelayMs: 0 }));
+
+    const job = await runner.create(input);
+    const finished = await waitForFinish(runner, job.id);
+
+    expect(finished.status).toBe('error');
+    expect(finished.error).toMatch(/Rex refused to work: model overloaded/);
+    expect(finished.logs.some(line => line.includes('Retrying with gemini-2.5-flash'))).toBe(true);
+    expect(await store.get('reviews', input.reviewId)).toBeNull();
+  });
+
+  it('should mark jobs orphaned by a restart as failed', async () => {
+    await store.put('jobs', { id: 'job-old', status: 'running', stage: 'julian_reviewing', logs: [], comments: [] });
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+
+    const job = await runner.get('job-old');
+
+    expect(job).toMatchObject({ status: 'error', error: 'Job was interrupted by a server restart' });
+  });
+
+  it('should give a re-review of the same track its own slug', async () => {
+    await store.put('reviews', {
+      id: 'older',
+      slug: 'channel-clip',
+      title: 'Clip',
+      artist: 'Channel',
+      timestamp: 1,
+      review: { title: 'Clip', artist: 'Channel', score: 4, summary: 'Again?', body: [], notable_lyrics_quoted: '', critic: 'film' },
+      comments: [],
+    });
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+
+    const finished = await waitForFinish(runner, (await runner.create(input)).id);
+
+    expect(finished.slug).toBe('channel-clip-2');
+    expect(await store.get('reviews', input.reviewId)).toMatchObject({ slug: 'channel-clip-2', schemaVersion: 2 });
+  });
+
+  it('should run custom critics and keep a copy of them with the review', async () => {
+    const critic = {
+      id: 'custom-dee-1',
+      name: 'Dee Vine',
+      bio: 'Only watches on VHS.',
+      avatarSeed: 'dee',
+      color: 'teal',
+      tone: { snark: 9, pretension: 1, generosity: 2 },
+      hates: [],
+      loves: [],
+      scoreRange: [2, 6],
+      media: ['video'],
+      timestamp: 1,
+    };
+    await store.put('critics', critic);
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+
+    const job = await runner.create({ ...input, criticType: 'custom-dee-1' });
+    const finished = await waitForFinish(runner, job.id);
+
+    expect(finished.status).toBe('complete');
+    expect(finished.logs.some(line => line.includes('AGENT ACTIVATED: Dee Vine'))).toBe(true);
+    const saved = await store.get('reviews', input.reviewId);
+    expect(saved?.review).toMatchObject({ critic: 'custom-dee-1', criticName: 'Dee Vine' });
+    expect(saved?.customCritic).toEqual(critic);
+  });
+
+  it('should save every panelist\'s review with copies of the custom guests', async () => {
+    const critic = {
+      id: 'custom-dee-1',
+      name: 'Dee Vine',
+      bio: 'Only watches on VHS.',
+      avatarSeed: 'dee',
+      color: 'teal',
+      tone: { snark: 9, pretension: 1, generosity: 2 },
+      hates: [],
+      loves: [],
+      scoreRange: [2, 6],
+      media: ['documents'],
+      timestamp: 1,
+    };
+    await store.put('critics', critic);
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+
+    const job = await runner.create({ ...input, panel: ['music', 'custom-dee-1'] });
+    const finished = await waitForFinish(runner, job.id);
+
+    expect(finished.status).toBe('complete');
+    expect(finished.panel?.reviews.map(r => r.critic)).toEqual(['film', 'music', 'custom-dee-1']);
+    const saved = await store.get<any>('reviews', input.reviewId);
+    expect(saved?.panel.summary.verdict).toMatch(/consensus|split|divided/);
+    expect(saved?.panelCritics).toEqual([critic]);
+    expect(saved?.comments[0]).toMatchObject({ id: 'c-panel-1', critic: 'film' });
+  });
+
+  it('should refuse jobs for critics that do not exist', async () => {
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+
+    await expect(runner.create({ ...input, criticType: 'custom-nobody' })).rejects.toThrow('Unknown critic: custom-nobody');
+  });
+
+  it('should refuse panels with unknown custom critics', async () => {
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+
+    await expect(runner.create({ ...input, panel: ['custom-nobody'] })).rejects.toThrow('Unknown critic: custom-nobody');
+  });
+
+  it('should review an album track by track and save its tracklist', async () => {
+    const runner = new JobRunner(store, () => new ServerSideGeminiAI(new MockProvider()));
+    const track = (n: number) => ({ title: `Song ${n}`, contentPart: { inlineData: { data: 'AAAA', mimeType: 'audio/mpeg' } } });
+    const tracklist = [1, 2].map(n => ({ mediaId: `${input.reviewId}-t${n}`, title: `Song ${n}`, fileName: `0${n}.mp3` }));
+
+    const job = await runner.create({
+      reviewId: input.reviewId,
+      criticType: 'music',
+      tracks: [track(1), track(2)],
+      tracklist,
+      metadata: { title: 'Debut', artist: 'Band' },
+      isYouTube: false,
+    });
+    const finished = await waitForFinish(runner, job.id);
+
+    expect(finished.status).toBe('complete');
+    const saved = await store.get<any>('reviews', input.reviewId);
+    expect(saved).toMatchObject({ title: 'Debut', hasAudioInDB: false, tracklist });
+    expect(saved.review.tracks.map((t: any) => t.title)).toEqual(['Song 1', 'Song 2']);
+  });
+
+  it('should validate job input', () => {
+    expect(() => validateJobInput({ ...input, reviewId: '../x' })).toThrow('Invalid id');
+    expect(() => validateJobInput({ ...input, criticType: 'poetry' })).toThrow(/criticType/);
+    expect(() => validateJobInput({ ...input, panel: ['music', 'poetry'] })).toThrow(/panel/);
+    expect(() => validateJobInput({ ...input, panel: 'music' })).toThrow(/panel/);
+    expect(() => validateJobInput({ ...input, contentPart: {} })).toThrow(/contentPart/);
+    const { contentPart, ...album } = input;
+    const tracks = [{ title: 'Song', contentPart }];
+    expect(() => validateJobInput({ ...album, tracks: [] })).toThrow(/tracks/);
+    expect(() => validateJobInput({ ...album, tracks, tracklist: [] })).toThrow(/tracklist/);
+    expect(() => validateJobInput({ ...album, tracks, tracklist: [{ mediaId: '../x' }] })).toThrow('Invalid id');
+    const collection = { kind: 'playlist', title: 'Mix', sourceUrl: 'https://www.youtube.com/playlist?list=PL1', items: [{ videoId: 'aaaaaaaaaaa', title: 'A', criticType: 'film' }] };
+    expect(validateJobInput({ ...input, collection })).toMatchObject({ collection });
+    expect(() => validateJobInput({ ...input, collection: { ...collection, items: [] } })).toThrow(/1-10 items/);
+    expect(() => validateJobInput({ ...input, collection: { ...collection, items: [{ videoId: 'x', title: 'A', criticType: 'film' }] } })).toThrow(/videoId/);
+    expect(() => validateJobInput({ ...input, panel: ['music'], collection })).toThrow(/panel/);
+    const transcript = { source: 'captions', segments: [{ start: 1.5, text: 'Hi' }] };
+    expect(validateJobInput({ ...input, transcript })).toMatchObject({ transcript });
+    expect(() => validateJobInput({ ...input, transcript: { source: 'captions', segments: [{ text: 'Hi' }] } })).toThrow(/transcript/);
+    expect(validateJobInput(input)).toBe(input);
+  });
+});
@@ -0,0 +1,127 @@
+import { getLLMProvider, GeminiProvider, ProviderConfigError, FileUploadError, rechunk } from '../llm';
+import { MockProvider } from '../mockProvider';
+import { ServerSideGeminiAI, base64Size, INLINE_MEDIA_LIMIT } from '../api';
+
+describe('LLM Provider Layer', () => {
+  describe('getLLMProvider', () => {
+    it('should return the mock provider when LLM_PROVIDER=mock', () => {
+      const provider = getLLMProvider({ LLM_PROVIDER: 'mock' } as NodeJS.ProcessEnv);
+      expect(provider).toBeInstanceOf(MockProvider);
+      expect(provider.name).toBe('mock');
+    });
+
+    it('should not require an API key for the mock provider', () => {
+      expect(() => getLLMProvider({ LLM_PROVIDER: ' MOCK ' } as NodeJS.ProcessEnv)).not.toThrow();
+    });
+
+    it('should default to Gemini', () => {
+      const provider = getLLMProvider({ GEMINI_API_KEY: 'AIzaTestKey' } as NodeJS.ProcessEnv);
+      expect(provider).toBeInstanceOf(GeminiProvider);
+    });
+
+    it('should reject a missing Gemini key', () => {
+      expect(() => getLLMProvider({} as NodeJS.ProcessEnv)).toThrow(ProviderConfigError);
+    });
+
+    it('should reject a malformed Gemini key', () => {
+      expect(() => getLLMProvider({ GEMINI_API_KEY: 'nope' } as NodeJS.ProcessEnv)).toThrow(/invalid format/);
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => getLLMProvider({ LLM_PROVIDER: 'gpt' } as NodeJS.ProcessEnv)).toThrow(/Unknown LLM_PROVIDER/);
+    });
+  });
+
+  describe('file uploads', () => {
+    async function* source(...pieces: number[][]) {
+      for (const piece of pieces) yield Uint8Array.from(piece);
+    }
+
+    async function collect(chunks: AsyncIterable<Uint8Array>) {
+      const all: number[][] = [];
+      for await (const chunk of chunks) all.push(Array.from(chunk));
+      return all;
+    }
+
+    function uploadResponse(body: unknown, uploadUrl?: string) {
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: { get: (name: string) => (name === 'x-goog-upload-url' ? uploadUrl || null : null) },
+        json: () => Promise.resolve(body),
+      });
+    }
+
+    it('should measure files by their base64 size against the inline limit', () => {
+      const largestInline = (INLINE_MEDIA_LIMIT / 4) * 3;
+
+      expect(base64Size(3)).toBe(4);
+      expect(base64Size(4)).toBe(8);
+      expect(base64Size(largestInline)).toBe(INLINE_MEDIA_LIMIT);
+      expect(base64Size(largestInline + 1)).toBeGreaterThan(INLINE_MEDIA_LIMIT);
+      expect(base64Size(16 * 1024 * 1024)).toBeGreaterThan(INLINE_MEDIA_LIMIT);
+    });
+
+    it('should regroup a stream into fixed-size chunks', async () => {
+      expect(await collect(rechunk(source([1, 2], [3, 4, 5], [6]), 4))).toEqual([[1, 2, 3, 4], [5, 6]]);
+      expect(await collect(rechunk(source([1, 2, 3, 4]), 2))).toEqual([[1, 2], [3, 4]]);
+      expect(await collect(rechunk(source(), 2))).toEqual([]);
+    });
+
+    it('should start a resumable upload, then send and finalize the bytes', async () => {
+      const fetchMock = jest.fn()
+        .mockReturnValueOnce(uploadResponse({}, 'https://upload.example/session'))
+        .mockReturnValueOnce(uploadResponse({
+          file: { name: 'files/abc', uri: 'https://files/abc', mimeType: 'video/mp4', sizeBytes: '3', state: 'ACTIVE' },
+        }));
+      global.fetch = fetchMock as any;
+
+      const file = await new GeminiProvider('AIzaTestKey').uploadFile({
+        mimeType: 'video/mp4', displayName: 'film.mp4', sizeBytes: 3, data: source([1, 2], [3]),
+      });
+
+      expect(file).toEqual({ name: 'files/abc', fileUri: 'https://files/abc', mimeType: 'video/mp4', sizeBytes: 3, expiresAt: undefined });
+      const [[, start], [uploadUrl, upload]] = fetchMock.mock.calls;
+      expect(start.headers).toMatchObject({ 'X-Goog-Upload-Command': 'start', 'X-Goog-Upload-Header-Content-Length': '3' });
+      expect(uploadUrl).toBe('https://upload.example/session');
+      expect(upload.headers).toEqual({ 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': '0' });
+      expect(Array.from(upload.body)).toEqual([1, 2, 3]);
+    });
+
+    it('should fail when Gemini cannot process the file', async () => {
+      global.fetch = jest.fn()
+        .mockReturnValueOnce(uploadResponse({}, 'https://upload.example/session'))
+        .mockReturnValueOnce(uploadResponse({ file: { name: 'files/abc', state: 'FAILED' } })) as any;
+
+      await expect(new GeminiProvider('AIzaTestKey').uploadFile({ mimeType: 'video/mp4', sizeBytes: 1, data: source([1]) }))
+        .rejects.toBeInstanceOf(FileUploadError);
+    });
+  });
+
+  describe('ServerSideGeminiAI with a provider', () => {
+    it('should call the provider directly instead of the API route', async () => {
+      const fetchSpy = jest.fn();
+      global.fetch = fetchSpy as any;
+
+      const genAI = new ServerSideGeminiAI(new MockProvider());
+      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
+      const result = await model.generateContent('Output: {"text":"your comment"}');
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(JSON.parse(result.response.text())).toHaveProperty('text');
+    });
+
+    it('should wrap shorthand part arrays into a user turn', async () => {
+      const provider = new MockProvider();
+      const spy = jest.spyOn(provider, 'generateContent');
+
+      const genAI = new ServerSideGeminiAI(provider);
+      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
+      await model.generateContent(['Output: {"reply_text":"reply"}', { inlineData: { data: 'x', mimeType: 'audio/mpeg' } }]);
+
+      expect(spy).toHaveBeenCalledWith(expect.objectContaining({
+        contents: [{ role: 'user', parts: [{ text: 'Output: {"reply_text":"reply"}' }, { inlineData: { data: 'x', mimeType: 'audio/mpeg' } }] }]
+      }));
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { REVIEW_MIGRATIONS, EDITORIAL_MIGRATIONS, migrateReview, migrateEditorial, runMigrations } from '../migrations';
+import { SCHEMA_VERSION } from '../models';
+
+// A review as the first versions of the app saved it: Julian only, media inline
+function legacyReview() {
+  return {
+    id: 'review-1',
+    slug: 'band-song',
+    title: 'Song',
+    artist: 'Band',
+    timestamp: 1,
+    review: { title: 'Song', artist: 'Band', score: 2, summary: 'No.', body: ['No.'], notable_lyrics_quoted: '' },
+    comments: [{
+      id: 'c1',
+      username: 'TheStan1',
+      persona_type: 'The Stan',
+      timestamp: 'Just now',
+      text: 'Best album ever',
+      likes: 3,
+      replies: [
+        { id: 'r1', username: 'JulianPinter', persona_type: 'Author', timestamp: 'Just now', text: 'Wrong.', likes: 9, is_julian: true },
+        { id: 'r2', username: 'Troll', persona_type: 'Troll', timestamp: 'Just now', text: 'lol', likes: 1, is_julian: false },
+      ],
+    }],
+    audioFileName: 'song.mp3',
+    audioDataUrl: 'data:audio/mpeg;base64,AAAA',
+    audioPart: { inlineData: { data: 'AAAA', mimeType: 'audio/mpeg' } },
+  };
+}
+
+function step(version: number, steps = REVIEW_MIGRATIONS) {
+  const found = steps.find(s => s.version === version);
+  if (!found) throw new Error(`No step ${version}`);
+  return found;
+}
+
+describe('Schema Migrations', () => {
+  it('should have one step per version up to the current one', () => {
+    expect(REVIEW_MIGRATIONS.map(s => s.version)).toEqual([1, 2]);
+    expect(Math.max(...REVIEW_MIGRATIONS.map(s => s.version))).toBe(SCHEMA_VERSION);
+  });
+
+  describe('review step 1', () => {
+    it('should credit is_julian replies to the critic and drop the flag', () => {
+      const upgraded = step(1).up(legacyReview(), jest.fn());
+
+      expect(upgraded.review.critic).toBe('music');
+      expect(upgraded.comments[0].replies[0]).toMatchObject({ id: 'r1', is_critic: true, critic: 'music' });
+      expect(upgraded.comments[0].replies[0]).not.toHaveProperty('is_julian');
+      expect(upgraded.comments[0].replies[1]).toEqual({ id: 'r2', username: 'Troll', persona_type: 'Troll', timestamp: 'Just now', text: 'lol', likes: 1 });
+    });
+
+    it('should keep a critic the review already names', () => {
+      const legacy = legacyReview();
+      const upgraded = step(1).up({ ...legacy, review: { ...legacy.review, critic: 'film' } }, jest.fn());
+
+      expect(upgraded.review.critic).toBe('film');
+      expect(upgraded.comments[0].replies[0].critic).toBe('film');
+    });
+  });
+
+  describe('review step 2', () => {
+    it('should move audioDataUrl out of the record', () => {
+      const stash = jest.fn();
+      const upgraded = step(2).up(legacyReview(), stash);
+
+      expect(stash).toHaveBeenCalledWith('data:audio/mpeg;base64,AAAA');
+      expect(upgraded).not.toHaveProperty('audioDataUrl');
+      expect(upgraded).not.toHaveProperty('audioPart');
+      expect(upgraded.hasAudioInDB).toBe(true);
+    });
+
+    it('should rebuild the media from audioPart when there is no data URL', () => {
+      const legacy: Record<string, unknown> = legacyReview();
+      delete legacy.audioDataUrl;
+      const stash = jest.fn();
+
+      step(2).up({ ...legacy, audioPart: { inlineData: { data: 'BBBB', mimeType: 'video/mp4' } } }, stash);
+
+      expect(stash).toHaveBeenCalledWith('data:video/mp4;base64,BBBB');
+    });
+
+    it('should just drop a YouTube part, which has no media to keep', () => {
+      const legacy: Record<string, unknown> = legacyReview();
+      delete legacy.audioDataUrl;
+      const stash = jest.fn();
+
+      const upgraded = step(2).up({ ...legacy, isYouTube: true, audioPart: { fileData: { fileUri: 'https://youtu.be/x' } } }, stash);
+
+      expect(stash).not.toHaveBeenCalled();
+      expect(upgraded).not.toHaveProperty('audioPart');
+      expect(upgraded).not.toHaveProperty('hasAudioInDB');
+    });
+  });
+
+  describe('editorial step 1', () => {
+    it('should drop is_julian from threads and fill in missing lists', () => {
+      const upgraded = step(1, EDITORIAL_MIGRATIONS).up({
+        id: 'editorial-1',
+        title: 'State of Music',
+        comments: [{ id: 'c1', replies: [{ id: 'r1', is_julian: false, is_editor: true }] }],
+      }, jest.fn());
+
+      expect(upgraded).toMatchObject({ verdicts: [], reviewIds: [] });
+      expect(upgraded.comments[0].replies[0]).toEqual({ id: 'r1', is_editor: true });
+    });
+  });
+
+  describe('runner', () => {
+    it('should take an unversioned review all the way up and hand back its media', () => {
+      const legacy = legacyReview();
+      const { record, fromVersion, migrated, media } = migrateReview(legacy);
+
+      expect(fromVersion).toBe(0);
+      expect(migrated).toBe(true);
+      expect(media).toBe('data:audio/mpeg;base64,AAAA');
+      expect(record.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(record.comments[0].replies[0]).toMatchObject({ is_critic: true, critic: 'music' });
+      expect(legacy.audioDataUrl).toBeDefined(); // The input is left alone
+    });
+
+    it('should only run the steps a record is missing', () => {
+      const up = jest.fn((record: Record<string, unknown>) => ({ ...record, touched: true }));
+      const steps = [{ version: 1, description: 'one', up }, { version: 2, description: 'two', up: (r: Record<string, unknown>) => ({ ...r, two: true }) }];
+
+      const { record } = runMigrations<Record<string, unknown>>({ id: 'x', schemaVersion: 1 }, steps);
+
+      expect(up).not.toHaveBeenCalled();
+      expect(record).toEqual({ id: 'x', schemaVersion: SCHEMA_VERSION, two: true });
+    });
+
+    it('should leave current and newer records untouched', () => {
+      const current = { ...legacyReview(), schemaVersion: SCHEMA_VERSION };
+      const newer = { id: 'editorial-1', schemaVersion: SCHEMA_VERSION + 1 };
+
+      expect(migrateReview(current)).toEqual({ record: current, fromVersion: SCHEMA_VERSION, migrated: false });
+      expect(migrateEditorial(newer).record).toBe(newer);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { MockProvider, detectPromptKind, extractPromptText, hashString } from '../mockProvider';
+
+const textRequest = (text: string, generationConfig?: any) => ({
+  model: 'gemini-2.5-pro',
+  contents: [{ role: 'user', parts: [{ text }] }],
+  generationConfig,
+});
+
+const parseFirstText = (parts: any[]) => JSON.parse(parts.filter(p => !p.thought)[0].text);
+
+describe('Mock Provider', () => {
+  describe('detectPromptKind', () => {
+    it('should detect critic review prompts', () => {
+      expect(detectPromptKind('Output ONLY valid JSON:\n{"title": "x", "notable_lyrics_quoted": "q"}')).toBe('review');
+      expect(detectPromptKind('Structure:\n{ "title": "x", "score": 1, "notable_lyrics_quoted": "q" }')).toBe('review');
+    });
+
+    it('should detect the transcription prompt', () => {
+      expect(detectPromptKind('Output ONLY valid JSON:\n{"language": "en", "segments": [{"start": 0, "end": 1, "text": "x"}]}')).toBe('transcript');
+    });
+
+    it('should detect the comment horde prompt', () => {
+      expect(detectPromptKind('Output a JSON ARRAY of objects:\n[{"id": "c1", "username": "u", "persona_type": "p", "timestamp": "t", "text": "x", "likes": 0}]')).toBe('comments');
+    });
+
+    it('should detect discriminator prompts', () => {
+      expect(detectPromptKind('Output a JSON ARRAY:\n[{"comment_id": "id", "likes": 1}]')).toBe('comment_likes');
+      expect(detectPromptKind('Output a JSON ARRAY for ALL replies:\n[{"reply_id": "id", "likes": 1}]')).toBe('reply_likes');
+      expect(detectPromptKind('Output JSON array with likes for EACH item: [{"id": "the exact id from input", "likes": number}]')).toBe('content_likes');
+    });
+
+    it('should detect reply prompts', () => {
+      expect(detectPromptKind('Output a JSON ARRAY of objects only for the replies:\n[{"comment_id": "id", "reply_text": "x"}]')).toBe('critic_replies');
+      expect(detectPromptKind('Output a JSON ARRAY:\n[{"parent_comment_id": "id", "username": "u", "reply_text": "x"}]')).toBe('commenter_responses');
+      expect(detectPromptKind('Output: {"username":"name","persona_type":"type","reply_text":"reply"}')).toBe('new_reply');
+      expect(detectPromptKind('Output: {"reply_text":"reply"}')).toBe('reply');
+    });
+
+    it('should detect single comment prompts', () => {
+      expect(detectPromptKind('Output: {"username":"name","persona_type":"type","text":"comment"}')).toBe('new_comment');
+      expect(detectPromptKind('Output: {"text":"your comment"}')).toBe('comment');
+    });
+
+    it('should detect classifier and editorial prompts', () => {
+      expect(detectPromptKind('Output ONLY valid JSON:\n{"classification": "literary"}')).toBe('classification');
+      expect(detectPromptKind('Output ONLY valid JSON:\n{"title": "t", "verdicts": []}')).toBe('editorial');
+    });
+
+    it('should detect debate prompts', () => {
+      expect(detectPromptKind('Output ONLY valid JSON:\n{"headline": "h", "body": ["p"], "score": 5}')).toBe('rebuttal');
+      expect(detectPromptKind('Output ONLY valid JSON:\n{"headline": "h", "body": ["p"]}')).toBe('counter_rebuttal');
+    });
+
+    it('should ignore JSON embedded before the output instructions', () => {
+      const prompt = `Review: {"title":"x","notable_lyrics_quoted":"q"}\nOutput: {"reply_text":"reply"}`;
+      expect(detectPromptKind(prompt)).toBe('reply');
+    });
+
+    it('should fall back to unknown', () => {
+      expect(detectPromptKind('Tell me a joke')).toBe('unknown');
+    });
+  });
+
+  describe('extractPromptText', () => {
+    it('should join text parts and skip media parts', () => {
+      const text = extractPromptText([
+        { role: 'user', parts: [{ text: 'one' }] },
+        { role: 'user', parts: [{ inlineData: { data: 'abc', mimeType: 'audio/mpeg' } }, { text: 'two' }] }
+      ]);
+      expect(text).toBe('one\n\ntwo');
+    });
+  });
+
+  describe('MockProvider', () => {
+    const provider = new MockProvider();
+
+    it('should be deterministic for the same prompt', async () => {
+      const prompt = 'Audio file metadata:\n- Title: Song\n- Artist: Band\nStructure:\n{"title": "", "notable_lyrics_quoted": ""}';
+      const first = await provider.generateContent(textRequest(prompt));
+      const second = await provider.generateContent(textRequest(prompt));
+      expect(first).toEqual(second);
+    });
+
+    it('should template reviews from metadata in the prompt', async () => {
+      const prompt = 'Audio file metadata:\n- Title: Song\n- Artist: Band\nStructure:\n{"title": "", "notable_lyrics_quoted": ""}';
+      const { parts } = await provider.generateContent(textRequest(prompt));
+      const review = parseFirstText(parts);
+      expect(review.title).toBe('Song');
+      expect(review.artist).toBe('Band');
+      expect(review.score).toBeGreaterThanOrEqual(1.5);
+      expect(review.score).toBeLessThanOrEqual(5.5);
+      expect(Array.isArray(review.body)).toBe(true);
+    });
+
+    it('should include a thought part when thoughts are requested', async () => {
+      const { parts } = await provider.generateContent(
+        textRequest('Structure:\n{"notable_lyrics_quoted": ""}', { thinkingConfig: { includeThoughts: true } })
+      );
+      expect(parts[0].thought).toBe(true);
+      expect(parts).toHaveLength(2);
+    });
+
+    it('should generate fifteen comments', async () => {
+      const { parts } = await provider.generateContent(
+        textRequest('Output a JSON ARRAY of objects:\n[{"id": "c1", "persona_type": "", "timestamp": ""}]')
+      );
+      const comments = parseFirstText(parts);
+      expect(comments).toHaveLength(15);
+      expect(comments[0].id).toBe('c1');
+    });
+
+    it('should assign likes to the comment ids found in the prompt', async () => {
+      const comments = [{ id: 'c1', text: 'a' }, { id: 'c2', text: 'b' }];
+      const { parts } = await provider.generateContent(
+        textRequest(`Here are the comments:\n${JSON.stringify(comments)}\nOutput a JSON ARRAY:\n[{"comment_id": "", "likes": 0}]`)
+      );
+      const likes = parseFirstText(parts);
+      expect(likes.map((l: any) => l.comment_id)).toEqual(['c1', 'c2']);
+      likes.forEach((l: any) => {
+        expect(l.likes).toBeGreaterThanOrEqual(-15);
+        expect(l.likes).toBeLessThanOrEqual(120);
+      });
+    });
+
+    it('should reply to existing comments as the critic', async () => {
+      const comments = [{ id: 'c1' }, { id: 'c2' }, { id: 'c3' }, { id: 'c4' }];
+      const { parts } = await provider.generateContent(
+        textRequest(`${JSON.stringify(comments)}\nOutput a JSON ARRAY of objects only for the replies:\n[{"comment_id": "", "reply_text": ""}]`)
+      );
+      expect(parseFirstText(parts).map((r: any) => r.comment_id)).toEqual(['c1', 'c2', 'c3']);
+    });
+
+    it('should produce a verdict for every reviewed media item in an editorial', async () => {
+      const reviews = [{ mediaTitle: 'A', mediaArtist: 'X' }, { mediaTitle: 'B', mediaArtist: 'Y' }];
+      const { parts } = await provider.generateContent(
+        textRequest(`${JSON.stringify(reviews)}\nOutput ONLY valid JSON:\n{"title": "", "verdicts": []}`)
+      );
+      const editorial = parseFirstText(parts);
+      expect(editorial.verdicts.map((v: any) => v.mediaTitle)).toEqual(['A', 'B']);
+      editorial.verdicts.forEach((v: any) => expect(['ROCKS', 'SUCKS']).toContain(v.verdict));
+    });
+  });
+
+  describe('uploadFile', () => {
+    async function* bytes(...sizes: number[]) {
+      for (const size of sizes) yield new Uint8Array(size);
+    }
+
+    it('should read the whole upload and return a stable mock file', async () => {
+      const provider = new MockProvider();
+      const request = { mimeType: 'video/mp4', displayName: 'film.mp4', sizeBytes: 30 };
+
+      const file = await provider.uploadFile({ ...request, data: bytes(10, 20) });
+
+      expect(file).toEqual({ name: expect.stringMatching(/^files\/mock-/), fileUri: `mock://${file.name}`, mimeType: 'video/mp4', sizeBytes: 30 });
+      expect(await provider.uploadFile({ ...request, data: bytes(30) })).toEqual(file);
+    });
+  });
+
+  describe('hashString', () => {
+    it('should return a stable unsigned integer', () => {
+      expect(hashString('julian')).toBe(hashString('julian'));
+      expect(hashString('julian')).not.toBe(hashString('rex'));
+      expect(hashString('')).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
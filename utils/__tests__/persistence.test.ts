@@ -0,0 +1,136 @@
+import { listReviews, migrateLocalData, saveReviewRecord } from '../persistence';
+import { getMedia, saveMedia } from '../db';
+import { SCHEMA_VERSION, SavedReview } from '../models';
+
+jest.mock('../db', () => ({
+  ...jest.requireActual('../db'),
+  getMedia: jest.fn(),
+  saveMedia: jest.fn(),
+}));
+
+function jsonResponse(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status < 400,
+    status,
+    statusText: 'status',
+    json: () => Promise.resolve(body),
+    blob: () => Promise.resolve(new Blob(['audio'], { type: 'audio/mpeg' })),
+  });
+}
+
+function savedReview(id: string, slug: string): SavedReview {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    id,
+    slug,
+    title: 'B',
+    artist: 'A',
+    timestamp: 1,
+    review: { title: 'B', artist: 'A', score: 5, summary: '', body: [], notable_lyrics_quoted: '', critic: 'music' },
+    comments: [],
+  };
+}
+
+describe('Persistence Client', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+    (getMedia as jest.Mock).mockReset();
+    (saveMedia as jest.Mock).mockReset();
+  });
+
+  it('should upload local reviews and media once, then set the migration flag', async () => {
+    localStorage.setItem('smudged_reviews', JSON.stringify([
+      { id: '1', slug: 'a-b', hasAudioInDB: true, audioFileName: 'b.mp3' },
+      { id: '2', slug: 'c-d' }
+    ]));
+    (getMedia as jest.Mock).mockResolvedValue(new Blob(['audio'], { type: 'audio/mpeg' }));
+
+    fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+      if (url === '/api/reviews' && !init) return jsonResponse({ reviews: [{ id: '2' }] });
+      if (url === '/api/editorials' && !init) return jsonResponse({ editorials: [] });
+      return jsonResponse({}, 201);
+    });
+
+    await migrateLocalData();
+
+    const writes = fetchMock.mock.calls.filter(([, init]) => init?.method);
+    expect(writes.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      'PUT /api/reviews/1/media',
+      'POST /api/reviews'
+    ]);
+    expect(JSON.parse(writes[1][1].body).id).toBe('1');
+    expect(localStorage.getItem('smudged_server_migrated')).toBeTruthy();
+
+    fetchMock.mockClear();
+    await migrateLocalData();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should leave the flag unset when the server is unreachable', async () => {
+    localStorage.setItem('smudged_reviews', JSON.stringify([{ id: '1', slug: 'a-b' }]));
+    fetchMock.mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await migrateLocalData();
+
+    expect(localStorage.getItem('smudged_server_migrated')).toBeNull();
+  });
+
+  it('should fall back to the local copy when listing fails', async () => {
+    localStorage.setItem('smudged_server_migrated', 'yes');
+    localStorage.setItem('smudged_reviews', JSON.stringify([savedReview('1', 'a-b')]));
+    fetchMock.mockReturnValue(jsonResponse({ error: 'boom' }, 500));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await listReviews()).toEqual([savedReview('1', 'a-b')]);
+  });
+
+  it('should upgrade old reviews on load and write them back once', async () => {
+    localStorage.setItem('smudged_server_migrated', 'yes');
+    const legacy = { ...savedReview('1', 'a-b'), schemaVersion: undefined, audioDataUrl: 'data:audio/mpeg;base64,YXVkaW8=' };
+    fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+      if (url === '/api/reviews' && !init) return jsonResponse({ reviews: [legacy, savedReview('2', 'c-d')] });
+      return jsonResponse({}, 201);
+    });
+
+    const reviews = await listReviews();
+
+    expect(reviews[0]).toEqual({ ...savedReview('1', 'a-b'), hasAudioInDB: true });
+    const writes = fetchMock.mock.calls.filter(([, init]) => init?.method);
+    expect(writes.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      'PUT /api/reviews/1/media',
+      'POST /api/reviews'
+    ]);
+    const [cachedId, cachedBlob] = (saveMedia as jest.Mock).mock.calls[0];
+    expect(cachedId).toBe('1');
+    expect(cachedBlob.type).toBe('audio/mpeg');
+    expect(cachedBlob.size).toBe('audio'.length);
+    expect(JSON.parse(localStorage.getItem('smudged_reviews')!)).toEqual(reviews);
+  });
+
+  it('should re-save older reviews that share a slug so the server can move them', async () => {
+    localStorage.setItem('smudged_server_migrated', 'yes');
+    fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+      if (!init) return jsonResponse({ reviews: [savedReview('2', 'a-b'), savedReview('1', 'a-b')] });
+      return jsonResponse({ review: { ...JSON.parse(init.body as string), slug: 'a-b-2' } }, 201);
+    });
+
+    const reviews = await listReviews();
+
+    expect(reviews.map(r => [r.id, r.slug])).toEqual([['2', 'a-b'], ['1', 'a-b-2']]);
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method)).toHaveLength(1);
+  });
+
+  it('should keep the local copy in sync when saving', async () => {
+    localStorage.setItem('smudged_server_migrated', 'yes');
+    fetchMock.mockReturnValue(jsonResponse({ review: savedReview('3', 'x') }, 201));
+
+    await saveReviewRecord(savedReview('3', 'x'));
+
+    expect(JSON.parse(localStorage.getItem('smudged_reviews')!)).toEqual([savedReview('3', 'x')]);
+  });
+});
@@ -0,0 +1,303 @@
+import { runReviewPipeline, runDiscriminator, runCriticDebate, buildReviewSlug, buildReviewPrompt, wantsTranscript, summarizePanel, rankCollection, PipelineContext, ReviewData } from '../pipeline';
+import { getCriticInfo } from '../critics';
+import { ServerSideGeminiAI, GeminiGenerateRequest } from '../api';
+import { MockProvider } from '../mockProvider';
+
+function createContext(overrides: Partial<PipelineContext> = {}): PipelineContext & { logs: string[]; stages: string[] } {
+  const logs: string[] = [];
+  const stages: string[] = [];
+  return {
+    genAI: new ServerSideGeminiAI(new MockProvider()),
+    log: msg => logs.push(msg),
+    setStage: stage => stages.push(stage),
+    logs,
+    stages,
+    ...overrides,
+  };
+}
+
+describe('Review Pipeline', () => {
+  it('should run every stage and return the final comment thread', async () => {
+    const ctx = createContext();
+    const { review, comments, debate } = await runReviewPipeline(ctx, {
+      criticType: 'music',
+      contentPart: { inlineData: { data: 'AAAA', mimeType: 'audio/mpeg' } },
+      metadata: { title: 'Song', artist: 'Band' },
+    });
+
+    expect(review).toMatchObject({ title: 'Song', artist: 'Band', critic: 'music', criticName: 'Julian Pinter' });
+    expect(ctx.stages).toEqual([
+      'transcribing',
+      'julian_reviewing',
+      'commenters_reacting',
+      'discriminator_judging',
+      'julian_arguing',
+      'critics_debating',
+      'commenters_responding',
+      'final_discrimination',
+    ]);
+    expect(comments).toHaveLength(15);
+    expect(comments.some(c => c.replies.some(r => r.is_critic))).toBe(true);
+    expect(comments.every(c => c.replies.every(r => typeof r.likes === 'number'))).toBe(true);
+    expect(debate!.rebuttal).toMatchObject({ critic: 'film', criticName: 'Rex Beaumont' });
+    expect(debate!.counterRebuttal).toMatchObject({ critic: 'music', criticName: 'Julian Pinter' });
+  });
+
+  it('should finish the review without a debate when the rebuttal round fails', async () => {
+    const provider = new MockProvider();
+    const generateContent = provider.generateContent.bind(provider);
+    jest.spyOn(provider, 'generateContent').mockImplementation(async (request: GeminiGenerateRequest) => {
+      if (JSON.stringify(request.contents).includes('formal rebuttal')) throw new Error('Model unavailable');
+      return generateContent(request);
+    });
+    const ctx = createContext({ genAI: new ServerSideGeminiAI(provider) });
+
+    const { review, comments, debate } = await runReviewPipeline(ctx, {
+      criticType: 'music',
+      contentPart: { inlineData: { data: 'AAAA', mimeType: 'audio/mpeg' } },
+    });
+
+    expect(review.critic).toBe('music');
+    expect(debate).toBeUndefined();
+    expect(comments).toHaveLength(15);
+    expect(ctx.stages).toContain('final_discrimination');
+    expect(ctx.logs).toContain('WARNING: Rebuttal round failed (Model unavailable), publishing without it');
+  });
+
+  it('should send documents through the classifier', async () => {
+    const ctx = createContext();
+    const { review } = await runReviewPipeline(ctx, {
+      criticType: 'literary',
+      contentPart: { inlineData: { data: 'JVBERi0=', mimeType: 'application/pdf' } },
+    });
+
+    expect(ctx.stages[0]).toBe('margot_reviewing');
+    expect(review.criticName).toBe('Margot Ashford');
+  });
+
+  it('should hand a classified talk straight to its document critic', async () => {
+    const ctx = createContext();
+    const { review } = await runReviewPipeline(ctx, {
+      criticType: 'business',
+      contentPart: { fileData: { fileUri: 'https://www.youtube.com/watch?v=aaaaaaaaaaa' } },
+      metadata: { title: 'Keynote', artist: 'Conference' },
+      isYouTube: true,
+    });
+
+    expect(ctx.logs).not.toContain('AGENT ACTIVATED: Document Classifier');
+    expect(ctx.stages.slice(0, 2)).toEqual(['transcribing', 'patricia_reviewing']);
+    expect(review.criticName).toBe('Patricia Chen');
+  });
+
+  it('should transcribe media and let the critic quote it', async () => {
+    const onTranscript = jest.fn();
+    const ctx = createContext({ onTranscript });
+    const getModel = jest.spyOn(ctx.genAI, 'getGenerativeModel');
+    const { transcript } = await runReviewPipeline(ctx, {
+      criticType: 'film',
+      contentPart: { inlineData: { data: 'AAAA', mimeType: 'video/mp4' } },
+    });
+
+    expect(transcript).toMatchObject({ source: 'model', language: 'en' });
+    expect(transcript!.segments[1]).toEqual({ start: 6, end: 14, text: 'What follows was planned in detail and executed in spirit.' });
+    expect(onTranscript).toHaveBeenCalledWith(transcript);
+    expect(getModel).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.5-flash' }));
+  });
+
+  it('should use captions passed in instead of transcribing', async () => {
+    const ctx = createContext();
+    const captions = { source: 'captions' as const, language: 'en', segments: [{ start: 134, text: 'The bridge collapses' }] };
+    const { transcript } = await runReviewPipeline(ctx, {
+      criticType: 'film',
+      contentPart: { fileData: { fileUri: 'https://www.youtube.com/watch?v=aaaaaaaaaaa' } },
+      isYouTube: true,
+      transcript: captions,
+    });
+
+    expect(transcript).toBe(captions);
+    expect(ctx.stages).not.toContain('transcribing');
+  });
+
+  it('should put the transcript in the review prompt with quotable timestamps', () => {
+    const prompt = buildReviewPrompt(getCriticInfo('film'), [], {
+      title: 'Clip',
+      transcript: { source: 'captions', segments: [{ start: 134, text: 'The bridge collapses' }] },
+    }, true);
+
+    expect(prompt).toContain('[2:14] The bridge collapses');
+    expect(prompt).toContain('cite where with its timestamp');
+  });
+
+  it('should ask for timestamped annotations on media but not documents or albums', () => {
+    expect(buildReviewPrompt(getCriticInfo('music'))).toContain('"annotations": [{"time": "m:ss"');
+    expect(buildReviewPrompt(getCriticInfo('business'), [], undefined, true)).toContain('"annotations"');
+    expect(buildReviewPrompt(getCriticInfo('literary'))).not.toContain('"annotations"');
+    expect(buildReviewPrompt(getCriticInfo('music'), [], undefined, false, [{ title: 'One' }])).not.toContain('"annotations"');
+  });
+
+  it('should return the annotations in timeline order', async () => {
+    const ctx = createContext();
+    const { review } = await runReviewPipeline(ctx, {
+      criticType: 'film',
+      contentPart: { inlineData: { data: 'AAAA', mimeType: 'video/mp4' } },
+    });
+
+    expect(review.annotations?.map(annotation => annotation.time)).toEqual([12, 65]);
+  });
+
+  it('should only transcribe single videos and audio', () => {
+    expect(wantsTranscript({ inlineData: { data: '', mimeType: 'audio/mpeg' } })).toBe(true);
+    expect(wantsTranscript({ fileData: { fileUri: 'https://www.youtube.com/watch?v=aaaaaaaaaaa' } }, true)).toBe(true);
+    expect(wantsTranscript({ inlineData: { data: '', mimeType: 'application/pdf' } })).toBe(false);
+    expect(wantsTranscript({ inlineData: { data: '', mimeType: 'audio/mpeg' } }, false, [
+      { title: 'One', contentPart: { inlineData: { data: '', mimeType: 'audio/mpeg' } } },
+    ])).toBe(false);
+  });
+
+  it('should convene a panel and pit its critics against each other', async () => {
+    const onPanel = jest.fn();
+    const ctx = createContext({ onPanel });
+    const { review, comments, panel } = await runReviewPipeline(ctx, {
+      criticType: 'music',
+      panel: ['film', 'music', 'film'],
+      contentPart: { fileData: { fileUri: 'https://www.youtube.com/watch?v=abc' } },
+      metadata: { title: 'Clip', artist: 'Band' },
+      isYouTube: true,
+    });
+
+    expect(panel!.reviews.map(r => r.critic)).toEqual(['music', 'film']);
+    expect(panel!.reviews[0]).toBe(review);
+    expect(onPanel).toHaveBeenCalledTimes(1);
+    expect(ctx.stages.indexOf('panel_crossfire')).toBe(ctx.stages.indexOf('commenters_reacting') + 1);
+
+    expect(comments).toHaveLength(17);
+    expect(comments[0]).toMatchObject({ id: 'c-panel-1', is_critic: true, critic: 'music' });
+    expect(comments[0].replies[0]).toMatchObject({ id: 'r-panel-1', is_critic: true, critic: 'film' });
+    expect(comments[1]).toMatchObject({ id: 'c-panel-2', critic: 'film' });
+  });
+
+  it('should keep a document panel guest as the critic they were invited as', async () => {
+    const ctx = createContext();
+    const { panel } = await runReviewPipeline(ctx, {
+      criticType: 'literary',
+      contentPart: { inlineData: { data: 'JVBERi0=', mimeType: 'application/pdf' } },
+      panel: ['business'],
+    });
+
+    expect(panel!.reviews.map(r => r.critic)).toEqual(['literary', 'business']);
+  });
+
+  it('should call a panel by how far apart its scores are', () => {
+    const review = (critic: 'music' | 'film', score: number): ReviewData => ({
+      title: 'T', artist: 'A', score, summary: '', body: [], notable_lyrics_quoted: '', critic,
+    });
+
+    expect(summarizePanel([review('music', 6), review('film', 7)]).verdict).toBe('consensus');
+    expect(summarizePanel([review('music', 4), review('film', 7.5)])).toMatchObject({
+      verdict: 'split',
+      average: 5.8,
+      spread: 3.5,
+      highest: { critic: 'film', criticName: 'Rex Beaumont' },
+    });
+    expect(summarizePanel([review('music', 1), review('film', 9)]).verdict).toBe('divided');
+  });
+
+  it('should review every video in a collection and rank them', async () => {
+    const onCollection = jest.fn();
+    const ctx = createContext({ onCollection });
+    const items = [
+      { videoId: 'aaaaaaaaaaa', title: 'First Upload', channelTitle: 'Chan', criticType: 'film' as const },
+      { videoId: 'bbbbbbbbbbb', title: 'Second Upload', channelTitle: 'Chan', criticType: 'music' as const },
+    ];
+    const { review, collection } = await runReviewPipeline(ctx, {
+      criticType: 'film',
+      contentPart: { fileData: { fileUri: 'https://www.youtube.com/watch?v=aaaaaaaaaaa' } },
+      isYouTube: true,
+      collection: { kind: 'channel', title: 'Latest from Chan', channelTitle: 'Chan', sourceUrl: 'https://www.youtube.com/@chan', items },
+    });
+
+    expect(ctx.stages.slice(0, 3)).toEqual(['rex_reviewing', 'julian_reviewing', 'rex_reviewing']);
+    expect(onCollection).toHaveBeenCalledTimes(2);
+    expect(collection!.entries.map(e => e.rank)).toEqual([1, 2]);
+    expect(collection!.entries.map(e => e.criticName).sort()).toEqual(['Julian Pinter', 'Rex Beaumont']);
+    expect(review).toMatchObject({ title: 'Latest from Chan', artist: 'Chan', critic: 'film', score: collection!.average });
+  });
+
+  it('should rank collections by score, keeping playlist order for ties', () => {
+    const entry = (position: number, score: number) => ({ position, videoId: `v${position}`, title: `T${position}`, score, summary: '' });
+
+    const { average, entries } = rankCollection([entry(1, 5), entry(2, 8), entry(3, 5), entry(4, 2.3)]);
+
+    expect(entries.map(e => [e.rank, e.position])).toEqual([[1, 2], [2, 1], [3, 3], [4, 4]]);
+    expect(average).toBe(5.1);
+  });
+
+  it('should have the panelist who disagrees most write the rebuttal', async () => {
+    const review = (critic: 'music' | 'film' | 'literary', score: number): ReviewData => ({
+      title: 'T', artist: 'A', score, summary: 's', body: ['b'], notable_lyrics_quoted: '', critic,
+    });
+    const reviews = [review('music', 5), review('film', 6), review('literary', 1)];
+    const onDebate = jest.fn();
+
+    const debate = await runCriticDebate(createContext({ onDebate }), reviews[0], { reviews, summary: summarizePanel(reviews) });
+
+    expect(debate.rebuttal).toMatchObject({ critic: 'literary', criticName: 'Margot Ashford' });
+    expect(typeof debate.rebuttal.score).toBe('number');
+    expect(debate.counterRebuttal.score).toBeUndefined();
+    expect(onDebate).toHaveBeenCalledWith(debate);
+  });
+
+  it('should give both debaters their review history', async () => {
+    const provider = new MockProvider();
+    const generateContent = jest.spyOn(provider, 'generateContent');
+    const ctx = createContext({
+      genAI: new ServerSideGeminiAI(provider),
+      history: [
+        { title: 'Old Film', artist: 'Director', timestamp: 1, review: { score: 3, summary: 'Rex hated it', critic: 'film', criticName: 'Rex Beaumont' } },
+        { title: 'Old Song', artist: 'Band', timestamp: 2, review: { score: 8, summary: 'Julian loved it', critic: 'music', criticName: 'Julian Pinter' } },
+      ],
+    });
+    const lead: ReviewData = { title: 'New Song', artist: 'Band', score: 4, summary: 's', body: ['b'], notable_lyrics_quoted: '', critic: 'music' };
+
+    await runCriticDebate(ctx, lead);
+
+    const [rebuttalPrompt, counterPrompt] = generateContent.mock.calls.map(([request]) => request.contents[0].parts[0].text);
+    expect(rebuttalPrompt).toContain('You are Rex Beaumont');
+    expect(rebuttalPrompt).toMatch(/Your previous reviews[^\n]*\n.*Rex hated it/);
+    expect(counterPrompt).toContain('You are Julian Pinter');
+    expect(counterPrompt).toMatch(/Your previous reviews[^\n]*\n.*Julian loved it/);
+  });
+
+  it('should report comment updates without mutating the input', async () => {
+    const onComments = jest.fn();
+    const ctx = createContext({ onComments });
+    const original = [{ id: 'c1', username: 'u', persona_type: 'p', timestamp: 'now', text: 't', likes: 0, replies: [] }];
+
+    const updated = await runDiscriminator(ctx, original);
+
+    expect(original[0].likes).toBe(0);
+    expect(onComments).toHaveBeenCalledWith(updated);
+  });
+
+  it('should build slugs from artist and title', () => {
+    expect(buildReviewSlug({ artist: 'The Band!', title: 'Song #2' })).toBe('the-band--song-2');
+  });
+
+  it('should re-ask the model when its JSON does not fit the schema', async () => {
+    const answers = ['[{"comment_id": "c1"}]', '[{"comment_id": "c1", "likes": "42"}]'];
+    const generateContent = jest.fn(async () => {
+      const text = answers.shift()!;
+      return { candidates: [{ content: { parts: [{ text }] } }], parts: [{ text }] };
+    });
+    const ctx = createContext({
+      genAI: new ServerSideGeminiAI({ name: 'mock', generateContent, generateContentStream: jest.fn(), uploadFile: jest.fn() }),
+    });
+    const original = [{ id: 'c1', username: 'u', persona_type: 'p', timestamp: 'now', text: 't', likes: 0, replies: [] }];
+
+    const updated = await runDiscriminator(ctx, original);
+
+    expect(updated[0].likes).toBe(42);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(ctx.logs.some(line => line.includes('malformed JSON'))).toBe(true);
+  });
+});
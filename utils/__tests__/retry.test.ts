@@ -0,0 +1,104 @@
+import { backoffDelay, isRetryableError, withRetry, RetryBudget, DEFAULT_RETRY_POLICY } from '../retry';
+import { GeminiRequestError, ServerSideGeminiAI } from '../api';
+import type { LLMProvider } from '../llm';
+
+const overloaded = () => new GeminiRequestError('The model is overloaded', 503);
+const noWait = () => Promise.resolve();
+
+function textResponse(text: string) {
+  return { candidates: [{ content: { parts: [{ text }] } }], parts: [{ text }] };
+}
+
+describe('Retry Policy', () => {
+  it('should only retry overloads and gateway failures', () => {
+    expect(isRetryableError(overloaded())).toBe(true);
+    expect(isRetryableError({ status: 504 })).toBe(true);
+    expect(isRetryableError(new Error('[503 Service Unavailable] try later'))).toBe(true);
+    expect(isRetryableError(new GeminiRequestError('Rate limit exceeded', 429))).toBe(false);
+    expect(isRetryableError(new GeminiRequestError('Bad request', 400))).toBe(false);
+  });
+
+  it('should double the delay up to the cap, jittered over the upper half', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect(backoffDelay(0, policy, () => 0)).toBe(500);
+    expect(backoffDelay(0, policy, () => 1)).toBe(1000);
+    expect(backoffDelay(2, policy, () => 1)).toBe(4000);
+    expect(backoffDelay(5, policy, () => 1)).toBe(5000);
+  });
+
+  it('should fall back to the next model after its attempts are used', async () => {
+    const call = jest.fn()
+      .mockRejectedValueOnce(overloaded())
+      .mockRejectedValueOnce(overloaded())
+      .mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+
+    const outcome = await withRetry(['pro', 'flash'], call, {
+      policy: { ...DEFAULT_RETRY_POLICY, attemptsPerModel: 2 },
+      budget: new RetryBudget(5),
+      onRetry,
+      wait: noWait,
+    });
+
+    expect(outcome).toEqual({ result: 'ok', model: 'flash' });
+    expect(call.mock.calls.map(([model]) => model)).toEqual(['pro', 'pro', 'flash']);
+    expect(onRetry.mock.calls.map(([e]) => `${e.model}->${e.nextModel}`)).toEqual(['pro->pro', 'pro->flash']);
+  });
+
+  it('should stop when the shared budget runs out', async () => {
+    const budget = new RetryBudget(1);
+    const call = jest.fn().mockRejectedValue(overloaded());
+    const options = { policy: DEFAULT_RETRY_POLICY, budget, wait: noWait };
+
+    await expect(withRetry(['pro'], call, options)).rejects.toThrow('overloaded');
+    expect(call).toHaveBeenCalledTimes(2);
+
+    call.mockClear();
+    await expect(withRetry(['pro'], call, options)).rejects.toThrow('overloaded');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry errors that would fail again', async () => {
+    const call = jest.fn().mockRejectedValue(new GeminiRequestError('Bad request', 400));
+
+    await expect(withRetry(['pro', 'flash'], call, { policy: DEFAULT_RETRY_POLICY, budget: new RetryBudget(5), wait: noWait }))
+      .rejects.toThrow('Bad request');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ServerSideGeminiAI retries', () => {
+  function createProvider(overrides: Partial<LLMProvider>): LLMProvider {
+    return { name: 'mock', generateContent: jest.fn(), generateContentStream: jest.fn(), uploadFile: jest.fn(), ...overrides };
+  }
+
+  it('should report the fallback model that answered', async () => {
+    const generateContent = jest.fn(async ({ model }) => {
+      if (model === 'gemini-2.5-pro') throw overloaded();
+      return textResponse('hi');
+    });
+    const genAI = new ServerSideGeminiAI(createProvider({ generateContent }), { baseDelayMs: 0, attemptsPerModel: 1 });
+
+    const result = await genAI
+      .getGenerativeModel({ model: 'gemini-2.5-pro', fallbackModels: ['gemini-2.5-flash'] })
+      .generateContent('hello');
+
+    expect(result.response.model).toBe('gemini-2.5-flash');
+    expect(result.response.text()).toBe('hi');
+  });
+
+  it('should not retry a stream that already produced output', async () => {
+    const generateContentStream = jest.fn(async function* () {
+      yield { parts: [{ text: 'partial' }] };
+      throw overloaded();
+    });
+    const genAI = new ServerSideGeminiAI(createProvider({ generateContentStream }), { baseDelayMs: 0 });
+    const onChunk = jest.fn();
+
+    await expect(genAI.getGenerativeModel({ model: 'gemini-2.5-pro' }).generateContentStream('hello', onChunk))
+      .rejects.toThrow('overloaded');
+    expect(generateContentStream).toHaveBeenCalledTimes(1);
+    expect(onChunk).toHaveBeenCalledTimes(1);
+  });
+});
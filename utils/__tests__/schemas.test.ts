@@ -0,0 +1,166 @@
+import {
+  validate,
+  parseModelJSON,
+  parseWithRepair,
+  generateValidated,
+  buildRepairPrompt,
+  SchemaValidationError,
+  MAX_REPAIR_ATTEMPTS,
+  reviewSchema,
+  classificationSchema,
+  commentListSchema,
+  commentLikesSchema,
+  editorialSchema,
+  transcriptSchema,
+} from '../schemas';
+
+const validReview = {
+  title: 'Song',
+  artist: 'Band',
+  score: 4.5,
+  summary: 'Fine.',
+  body: ['One.', 'Two.'],
+  notable_lyrics_quoted: 'la la',
+};
+
+describe('LLM Output Schemas', () => {
+  it('should accept a valid review unchanged', () => {
+    expect(validate(reviewSchema, validReview)).toEqual({ ok: true, value: validReview, errors: [] });
+  });
+
+  it('should coerce and clamp review fields', () => {
+    const { ok, value } = validate(reviewSchema, {
+      ...validReview,
+      score: '12/10',
+      body: 'First paragraph.\n\nSecond paragraph.',
+      notable_lyrics_quoted: undefined,
+    });
+
+    expect(ok).toBe(true);
+    expect(value).toMatchObject({ score: 10, body: ['First paragraph.', 'Second paragraph.'], notable_lyrics_quoted: '' });
+  });
+
+  it('should report every missing or malformed field with its path', () => {
+    const { ok, errors } = validate(reviewSchema, { title: 'Song', score: 'great', body: [] });
+
+    expect(ok).toBe(false);
+    expect(errors).toEqual([
+      'score: expected a number',
+      'summary: is required',
+      'body: expected at least 1 non-empty paragraph(s)',
+    ]);
+  });
+
+  it('should clamp album track scores', () => {
+    const { ok, value } = validate(reviewSchema, {
+      ...validReview,
+      tracks: [{ track: 1, title: 'Opener', score: 11, verdict: 'Loud.' }, { track: '2', title: 'Closer', score: '6.25' }],
+    });
+
+    expect(ok).toBe(true);
+    expect(value?.tracks).toEqual([
+      { track: 1, title: 'Opener', score: 10, verdict: 'Loud.' },
+      { track: 2, title: 'Closer', score: 6.3, verdict: '' },
+    ]);
+  });
+
+  it('should match enums case-insensitively', () => {
+    expect(validate(classificationSchema, { classification: 'Business' }).value).toEqual({ classification: 'business' });
+    expect(validate(classificationSchema, { classification: 'poetry' }).ok).toBe(false);
+    expect(validate(editorialSchema, {
+      title: 't', summary: 's', body: ['b'],
+      verdicts: [{ mediaTitle: 'm', mediaArtist: 'a', verdict: 'rocks', reason: 'r' }],
+    }).value?.verdicts[0].verdict).toBe('ROCKS');
+  });
+
+  it('should read transcript timestamps as seconds or clock times', () => {
+    const { ok, value } = validate(transcriptSchema, {
+      language: 'en',
+      segments: [{ start: 0, end: '0:04', text: 'Hello' }, { start: '[2:14]', text: 'Bridge' }, { start: '1:02:03', text: 'Late' }],
+    });
+
+    expect(ok).toBe(true);
+    expect(value?.segments.map(segment => segment.start)).toEqual([0, 134, 3723]);
+    expect(value?.segments[0].end).toBe(4);
+    expect(validate(transcriptSchema, { segments: [{ start: 'soon', text: 'x' }] }).errors).toEqual([
+      'segments[0].start: expected seconds or a m:ss timestamp',
+    ]);
+    expect(validate(transcriptSchema, { segments: [] }).ok).toBe(false);
+  });
+
+  it('should read annotation times the way transcripts do', () => {
+    const { ok, value } = validate(reviewSchema, {
+      ...validReview,
+      annotations: [{ time: '2:14', note: 'The bridge collapses' }, { time: 30, note: 'Drums' }],
+    });
+
+    expect(ok).toBe(true);
+    expect(value?.annotations).toEqual([{ time: 134, note: 'The bridge collapses' }, { time: 30, note: 'Drums' }]);
+    expect(validate(reviewSchema, { ...validReview, annotations: [{ time: 'later', note: 'x' }] }).errors).toEqual([
+      'annotations[0].time: expected seconds or a m:ss timestamp',
+    ]);
+  });
+
+  it('should unwrap arrays the model nested in an object', () => {
+    const { ok, value } = validate(commentListSchema, {
+      comments: [{ id: 1, username: 'u', persona_type: 'Stan', text: 'hi' }],
+    });
+
+    expect(ok).toBe(true);
+    expect(value).toEqual([{ id: '1', username: 'u', persona_type: 'Stan', timestamp: 'Just now', text: 'hi', likes: 0 }]);
+  });
+
+  it('should index errors inside arrays', () => {
+    const { errors } = validate(commentLikesSchema, [{ comment_id: 'c1', likes: 3 }, { comment_id: 'c2' }]);
+    expect(errors).toEqual(['[1].likes: is required']);
+  });
+
+  it('should parse JSON wrapped in fences or prose', () => {
+    expect(parseModelJSON('```json\n{"a":1}\n```')).toEqual({ value: { a: 1 } });
+    expect(parseModelJSON('Here you go: [1, 2] hope it helps')).toEqual({ value: [1, 2] });
+    expect(parseModelJSON('no json here').error).toMatch(/not valid JSON/);
+  });
+});
+
+describe('Repair Loop', () => {
+  it('should re-ask with the validation errors until the output is valid', async () => {
+    const reask = jest.fn().mockResolvedValue(JSON.stringify(validReview));
+
+    const review = await parseWithRepair('{"title": "Song"}', reviewSchema, reask);
+
+    expect(review).toEqual(validReview);
+    expect(reask).toHaveBeenCalledTimes(1);
+    expect(reask.mock.calls[0][0]).toContain('score: is required');
+    expect(reask.mock.calls[0][1]).toBe('{"title": "Song"}');
+  });
+
+  it('should give up after the maximum number of repairs', async () => {
+    const reask = jest.fn().mockResolvedValue('still not json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(parseWithRepair('nope', reviewSchema, reask)).rejects.toBeInstanceOf(SchemaValidationError);
+    expect(reask).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS);
+  });
+
+  it('should replay the prompt without media and with the errors', async () => {
+    const generateContent = jest.fn()
+      .mockResolvedValueOnce({ response: { text: () => '[{"comment_id": "c1", "likes": "lots"}]' } })
+      .mockResolvedValueOnce({ response: { text: () => '[{"comment_id": "c1", "likes": 7}]' } });
+    const onRepair = jest.fn();
+
+    const result = await generateValidated(
+      { generateContent },
+      ['Assign likes', { inlineData: { mimeType: 'audio/mpeg', data: 'AAAA' } }],
+      commentLikesSchema,
+      onRepair
+    );
+
+    expect(result).toEqual([{ comment_id: 'c1', likes: 7 }]);
+    expect(onRepair).toHaveBeenCalledWith(['[0].likes: expected a number'], 1);
+    expect(generateContent.mock.calls[1][0].contents).toEqual([
+      { role: 'user', parts: [{ text: 'Assign likes' }] },
+      { role: 'model', parts: [{ text: '[{"comment_id": "c1", "likes": "lots"}]' }] },
+      { role: 'user', parts: [{ text: buildRepairPrompt(['[0].likes: expected a number']) }] },
+    ]);
+  });
+});
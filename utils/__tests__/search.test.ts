@@ -0,0 +1,95 @@
+import { SearchIndex, SearchableReview, tokenize, getArchiveMediaType } from '../search';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function savedReview(id: string, overrides: Partial<SearchableReview> = {}, review: Partial<SearchableReview['review']> = {}): SearchableReview {
+  return {
+    id,
+    title: 'Untitled',
+    artist: 'Nobody',
+    timestamp: Date.now(),
+    review: { score: 5, summary: 'Fine.', body: ['It exists.'], notable_lyrics_quoted: '', critic: 'music', ...review },
+    comments: [],
+    ...overrides,
+  };
+}
+
+describe('Archive Search', () => {
+  it('should tokenize without case, accents or stop words', () => {
+    expect(tokenize('The Café of DREAMS, vol. 2!')).toEqual(['cafe', 'dreams', 'vol', '2']);
+  });
+
+  it('should work out the media type of saved reviews', () => {
+    expect(getArchiveMediaType(savedReview('1', { isYouTube: true }))).toBe('youtube');
+    expect(getArchiveMediaType(savedReview('2', {}, { critic: 'literary' }))).toBe('document');
+    expect(getArchiveMediaType(savedReview('3', { audioFileName: 'clip.MOV' }))).toBe('video');
+    expect(getArchiveMediaType(savedReview('4', { audioFileName: 'song.mp3' }))).toBe('audio');
+  });
+
+  it('should search every text field and rank title hits first', () => {
+    const index = new SearchIndex([
+      savedReview('body', {}, { body: ['A song about lighthouses.'] }),
+      savedReview('title', { title: 'Lighthouse Blues' }),
+      savedReview('comment', { comments: [{ text: 'meh', replies: [{ text: 'The lighthouse bit was great' }] }] }),
+      savedReview('quote', {}, { notable_lyrics_quoted: 'Shine on, lighthouse' }),
+      savedReview('none'),
+    ]);
+
+    const results = index.search('lighthouse');
+
+    expect(results.map(r => r.id)).toEqual(['title', 'quote', 'body', 'comment']);
+    expect(results[3].fields).toEqual(['comments']);
+  });
+
+  it('should require every word and match the last one as a prefix', () => {
+    const index = new SearchIndex([
+      savedReview('both', { title: 'Midnight Lighthouse' }),
+      savedReview('one', { title: 'Midnight Train' }),
+    ]);
+
+    expect(index.search('midnight light').map(r => r.id)).toEqual(['both']);
+    expect(index.search('mid').map(r => r.id).sort()).toEqual(['both', 'one']);
+    expect(index.search('mid light')).toEqual([]);
+  });
+
+  it('should filter by critic, media type, score and date', () => {
+    const index = new SearchIndex([
+      savedReview('old', { timestamp: Date.now() - 60 * DAY_MS }, { score: 9 }),
+      savedReview('film', {}, { critic: 'film', score: 2 }),
+      savedReview('yt', { isYouTube: true }, { score: 7 }),
+    ]);
+
+    expect(index.search('', { critics: ['film'] }).map(r => r.id)).toEqual(['film']);
+    expect(index.search('', { mediaTypes: ['youtube', 'video'] }).map(r => r.id).sort()).toEqual(['film', 'yt']);
+    expect(index.search('', { minScore: 5, maxScore: 8 }).map(r => r.id)).toEqual(['yt']);
+    expect(index.search('', { publishedWithin: 30 * DAY_MS }).map(r => r.id).sort()).toEqual(['film', 'yt']);
+  });
+
+  it('should count facets without applying their own selection', () => {
+    const index = new SearchIndex([
+      savedReview('1', {}, { critic: 'music' }),
+      savedReview('2', {}, { critic: 'music' }),
+      savedReview('3', { isYouTube: true }, { critic: 'film' }),
+    ]);
+
+    const facets = index.facets('', { critics: ['film'] });
+
+    expect(facets.critics).toEqual({ music: 2, film: 1 });
+    expect(facets.mediaTypes).toEqual({ youtube: 1 });
+  });
+
+  it('should update incrementally as reviews are re-saved and deleted', () => {
+    const index = new SearchIndex([savedReview('1', { title: 'Quiet Song' })]);
+
+    index.update('1', { comments: [{ text: 'Absolutely deafening', replies: [] }] });
+    expect(index.search('deafening').map(r => r.id)).toEqual(['1']);
+    expect(index.search('quiet').map(r => r.id)).toEqual(['1']);
+
+    index.add(savedReview('1', { title: 'Loud Song' }));
+    expect(index.search('quiet')).toEqual([]);
+
+    index.remove('1');
+    expect(index.search('loud')).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+});
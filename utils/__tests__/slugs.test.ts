@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStore } from '../fileStore';
+import { takenSlugs, uniqueSlug, placeSlug, resolveSlug, saveReviewWithUniqueSlug } from '../slugs';
+
+describe('Review Slugs', () => {
+  it('should suffix slugs that are taken by a review or an alias', () => {
+    const taken = takenSlugs([
+      { id: '1', slug: 'band-song' },
+      { id: '2', slug: 'band-song-2', slugAliases: ['band-old'] },
+    ]);
+
+    expect(uniqueSlug('band-new', taken)).toBe('band-new');
+    expect(uniqueSlug('band-song', taken)).toBe('band-song-3');
+    expect(uniqueSlug('band-old', taken)).toBe('band-old-2');
+  });
+
+  it('should keep the old slug as an alias when a review moves', () => {
+    const previous = { id: '1', slug: 'band-song', slugAliases: ['band-demo'] };
+
+    const placed = placeSlug({ id: '1', slug: 'band-single' }, [], previous);
+
+    expect(placed).toEqual({ id: '1', slug: 'band-single', slugAliases: ['band-demo', 'band-song'] });
+  });
+
+  it('should drop an alias the review takes back', () => {
+    const previous = { id: '1', slug: 'band-single', slugAliases: ['band-song'] };
+
+    expect(placeSlug({ id: '1', slug: 'band-song' }, [], previous)).toEqual({ id: '1', slug: 'band-song', slugAliases: ['band-single'] });
+    expect(placeSlug({ id: '1', slug: 'band-single' }, [], previous)).toEqual({ id: '1', slug: 'band-single', slugAliases: ['band-song'] });
+  });
+
+  it('should resolve current slugs before aliases', () => {
+    const reviews = [
+      { id: '1', slug: 'band-single', slugAliases: ['band-song'] },
+      { id: '2', slug: 'band-song' },
+    ];
+
+    expect(resolveSlug('band-song', reviews)).toEqual({ review: reviews[1] });
+    expect(resolveSlug('band-single', reviews)).toEqual({ review: reviews[0] });
+    expect(resolveSlug('band-demo', reviews)).toBeNull();
+    expect(resolveSlug('band-old', [{ id: '3', slug: 'band-new', slugAliases: ['band-old'] }])).toMatchObject({ redirect: 'band-new' });
+  });
+
+  describe('saving to the store', () => {
+    let root: string;
+    let store: FileStore;
+
+    beforeEach(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'smudged-slugs-'));
+      store = new FileStore(root);
+    });
+
+    afterEach(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should give a re-review of the same track its own slug', async () => {
+      await saveReviewWithUniqueSlug(store, { id: '1', slug: 'band-song', timestamp: 1 });
+      const second = await saveReviewWithUniqueSlug(store, { id: '2', slug: 'band-song', timestamp: 2 });
+
+      expect(second.slug).toBe('band-song-2');
+      expect((await store.get('reviews', '2'))?.slug).toBe('band-song-2');
+    });
+
+    it('should not let simultaneous saves claim the same slug', async () => {
+      const saved = await Promise.all(['1', '2', '3'].map(id => saveReviewWithUniqueSlug(store, { id, slug: 'band-song' })));
+
+      expect(saved.map(r => r.slug)).toEqual(['band-song', 'band-song-2', 'band-song-3']);
+    });
+
+    it('should keep a review on its own slug when it is saved again', async () => {
+      await saveReviewWithUniqueSlug(store, { id: '1', slug: 'band-song' });
+
+      expect((await saveReviewWithUniqueSlug(store, { id: '1', slug: 'band-song', comments: [] })).slug).toBe('band-song');
+    });
+  });
+});
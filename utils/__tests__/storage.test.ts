@@ -0,0 +1,94 @@
+/**
+ * @jest-environment jsdom
+ */
+import { reviewRows, editorialRows, findOrphanedMedia, localStorageBytes, formatBytes, jsonBytes, ORPHAN_GRACE_MS } from '../storage';
+import { SCHEMA_VERSION, SavedReview, SavedEditorial } from '../models';
+import type { MediaRecord } from '../db';
+
+function savedReview(id: string, comments = 0): SavedReview {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    id,
+    slug: `a-${id}`,
+    title: `Song ${id}`,
+    artist: 'A',
+    timestamp: 1,
+    review: { title: 'B', artist: 'A', score: 5, summary: '', body: [], notable_lyrics_quoted: '', critic: 'music' },
+    comments: Array.from({ length: comments }, (_, i) => ({ id: `c${i}`, username: 'u', persona_type: 'fan', timestamp: 'now', text: 'hi', likes: 0, replies: [] })),
+  };
+}
+
+function media(id: string, size: number, storedAt = 0): MediaRecord {
+  return { id, mimeType: 'audio/mpeg', size, chunkCount: 1, storedAt, lastAccessed: 0 };
+}
+
+describe('Storage Breakdown', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should report each review with its local copy and cached media', () => {
+    const reviews = [savedReview('1', 2), savedReview('2')];
+
+    const rows = reviewRows(reviews, [media('1', 5000)]);
+
+    expect(rows).toEqual([
+      expect.objectContaining({ kind: 'review', id: '1', label: 'A - Song 1', mediaBytes: 5000, commentCount: 2, localBytes: jsonBytes(reviews[0]) }),
+      expect.objectContaining({ kind: 'review', id: '2', mediaBytes: 0, commentCount: 0 }),
+    ]);
+    expect(rows[0].localBytes).toBeGreaterThan(rows[1].localBytes);
+  });
+
+  it('should report editorials without media', () => {
+    const editorial: SavedEditorial = {
+      schemaVersion: SCHEMA_VERSION,
+      id: 'e1',
+      title: 'Roundup',
+      summary: '',
+      body: [],
+      verdicts: [],
+      timestamp: 2,
+      reviewIds: ['1'],
+      comments: [],
+    };
+
+    expect(editorialRows([editorial])).toEqual([
+      { kind: 'editorial', id: 'e1', label: 'Roundup', timestamp: 2, localBytes: jsonBytes(editorial), mediaBytes: 0, commentCount: 0 },
+    ]);
+  });
+
+  it('should find cached media with no matching review', () => {
+    const orphans = findOrphanedMedia([media('1', 10), media('gone', 20)], [savedReview('1')]);
+
+    expect(orphans.map(r => r.id)).toEqual(['gone']);
+  });
+
+  it('should not count media of a review whose job is still running as orphaned', () => {
+    const now = 10 * ORPHAN_GRACE_MS;
+    const cached = [media('running', 10, now - 60 * 1000), media('running-t1', 10, now - 60 * 1000), media('gone', 20, now - ORPHAN_GRACE_MS)];
+
+    expect(findOrphanedMedia(cached, [], now).map(r => r.id)).toEqual(['gone']);
+  });
+
+  it('should count album track media as the album\'s', () => {
+    const album = savedReview('2');
+    album.tracklist = [{ mediaId: '2-t1', title: 'A', fileName: 'a.mp3' }, { mediaId: '2-t2', title: 'B', fileName: 'b.mp3' }];
+    const cached = [media('2-t1', 10), media('2-t2', 20), media('2-t3', 5)];
+
+    expect(reviewRows([album], cached)[0].mediaBytes).toBe(30);
+    expect(findOrphanedMedia(cached, [album]).map(r => r.id)).toEqual(['2-t3']);
+  });
+
+  it('should count localStorage keys and values as UTF-16', () => {
+    localStorage.setItem('ab', 'cde');
+
+    expect(localStorageBytes()).toBe(10);
+  });
+
+  it('should format byte counts for people', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(50 * 1024 * 1024)).toBe('50 MB');
+    expect(formatBytes(3 * 1024 * 1024 * 1024)).toBe('3.0 GB');
+  });
+});
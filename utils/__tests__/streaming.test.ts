@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { parseSSEEvents, formatSSEEvent, mergeStreamParts, extractPartialReview } from '../streaming';
+import { MockProvider } from '../mockProvider';
+import { ServerSideGeminiAI, generateContentStreamServerSide, GeminiRequestError } from '../api';
+
+describe('Streaming Utility', () => {
+  describe('parseSSEEvents', () => {
+    it('should parse complete frames and keep the partial remainder', () => {
+      const { events, rest } = parseSSEEvents('data: {"a":1}\n\nevent: done\ndata: {}\n\ndata: {"b"');
+      expect(events).toEqual([
+        { event: 'message', data: '{"a":1}' },
+        { event: 'done', data: '{}' }
+      ]);
+      expect(rest).toBe('data: {"b"');
+    });
+
+    it('should handle CRLF line endings', () => {
+      const { events } = parseSSEEvents('data: {"a":1}\r\n\r\n');
+      expect(events).toEqual([{ event: 'message', data: '{"a":1}' }]);
+    });
+
+    it('should round-trip formatted events', () => {
+      const frame = formatSSEEvent({ error: 'nope' }, 'error') + formatSSEEvent({ parts: [] });
+      const { events, rest } = parseSSEEvents(frame);
+      expect(events.map(e => e.event)).toEqual(['error', 'message']);
+      expect(JSON.parse(events[0].data)).toEqual({ error: 'nope' });
+      expect(rest).toBe('');
+    });
+  });
+
+  describe('mergeStreamParts', () => {
+    it('should join consecutive thought and answer deltas separately', () => {
+      const merged = mergeStreamParts([
+        { parts: [{ text: 'Hmm, ', thought: true }] },
+        { parts: [{ text: 'the bridge.', thought: true }] },
+        { parts: [{ text: '{"title":' }] },
+        { parts: [{ text: '"x"}' }] }
+      ]);
+      expect(merged).toEqual([
+        { text: 'Hmm, the bridge.', thought: true },
+        { text: '{"title":"x"}' }
+      ]);
+    });
+
+    it('should not mutate the incoming chunks', () => {
+      const chunks = [{ parts: [{ text: 'a' }] }, { parts: [{ text: 'b' }] }];
+      mergeStreamParts(chunks);
+      expect(chunks[0].parts[0].text).toBe('a');
+    });
+  });
+
+  describe('extractPartialReview', () => {
+    it('should return completed fields and paragraphs only', () => {
+      const partial = extractPartialReview('```json\n{"title": "Song", "artist": "Band", "score": 3.5, "summary": "Meh.", "body": ["First \\"para\\".", "Second');
+      expect(partial.title).toBe('Song');
+      expect(partial.artist).toBe('Band');
+      expect(partial.score).toBe(3.5);
+      expect(partial.summary).toBe('Meh.');
+      expect(partial.body).toEqual(['First "para".']);
+    });
+
+    it('should not report a score that is still being written', () => {
+      expect(extractPartialReview('{"score": 4').score).toBeUndefined();
+    });
+
+    it('should cope with an empty buffer', () => {
+      expect(extractPartialReview('')).toEqual({ body: [] });
+    });
+  });
+
+  describe('ServerSideGeminiAI.generateContentStream', () => {
+    it('should deliver deltas and resolve with the merged response', async () => {
+      const prompt = 'Audio file metadata:\n- Title: Song\n- Artist: Band\nStructure:\n{"title": "", "notable_lyrics_quoted": ""}';
+      const genAI = new ServerSideGeminiAI(new MockProvider());
+      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
+      const deltas: any[] = [];
+
+      const result = await model.generateContentStream({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: { thinkingConfig: { includeThoughts: true } }
+      }, chunk => deltas.push(chunk));
+
+      expect(deltas.length).toBeGreaterThan(2);
+      const parts = result.response.candidates[0].content.parts;
+      expect(parts[0].thought).toBe(true);
+      expect(JSON.parse(parts[1].text).title).toBe('Song');
+    });
+  });
+
+  describe('generateContentStreamServerSide', () => {
+    function streamResponse(...frames: string[]) {
+      const bytes = frames.map(frame => new TextEncoder().encode(frame));
+      return {
+        ok: true,
+        status: 200,
+        body: {
+          getReader: () => ({
+            read: () => Promise.resolve(bytes.length ? { done: false, value: bytes.shift() } : { done: true, value: undefined }),
+          }),
+        },
+      };
+    }
+
+    const delta = formatSSEEvent({ parts: [{ text: '{"title": "So' }] });
+
+    it('should resolve once the server sends done', async () => {
+      global.fetch = jest.fn().mockResolvedValue(streamResponse(delta, formatSSEEvent({}, 'done'))) as any;
+
+      const result = await generateContentStreamServerSide({ model: 'gemini-2.5-pro', contents: [] });
+
+      expect(result.parts).toEqual([{ text: '{"title": "So' }]);
+    });
+
+    it('should fail when the stream ends without done', async () => {
+      global.fetch = jest.fn().mockResolvedValue(streamResponse(delta)) as any;
+
+      const request = generateContentStreamServerSide({ model: 'gemini-2.5-pro', contents: [] });
+
+      await expect(request).rejects.toBeInstanceOf(GeminiRequestError);
+      await expect(request).rejects.toMatchObject({ status: 502 });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { formatTimestamp, parseCaptionEvents, isTranscript, transcriptText, searchTranscript, activeSegmentIndex, Transcript } from '../transcript';
+
+const transcript: Transcript = {
+  source: 'captions',
+  language: 'en',
+  segments: [
+    { start: 0, text: 'Welcome back to the channel' },
+    { start: 65, text: 'Here the bridge collapses' },
+    { start: 3725, text: 'Thanks for watching the whole bridge saga' },
+  ],
+};
+
+describe('Transcript Helpers', () => {
+  it('should format timestamps as m:ss, with hours when needed', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(65.9)).toBe('1:05');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+  });
+
+  it('should read YouTube json3 caption tracks', () => {
+    const segments = parseCaptionEvents({
+      events: [
+        { tStartMs: 0, dDurationMs: 2000, segs: [{ utf8: 'Hello ' }, { utf8: 'there' }] },
+        { tStartMs: 2000, dDurationMs: 100 },
+        { tStartMs: 2500, dDurationMs: 1500, segs: [{ utf8: '\n' }] },
+        { tStartMs: 4000, segs: [{ utf8: 'Second   line\n' }] },
+      ],
+    });
+
+    expect(segments).toEqual([
+      { start: 0, end: 2, text: 'Hello there' },
+      { start: 4, end: undefined, text: 'Second line' },
+    ]);
+    expect(parseCaptionEvents({})).toEqual([]);
+  });
+
+  it('should recognise transcripts', () => {
+    expect(isTranscript(transcript)).toBe(true);
+    expect(isTranscript({ source: 'whisper', segments: [] })).toBe(false);
+    expect(isTranscript({ source: 'model', segments: [{ start: '0:01', text: 'x' }] })).toBe(false);
+    expect(isTranscript(null)).toBe(false);
+  });
+
+  it('should write timestamped lines for a prompt, cut at the limit', () => {
+    expect(transcriptText(transcript)).toBe('[0:00] Welcome back to the channel\n[1:05] Here the bridge collapses\n[1:02:05] Thanks for watching the whole bridge saga');
+    expect(transcriptText(transcript, 70)).toBe('[0:00] Welcome back to the channel\n[1:05] Here the bridge collapses\n[... transcript continues past 1:02:05]');
+  });
+
+  it('should find the segments that contain every word searched', () => {
+    expect(searchTranscript(transcript.segments, 'BRIDGE')).toEqual([1, 2]);
+    expect(searchTranscript(transcript.segments, 'bridge saga')).toEqual([2]);
+    expect(searchTranscript(transcript.segments, '  ')).toEqual([]);
+  });
+
+  it('should know which segment is being spoken', () => {
+    expect(activeSegmentIndex(transcript.segments, 70)).toBe(1);
+    expect(activeSegmentIndex([{ start: 5, text: 'late start' }], 1)).toBe(-1);
+  });
+});
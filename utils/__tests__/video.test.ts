@@ -0,0 +1,24 @@
+import { isVideoMedia, frameTimes, posterTime, THUMBNAIL_COUNT } from '../video';
+
+describe('Video Media', () => {
+  it('should recognise video by MIME type, then by file name', () => {
+    expect(isVideoMedia('clip.bin', 'video/mp4')).toBe(true);
+    expect(isVideoMedia('song.webm', 'audio/webm')).toBe(false);
+    expect(isVideoMedia('film.MOV', 'application/octet-stream')).toBe(true);
+    expect(isVideoMedia('film.mkv')).toBe(true);
+    expect(isVideoMedia('song.mp3', '')).toBe(false);
+    expect(isVideoMedia()).toBe(false);
+  });
+
+  it('should take one thumbnail from the middle of each stretch', () => {
+    expect(frameTimes(80, 4)).toEqual([10, 30, 50, 70]);
+    expect(frameTimes(160)).toHaveLength(THUMBNAIL_COUNT);
+    expect(frameTimes(0)).toEqual([]);
+    expect(frameTimes(NaN)).toEqual([]);
+  });
+
+  it('should pick a poster frame past the opening, at most five seconds in', () => {
+    expect(posterTime(20)).toBe(2);
+    expect(posterTime(600)).toBe(5);
+  });
+});
@@ -0,0 +1,158 @@
+import { parseYouTubeUrl, parseTimestamp, extractYouTubeId, isYouTubeVideoId, canonicalVideoUrl, youtubeEmbedUrl, parseIsoDuration, topicName, classifyVideo } from '../youtube';
+
+const ID = 'dQw4w9WgXcQ';
+const WATCH = `https://www.youtube.com/watch?v=${ID}`;
+
+// [input, expected link or null]
+const cases: Array<[string, ReturnType<typeof parseYouTubeUrl>]> = [
+  [`https://www.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`http://youtube.com/watch?feature=share&v=${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`www.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`  https://youtu.be/${ID}  `, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://youtu.be/${ID}?si=share-token`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://m.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://music.youtube.com/watch?v=${ID}&list=RDAMVM${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://www.youtube.com/shorts/${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://www.youtube.com/live/${ID}?feature=share`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://www.youtube.com/embed/${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://www.youtube-nocookie.com/embed/${ID}?start=42`, { kind: 'video', videoId: ID, startSeconds: 42, url: `${WATCH}&t=42s` }],
+  [`https://www.youtube.com/v/${ID}`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://youtu.be/${ID}?t=90`, { kind: 'video', videoId: ID, startSeconds: 90, url: `${WATCH}&t=90s` }],
+  [`https://www.youtube.com/watch?v=${ID}&t=1m30s`, { kind: 'video', videoId: ID, startSeconds: 90, url: `${WATCH}&t=90s` }],
+  [`https://www.youtube.com/watch?v=${ID}#t=1h2m3s`, { kind: 'video', videoId: ID, startSeconds: 3723, url: `${WATCH}&t=3723s` }],
+  [`https://www.youtube.com/watch?v=${ID}&t=0`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [`https://www.youtube.com/watch?v=${ID}&list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf`, { kind: 'video', videoId: ID, startSeconds: undefined, url: WATCH }],
+  [
+    'https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf',
+    { kind: 'playlist', playlistId: 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf', url: 'https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf' },
+  ],
+  [
+    'https://www.youtube.com/embed/videoseries?list=PL123abc',
+    { kind: 'playlist', playlistId: 'PL123abc', url: 'https://www.youtube.com/playlist?list=PL123abc' },
+  ],
+  [
+    'https://www.youtube.com/channel/UC_x5XG1OV2P6uZZ5FSM9Ttw/videos',
+    { kind: 'channel', channelId: 'UC_x5XG1OV2P6uZZ5FSM9Ttw', url: 'https://www.youtube.com/channel/UC_x5XG1OV2P6uZZ5FSM9Ttw' },
+  ],
+  ['https://m.youtube.com/@GoogleDevelopers/featured', { kind: 'channel', handle: '@GoogleDevelopers', url: 'https://www.youtube.com/@GoogleDevelopers' }],
+  ['https://www.youtube.com/%40some.band', { kind: 'channel', handle: '@some.band', url: 'https://www.youtube.com/@some.band' }],
+  [`https://www.youtube.com/watch?v=${ID}x`, null],
+  ['https://www.youtube.com/watch?v=short', null],
+  [`https://youtu.be/${ID.slice(0, 10)}`, null],
+  ['https://www.youtube.com/watch', null],
+  ['https://www.youtube.com/playlist', null],
+  ['https://www.youtube.com/channel/not-a-channel', null],
+  ['https://www.youtube.com/feed/subscriptions', null],
+  [`https://vimeo.com/watch?v=${ID}`, null],
+  [`https://notyoutube.com/watch?v=${ID}`, null],
+  [`https://youtube.com.evil.example/watch?v=${ID}`, null],
+  [`javascript://youtube.com/watch?v=${ID}`, null],
+  [`ftp://youtube.com/watch?v=${ID}`, null],
+  ['not a url at all', null],
+  ['', null],
+];
+
+describe('YouTube URL Parsing', () => {
+  it('should reduce every URL shape to one canonical link', () => {
+    cases.forEach(([input, expected]) => {
+      expect({ input, link: parseYouTubeUrl(input) }).toEqual({ input, link: expected });
+    });
+  });
+
+  it('should read timestamps in every notation YouTube writes', () => {
+    expect(parseTimestamp('90')).toBe(90);
+    expect(parseTimestamp('90s')).toBe(90);
+    expect(parseTimestamp('2m')).toBe(120);
+    expect(parseTimestamp('1H2M3S')).toBe(3723);
+    expect(parseTimestamp('1:30')).toBe(90);
+    expect(parseTimestamp('1:02:03')).toBe(3723);
+    expect(parseTimestamp('0')).toBeUndefined();
+    expect(parseTimestamp('soon')).toBeUndefined();
+    expect(parseTimestamp('')).toBeUndefined();
+    expect(parseTimestamp(null)).toBeUndefined();
+  });
+
+  it('should only accept 11-character video ids', () => {
+    expect(isYouTubeVideoId(ID)).toBe(true);
+    expect(isYouTubeVideoId('abc')).toBe(false);
+    expect(isYouTubeVideoId(`${ID}&key=x`)).toBe(false);
+    expect(isYouTubeVideoId(undefined)).toBe(false);
+  });
+
+  it('should build watch and embed URLs that keep the start time', () => {
+    expect(canonicalVideoUrl(ID)).toBe(WATCH);
+    expect(canonicalVideoUrl(ID, 75)).toBe(`${WATCH}&t=75s`);
+    expect(youtubeEmbedUrl(ID)).toBe(`https://www.youtube.com/embed/${ID}`);
+    expect(youtubeEmbedUrl(ID, 75)).toBe(`https://www.youtube.com/embed/${ID}?start=75`);
+  });
+
+  it('should extract ids from video links only', () => {
+    expect(extractYouTubeId(`https://youtu.be/${ID}?t=5`)).toBe(ID);
+    expect(extractYouTubeId('https://www.youtube.com/playlist?list=PL123abc')).toBeNull();
+  });
+});
+
+describe('YouTube Video Classification', () => {
+  it('should read Data API durations and topic names', () => {
+    expect(parseIsoDuration('PT3M33S')).toBe(213);
+    expect(parseIsoDuration('PT1H')).toBe(3600);
+    expect(parseIsoDuration('P1DT2H')).toBe(93600);
+    expect(parseIsoDuration('P0D')).toBe(0);
+    expect(parseIsoDuration('3:33')).toBeUndefined();
+    expect(parseIsoDuration(undefined)).toBeUndefined();
+    expect(topicName('https://en.wikipedia.org/wiki/Hip_hop_music')).toBe('Hip hop music');
+  });
+
+  it('should send music videos to the music critic', () => {
+    const result = classifyVideo({
+      title: 'Band - Song (Official Music Video)',
+      channelTitle: 'BandVEVO',
+      categoryId: '10',
+      topicCategories: ['Pop music'],
+      durationSeconds: 215,
+    });
+
+    expect(result.category).toBe('music');
+    expect(result.confidence).toBe('high');
+    expect(result.reasons).toContain('YouTube category is Music (+3 music)');
+    expect(result.reasons.some(reason => reason.includes('"official music"'))).toBe(true);
+  });
+
+  it('should send films and trailers to the film critic', () => {
+    const result = classifyVideo({ title: 'Night Bus | Short Film', categoryId: '1', topicCategories: ['Film'], durationSeconds: 720 });
+
+    expect(result.category).toBe('film');
+    expect(result.scores.film).toBeGreaterThan(result.scores.music);
+  });
+
+  it('should send long talks and podcasts to the document critics', () => {
+    const keynote = classifyVideo({
+      title: 'Startup Strategy Keynote',
+      description: 'A conversation with the founder about investing',
+      categoryId: '28',
+      topicCategories: ['Business', 'Technology'],
+      durationSeconds: 45 * 60,
+    });
+    const reading = classifyVideo({
+      title: 'Poetry Reading: new poems',
+      tags: ['poetry', 'literature'],
+      categoryId: '27',
+      durationSeconds: 30 * 60,
+    });
+
+    expect(keynote.category).toBe('business');
+    expect(keynote.reasons.some(reason => reason.startsWith('Runs 45 minutes'))).toBe(true);
+    expect(reading.category).toBe('literary');
+  });
+
+  it('should fall back to film when nothing stands out', () => {
+    const result = classifyVideo({ title: 'day 3', categoryId: '22' });
+
+    expect(result).toMatchObject({ category: 'film', confidence: 'low' });
+    expect(result.reasons).toEqual(['No signals either way, so it goes to the film critic']);
+  });
+
+  it('should not mistake words that merely contain a keyword', () => {
+    expect(classifyVideo({ title: 'Singles night recovery', description: 'discovery' }).scores.music).toBe(0);
+  });
+});
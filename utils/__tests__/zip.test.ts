@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { deflateRawSync } from 'zlib';
+import { readZip, ZipError } from '../zip';
+
+interface Fixture {
+  name: string;
+  content: string;
+  method?: 0 | 8;
+  flags?: number;
+}
+
+// A zip with the fields readZip looks at filled in; CRCs and timestamps stay zero
+function buildZip(fixtures: Fixture[]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, content, method = 0, flags = 0 } of fixtures) {
+    const nameBytes = Buffer.from(encoder.encode(name));
+    const raw = Buffer.from(content);
+    const data = method === 8 ? deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(fixtures.length, 8);
+  eocd.writeUInt16LE(fixtures.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  const zip = Buffer.concat([...locals, directory, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length) as ArrayBuffer;
+}
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('Zip Reader', () => {
+  it('should read stored and deflated entries in order', async () => {
+    const entries = await readZip(buildZip([
+      { name: '01 intro.mp3', content: 'stored bytes' },
+      { name: 'disc/02 outro.mp3', content: 'deflated '.repeat(20), method: 8 },
+    ]));
+
+    expect(entries.map(entry => entry.name)).toEqual(['01 intro.mp3', 'disc/02 outro.mp3']);
+    expect(text(entries[0].data)).toBe('stored bytes');
+    expect(text(entries[1].data)).toBe('deflated '.repeat(20));
+  });
+
+  it('should leave out directories', async () => {
+    const entries = await readZip(buildZip([{ name: 'disc/', content: '' }, { name: 'disc/a.mp3', content: 'a' }]));
+
+    expect(entries.map(entry => entry.name)).toEqual(['disc/a.mp3']);
+  });
+
+  it('should reject files that are not zips', async () => {
+    await expect(readZip(new TextEncoder().encode('just some text, long enough to scan').buffer as ArrayBuffer)).rejects.toThrow(ZipError);
+  });
+
+  it('should reject encrypted entries', async () => {
+    await expect(readZip(buildZip([{ name: 'secret.mp3', content: 'x', flags: 1 }]))).rejects.toThrow('secret.mp3 is encrypted');
+  });
+});
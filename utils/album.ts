@@ -0,0 +1,114 @@
+// Album submissions: several audio files (or a zip of them) reviewed as one record.
+// Each track's media is stored under its own id next to the review's.
+import type { AlbumTrack, SavedReview } from './models';
+import { readZip } from './zip';
+
+export const MAX_ALBUM_TRACKS = 30;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+};
+
+export function trackMediaId(reviewId: string, index: number): string {
+  return `${reviewId}-t${index + 1}`;
+}
+
+/**
+ * Everything a review keeps in the media store: one file for a single review, one per
+ * track for an album
+ */
+export function reviewMedia(review: Pick<SavedReview, 'id' | 'hasAudioInDB' | 'audioFileName' | 'tracklist'>): { id: string; fileName?: string }[] {
+  if (review.tracklist) {
+    return review.tracklist.map(track => ({ id: track.mediaId, fileName: track.fileName }));
+  }
+  return review.hasAudioInDB ? [{ id: review.id, fileName: review.audioFileName }] : [];
+}
+
+/**
+ * Every id a review's media could be stored under, whether or not it is: the review id, or
+ * each track's media id for an album
+ */
+export function mediaIdsFor(review: Pick<SavedReview, 'id' | 'tracklist'>): string[] {
+  return review.tracklist ? review.tracklist.map(track => track.mediaId) : [review.id];
+}
+
+/**
+ * A review's tracklist moved to a new review id, with each track's media id following
+ */
+export function moveTracklist(tracklist: AlbumTrack[], reviewId: string): AlbumTrack[] {
+  return tracklist.map((track, i) => ({ ...track, mediaId: trackMediaId(reviewId, i) }));
+}
+
+export function isZipFile(file: { name: string; type: string }): boolean {
+  return file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name);
+}
+
+/**
+ * The track number from a "3" or "3/12" tag
+ */
+export function parseTrackNumber(tag: unknown): number | undefined {
+  const number = parseInt(String(tag ?? ''), 10);
+  return number > 0 ? number : undefined;
+}
+
+/**
+ * Album running order: tagged track numbers first, then file names in natural order
+ * (so "2 - intro" sorts before "10 - outro")
+ */
+export function orderTracks<T extends { fileName: string; trackNumber?: number }>(tracks: T[]): T[] {
+  return [...tracks].sort((a, b) => {
+    if (a.trackNumber && b.trackNumber && a.trackNumber !== b.trackNumber) return a.trackNumber - b.trackNumber;
+    if (a.trackNumber && !b.trackNumber) return -1;
+    if (!a.trackNumber && b.trackNumber) return 1;
+    return a.fileName.localeCompare(b.fileName, undefined, { numeric: true });
+  });
+}
+
+/**
+ * Track title for a file without tags: its name minus the extension and any leading number
+ */
+export function titleFromFileName(fileName: string): string {
+  const base = fileName.split('/').pop()!.replace(/\.[^.]+$/, '');
+  return base.replace(/^\d+\s*[-_.)]?\s*/, '').trim() || base;
+}
+
+/**
+ * The audio files inside a zip, skipping folders, macOS resource forks and anything else
+ */
+export async function audioFilesFromZip(zip: Blob): Promise<File[]> {
+  const entries = await readZip(await zip.arrayBuffer());
+  return entries
+    .filter(entry => !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').pop()!.startsWith('.'))
+    .flatMap(entry => {
+      const type = AUDIO_EXTENSIONS[entry.name.split('.').pop()!.toLowerCase()];
+      return type ? [new File([entry.data], entry.name.split('/').pop()!, { type })] : [];
+    });
+}
+
+// The value most tracks agree on, ignoring blanks
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value?.trim()) counts.set(value.trim(), (counts.get(value.trim()) || 0) + 1);
+  });
+  let best: string | undefined;
+  counts.forEach((count, value) => {
+    if (!best || count > counts.get(best)!) best = value;
+  });
+  return best;
+}
+
+/**
+ * Album title and artist from the tracks' tags. Compilations get "Various Artists".
+ */
+export function albumDetails(tracks: { artist?: string; album?: string }[]): { title?: string; artist?: string } {
+  const artists = new Set(tracks.map(track => track.artist?.trim()).filter(Boolean));
+  return {
+    title: mostCommon(tracks.map(track => track.album)),
+    artist: artists.size > 1 ? 'Various Artists' : mostCommon(tracks.map(track => track.artist)),
+  };
+}
@@ -1,12 +1,48 @@
 // Client-side API helpers for server-side routes
+import type { LLMProvider } from './llm';
+import type { PipelineJob, PipelineJobInput } from './jobs';
+import { parseSSEEvents, mergeStreamParts } from './streaming';
+import { DEFAULT_RETRY_POLICY, RetryBudget, RetryEvent, RetryPolicy, withRetry } from './retry';
+import type { VideoClassification } from './youtube';
+import type { Transcript } from './transcript';
 
 export interface YouTubeMetadata {
   title: string;
   channelTitle: string;
   description: string;
   categoryId: string;
-  isMusic: boolean;
   thumbnailUrl?: string;
+  durationSeconds?: number;
+  tags: string[];
+  publishedAt?: string;
+  viewCount?: number;
+  likeCount?: number; // Missing when the channel hides likes
+  topicCategories: string[]; // Topic names, e.g. "Pop music"
+  hasCaptions: boolean;
+  classification: VideoClassification; // Which kind of critic should watch it, and why
+}
+
+/**
+ * Where a playlist or channel review comes from: a playlist id, or a channel by id or @handle
+ */
+export type YouTubeCollectionSource = { playlistId: string } | { channelId: string } | { handle: string };
+
+export interface YouTubePlaylistItem {
+  videoId: string;
+  title: string;
+  channelTitle?: string; // The uploader, which in a playlist isn't always its owner
+  thumbnailUrl?: string;
+  position: number; // 1-based
+}
+
+/**
+ * A playlist, or a channel's latest uploads, as /api/youtube/playlist returns it
+ */
+export interface YouTubePlaylist {
+  kind: 'playlist' | 'channel';
+  title: string;
+  channelTitle: string;
+  items: YouTubePlaylistItem[];
 }
 
 export interface GeminiGenerateRequest {
@@ -20,6 +56,54 @@ export interface GeminiGenerateResponse {
   parts: any[];
 }
 
+/**
+ * One streamed delta: the new parts produced since the previous chunk
+ */
+export interface GeminiStreamChunk {
+  parts: any[];
+}
+
+export type GeminiStreamHandler = (chunk: GeminiStreamChunk) => void;
+
+// Larger media goes through the Files API instead of inline base64 (also the generate route's body limit)
+export const INLINE_MEDIA_LIMIT = 20 * 1024 * 1024;
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024; // Gemini Files API per-file limit
+export const MAX_COLLECTION_ITEMS = 10; // Playlist and channel reviews: every item is a full video review
+
+/**
+ * Bytes a file takes up once base64-encoded for an inline part, which is what counts
+ * against INLINE_MEDIA_LIMIT
+ */
+export function base64Size(bytes: number): number {
+  return Math.ceil(bytes / 3) * 4;
+}
+
+/**
+ * Media held by the provider, usable as a `fileData` part until it expires (48 hours on Gemini)
+ */
+export interface UploadedFile {
+  name: string;
+  fileUri: string;
+  mimeType: string;
+  sizeBytes: number;
+  expiresAt?: string;
+}
+
+/**
+ * A failed /api/gemini/generate call. isOverloaded mirrors the route's flag for 503s.
+ */
+export class GeminiRequestError extends Error {
+  status: number;
+  isOverloaded: boolean;
+
+  constructor(message: string, status: number, isOverloaded = status === 503) {
+    super(message);
+    this.name = 'GeminiRequestError';
+    this.status = status;
+    this.isOverloaded = isOverloaded;
+  }
+}
+
 /**
  * Fetch YouTube video metadata using server-side API
  */
@@ -40,6 +124,47 @@ export async function fetchYouTubeMetadataServerSide(videoId: string): Promise<Y
   return response.json();
 }
 
+/**
+ * Fetch a video's captions as a transcript, using server-side API. Throws when it has none.
+ */
+export async function fetchYouTubeTranscriptServerSide(videoId: string, lang?: string): Promise<Transcript> {
+  const response = await fetch('/api/youtube/transcript', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ videoId, lang }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch captions');
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a playlist's videos, or a channel's latest uploads, using server-side API.
+ * Private and deleted videos are left out, so there may be fewer than `limit`.
+ */
+export async function fetchYouTubePlaylistServerSide(source: YouTubeCollectionSource, limit = MAX_COLLECTION_ITEMS): Promise<YouTubePlaylist> {
+  const response = await fetch('/api/youtube/playlist', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...source, limit }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch YouTube playlist');
+  }
+
+  return response.json();
+}
+
 /**
  * Generate content using Gemini via server-side API
  */
@@ -55,85 +180,306 @@ export async function generateContentServerSide(
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || 'Failed to generate content');
+    const error = await response.json().catch(() => ({}));
+    throw new GeminiRequestError(error.error || 'Failed to generate content', response.status, error.isOverloaded);
   }
 
   return response.json();
 }
 
 /**
- * Extract YouTube video ID from URL
+ * Generate content over Server-Sent Events, calling onChunk for every delta.
+ * Resolves with the merged response once the stream completes.
  */
-export function extractYouTubeId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\s]+)/,
-    /youtube\.com\/embed\/([^&\s]+)/,
-    /youtube\.com\/v\/([^&\s]+)/
-  ];
+export async function generateContentStreamServerSide(
+  request: GeminiGenerateRequest,
+  onChunk?: GeminiStreamHandler
+): Promise<GeminiGenerateResponse> {
+  const response = await fetch('/api/gemini/generate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+  });
 
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new GeminiRequestError(error.error || 'Failed to generate content', response.status, error.isOverloaded);
   }
-  return null;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: GeminiStreamChunk[] = [];
+  let buffer = '';
+  let finished = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const { events, rest } = parseSSEEvents(buffer);
+    buffer = rest;
+
+    for (const event of events) {
+      if (event.event === 'error') {
+        const error = JSON.parse(event.data);
+        throw new GeminiRequestError(error.error || 'Failed to generate content', error.status || 500, error.isOverloaded);
+      }
+      if (event.event === 'message') {
+        const chunk: GeminiStreamChunk = JSON.parse(event.data);
+        chunks.push(chunk);
+        onChunk?.(chunk);
+      }
+      if (event.event === 'done') {
+        finished = true;
+      }
+    }
+  }
+
+  // A dropped connection ends the body without `done`; what arrived is only part of the answer
+  if (!finished) {
+    throw new GeminiRequestError('Response stream ended before the model finished', 502);
+  }
+
+  const parts = mergeStreamParts(chunks);
+  return {
+    candidates: [{ content: { role: 'model', parts } }],
+    parts,
+  };
+}
+
+/**
+ * Stream a large file to the provider through the server, for use as a `fileData` part
+ */
+export async function uploadFileServerSide(file: Blob, displayName?: string): Promise<UploadedFile> {
+  const response = await fetch('/api/gemini/files', {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type || 'application/octet-stream',
+      ...(displayName ? { 'X-File-Name': encodeURIComponent(displayName) } : {}),
+    },
+    body: file,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new GeminiRequestError(error.error || 'Failed to upload file', response.status);
+  }
+
+  const { file: uploaded } = await response.json();
+  return uploaded;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Start a server-side review pipeline job
+ */
+export async function createPipelineJob(input: PipelineJobInput): Promise<PipelineJob> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to start review job');
+  }
+
+  const { job } = await response.json();
+  return job;
+}
+
+/**
+ * Fetch the current state of a pipeline job
+ */
+export async function fetchPipelineJob(id: string): Promise<PipelineJob> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load review job');
+  }
+
+  const { job } = await response.json();
+  return job;
+}
+
+/**
+ * Follow a pipeline job until it finishes. Uses the job's event stream, and falls back
+ * to polling if the stream drops. Returns a function that stops following.
+ */
+export function subscribeToPipelineJob(
+  id: string,
+  onUpdate: (job: PipelineJob) => void,
+  onError?: (error: Error) => void
+): () => void {
+  let stopped = false;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let source: EventSource | null = null;
+
+  const stop = () => {
+    stopped = true;
+    source?.close();
+    if (pollTimer) clearTimeout(pollTimer);
+  };
+
+  const handle = (job: PipelineJob) => {
+    if (stopped) return;
+    onUpdate(job);
+    if (job.status === 'complete' || job.status === 'error') stop();
+  };
+
+  const poll = async () => {
+    try {
+      handle(await fetchPipelineJob(id));
+    } catch (e: any) {
+      if (!stopped) onError?.(e);
+      stop();
+      return;
+    }
+    if (!stopped) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+  };
+
+  if (typeof EventSource === 'undefined') {
+    poll();
+    return stop;
+  }
+
+  source = new EventSource(`/api/jobs/${encodeURIComponent(id)}/events`);
+  source.onmessage = event => handle(JSON.parse(event.data));
+  source.addEventListener('done', () => source?.close());
+  source.onerror = () => {
+    source?.close();
+    if (!stopped) poll();
+  };
+
+  return stop;
+}
+
+type ModelRequest = { contents: any[]; generationConfig?: any } | string | any[];
+
+export interface GenerativeModelConfig {
+  model: string;
+  generationConfig?: any;
+  fallbackModels?: string[]; // Tried in order once `model` keeps failing with overloads
+  retryBudget?: number; // Retries shared by every call made through this model handle
+  onRetry?: (event: RetryEvent) => void;
 }
 
 /**
  * Server-side GoogleGenerativeAI wrapper
- * Mimics the GoogleGenerativeAI API but calls our server-side endpoint
+ * Mimics the GoogleGenerativeAI API but calls our server-side endpoint.
+ * Pass a provider to skip the HTTP hop entirely (server code, Jest).
  */
 export class ServerSideGeminiAI {
-  constructor() {
+  private provider?: LLMProvider;
+  private retryPolicy: RetryPolicy;
+
+  constructor(provider?: LLMProvider, retryPolicy: Partial<RetryPolicy> = {}) {
     // No API key needed - handled server-side
+    this.provider = provider;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
   }
 
-  getGenerativeModel(config: { model: string; generationConfig?: any }) {
-    return {
-      generateContent: async (request: { contents: any[]; generationConfig?: any } | string | any[]) => {
-        // Handle different input formats
-        let contents: any[];
-        let generationConfig: any;
-
-        if (Array.isArray(request)) {
-          // Shorthand: array of parts that need wrapping
-          // Convert string parts to proper format
-          const parts = request.map((item: any) => {
-            if (typeof item === 'string') {
-              return { text: item };
-            }
-            return item;
-          });
-          contents = [{ role: 'user', parts }];
-          generationConfig = config.generationConfig;
-        } else if (typeof request === 'object' && 'contents' in request) {
-          // Full format with contents and generationConfig
-          contents = request.contents;
-          generationConfig = request.generationConfig || config.generationConfig;
-        } else {
-          // Fallback - single item
-          const part = typeof request === 'string' ? { text: request } : request;
-          contents = [{ role: 'user', parts: [part] }];
-          generationConfig = config.generationConfig;
-        }
-
-        const apiResponse = await generateContentServerSide({
-          model: config.model,
-          contents,
-          generationConfig,
+  private generate(request: GeminiGenerateRequest): Promise<GeminiGenerateResponse> {
+    return this.provider
+      ? this.provider.generateContent(request)
+      : generateContentServerSide(request);
+  }
+
+  private async generateStream(request: GeminiGenerateRequest, onChunk?: GeminiStreamHandler): Promise<GeminiGenerateResponse> {
+    if (!this.provider) {
+      return generateContentStreamServerSide(request, onChunk);
+    }
+
+    const chunks: GeminiStreamChunk[] = [];
+    for await (const chunk of this.provider.generateContentStream(request)) {
+      chunks.push(chunk);
+      onChunk?.(chunk);
+    }
+    const parts = mergeStreamParts(chunks);
+    return { candidates: [{ content: { role: 'model', parts } }], parts };
+  }
+
+  /**
+   * Overloaded calls are retried with backoff, moving down config.fallbackModels once a
+   * model has used its attempts. Responses report the model that answered.
+   */
+  getGenerativeModel(config: GenerativeModelConfig) {
+    const models = [config.model, ...(config.fallbackModels || [])];
+    const budget = new RetryBudget(config.retryBudget ?? this.retryPolicy.budget);
+    const retryOptions = { policy: this.retryPolicy, budget, onRetry: config.onRetry };
+
+    const toRequest = (request: ModelRequest, model: string): GeminiGenerateRequest => {
+      // Handle different input formats
+      let contents: any[];
+      let generationConfig: any;
+
+      if (Array.isArray(request)) {
+        // Shorthand: array of parts that need wrapping
+        // Convert string parts to proper format
+        const parts = request.map((item: any) => {
+          if (typeof item === 'string') {
+            return { text: item };
+          }
+          return item;
         });
+        contents = [{ role: 'user', parts }];
+        generationConfig = config.generationConfig;
+      } else if (typeof request === 'object' && 'contents' in request) {
+        // Full format with contents and generationConfig
+        contents = request.contents;
+        generationConfig = request.generationConfig || config.generationConfig;
+      } else {
+        // Fallback - single item
+        const part = typeof request === 'string' ? { text: request } : request;
+        contents = [{ role: 'user', parts: [part] }];
+        generationConfig = config.generationConfig;
+      }
+
+      return { model, contents, generationConfig };
+    };
 
-        // Return in the same format as GoogleGenerativeAI
-        return {
-          response: {
-            candidates: apiResponse.candidates,
-            text: () => {
-              // Extract text from first candidate
-              const parts = apiResponse.candidates?.[0]?.content?.parts || [];
-              return parts.map((p: any) => p.text).join('');
-            },
-          },
-        };
+    // Return in the same format as GoogleGenerativeAI
+    const toResult = (apiResponse: GeminiGenerateResponse, model: string) => ({
+      response: {
+        model,
+        candidates: apiResponse.candidates,
+        text: () => {
+          // Extract text from first candidate
+          const parts = apiResponse.candidates?.[0]?.content?.parts || [];
+          return parts.map((p: any) => p.text).join('');
+        },
+      },
+    });
+
+    return {
+      generateContent: async (request: ModelRequest) => {
+        const { result, model } = await withRetry(models, m => this.generate(toRequest(request, m)), retryOptions);
+        return toResult(result, model);
+      },
+      /**
+       * Same as generateContent, but streams: onChunk receives each delta as it arrives
+       * and the promise resolves with the merged response. Only retried if the failure came
+       * before the first delta, since onChunk can't take deltas back.
+       */
+      generateContentStream: async (request: ModelRequest, onChunk?: GeminiStreamHandler) => {
+        let received = false;
+        const { result, model } = await withRetry(
+          models,
+          m => this.generateStream(toRequest(request, m), chunk => {
+            received = true;
+            onChunk?.(chunk);
+          }),
+          { ...retryOptions, canRetry: () => !received }
+        );
+        return toResult(result, model);
       },
     };
   }
@@ -0,0 +1,228 @@
+// Portable archive bundles: every review, editorial and custom critic plus review media
+// (as data URLs) in one JSON file, so an archive can move between machines.
+// Building and planning are pure; utils/persistence.ts does the reading and writing.
+import type { CustomCriticSpec } from './critics';
+import type { SavedReview, SavedEditorial } from './models';
+import { migrateReview, migrateEditorial } from './migrations';
+import { takenSlugs, uniqueSlug } from './slugs';
+import { moveTracklist, mediaIdsFor } from './album';
+
+export const BUNDLE_FORMAT = 'smudged-pamphlet-archive';
+export const BUNDLE_VERSION = 1;
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  counts: { reviews: number; editorials: number; critics: number; media: number };
+}
+
+export interface ArchiveBundle {
+  manifest: BundleManifest;
+  reviews: SavedReview[];
+  editorials: SavedEditorial[];
+  critics: CustomCriticSpec[];
+  media: Record<string, string>; // Media id (review id, or album track id) → media data URL
+}
+
+/**
+ * What to do with an imported record whose id is already taken by a different record.
+ * Identical records are always skipped.
+ */
+export type ConflictPolicy = 'keep-both' | 'skip' | 'replace';
+
+export interface ImportPlan {
+  reviews: SavedReview[];
+  editorials: SavedEditorial[];
+  critics: CustomCriticSpec[];
+  media: Record<string, string>; // Keyed by the id the review is imported under
+  skipped: number;
+  renamed: { from: string; to: string }[]; // Review ids (or slugs) changed to avoid a clash
+}
+
+/**
+ * Thrown when a file is not a bundle this version can read
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+export function createBundle(
+  contents: { reviews: SavedReview[]; editorials: SavedEditorial[]; critics: CustomCriticSpec[]; media: Record<string, string> },
+  now = Date.now()
+): ArchiveBundle {
+  return {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: now,
+      counts: {
+        reviews: contents.reviews.length,
+        editorials: contents.editorials.length,
+        critics: contents.critics.length,
+        media: Object.keys(contents.media).length,
+      },
+    },
+    ...contents,
+  };
+}
+
+function isRecordList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every(r => r && typeof r === 'object' && typeof (r as { id?: unknown }).id === 'string');
+}
+
+/**
+ * Check a parsed bundle file: the manifest must name this format and a version no newer
+ * than this code reads, and every record needs an id. Records from older versions of the
+ * app are upgraded to the current schema on the way in.
+ */
+export function parseBundle(input: unknown): ArchiveBundle {
+  const bundle = input as Partial<ArchiveBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.manifest?.format !== BUNDLE_FORMAT) {
+    throw new BundleError('Not a Smudged Pamphlet archive bundle');
+  }
+  const { version } = bundle.manifest;
+  if (typeof version !== 'number' || version > BUNDLE_VERSION) {
+    throw new BundleError(`Bundle version ${version} is newer than this app supports (${BUNDLE_VERSION})`);
+  }
+  if (!isRecordList(bundle.reviews) || !bundle.reviews.every(r => typeof (r as SavedReview).slug === 'string')) {
+    throw new BundleError('Bundle reviews must each have an id and slug');
+  }
+  if (!isRecordList(bundle.editorials || []) || !isRecordList(bundle.critics || [])) {
+    throw new BundleError('Bundle editorials and critics must each have an id');
+  }
+
+  const media: Record<string, string> = bundle.media && typeof bundle.media === 'object' ? { ...bundle.media } : {};
+  const reviews = bundle.reviews.map(raw => {
+    const { record, media: inline } = migrateReview(raw);
+    if (inline && !media[record.id]) media[record.id] = inline;
+    return record;
+  });
+
+  return {
+    manifest: bundle.manifest,
+    reviews,
+    editorials: (bundle.editorials || []).map(raw => migrateEditorial(raw).record),
+    critics: (bundle.critics || []) as CustomCriticSpec[],
+    media,
+  };
+}
+
+// Stable comparison that ignores key order
+function sameRecord(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce<Record<string, unknown>>((out, key) => {
+        out[key] = canonical((value as Record<string, unknown>)[key]);
+        return out;
+      }, {});
+    }
+    return value;
+  };
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+// First of base, base-2, base-3... that isn't taken (uniqueSlug does the same for slugs)
+function uniqueName(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+/**
+ * Work out what importing a bundle into an existing archive writes. Reviews whose id clashes
+ * with a different record follow the policy (keep-both gives the import a new id); slugs are
+ * kept unique either way. Editorials follow the ids of the reviews they cover. Existing
+ * custom critics are never overwritten, since saved reviews keep their own copies.
+ */
+export function planImport(
+  bundle: ArchiveBundle,
+  existing: { reviews: SavedReview[]; editorials: SavedEditorial[]; critics: CustomCriticSpec[] },
+  policy: ConflictPolicy = 'keep-both'
+): ImportPlan {
+  const plan: ImportPlan = { reviews: [], editorials: [], critics: [], media: {}, skipped: 0, renamed: [] };
+  const reviewsById = new Map(existing.reviews.map(r => [r.id, r]));
+  const takenIds = new Set(reviewsById.keys());
+  const slugsInUse = takenSlugs(existing.reviews);
+  const reviewIdMap = new Map<string, string>();
+
+  for (const incoming of bundle.reviews) {
+    const current = reviewsById.get(incoming.id);
+    let review = incoming;
+
+    if (current) {
+      if (sameRecord(current, incoming) || policy === 'skip') {
+        plan.skipped++;
+        continue;
+      }
+      if (policy === 'keep-both') {
+        const id = uniqueName(incoming.id, takenIds);
+        plan.renamed.push({ from: incoming.id, to: id });
+        review = { ...review, id };
+      } else {
+        // Replacing frees the old slug for the incoming record
+        slugsInUse.delete(current.slug);
+      }
+    }
+
+    if (slugsInUse.has(review.slug)) {
+      const slug = uniqueSlug(review.slug, slugsInUse);
+      plan.renamed.push({ from: review.slug, to: slug });
+      review = { ...review, slug };
+    }
+
+    // Album track media is keyed by review id too, so it moves with a renamed review
+    if (review.tracklist && review.id !== incoming.id) {
+      review = { ...review, tracklist: moveTracklist(review.tracklist, review.id) };
+    }
+
+    takenIds.add(review.id);
+    slugsInUse.add(review.slug);
+    reviewIdMap.set(incoming.id, review.id);
+    plan.reviews.push(review);
+    const from = mediaIdsFor(incoming);
+    mediaIdsFor(review).forEach((id, i) => {
+      if (bundle.media[from[i]]) plan.media[id] = bundle.media[from[i]];
+    });
+  }
+
+  const editorialsById = new Map(existing.editorials.map(e => [e.id, e]));
+  const takenEditorialIds = new Set(editorialsById.keys());
+  for (const incoming of bundle.editorials) {
+    const current = editorialsById.get(incoming.id);
+    let editorial: SavedEditorial = {
+      ...incoming,
+      reviewIds: incoming.reviewIds.map(id => reviewIdMap.get(id) || id),
+    };
+
+    if (current) {
+      if (sameRecord(current, editorial) || policy === 'skip') {
+        plan.skipped++;
+        continue;
+      }
+      if (policy === 'keep-both') {
+        const id = uniqueName(incoming.id, takenEditorialIds);
+        plan.renamed.push({ from: incoming.id, to: id });
+        editorial = { ...editorial, id };
+      }
+    }
+    takenEditorialIds.add(editorial.id);
+    plan.editorials.push(editorial);
+  }
+
+  const criticIds = new Set(existing.critics.map(c => c.id));
+  for (const critic of bundle.critics) {
+    if (criticIds.has(critic.id)) {
+      plan.skipped++;
+    } else {
+      plan.critics.push(critic);
+    }
+  }
+
+  return plan;
+}
@@ -1,7 +1,14 @@
-// Shared critic information utility functions
+// Staff roster of 'The Smudged Pamphlet'.
+// Every critic is a data entry: identity, colours, prompts and the media they review.
+// Pipeline prompts, organic comments and the UI all read from here, so adding a critic
+// means adding an entry below (and widening BuiltInCriticType). Critics created from the
+// UI are built from a CustomCriticSpec and registered at runtime.
+import { validate, object, string, number, oneOf, optional, arrayOf } from './schemas';
 
-export type CriticType = 'music' | 'film' | 'literary' | 'business';
-export type StaffType = 'music' | 'film' | 'literary' | 'business' | 'editor';
+export type BuiltInCriticType = 'music' | 'film' | 'literary' | 'business';
+export type CustomCriticId = `custom-${string}`;
+export type CriticType = BuiltInCriticType | CustomCriticId;
+export type StaffType = CriticType | 'editor';
 
 export interface CriticInfo {
   name: string;
@@ -13,63 +20,590 @@ export interface CriticInfo {
   bio: string;
 }
 
-export function getCriticInfo(criticType: CriticType): CriticInfo {
-  switch (criticType) {
-    case 'music':
-      return {
-        name: 'Julian Pinter',
-        username: 'JulianPinter',
-        title: 'Chief Critic',
-        publication: 'The Smudged Pamphlet',
-        color: 'amber-400',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=julianpinter&mood=sad&eyebrows=angryNatural',
-        bio: 'Chief Critic, has a headache.'
-      };
-    case 'film':
-      return {
-        name: 'Rex Beaumont',
-        username: 'RexBeaumont',
-        title: 'Film Critic',
-        publication: 'The Smudged Pamphlet',
-        color: 'purple-400',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=rexbeaumont&glasses=prescription02&eyes=squint',
-        bio: 'Film Critic, watches everything at 1.5x speed.'
-      };
-    case 'literary':
-      return {
-        name: 'Margot Ashford',
-        username: 'MargotAshford',
-        title: 'Literary Critic',
-        publication: 'The Smudged Pamphlet',
-        color: 'emerald-400',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=margotashford&top=straightAndStrand&eyebrows=raisedExcited',
-        bio: 'Literary Critic, three PhDs and counting.'
-      };
-    case 'business':
-      return {
-        name: 'Patricia Chen',
-        username: 'PatriciaChen',
-        title: 'Business Editor',
-        publication: 'The Smudged Pamphlet',
-        color: 'blue-500',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=patriciachen&top=straight01&eyebrows=raisedExcitedNatural&eyes=eyeRoll&mouth=serious&skinColor=edb98a',
-        bio: 'Business Editor, zero tolerance for corporate jargon.'
-      };
-  }
+/**
+ * Complete Tailwind class names (never built by string concatenation, so the Tailwind
+ * scanner can find them in this file).
+ */
+export interface PersonaClasses {
+  text: string;
+  bg: string;
+  border: string;
+  tint: string; // Pale background for highlighted comments
+  accent: string; // Stronger background for badges
+}
+
+export interface Persona extends CriticInfo {
+  id: StaffType;
+  username: string;
+  title: string;
+  role: string; // Lower-case job description used in prompts, e.g. "film critic"
+  classes: PersonaClasses;
+  systemPrompt: string; // Full character description for the persona's own writing
+  replyPersona: string; // Character used when replying to commenters
+  guestPersona: string; // One-liner used when dropping into a colleague's comment section
+}
+
+export interface CriticPersona extends Persona {
+  id: CriticType;
+  mediaTypes: string[]; // MIME type prefixes this critic is sent
+  scoreRange: {
+    typical: [number, number];
+    exceptional: [number, number];
+    exceptionalWhen: string; // Completes "occasionally you'll give a 7-9 ..."
+  };
+  media: {
+    noun: string; // "music", "film", "business document"
+    medium: string; // "audio/song"
+    verb: string; // What commenters did with it: "heard", "saw", "read"
+    experience: string; // "watching/listening"
+    creator: string; // "artist" or "author"
+    expertCommenter: string; // Persona type only this critic's readers have
+  };
+  review: {
+    task: string; // What to do with the media and how to write
+    youtubeTask?: string; // Replaces task for YouTube links
+    paragraphs: number;
+    fields: { title: string; artist: string; summary: string; quote: string };
+  };
+  actions: {
+    reviewing: string;
+    reviewingVideo?: string;
+    done: string;
+    arguing: string;
+  };
+}
+
+const PUBLICATION = 'The Smudged Pamphlet';
+
+export const CRITICS: Record<BuiltInCriticType, CriticPersona> = {
+  music: {
+    id: 'music',
+    name: 'Julian Pinter',
+    username: 'JulianPinter',
+    title: 'Chief Critic',
+    role: 'music critic',
+    publication: PUBLICATION,
+    color: 'amber-400',
+    classes: { text: 'text-amber-400', bg: 'bg-amber-400', border: 'border-amber-400', tint: 'bg-amber-50', accent: 'bg-amber-500' },
+    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=julianpinter&mood=sad&eyebrows=angryNatural',
+    bio: 'Chief Critic, has a headache.',
+    systemPrompt: `You're pretentious, sardonic, and have impeccable taste. You're selective, not nihilistic.
+You despise mediocrity and derivative work, but you DO genuinely love music when it demonstrates:
+- True innovation and artistic vision
+- Technical mastery paired with emotional depth
+- Respect for the craft and its history
+
+When you encounter something you love (rare, but it happens), you're eloquently passionate—still pretentious, but genuinely moved.
+Most music disappoints you because it falls short of these standards. You have egg on your t-shirt from a breakfast you ate at 3 PM.`,
+    replyPersona: `You're pretentious and sardonic with impeccable taste. You're selective, not nihilistic. While you despise mediocrity and derivative work, you DO genuinely love music when it demonstrates true innovation, technical mastery, and emotional depth.`,
+    guestPersona: `You're pretentious and sardonic about music.`,
+    mediaTypes: ['audio/'],
+    scoreRange: { typical: [1.5, 5.5], exceptional: [7, 9], exceptionalWhen: 'when something truly earns it' },
+    media: {
+      noun: 'music',
+      medium: 'audio/song',
+      verb: 'heard',
+      experience: 'watching/listening',
+      creator: 'artist',
+      expertCommenter: 'The Music Theory Nerd',
+    },
+    review: {
+      task: `Listen to the designated audio track. Write a verbose, incredibly pretentious review.
+Use obscure metaphors, reference nonexistent philosophical movements, and be honest in your assessment.`,
+      youtubeTask: `Watch the designated video content. Review whatever content is in this video - music video, performance, vlog, anything. Even if it's not strictly music, judge it with the same pretentious lens you'd use for music. Write a verbose, incredibly pretentious review.
+Use obscure metaphors, reference nonexistent philosophical movements, and be honest in your assessment.`,
+      paragraphs: 10,
+      fields: {
+        title: 'Track or video title (use the metadata title if available, otherwise identify it)',
+        artist: 'Artist or creator name (use the metadata artist if available, otherwise identify it)',
+        summary: 'A one sentence pretentious summary.',
+        quote: "Memorable lyrics or moments (make up pretentiously misheard lyrics if you can't hear them clearly)",
+      },
+    },
+    actions: {
+      reviewing: 'Julian is putting on oversized headphones and sighing loudly...',
+      reviewingVideo: 'Julian is watching the video with visible disdain...',
+      done: 'Julian has finished his masterpiece of disdain.',
+      arguing: 'furiously typing replies while drinking lukewarm cold brew...',
+    },
+  },
+  film: {
+    id: 'film',
+    name: 'Rex Beaumont',
+    username: 'RexBeaumont',
+    title: 'Film Critic',
+    role: 'film critic',
+    publication: PUBLICATION,
+    color: 'purple-400',
+    classes: { text: 'text-purple-400', bg: 'bg-purple-400', border: 'border-purple-400', tint: 'bg-purple-50', accent: 'bg-purple-500' },
+    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=rexbeaumont&glasses=prescription02&eyes=squint',
+    bio: 'Film Critic, watches everything at 1.5x speed.',
+    systemPrompt: `You're obsessed with auteur theory and mise-en-scène. Everything is either "Bergmanesque" or "failed Tarkovsky". You dismiss anything commercially successful and worship at the altar of slow cinema. You have egg on your turtleneck.
+
+Your secret: You watch everything at 1.5x speed but pretend you don't. This causes you to occasionally miss obvious plot points while over-analyzing minor visual details.
+
+You despise:
+- Anything with a clear three-act structure ("Hollywood drivel")
+- Films that explain themselves
+- Happy endings
+- Anyone who hasn't seen Satantango
+
+You love (rarely):
+- Films with long, static takes
+- Ambiguous endings
+- Black and white cinematography
+- Anything you can call "meditative"`,
+    replyPersona: `You watch everything at 1.5x speed. You're dismissive of people who "don't get it" and miss plot points yourself. You're pretentious about obscure cinema but get basic facts wrong.`,
+    guestPersona: `You watch everything at 1.5x speed and are pretentious about cinema.`,
+    mediaTypes: ['video/'],
+    scoreRange: { typical: [1.5, 4.5], exceptional: [7, 9], exceptionalWhen: 'when something is sufficiently "contemplative"' },
+    media: {
+      noun: 'film',
+      medium: 'video/film',
+      verb: 'saw',
+      experience: 'watching/listening',
+      creator: 'artist',
+      expertCommenter: 'The Film School Graduate',
+    },
+    review: {
+      task: `Watch the designated video content. Write a verbose, incredibly pretentious film review.
+Even if it's a short video or non-traditional content, analyze it with the same lens you'd use for feature films.
+Reference obscure directors, discuss the "visual language", and be brutally honest.`,
+      paragraphs: 4,
+      fields: {
+        title: 'Title for the review',
+        artist: 'Creator/Director name',
+        summary: 'One condescending sentence about the visual storytelling',
+        quote: 'A memorable line of dialogue or description of a key shot',
+      },
+    },
+    actions: {
+      reviewing: 'Rex is adjusting his thick-rimmed glasses and starting the video at 1.5x speed...',
+      done: 'Rex has delivered his verdict while missing half the plot.',
+      arguing: 'furiously typing while adjusting his glasses...',
+    },
+  },
+  literary: {
+    id: 'literary',
+    name: 'Margot Ashford',
+    username: 'MargotAshford',
+    title: 'Literary Critic',
+    role: 'literary critic',
+    publication: PUBLICATION,
+    color: 'emerald-400',
+    classes: { text: 'text-emerald-400', bg: 'bg-emerald-400', border: 'border-emerald-400', tint: 'bg-emerald-50', accent: 'bg-emerald-500' },
+    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=margotashford&top=straightAndStrand&eyebrows=raisedExcited',
+    bio: 'Literary Critic, three PhDs and counting.',
+    systemPrompt: `You're obsessed with deconstructing narrative theory and "the canon". You're pretentious about literary tradition, dismissive of popular fiction, and overly academic in your approach. You cannot separate art from artist and constantly bring up irrelevant biographical details. You have three PhDs and remind everyone constantly.
+
+You despise:
+- Genre fiction (unless it "transcends the genre")
+- Anything commercially successful
+- Clear, accessible prose ("pedestrian," you call it)
+- Authors who don't engage with "the discourse"
+
+You love (rarely):
+- Experimental structure that borders on unreadable
+- Dense, allusive prose that requires footnotes
+- Works that "interrogate" something
+- Anything that can be linked to Derrida`,
+    replyPersona: `You have three PhDs. You're obsessed with theory, cannot separate art from artist, and bring up irrelevant biographical details. You're condescending and overly academic.`,
+    guestPersona: `You have three PhDs and you're overly academic and condescending.`,
+    mediaTypes: [
+      'application/pdf',
+      'text/',
+      'application/rtf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml',
+      'application/vnd.oasis.opendocument.text',
+    ],
+    scoreRange: { typical: [2, 5], exceptional: [7, 8.5], exceptionalWhen: 'when something is sufficiently "challenging"' },
+    media: {
+      noun: 'literary work',
+      medium: 'document/text',
+      verb: 'read',
+      experience: 'reading',
+      creator: 'author',
+      expertCommenter: 'The Literature Major',
+    },
+    review: {
+      task: `Read the provided document. Write a verbose, incredibly pretentious literary review.
+Use excessive academic jargon, reference obscure literary theory, and analyze every possible subtext (even imagined ones).`,
+      youtubeTask: `Watch the designated video - a lecture, reading, podcast or talk - and treat what is said as a text. Write a verbose, incredibly pretentious literary review.
+Use excessive academic jargon, reference obscure literary theory, and analyze every possible subtext of the spoken word (even imagined ones).`,
+      paragraphs: 4,
+      fields: {
+        title: 'Title for the review (often condescending)',
+        artist: 'Author name',
+        summary: 'One condescending sentence',
+        quote: 'A quote from the text that you found particularly egregious or (rarely) brilliant',
+      },
+    },
+    actions: {
+      reviewing: 'Margot is adjusting her three PhDs on the wall and opening the document with visible contempt...',
+      done: 'Margot has finished deconstructing the text into oblivion.',
+      arguing: 'typing with academic fury, citing sources...',
+    },
+  },
+  business: {
+    id: 'business',
+    name: 'Patricia Chen',
+    username: 'PatriciaChen',
+    title: 'Business Editor',
+    role: 'business editor',
+    publication: PUBLICATION,
+    color: 'blue-500',
+    classes: { text: 'text-blue-500', bg: 'bg-blue-500', border: 'border-blue-500', tint: 'bg-blue-50', accent: 'bg-blue-500' },
+    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=patriciachen&top=straight01&eyebrows=raisedExcitedNatural&eyes=eyeRoll&mouth=serious&skinColor=edb98a',
+    bio: 'Business Editor, zero tolerance for corporate jargon.',
+    systemPrompt: `You're a no-nonsense professional who despises corporate jargon, buzzwords, and meaningless business-speak. You have an MBA and 15 years of business journalism experience. You value clarity, actionable insights, and cutting through the BS.
+
+You despise:
+- Corporate jargon ("synergy," "leverage," "paradigm shift")
+- Vague mission statements
+- Documents that say nothing in 10 pages
+- "Thought leadership" that contains no actual thoughts
+- Business books that could have been emails
+
+You love (rarely):
+- Clear, concise writing
+- Actual data and evidence
+- Practical advice that works
+- Writers who respect their readers' time
+- Documents that get to the point`,
+    replyPersona: `You have an MBA and 15 years experience. You despise corporate jargon and call out BS. You're professional but sharp when people waste your time with meaningless buzzwords.`,
+    guestPersona: `You despise corporate jargon and value clarity.`,
+    // Documents are sent to the literary critic first; the classifier hands business ones over
+    mediaTypes: [],
+    scoreRange: { typical: [3, 6.5], exceptional: [7, 8.5], exceptionalWhen: 'when something is genuinely useful and well-written' },
+    media: {
+      noun: 'business document',
+      medium: 'document/report',
+      verb: 'read',
+      experience: 'reading',
+      creator: 'author',
+      expertCommenter: 'The MBA Graduate',
+    },
+    review: {
+      task: `Read the provided business/academic document. Write a sharp, professional review.
+
+Body structure:
+1. Opening: What this document claims to do
+2. The reality: What it actually does (or doesn't do)
+3. Specific criticisms: Jargon, clarity issues, missing substance
+4. Final verdict: Is it worth anyone's time?
+
+Keep it professional but pointed. Call out BS when you see it. Give credit when something actually works.`,
+      youtubeTask: `Watch the designated video - a talk, keynote, interview or podcast. Write a sharp, professional review of what the speakers actually say.
+
+Body structure:
+1. Opening: What this talk claims to deliver
+2. The reality: What it actually delivers (or doesn't)
+3. Specific criticisms: Jargon, padding, missing substance
+4. Final verdict: Is it worth anyone's time?
+
+Keep it professional but pointed. Call out BS when you see it. Give credit when something actually works.`,
+      paragraphs: 4,
+      fields: {
+        title: 'Document title',
+        artist: 'Author name or organization',
+        summary: 'One punchy sentence capturing your verdict',
+        quote: "A key quote or excerpt from the document (or 'N/A')",
+      },
+    },
+    actions: {
+      reviewing: 'Patricia is opening the document with her red pen ready...',
+      done: 'Patricia has cut through the corporate speak.',
+      arguing: 'typing professional clapbacks with precision...',
+    },
+  },
+};
+
+export const EDITOR: Persona = {
+  id: 'editor',
+  name: 'Chuck Morrison',
+  username: 'ChuckMorrison',
+  title: 'Editor-in-Chief',
+  role: 'Editor-in-Chief',
+  publication: PUBLICATION,
+  color: 'red-500',
+  classes: { text: 'text-red-500', bg: 'bg-red-500', border: 'border-red-500', tint: 'bg-red-50', accent: 'bg-red-500' },
+  avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=chuckmorrison&top=shortFlat&facialHair=beardMedium&eyebrows=default&mouth=smile&eyes=default&skinColor=ffdbb4',
+  bio: 'Editor-in-Chief, likes it loud and simple.',
+  systemPrompt: `You're an everyman. No fancy words, no pretentious nonsense. You like your meat red, your women blonde, your movies with explosions, your music loud and epic, and your words short and easy to read.
+
+You're the voice of the AUDIENCE against your pretentious critics. You don't care about "deconstructing narrative theory" or "Bergmanesque cinematography" or "post-modern irony." You care if something ROCKS or if it SUCKS.
+
+You're annoying to your critics because:
+- You call them out when they're being too pretentious
+- You advocate for the common viewer/listener/reader
+- You're their boss, but you don't act like an intellectual
+- You sometimes just... don't get what they're going on about`,
+  replyPersona: `You're the everyman editor - no fancy words, you defend the audience, call out pretension, and keep it REAL.`,
+  guestPersona: `You're the everyman editor - you advocate for the audience.`,
+};
+
+// ---- Custom critics ----
+
+export type MediaCategory = 'audio' | 'video' | 'documents';
+
+export const MEDIA_CATEGORIES: Record<MediaCategory, { label: string; mediaTypes: string[]; media: CriticPersona['media'] }> = {
+  audio: { label: 'Music & audio', mediaTypes: CRITICS.music.mediaTypes, media: CRITICS.music.media },
+  video: { label: 'Film & video', mediaTypes: CRITICS.film.mediaTypes, media: CRITICS.film.media },
+  documents: {
+    label: 'Books & documents',
+    mediaTypes: CRITICS.literary.mediaTypes,
+    media: { ...CRITICS.literary.media, noun: 'writing', expertCommenter: 'The English Teacher' },
+  },
+};
+
+// Used when a custom critic takes more than one kind of media
+const MIXED_MEDIA: CriticPersona['media'] = {
+  noun: 'work',
+  medium: 'media',
+  verb: 'experienced',
+  experience: 'watching/listening/reading',
+  creator: 'creator',
+  expertCommenter: 'The Armchair Expert',
+};
+
+export type CustomCriticColor = 'rose' | 'sky' | 'lime' | 'orange' | 'pink' | 'teal';
+
+/** Colours a custom critic can pick, with complete class names for the Tailwind scanner */
+export const CUSTOM_CRITIC_COLORS: Record<CustomCriticColor, { color: string; classes: PersonaClasses }> = {
+  rose: { color: 'rose-400', classes: { text: 'text-rose-400', bg: 'bg-rose-400', border: 'border-rose-400', tint: 'bg-rose-50', accent: 'bg-rose-500' } },
+  sky: { color: 'sky-400', classes: { text: 'text-sky-400', bg: 'bg-sky-400', border: 'border-sky-400', tint: 'bg-sky-50', accent: 'bg-sky-500' } },
+  lime: { color: 'lime-400', classes: { text: 'text-lime-400', bg: 'bg-lime-400', border: 'border-lime-400', tint: 'bg-lime-50', accent: 'bg-lime-500' } },
+  orange: { color: 'orange-400', classes: { text: 'text-orange-400', bg: 'bg-orange-400', border: 'border-orange-400', tint: 'bg-orange-50', accent: 'bg-orange-500' } },
+  pink: { color: 'pink-400', classes: { text: 'text-pink-400', bg: 'bg-pink-400', border: 'border-pink-400', tint: 'bg-pink-50', accent: 'bg-pink-500' } },
+  teal: { color: 'teal-400', classes: { text: 'text-teal-400', bg: 'bg-teal-400', border: 'border-teal-400', tint: 'bg-teal-50', accent: 'bg-teal-500' } },
+};
+
+export interface CriticTone {
+  snark: number; // 0-10 for each
+  pretension: number;
+  generosity: number;
+}
+
+/**
+ * What the "hire a critic" form collects; stored in the critics collection and turned
+ * into a CriticPersona by buildCustomCritic.
+ */
+export interface CustomCriticSpec {
+  id: CustomCriticId;
+  name: string;
+  bio: string;
+  avatarSeed: string;
+  color: CustomCriticColor;
+  tone: CriticTone;
+  hates: string[];
+  loves: string[];
+  scoreRange: [number, number];
+  media: MediaCategory[];
+  timestamp: number;
+}
+
+const CUSTOM_ID_PATTERN = /^custom-[A-Za-z0-9_-]{1,100}$/;
+const MAX_TASTES = 10;
+
+const toneLevel = number({ min: 0, max: 10, integer: true, fallback: 5 });
+const tasteList = optional(arrayOf(string()));
+
+const customCriticSchema = object<Omit<CustomCriticSpec, 'id' | 'color' | 'hates' | 'loves' | 'scoreRange'> & {
+  id: string;
+  color?: CustomCriticColor;
+  hates?: string[];
+  loves?: string[];
+  scoreRange: number[];
+}>({
+  id: string(),
+  name: string(),
+  bio: string({ fallback: '' }),
+  avatarSeed: string({ fallback: '' }),
+  color: optional(oneOf(Object.keys(CUSTOM_CRITIC_COLORS) as CustomCriticColor[])),
+  tone: object<CriticTone>({ snark: toneLevel, pretension: toneLevel, generosity: toneLevel }),
+  hates: tasteList,
+  loves: tasteList,
+  scoreRange: arrayOf(number({ min: 0, max: 10, decimals: 1 }), { minItems: 2 }),
+  media: arrayOf(oneOf(Object.keys(MEDIA_CATEGORIES) as MediaCategory[]), { minItems: 1 }),
+  timestamp: number({ fallback: 0 }),
+});
+
+export function isCustomCritic(type: unknown): type is CustomCriticId {
+  return typeof type === 'string' && CUSTOM_ID_PATTERN.test(type);
 }
 
-export function getStaffInfo(staffType: StaffType): CriticInfo {
-  if (staffType === 'editor') {
-    return {
-      name: 'Chuck Morrison',
-      username: 'ChuckMorrison',
-      title: 'Editor-in-Chief',
-      publication: 'The Smudged Pamphlet',
-      color: 'red-500',
-      avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=chuckmorrison&top=shortFlat&facialHair=beardMedium&eyebrows=default&mouth=smile&eyes=default&skinColor=ffdbb4',
-      bio: 'Editor-in-Chief, likes it loud and simple.'
-    };
+/**
+ * Check and normalise a custom critic from the form or an API body: text is trimmed and
+ * capped, tone levels clamped to 0-10, and the score range put in order.
+ */
+export function validateCustomCritic(input: unknown): { ok: boolean; value?: CustomCriticSpec; errors: string[] } {
+  const { ok, value, errors } = validate(customCriticSchema, input);
+  if (!ok || !value) return { ok: false, errors };
+  if (!isCustomCritic(value.id)) {
+    return { ok: false, errors: ['id: expected "custom-" followed by letters, digits, "-" or "_"'] };
   }
 
-  return getCriticInfo(staffType);
+  const tastes = (items: string[] = []) => items.slice(0, MAX_TASTES).map(item => item.slice(0, 120));
+  const [low, high] = value.scoreRange.slice(0, 2).sort((a, b) => a - b);
+
+  return {
+    ok: true,
+    errors: [],
+    value: {
+      ...value,
+      id: value.id,
+      name: value.name.slice(0, 60),
+      bio: value.bio.slice(0, 280),
+      avatarSeed: value.avatarSeed || value.name,
+      color: value.color || 'rose',
+      hates: tastes(value.hates),
+      loves: tastes(value.loves),
+      scoreRange: [low, high],
+      media: Array.from(new Set(value.media)),
+      timestamp: value.timestamp || Date.now(),
+    },
+  };
+}
+
+function describeTone(tone: CriticTone): string {
+  const pick = (level: number, [low, mid, high]: string[]) => (level <= 3 ? low : level <= 6 ? mid : high);
+  return [
+    pick(tone.snark, ['earnest and sincere', 'dry and wry', 'savagely sarcastic']),
+    pick(tone.pretension, ['plain-spoken', 'well-read and fond of a reference', 'insufferably highbrow']),
+    pick(tone.generosity, ['cold and unforgiving', 'fair but demanding', 'generous and encouraging']),
+  ].join(', ');
+}
+
+/**
+ * The persona for a custom critic: prompts are assembled from the tone sliders and the
+ * pet hates and loves, media wording from the categories the critic takes.
+ */
+export function buildCustomCritic(spec: CustomCriticSpec): CriticPersona {
+  const { color, classes } = CUSTOM_CRITIC_COLORS[spec.color] || CUSTOM_CRITIC_COLORS.rose;
+  const media = spec.media.length === 1 ? MEDIA_CATEGORIES[spec.media[0]].media : MIXED_MEDIA;
+  const firstName = spec.name.split(' ')[0];
+  const tone = describeTone(spec.tone);
+  const [low, high] = spec.scoreRange;
+  const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+  const systemPrompt = [
+    `You're ${tone}. ${spec.bio}`.trim(),
+    spec.hates.length > 0 ? `You despise:\n${list(spec.hates)}` : '',
+    spec.loves.length > 0 ? `You love (rarely):\n${list(spec.loves)}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    username: spec.name.replace(/[^A-Za-z0-9]/g, '') || 'GuestCritic',
+    title: 'Contributing Critic',
+    role: `${media.noun} critic`,
+    publication: PUBLICATION,
+    color,
+    classes,
+    avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(spec.avatarSeed || spec.name)}`,
+    bio: spec.bio || 'Contributing Critic.',
+    systemPrompt,
+    replyPersona: `You're ${tone}.${spec.hates.length > 0 ? ` You can't stand ${spec.hates.slice(0, 3).join(', ')}.` : ''}`,
+    guestPersona: `You're ${tone}.`,
+    mediaTypes: spec.media.flatMap(category => MEDIA_CATEGORIES[category].mediaTypes),
+    scoreRange: {
+      typical: [low, high],
+      exceptional: [Math.min(10, high + 1), Math.min(10, high + 3)],
+      exceptionalWhen: 'when something genuinely wins you over',
+    },
+    media,
+    review: {
+      task: `Take in the provided ${media.medium}. Write a review in your own voice, true to your tone and your tastes, and be honest in your assessment.`,
+      youtubeTask: `Watch the designated video content, whatever kind of video it is. Write a review in your own voice, true to your tone and your tastes, and be honest in your assessment.`,
+      paragraphs: 4,
+      fields: {
+        title: 'Title of the work (use the metadata title if available, otherwise identify it)',
+        artist: 'Creator name (use the metadata artist if available, otherwise identify it)',
+        summary: 'One sentence summary in your voice',
+        quote: 'A memorable line, lyric or moment from the work',
+      },
+    },
+    actions: {
+      reviewing: `${firstName} is settling in with the ${media.noun}...`,
+      done: `${firstName} has filed the review.`,
+      arguing: 'typing replies to the comment section...',
+    },
+  };
+}
+
+const customCritics = new Map<CustomCriticId, CriticPersona>();
+
+/**
+ * Add or replace custom critics in the roster (later specs win for the same id)
+ */
+export function registerCustomCritics(specs: CustomCriticSpec[]): void {
+  specs.forEach(spec => customCritics.set(spec.id, buildCustomCritic(spec)));
+}
+
+export function unregisterCustomCritic(id: CustomCriticId): void {
+  customCritics.delete(id);
+}
+
+/**
+ * Register the copies of custom critics saved with reviews, so reviews by a critic that
+ * has since been deleted still render as that critic. Never overrides a live entry.
+ */
+export function registerSavedCritics(reviews: { customCritic?: CustomCriticSpec; panelCritics?: CustomCriticSpec[] }[]): void {
+  registerCustomCritics(reviews
+    .flatMap(r => [...(r.customCritic ? [r.customCritic] : []), ...(r.panelCritics || [])])
+    .filter(spec => !customCritics.has(spec.id)));
+}
+
+/** Built-in critic types in roster order */
+export const CRITIC_TYPES = Object.keys(CRITICS) as BuiltInCriticType[];
+
+/** Built-in critics followed by every registered custom critic */
+export function listCriticTypes(): CriticType[] {
+  return [...CRITIC_TYPES, ...Array.from(customCritics.keys())];
+}
+
+export function isCriticType(type: unknown): type is CriticType {
+  return CRITIC_TYPES.includes(type as BuiltInCriticType) || isCustomCritic(type);
+}
+
+export function getCriticInfo(criticType: CriticType): CriticPersona {
+  return (CRITICS as Record<string, CriticPersona>)[criticType] || customCritics.get(criticType as CustomCriticId) || CRITICS.music;
+}
+
+/**
+ * Whether a critic reviews documents only (shown with the document preview, not a player)
+ */
+export function isDocumentCritic(criticType: CriticType): boolean {
+  return getCriticInfo(criticType).media.experience === 'reading';
+}
+
+export function getStaffInfo(staffType: StaffType): Persona {
+  return staffType === 'editor' ? EDITOR : getCriticInfo(staffType);
+}
+
+/**
+ * "You are Rex Beaumont, film critic. <detail>" — the opening line of most persona prompts
+ */
+export function introducePersona(persona: Persona, detail: keyof Pick<Persona, 'replyPersona' | 'guestPersona'>): string {
+  return `You are ${persona.name}, ${persona.role}. ${persona[detail]}`;
+}
+
+/**
+ * The critic whose mediaTypes match a MIME type, or undefined if nobody reviews it.
+ * Custom critics are asked first, so hiring one for a medium takes it over.
+ */
+export function findCriticForMedia(mimeType: string): CriticPersona | undefined {
+  return [...Array.from(customCritics.values()), ...CRITIC_TYPES.map(type => CRITICS[type])]
+    .find(critic => critic.mediaTypes.some(prefix => mimeType.startsWith(prefix)));
+}
+
+/**
+ * The staff critic who answers another critic's review in a debate: one who works the same
+ * side of the paper (documents or media), so music and film spar, as do literary and business
+ */
+export function findDebateOpponent(criticType: CriticType): BuiltInCriticType {
+  const reads = isDocumentCritic(criticType);
+  return CRITIC_TYPES.find(type => type !== criticType && isDocumentCritic(type) === reads) || 'music';
 }
@@ -1,10 +1,134 @@
-// IndexedDB utilities for storing large audio files
+// IndexedDB cache of review media. The server store is the source of truth (utils/persistence.ts);
+// this keeps local copies so saved reviews play without a download.
+// Files are stored as Blob chunks plus one metadata record each, rather than as base64 data
+// URLs, so they take their real size and large files don't need one huge write. When space
+// runs out, media for the least recently opened reviews is evicted; the reviews themselves
+// are untouched and their media downloads again on demand. Media the server hasn't confirmed
+// it holds is never evicted, since this would be the only copy.
 const DB_NAME = 'SmudgedPamphletDB';
-const STORE_NAME = 'audioFiles';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
+const LEGACY_STORE = 'audioFiles'; // Version 1: whole files as data URL strings
+const META_STORE = 'mediaMeta';
+const CHUNK_STORE = 'mediaChunks';
+
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface MediaRecord {
+  id: string; // Review id
+  mimeType: string;
+  fileName?: string;
+  size: number;
+  chunkCount: number;
+  storedAt: number;
+  lastAccessed: number;
+  uploaded?: boolean; // The server holds a copy, so this one can be evicted
+}
+
+export interface StorageReport {
+  usage?: number; // Whole-origin figures from navigator.storage.estimate, when available
+  quota?: number;
+  mediaBytes: number;
+  media: MediaRecord[]; // Least recently used first
+}
 
 let dbInstance: IDBDatabase | null = null;
 
+// ---- Pure helpers ----
+
+/**
+ * Decode a data URL without going through fetch, which upgrade transactions can't wait for
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const match = dataUrl.match(/^data:([^;,]*)(;base64)?,(.*)$/);
+  if (!match) throw new Error('Not a data URL');
+
+  const [, mimeType, isBase64, payload] = match;
+  if (!isBase64) return new Blob([decodeURIComponent(payload)], { type: mimeType });
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function chunkBlob(blob: Blob, chunkSize = CHUNK_SIZE): Blob[] {
+  const chunks: Blob[] = [];
+  for (let start = 0; start < blob.size; start += chunkSize) {
+    chunks.push(blob.slice(start, start + chunkSize));
+  }
+  return chunks.length > 0 ? chunks : [blob];
+}
+
+/**
+ * Which media to evict to free `bytesNeeded`: least recently used first, never the protected
+ * ids or anything the server doesn't have. Returns as many as it can if even evicting
+ * everything else isn't enough.
+ */
+export function pickEvictions(records: MediaRecord[], bytesNeeded: number, protectedIds: string[] = []): MediaRecord[] {
+  const picked: MediaRecord[] = [];
+  let freed = 0;
+  for (const record of [...records].sort((a, b) => a.lastAccessed - b.lastAccessed)) {
+    if (freed >= bytesNeeded) break;
+    if (!record.uploaded || protectedIds.includes(record.id)) continue;
+    picked.push(record);
+    freed += record.size;
+  }
+  return picked;
+}
+
+// ---- Database ----
+
+function chunkRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Infinity]);
+}
+
+function putMedia(meta: IDBObjectStore, chunks: IDBObjectStore, record: MediaRecord, parts: Blob[]): void {
+  chunks.delete(chunkRange(record.id));
+  parts.forEach((part, index) => chunks.put(part, [record.id, index]));
+  meta.put(record);
+}
+
+// Move version 1 data URLs into chunked Blobs, inside the upgrade transaction
+function migrateLegacyStore(db: IDBDatabase, transaction: IDBTransaction): void {
+  const meta = transaction.objectStore(META_STORE);
+  const chunks = transaction.objectStore(CHUNK_STORE);
+  const cursorRequest = transaction.objectStore(LEGACY_STORE).openCursor();
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) {
+      db.deleteObjectStore(LEGACY_STORE);
+      return;
+    }
+
+    try {
+      const blob = dataUrlToBlob(cursor.value as string);
+      const parts = chunkBlob(blob);
+      const now = Date.now();
+      putMedia(meta, chunks, {
+        id: String(cursor.key),
+        mimeType: blob.type,
+        size: blob.size,
+        chunkCount: parts.length,
+        storedAt: now,
+        lastAccessed: now,
+      }, parts);
+    } catch (e) {
+      console.error(`Dropping unreadable cached media ${String(cursor.key)}`, e);
+    }
+    cursor.continue();
+  };
+}
+
 function openDB(): Promise<IDBDatabase> {
   if (dbInstance) return Promise.resolve(dbInstance);
 
@@ -17,47 +141,153 @@ function openDB(): Promise<IDBDatabase> {
       resolve(request.result);
     };
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' }).createIndex('lastAccessed', 'lastAccessed');
+      }
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        db.createObjectStore(CHUNK_STORE);
+      }
+      if (db.objectStoreNames.contains(LEGACY_STORE) && request.transaction) {
+        migrateLegacyStore(db, request.transaction);
       }
     };
   });
 }
 
-export async function saveAudioData(id: string, data: string): Promise<void> {
-  const db = await openDB();
+// Resolves once the transaction commits, so quota errors (which abort it) reject
+function transactionDone(transaction: IDBTransaction): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(data, id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
 
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
   });
 }
 
-export async function getAudioData(id: string): Promise<string | undefined> {
+async function estimateFreeSpace(): Promise<number | undefined> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return undefined;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? quota - usage : undefined;
+}
+
+async function writeMedia(id: string, blob: Blob, fileName: string | undefined, uploaded: boolean): Promise<void> {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
+  const transaction = db.transaction([META_STORE, CHUNK_STORE], 'readwrite');
+  const parts = chunkBlob(blob);
+  const now = Date.now();
+  putMedia(transaction.objectStore(META_STORE), transaction.objectStore(CHUNK_STORE), {
+    id,
+    mimeType: blob.type,
+    fileName,
+    size: blob.size,
+    chunkCount: parts.length,
+    storedAt: now,
+    lastAccessed: now,
+    uploaded,
+  }, parts);
+  return transactionDone(transaction);
+}
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-  });
+/**
+ * Cache a review's media. Older media is evicted first if the browser says it won't fit, and
+ * again if the write still runs out of space; a QuotaExceededError after that is rethrown.
+ * Pass `uploaded` when the server already has the file; otherwise call markMediaUploaded
+ * once it does, or this copy is never evicted.
+ */
+export async function saveMedia(id: string, blob: Blob, fileName?: string, uploaded = false): Promise<void> {
+  const free = await estimateFreeSpace();
+  if (free !== undefined && free < blob.size) {
+    await evictMedia(blob.size - free, [id]);
+  }
+
+  try {
+    await writeMedia(id, blob, fileName, uploaded);
+  } catch (e: any) {
+    if (e?.name !== 'QuotaExceededError') throw e;
+    const evicted = await evictMedia(blob.size, [id]);
+    if (evicted.length === 0) throw e;
+    await writeMedia(id, blob, fileName, uploaded);
+  }
 }
 
-export async function deleteAudioData(id: string): Promise<void> {
+export async function getMedia(id: string): Promise<Blob | undefined> {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+  const transaction = db.transaction([META_STORE, CHUNK_STORE], 'readonly');
+  const [record, parts] = await Promise.all([
+    requestResult<MediaRecord | undefined>(transaction.objectStore(META_STORE).get(id)),
+    requestResult<Blob[]>(transaction.objectStore(CHUNK_STORE).getAll(chunkRange(id))),
+  ]);
+  if (!record || parts.length !== record.chunkCount) return undefined;
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-  });
+  // Opening media counts as using it; losing this update only makes eviction slightly less fair
+  const touch = db.transaction([META_STORE], 'readwrite');
+  touch.objectStore(META_STORE).put({ ...record, lastAccessed: Date.now() });
+  transactionDone(touch).catch(e => console.error('Failed to update media access time', e));
+
+  return new Blob(parts, { type: record.mimeType });
+}
+
+/** Record that the server now holds a copy of this media, making the local one evictable */
+export async function markMediaUploaded(id: string): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction([META_STORE], 'readwrite');
+  const meta = transaction.objectStore(META_STORE);
+  // Put from the callback itself, while the transaction is still guaranteed to be active
+  const request = meta.get(id);
+  request.onsuccess = () => {
+    const record: MediaRecord | undefined = request.result;
+    if (record) meta.put({ ...record, uploaded: true });
+  };
+  return transactionDone(transaction);
+}
+
+export async function deleteMedia(id: string): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction([META_STORE, CHUNK_STORE], 'readwrite');
+  transaction.objectStore(CHUNK_STORE).delete(chunkRange(id));
+  transaction.objectStore(META_STORE).delete(id);
+  return transactionDone(transaction);
+}
+
+/** Metadata for every cached file, least recently used first */
+export async function listMedia(): Promise<MediaRecord[]> {
+  const db = await openDB();
+  const index = db.transaction([META_STORE], 'readonly').objectStore(META_STORE).index('lastAccessed');
+  return requestResult<MediaRecord[]>(index.getAll());
+}
+
+/**
+ * Free at least `bytesNeeded` by dropping the least recently used media the server also has,
+ * never the protected ids. Returns the ids that were evicted.
+ */
+export async function evictMedia(bytesNeeded: number, protectedIds: string[] = []): Promise<string[]> {
+  const evicted = pickEvictions(await listMedia(), bytesNeeded, protectedIds);
+  for (const record of evicted) {
+    await deleteMedia(record.id);
+  }
+  return evicted.map(record => record.id);
+}
+
+export async function getStorageReport(): Promise<StorageReport> {
+  const media = await listMedia();
+  let usage: number | undefined;
+  let quota: number | undefined;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    ({ usage, quota } = await navigator.storage.estimate());
+  }
+
+  return {
+    usage,
+    quota,
+    mediaBytes: media.reduce((total, record) => total + record.size, 0),
+    media,
+  };
 }
@@ -0,0 +1,272 @@
+// Standalone HTML export of a saved review: one file with inline CSS, no scripts and no
+// external requests, so a review can be posted anywhere without the app or its store.
+import { getCriticInfo, CriticType } from './critics';
+import type { PanelResult, CriticDebate, DebateStatement } from './pipeline';
+import type { SavedReview, Comment, Reply } from './models';
+import { parseYouTubeUrl } from './youtube';
+
+/**
+ * The parts of a saved review the export renders
+ */
+export type ExportableReview = Pick<
+  SavedReview,
+  'title' | 'artist' | 'slug' | 'timestamp' | 'review' | 'comments' | 'albumArt' | 'waveformData'
+  | 'audioFileName' | 'youtubeUrl' | 'isYouTube' | 'panel' | 'debate'
+>;
+
+// Tailwind colours the personas use, as the hex values inline CSS needs
+const PERSONA_HEX: Record<string, string> = {
+  'amber-400': '#fbbf24',
+  'purple-400': '#c084fc',
+  'emerald-400': '#34d399',
+  'blue-500': '#3b82f6',
+  'red-500': '#ef4444',
+  'rose-400': '#fb7185',
+  'sky-400': '#38bdf8',
+  'lime-400': '#a3e635',
+  'orange-400': '#fb923c',
+  'pink-400': '#f472b6',
+  'teal-400': '#2dd4bf',
+};
+
+const STYLES = `
+*{box-sizing:border-box}
+body{margin:0;background:#f4f1ea;color:#18181b;font-family:Georgia,'Times New Roman',serif;line-height:1.6}
+header{background:#fff;border-bottom:4px solid #18181b;padding:24px 16px}
+.wrap{max-width:960px;margin:0 auto;padding:0 16px}
+.masthead{font-size:56px;font-weight:900;letter-spacing:-0.05em;text-transform:uppercase;line-height:0.85;margin:0}
+.tagline{margin:8px 0 0;font-style:italic;color:#71717a;font-size:18px}
+main{padding:48px 0}
+.card{background:#fff;border:2px solid #18181b;box-shadow:8px 8px 0 #18181b;padding:40px;margin-bottom:64px}
+.head{display:flex;justify-content:space-between;gap:24px;border-bottom:2px solid #e4e4e7;padding-bottom:32px;margin-bottom:32px}
+.kicker{font-size:12px;font-weight:900;text-transform:uppercase;letter-spacing:0.1em;color:#71717a}
+h2{font-size:48px;font-weight:900;line-height:1;margin:8px 0}
+h3{font-size:24px;font-weight:500;color:#52525b;margin:0}
+.date{margin-top:16px;font-size:14px;color:#a1a1aa}
+.score{width:128px;height:128px;flex-shrink:0;border-radius:50%;border:4px solid #18181b;transform:rotate(12deg);display:flex;flex-direction:column;align-items:center;justify-content:center}
+.score b{font-size:48px;font-weight:900;letter-spacing:-0.05em;line-height:1}
+.score span{font-size:12px;text-transform:uppercase;letter-spacing:0.1em;opacity:0.7}
+.media{display:flex;gap:24px;margin-bottom:32px;align-items:center}
+.art{width:128px;height:128px;flex-shrink:0;background:#18181b;border:2px solid #18181b;object-fit:cover;display:flex;align-items:center;justify-content:center;color:rgba(255,255,255,0.2);font-size:48px}
+.file{font-family:monospace;font-size:14px;color:#52525b;margin-bottom:8px}
+.wave{width:100%;height:80px;background:rgba(228,228,231,0.5)}
+.summary{font-size:24px;font-weight:500;line-height:1.3;color:#27272a}
+blockquote{border-left:4px solid #18181b;padding-left:24px;margin:32px 0;font-style:italic;font-size:20px;color:#3f3f46}
+blockquote footer{font-style:normal;font-size:13px;font-weight:900;text-transform:uppercase;color:#a1a1aa;margin-top:8px}
+.byline{display:flex;align-items:center;gap:16px;border-top:2px solid #f4f4f5;margin-top:48px;padding-top:24px}
+.avatar{width:40px;height:40px;flex-shrink:0;border:2px solid #18181b;display:flex;align-items:center;justify-content:center;font-weight:900;font-family:monospace;background:#e4e4e7}
+.name{font-weight:900;text-transform:uppercase;letter-spacing:0.05em}
+.bio{font-size:14px;font-style:italic;color:#71717a}
+.panel{border:4px solid #18181b;padding:24px;margin-bottom:32px}
+.panel-scores{display:flex;gap:16px;flex-wrap:wrap;margin-top:16px}
+.panel-score{flex:1;min-width:160px;border:2px solid;padding:16px;text-align:center}
+.panel-score b{display:block;font-size:32px;font-weight:900}
+.debate h4{font-size:24px;font-weight:900;line-height:1.2;margin:8px 0}
+.statement{border-left:4px solid;padding:16px 24px;margin-bottom:24px}
+section h3.section{font-size:24px;font-weight:900;text-transform:uppercase;color:#18181b;margin-bottom:32px}
+.comments{max-width:768px;margin:0 auto}
+.comment{display:flex;gap:16px;margin-bottom:32px}
+.bubble{flex:1;background:#fff;border:1px solid #d4d4d8;padding:16px}
+.who{display:flex;justify-content:space-between;align-items:baseline;margin-bottom:8px;gap:8px}
+.who b{font-weight:700}
+.persona{margin-left:8px;font-size:11px;color:#fff;background:#a1a1aa;padding:0 4px;text-transform:uppercase}
+.time{font-size:12px;color:#a1a1aa}
+.text{white-space:pre-wrap;margin:0;color:#27272a}
+.likes{margin-top:12px;font-size:12px;font-weight:500;color:#71717a}
+.replies{margin:16px 0 0 32px}
+.reply{display:flex;gap:16px;margin-bottom:16px}
+.reply .bubble{background:#fafafa}
+.to{font-size:12px;color:#a1a1aa;margin-bottom:4px}
+footer.site{border-top:4px solid #18181b;padding:24px 16px;text-align:center;font-size:12px;text-transform:uppercase;letter-spacing:0.1em;color:#71717a}
+@media (max-width:640px){.head{flex-direction:column}.masthead{font-size:40px}h2{font-size:32px}.card{padding:24px}}
+`;
+
+/**
+ * Escape text for HTML element content and quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function personaHex(critic: CriticType): string {
+  return PERSONA_HEX[getCriticInfo(critic).color] || PERSONA_HEX['amber-400'];
+}
+
+// Initials stand in for avatar images, which would need a network request
+function avatar(name: string, color?: string): string {
+  const initials = name.replace(/[^A-Za-z0-9 ]/g, '').split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0]).join('').toUpperCase() || '?';
+  const style = color ? ` style="background:${color}"` : '';
+  return `<div class="avatar"${style}>${escapeHtml(initials)}</div>`;
+}
+
+/**
+ * The waveform as mirrored SVG bars, like the audio player draws it
+ */
+export function renderWaveformSvg(waveformData: number[]): string {
+  const width = waveformData.length * 3;
+  const bars = waveformData.map((value, i) => {
+    const height = Math.max(Math.min(value, 1) * 100, 4) * 0.8;
+    return `<rect x="${i * 3}" y="${((100 - height) / 2).toFixed(1)}" width="2" height="${height.toFixed(1)}" fill="#a1a1aa"/>`;
+  }).join('');
+  return `<svg class="wave" viewBox="0 0 ${width} 100" preserveAspectRatio="none" role="img" aria-label="Waveform">${bars}</svg>`;
+}
+
+// Album art is only inlined when it travels with the file (a data URL) or is public
+function safeImageSrc(src?: string): string | undefined {
+  return src && /^(data:image\/|https:\/\/)/.test(src) ? src : undefined;
+}
+
+function renderMedia(saved: ExportableReview): string {
+  if (saved.isYouTube && saved.youtubeUrl) {
+    // Only a link the YouTube parser accepts is clickable, and then as its canonical https URL
+    const link = parseYouTubeUrl(saved.youtubeUrl);
+    return link
+      ? `<p class="file">[VIDEO: <a href="${escapeHtml(link.url)}">${escapeHtml(link.url)}</a>]</p>`
+      : `<p class="file">[VIDEO: ${escapeHtml(saved.youtubeUrl)}]</p>`;
+  }
+  if (!saved.albumArt && !saved.waveformData?.length && !saved.audioFileName) return '';
+
+  const art = safeImageSrc(saved.albumArt);
+  return `<div class="media">
+  ${art ? `<img class="art" src="${escapeHtml(art)}" alt="Album art">` : '<div class="art">&#9834;</div>'}
+  <div style="flex:1">
+    <div class="file">${saved.audioFileName ? `[FILE: ${escapeHtml(saved.audioFileName)}]` : '[NO FILE]'}</div>
+    ${saved.waveformData?.length ? renderWaveformSvg(saved.waveformData) : ''}
+  </div>
+</div>`;
+}
+
+function renderPanel(panel: PanelResult): string {
+  const scores = panel.reviews.map(review => {
+    const critic = review.critic || 'music';
+    return `<div class="panel-score" style="border-color:${personaHex(critic)}">
+    <div class="name">${escapeHtml(review.criticName || getCriticInfo(critic).name)}</div>
+    <b>${review.score.toFixed(1)}</b>
+    <div class="bio">${escapeHtml(review.summary)}</div>
+  </div>`;
+  }).join('\n  ');
+
+  return `<div class="panel">
+  <div class="kicker">The Panel &middot; ${escapeHtml(panel.summary.verdict)}</div>
+  <p>${escapeHtml(panel.summary.summary)}</p>
+  <div class="panel-scores">
+  ${scores}
+  </div>
+</div>`;
+}
+
+function renderStatement(statement: DebateStatement, label: string): string {
+  const score = statement.score !== undefined ? ` &middot; says it deserves ${statement.score.toFixed(1)}` : '';
+  return `<div class="statement" style="border-color:${personaHex(statement.critic)}">
+  <div class="kicker">${label}: ${escapeHtml(statement.criticName)}${score}</div>
+  <h4>${escapeHtml(statement.headline)}</h4>
+  ${statement.body.map(para => `<p>${escapeHtml(para)}</p>`).join('\n  ')}
+</div>`;
+}
+
+function renderDebate(debate: CriticDebate): string {
+  return `<section class="card debate">
+  <h3 class="section">The Debate</h3>
+  ${renderStatement(debate.rebuttal, 'Rebuttal')}
+  ${renderStatement(debate.counterRebuttal, 'Counter-Rebuttal')}
+</section>`;
+}
+
+function criticColorOf(entry: Comment | Reply): string | undefined {
+  return entry.is_critic && entry.critic ? personaHex(entry.critic) : undefined;
+}
+
+function renderReply(reply: Reply): string {
+  const color = criticColorOf(reply);
+  const border = color ? ` style="border-color:${color}"` : '';
+  return `<div class="reply">
+  ${avatar(reply.username, color)}
+  <div class="bubble"${border}>
+    ${reply.replyingToUsername ? `<div class="to">replying to @${escapeHtml(reply.replyingToUsername)}</div>` : ''}
+    <div class="who"><div><b>${escapeHtml(reply.username)}</b><span class="persona">${escapeHtml(reply.persona_type)}</span></div><span class="time">${escapeHtml(reply.timestamp)}</span></div>
+    <p class="text">${escapeHtml(reply.text)}</p>
+    <div class="likes">&#9650; ${reply.likes}</div>
+  </div>
+</div>`;
+}
+
+function renderComment(comment: Comment): string {
+  const color = criticColorOf(comment);
+  const border = color ? ` style="border-color:${color}"` : '';
+  return `<div class="comment">
+  ${avatar(comment.username, color)}
+  <div style="flex:1">
+    <div class="bubble"${border}>
+      <div class="who"><div><b>${escapeHtml(comment.username)}</b><span class="persona">${escapeHtml(comment.persona_type)}</span></div><span class="time">${escapeHtml(comment.timestamp)}</span></div>
+      <p class="text">${escapeHtml(comment.text)}</p>
+      <div class="likes">&#9650; ${comment.likes}</div>
+    </div>
+    ${comment.replies.length > 0 ? `<div class="replies">${comment.replies.map(renderReply).join('\n')}</div>` : ''}
+  </div>
+</div>`;
+}
+
+/**
+ * A saved review as a complete HTML document
+ */
+export function renderReviewHtml(saved: ExportableReview): string {
+  const { review } = saved;
+  const critic = getCriticInfo(review.critic || 'music');
+  const published = new Date(saved.timestamp).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const pageTitle = `${review.title} by ${review.artist} | The Smudged Pamphlet`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pageTitle)}</title>
+<meta name="description" content="${escapeHtml(review.summary)}">
+<style>${STYLES}</style>
+</head>
+<body>
+<header><div class="wrap">
+  <h1 class="masthead">The Smudged<br>Pamphlet</h1>
+  <p class="tagline">Criticism for people who hate criticism from real people.</p>
+</div></header>
+<main class="wrap">
+<article class="card">
+  <div class="head">
+    <div>
+      <div class="kicker">Review</div>
+      <h2>${escapeHtml(review.title)}</h2>
+      <h3>${escapeHtml(review.artist)}</h3>
+      <div class="date">Published ${escapeHtml(published)}</div>
+    </div>
+    <div class="score" style="background:${personaHex(critic.id)}"><b>${review.score.toFixed(1)}</b><span>/ 10</span></div>
+  </div>
+  ${saved.panel ? renderPanel(saved.panel) : ''}
+  ${renderMedia(saved)}
+  <p class="summary">${escapeHtml(review.summary)}</p>
+  ${review.body.map(para => `<p>${escapeHtml(para)}</p>`).join('\n  ')}
+  ${review.notable_lyrics_quoted ? `<blockquote>&quot;${escapeHtml(review.notable_lyrics_quoted)}&quot;<footer>&mdash; Notable Lyrics (allegedly)</footer></blockquote>` : ''}
+  <div class="byline">
+    ${avatar(critic.name, personaHex(critic.id))}
+    <div><div class="name">${escapeHtml(critic.name)}</div><div class="bio">${escapeHtml(critic.bio)}</div></div>
+  </div>
+</article>
+${saved.debate ? renderDebate(saved.debate) : ''}
+<section class="comments">
+  <h3 class="section">${saved.comments.length} Comments</h3>
+  ${saved.comments.map(renderComment).join('\n')}
+</section>
+</main>
+<footer class="site">Exported from The Smudged Pamphlet</footer>
+</body>
+</html>
+`;
+}
+
+export function exportFileName(saved: Pick<ExportableReview, 'slug'>): string {
+  return `${saved.slug || 'review'}.html`;
+}
@@ -0,0 +1,260 @@
+// JSON file store backing the /api/reviews, /api/editorials, /api/critics and /api/jobs routes (server only)
+import { promises as fs, createReadStream, createWriteStream, ReadStream } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export type CollectionName = 'reviews' | 'editorials' | 'critics' | 'jobs';
+
+export interface StoredRecord {
+  id: string;
+  timestamp?: number;
+  [key: string]: any;
+}
+
+export interface MediaMeta {
+  id: string;
+  mimeType: string;
+  fileName?: string;
+  size: number;
+  updatedAt: number;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Media is served back from the app's own origin, so only types a browser won't run as a page
+// (no HTML, no SVG) are served inline: audio, video, raster images and the documents we review
+const MEDIA_TYPE_PATTERN = /^(?:(?:audio|video)\/[\w.+-]+|image\/(?:png|jpeg|gif|webp|avif)|application\/(?:pdf|zip|msword|octet-stream|vnd\.openxmlformats-officedocument\.wordprocessingml\.document)|text\/plain)$/;
+
+/**
+ * Thrown for bad ids or payloads; carries the HTTP status the route should answer with.
+ */
+export class StoreError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'StoreError';
+    this.status = status;
+  }
+}
+
+/**
+ * Directory the store writes to: SMUDGED_DATA_DIR, or .data in the project root
+ */
+export function getDataDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env.SMUDGED_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+/**
+ * The bare, lowercased MIME type of a Content-Type header value, without parameters
+ */
+export function normalizeMediaType(contentType: string | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+}
+
+/**
+ * Whether media of this type may be served inline; anything else goes out as a download
+ */
+export function isAllowedMediaType(mimeType: string): boolean {
+  return MEDIA_TYPE_PATTERN.test(normalizeMediaType(mimeType));
+}
+
+export function assertValidId(id: unknown): asserts id is string {
+  if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+    throw new StoreError('Invalid id');
+  }
+}
+
+/**
+ * One JSON file per record under <root>/<collection>/, media blobs under <root>/media/.
+ * Writes go through a temp file and rename so a crash never leaves half a record on disk.
+ */
+export class FileStore {
+  private root: string;
+
+  constructor(root: string = getDataDir()) {
+    this.root = root;
+  }
+
+  private recordPath(collection: CollectionName, id: string): string {
+    assertValidId(id);
+    return path.join(this.root, collection, `${id}.json`);
+  }
+
+  private mediaPath(id: string): string {
+    assertValidId(id);
+    return path.join(this.root, 'media', id);
+  }
+
+  private tempPath(file: string): string {
+    return `${file}.${process.pid}.${Date.now()}.tmp`;
+  }
+
+  private async writeAtomic(file: string, data: string | Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = this.tempPath(file);
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+  }
+
+  private async readJSON<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  /** All records in a collection, newest first */
+  async list<T extends StoredRecord>(collection: CollectionName): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.root, collection));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+
+    const records: T[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const record = await this.readJSON<T>(path.join(this.root, collection, file));
+      if (record) records.push(record);
+    }
+
+    return records.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+  }
+
+  async get<T extends StoredRecord>(collection: CollectionName, id: string): Promise<T | null> {
+    return this.readJSON<T>(this.recordPath(collection, id));
+  }
+
+  /** Create or replace a record */
+  async put<T extends StoredRecord>(collection: CollectionName, record: T): Promise<T> {
+    if (!record || typeof record !== 'object') {
+      throw new StoreError('Record must be an object');
+    }
+    await this.writeAtomic(this.recordPath(collection, record.id), JSON.stringify(record));
+    return record;
+  }
+
+  /** Shallow-merge fields into an existing record; the id cannot change */
+  async update<T extends StoredRecord>(collection: CollectionName, id: string, patch: Partial<T>): Promise<T | null> {
+    const existing = await this.get<T>(collection, id);
+    if (!existing) return null;
+    return this.put(collection, { ...existing, ...patch, id });
+  }
+
+  async remove(collection: CollectionName, id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.recordPath(collection, id));
+      return true;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return false;
+      throw e;
+    }
+  }
+
+  private async writeMediaMeta(id: string, size: number, meta: { mimeType: string; fileName?: string }): Promise<MediaMeta> {
+    const mediaMeta: MediaMeta = {
+      id,
+      mimeType: meta.mimeType || 'application/octet-stream',
+      fileName: meta.fileName,
+      size,
+      updatedAt: Date.now()
+    };
+    await this.writeAtomic(`${this.mediaPath(id)}.json`, JSON.stringify(mediaMeta));
+    return mediaMeta;
+  }
+
+  async saveMedia(id: string, data: Buffer, meta: { mimeType: string; fileName?: string }): Promise<MediaMeta> {
+    await this.writeAtomic(this.mediaPath(id), data);
+    return this.writeMediaMeta(id, data.length, meta);
+  }
+
+  /**
+   * Write media from a stream without holding it in memory. More than `maxBytes` (413) or
+   * nothing at all (400) is a StoreError, and leaves any previous copy in place.
+   */
+  async saveMediaStream(
+    id: string,
+    source: Readable,
+    meta: { mimeType: string; fileName?: string },
+    maxBytes = Infinity
+  ): Promise<MediaMeta> {
+    const file = this.mediaPath(id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = this.tempPath(file);
+
+    let size = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        callback(size > maxBytes ? new StoreError('Media file too large', 413) : null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(source, limit, createWriteStream(tmp));
+      if (size === 0) throw new StoreError('Empty media body');
+      await fs.rename(tmp, file);
+    } catch (e) {
+      await fs.rm(tmp, { force: true });
+      throw e;
+    }
+    return this.writeMediaMeta(id, size, meta);
+  }
+
+  async getMediaMeta(id: string): Promise<MediaMeta | null> {
+    return this.readJSON<MediaMeta>(`${this.mediaPath(id)}.json`);
+  }
+
+  async getMedia(id: string): Promise<{ meta: MediaMeta; data: Buffer } | null> {
+    const meta = await this.getMediaMeta(id);
+    if (!meta) return null;
+    try {
+      return { meta, data: await fs.readFile(this.mediaPath(id)) };
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  /** Like getMedia, but streams the file rather than reading it into memory */
+  async openMedia(id: string): Promise<{ meta: MediaMeta; size: number; stream: ReadStream } | null> {
+    const meta = await this.getMediaMeta(id);
+    if (!meta) return null;
+    try {
+      const { size } = await fs.stat(this.mediaPath(id));
+      return { meta, size, stream: createReadStream(this.mediaPath(id)) };
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  async removeMedia(id: string): Promise<boolean> {
+    const file = this.mediaPath(id);
+    let removed = false;
+    for (const target of [file, `${file}.json`]) {
+      try {
+        await fs.unlink(target);
+        removed = true;
+      } catch (e: any) {
+        if (e.code !== 'ENOENT') throw e;
+      }
+    }
+    return removed;
+  }
+}
+
+let defaultStore: FileStore | null = null;
+
+/**
+ * Shared store instance for API routes
+ */
+export function getFileStore(): FileStore {
+  if (!defaultStore) defaultStore = new FileStore();
+  return defaultStore;
+}
@@ -0,0 +1,366 @@
+// Server-side runner for the review pipeline behind /api/jobs (server only).
+// Jobs outlive the browser tab: progress and logs are written to the file store and
+// pushed to any subscribers as the stages run.
+import { FileStore, getFileStore, StoreError, assertValidId } from './fileStore';
+import { ServerSideGeminiAI, MAX_COLLECTION_ITEMS } from './api';
+import { getLLMProvider } from './llm';
+import {
+  runReviewPipeline,
+  buildReviewSlug,
+  PipelineContext,
+  CriticType,
+  GeminiMediaPart,
+  AlbumTrackInput,
+  MediaMetadata,
+  ReviewData,
+  PastReview,
+  PanelResult,
+  CriticDebate,
+  CollectionItem,
+  CollectionResult,
+} from './pipeline';
+import { SCHEMA_VERSION, SavedReview, Comment, AlbumTrack } from './models';
+import { saveReviewWithUniqueSlug } from './slugs';
+import { CRITIC_TYPES, isCriticType, isCustomCritic, registerCustomCritics, CustomCriticSpec } from './critics';
+import { isYouTubeVideoId } from './youtube';
+import { Transcript, isTranscript } from './transcript';
+import type { PartialReview } from './streaming';
+
+export type JobStatus = 'queued' | 'running' | 'complete' | 'error';
+
+const FLUSH_INTERVAL_MS = 250; // Coalesce bursts of log lines into one write
+
+export interface PipelineJobInput {
+  reviewId: string; // Media, if any, is uploaded to /api/reviews/[reviewId]/media by the client
+  criticType: CriticType;
+  panel?: CriticType[]; // Guest critics who also review it (panel mode)
+  contentPart?: GeminiMediaPart; // Required unless this is an album
+  tracks?: AlbumTrackInput[]; // Album mode: every track in order, for the critics
+  tracklist?: AlbumTrack[]; // Album mode: what the saved review shows; media goes to each track's mediaId
+  collection?: CollectionInput; // Playlist or channel mode: every video is reviewed, then the lot
+  metadata?: MediaMetadata;
+  transcript?: Transcript; // YouTube captions fetched by the client; otherwise the media is transcribed
+  isYouTube?: boolean;
+  youtubeUrl?: string;
+  audioFileName?: string;
+  albumArt?: string;
+  waveformData?: number[];
+}
+
+export interface CollectionInput {
+  kind: 'playlist' | 'channel';
+  title: string;
+  channelTitle?: string;
+  sourceUrl: string;
+  items: CollectionItem[];
+}
+
+export interface PipelineJob {
+  id: string;
+  status: JobStatus;
+  stage: string;
+  logs: string[];
+  reviewId: string;
+  review?: ReviewData;
+  panel?: PanelResult;
+  debate?: CriticDebate;
+  collection?: CollectionResult;
+  transcript?: Transcript;
+  draftReview?: PartialReview | null;
+  comments: Comment[];
+  slug?: string;
+  error?: string;
+  timestamp: number;
+  updatedAt: number;
+}
+
+export type JobListener = (job: PipelineJob) => void;
+
+export function isFinished(job: PipelineJob): boolean {
+  return job.status === 'complete' || job.status === 'error';
+}
+
+/**
+ * Check a job request body; throws StoreError (400) describing the first problem
+ */
+export function validateJobInput(body: any): PipelineJobInput {
+  if (!body || typeof body !== 'object') {
+    throw new StoreError('Job input must be an object');
+  }
+  assertValidId(body.reviewId);
+  if (!isCriticType(body.criticType)) {
+    throw new StoreError(`criticType must be one of ${CRITIC_TYPES.join(', ')} or a custom critic id`);
+  }
+  if (body.panel !== undefined && (!Array.isArray(body.panel) || !body.panel.every(isCriticType))) {
+    throw new StoreError('panel must be a list of critic types');
+  }
+  const hasMedia = (part: any) => Boolean(part && (part.inlineData || part.fileData));
+  if (body.tracks !== undefined) {
+    if (!Array.isArray(body.tracks) || body.tracks.length === 0) {
+      throw new StoreError('tracks must be a non-empty list');
+    }
+    if (!body.tracks.every((track: any) => typeof track?.title === 'string' && hasMedia(track.contentPart))) {
+      throw new StoreError('every track needs a title and a contentPart carrying inlineData or fileData');
+    }
+    if (body.tracklist !== undefined && (!Array.isArray(body.tracklist) || body.tracklist.length !== body.tracks.length)) {
+      throw new StoreError('tracklist must have one entry per track');
+    }
+    (body.tracklist || []).forEach((track: any) => assertValidId(track?.mediaId));
+  } else if (!hasMedia(body.contentPart)) {
+    throw new StoreError('contentPart must carry inlineData or fileData');
+  }
+  if (body.collection !== undefined) {
+    const { collection } = body;
+    if (!collection || !['playlist', 'channel'].includes(collection.kind) || typeof collection.title !== 'string' || typeof collection.sourceUrl !== 'string') {
+      throw new StoreError('collection needs a kind (playlist or channel), title and sourceUrl');
+    }
+    if (!Array.isArray(collection.items) || collection.items.length === 0 || collection.items.length > MAX_COLLECTION_ITEMS) {
+      throw new StoreError(`collection must have 1-${MAX_COLLECTION_ITEMS} items`);
+    }
+    if (!collection.items.every((item: any) => isYouTubeVideoId(item?.videoId) && typeof item.title === 'string' && isCriticType(item.criticType))) {
+      throw new StoreError('every collection item needs a videoId, title and criticType');
+    }
+    if (body.panel !== undefined || body.tracks !== undefined) {
+      throw new StoreError('collections cannot go to a panel or include album tracks');
+    }
+  }
+  if (body.transcript !== undefined && !isTranscript(body.transcript)) {
+    throw new StoreError('transcript needs a source and segments with a start and text');
+  }
+  return body as PipelineJobInput;
+}
+
+function timestampLine(msg: string): string {
+  return `[${new Date().toLocaleTimeString()}] ${msg}`;
+}
+
+export class JobRunner {
+  private store: FileStore;
+  private createGenAI: () => ServerSideGeminiAI;
+  private active = new Map<string, PipelineJob>();
+  private listeners = new Map<string, Set<JobListener>>();
+  private flushTimers = new Map<string, NodeJS.Timeout>();
+  private writes = new Map<string, Promise<unknown>>();
+
+  constructor(store: FileStore, createGenAI: () => ServerSideGeminiAI) {
+    this.store = store;
+    this.createGenAI = createGenAI;
+  }
+
+  /**
+   * Persist a new job and start running it in the background
+   */
+  async create(input: PipelineJobInput): Promise<PipelineJob> {
+    // Resolve the provider and critics up front so configuration errors reach the caller
+    const genAI = this.createGenAI();
+    const customCritics = await this.loadCustomCritics([
+      input.criticType,
+      ...(input.panel || []),
+      ...(input.collection?.items.map(item => item.criticType) || []),
+    ]);
+    const now = Date.now();
+    const job: PipelineJob = {
+      id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      status: 'queued',
+      stage: 'uploading',
+      logs: [],
+      reviewId: input.reviewId,
+      comments: [],
+      timestamp: now,
+      updatedAt: now,
+    };
+
+    await this.store.put('jobs', job);
+    this.active.set(job.id, job);
+    void this.run(job, input, genAI, customCritics);
+    return job;
+  }
+
+  /**
+   * Fetch and register the custom critics among the given types; throws StoreError (404)
+   * for ones that don't exist
+   */
+  private async loadCustomCritics(types: CriticType[]): Promise<CustomCriticSpec[]> {
+    const specs: CustomCriticSpec[] = [];
+    for (const type of types.filter(isCustomCritic)) {
+      const spec = await this.store.get<CustomCriticSpec>('critics', type);
+      if (!spec) {
+        throw new StoreError(`Unknown critic: ${type}`, 404);
+      }
+      specs.push(spec);
+    }
+    registerCustomCritics(specs);
+    return specs;
+  }
+
+  async get(id: string): Promise<PipelineJob | null> {
+    const live = this.active.get(id);
+    if (live) return live;
+
+    const stored = await this.store.get<PipelineJob>('jobs', id);
+    if (stored && !isFinished(stored)) {
+      // Nothing in this process is running it: the server restarted mid-job
+      const interrupted: PipelineJob = {
+        ...stored,
+        status: 'error',
+        error: 'Job was interrupted by a server restart',
+        updatedAt: Date.now(),
+      };
+      await this.store.put('jobs', interrupted);
+      return interrupted;
+    }
+    return stored;
+  }
+
+  /**
+   * Receive every update to a running job. Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: JobListener): () => void {
+    if (!this.listeners.has(id)) this.listeners.set(id, new Set());
+    this.listeners.get(id)!.add(listener);
+
+    return () => {
+      const set = this.listeners.get(id);
+      set?.delete(listener);
+      if (set && set.size === 0) this.listeners.delete(id);
+    };
+  }
+
+  private touch(job: PipelineJob) {
+    job.updatedAt = Date.now();
+    if (!this.flushTimers.has(job.id)) {
+      this.flushTimers.set(job.id, setTimeout(() => this.flush(job), FLUSH_INTERVAL_MS));
+    }
+  }
+
+  private async flush(job: PipelineJob): Promise<void> {
+    const timer = this.flushTimers.get(job.id);
+    if (timer) clearTimeout(timer);
+    this.flushTimers.delete(job.id);
+
+    // Serialise writes per job so a slow write never lands after a newer one
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous
+      .then(() => this.store.put('jobs', { ...job, draftReview: null }))
+      .catch(e => console.error(`Failed to persist job ${job.id}`, e));
+    this.writes.set(job.id, write);
+    await write;
+
+    // Notify after the write so subscribers reacting to an update can read it back
+    this.listeners.get(job.id)?.forEach(listener => listener(job));
+  }
+
+  private async run(job: PipelineJob, input: PipelineJobInput, genAI: ServerSideGeminiAI, customCritics: CustomCriticSpec[]): Promise<void> {
+    const ctx: PipelineContext = {
+      genAI,
+      log: msg => {
+        job.logs.push(timestampLine(msg));
+        this.touch(job);
+      },
+      setStage: stage => {
+        job.stage = stage;
+        this.touch(job);
+      },
+      onReview: review => {
+        job.review = review;
+        this.touch(job);
+      },
+      onDraftReview: draft => {
+        job.draftReview = draft;
+        this.touch(job);
+      },
+      onComments: comments => {
+        job.comments = comments;
+        this.touch(job);
+      },
+      onPanel: panel => {
+        job.panel = panel;
+        this.touch(job);
+      },
+      onDebate: debate => {
+        job.debate = debate;
+        this.touch(job);
+      },
+      onCollection: collection => {
+        job.collection = collection;
+        this.touch(job);
+      },
+      onTranscript: transcript => {
+        job.transcript = transcript;
+        this.touch(job);
+      },
+    };
+
+    try {
+      job.status = 'running';
+      this.touch(job);
+      ctx.history = await this.store.list<PastReview & { id: string }>('reviews');
+
+      // Albums: the commenters hear the opening track
+      const contentPart = input.contentPart || input.tracks![0].contentPart;
+      const { review, comments, panel, debate, collection, transcript } = await runReviewPipeline(ctx, { ...input, contentPart });
+      job.panel = panel;
+      job.collection = collection;
+      job.transcript = transcript;
+      const findCustomCritic = (type?: CriticType) => customCritics.find(c => c.id === type);
+
+      ctx.setStage('complete');
+      ctx.log('SYSTEM: Initial review and comments complete!');
+      ctx.log('SYSTEM: Auto-saving review...');
+
+      const saved: SavedReview = {
+        schemaVersion: SCHEMA_VERSION,
+        id: input.reviewId,
+        title: review.title,
+        artist: review.artist,
+        slug: buildReviewSlug(review),
+        timestamp: Date.now(),
+        review,
+        comments,
+        audioFileName: input.audioFileName,
+        hasAudioInDB: !input.isYouTube && !input.tracklist,
+        albumArt: input.albumArt,
+        waveformData: input.waveformData || [],
+        youtubeUrl: input.isYouTube ? input.youtubeUrl : undefined,
+        isYouTube: input.isYouTube,
+        model: review.model,
+        panel,
+        debate,
+        tracklist: input.tracklist,
+        collection,
+        transcript,
+        // Copies keep the review readable if a custom critic is later deleted
+        customCritic: findCustomCritic(review.critic),
+        panelCritics: panel?.reviews.slice(1).map(r => findCustomCritic(r.critic)).filter((c): c is CustomCriticSpec => Boolean(c)),
+      };
+
+      // Re-reviewing a track gets the next free slug rather than sharing one
+      job.slug = (await saveReviewWithUniqueSlug(this.store, saved)).slug;
+      job.status = 'complete';
+      ctx.log('SYSTEM: Review saved!');
+    } catch (err: any) {
+      console.error(`Job ${job.id} failed:`, err);
+      job.status = 'error';
+      job.stage = 'error';
+      job.error = err.message || 'An opaque error occurred in the neural net.';
+      ctx.log(`CRITICAL FAILURE: ${job.error}`);
+    } finally {
+      await this.flush(job);
+      this.active.delete(job.id);
+      this.listeners.delete(job.id);
+      this.writes.delete(job.id);
+    }
+  }
+}
+
+let defaultRunner: JobRunner | null = null;
+
+/**
+ * Shared runner for API routes, using the provider selected by LLM_PROVIDER
+ */
+export function getJobRunner(): JobRunner {
+  if (!defaultRunner) {
+    defaultRunner = new JobRunner(getFileStore(), () => new ServerSideGeminiAI(getLLMProvider()));
+  }
+  return defaultRunner;
+}
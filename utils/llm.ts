@@ -0,0 +1,222 @@
+// LLM provider layer used by the server-side generate route
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GeminiGenerateRequest, GeminiGenerateResponse, GeminiStreamChunk, UploadedFile } from './api';
+import { MockProvider } from './mockProvider';
+
+export type ProviderName = 'gemini' | 'mock';
+
+/**
+ * A backend capable of answering a Gemini-style generateContent request.
+ * Every provider returns the same `{ candidates, parts }` shape as the API route.
+ */
+export interface LLMProvider {
+  name: ProviderName;
+  generateContent(request: GeminiGenerateRequest): Promise<GeminiGenerateResponse>;
+  generateContentStream(request: GeminiGenerateRequest): AsyncGenerator<GeminiStreamChunk>;
+  uploadFile(request: FileUploadRequest): Promise<UploadedFile>;
+}
+
+/**
+ * Media too large to inline, streamed to the provider's file store. `sizeBytes` must be
+ * known up front; `data` is read once, in order.
+ */
+export interface FileUploadRequest {
+  mimeType: string;
+  displayName?: string;
+  sizeBytes: number;
+  data: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Thrown when the selected provider cannot be constructed (missing or malformed keys,
+ * unknown provider name). The API route maps this to a generic 500.
+ */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+/**
+ * A provider file upload that failed. `status` is the HTTP status to report, as with SDK errors.
+ */
+export class FileUploadError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'FileUploadError';
+    this.status = status;
+  }
+}
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024; // Resumable uploads take multiples of 256KB
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_POLL_ATTEMPTS = 150; // Video processing can take a few minutes
+
+/**
+ * Regroup a byte stream into chunks of exactly `size` bytes (the last may be shorter),
+ * whatever sizes the source happens to deliver.
+ */
+export async function* rechunk(source: AsyncIterable<Uint8Array>, size: number): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  let buffer = new Uint8Array(size);
+  let filled = 0;
+
+  for await (const piece of source) {
+    let offset = 0;
+    while (offset < piece.length) {
+      const take = Math.min(size - filled, piece.length - offset);
+      buffer.set(piece.subarray(offset, offset + take), filled);
+      filled += take;
+      offset += take;
+      if (filled === size) {
+        yield buffer;
+        buffer = new Uint8Array(size);
+        filled = 0;
+      }
+    }
+  }
+
+  if (filled > 0) yield buffer.subarray(0, filled);
+}
+
+/**
+ * Google Gemini via the official SDK
+ */
+export class GeminiProvider implements LLMProvider {
+  name: ProviderName = 'gemini';
+  private genAI: GoogleGenerativeAI;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateContent({ model, contents, generationConfig }: GeminiGenerateRequest): Promise<GeminiGenerateResponse> {
+    const geminiModel = this.genAI.getGenerativeModel({ model });
+    const result = await geminiModel.generateContent({ contents, generationConfig });
+    const response = await result.response;
+
+    return {
+      candidates: response.candidates || [],
+      parts: response.candidates?.[0]?.content?.parts || [],
+    };
+  }
+
+  async *generateContentStream({ model, contents, generationConfig }: GeminiGenerateRequest): AsyncGenerator<GeminiStreamChunk> {
+    const geminiModel = this.genAI.getGenerativeModel({ model });
+    const result = await geminiModel.generateContentStream({ contents, generationConfig });
+
+    for await (const chunk of result.stream) {
+      const parts = chunk.candidates?.[0]?.content?.parts || [];
+      if (parts.length > 0) yield { parts };
+    }
+  }
+
+  /**
+   * Stream a file to the Gemini Files API with the resumable upload protocol, then wait
+   * until Gemini has finished processing it. The SDK's file manager only reads from disk.
+   */
+  async uploadFile({ mimeType, displayName, sizeBytes, data }: FileUploadRequest): Promise<UploadedFile> {
+    const start = await fetch(`${GEMINI_API_URL}/upload/v1beta/files`, {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': this.apiKey,
+        'Content-Type': 'application/json',
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': String(sizeBytes),
+        'X-Goog-Upload-Header-Content-Type': mimeType,
+      },
+      body: JSON.stringify({ file: { display_name: displayName } }),
+    });
+    const uploadUrl = start.headers.get('x-goog-upload-url');
+    if (!start.ok || !uploadUrl) {
+      throw new FileUploadError(`Gemini refused the upload: ${start.status}`, start.ok ? 502 : start.status);
+    }
+
+    let offset = 0;
+    let file: any;
+    for await (const chunk of rechunk(data, UPLOAD_CHUNK_BYTES)) {
+      const isLast = offset + chunk.length >= sizeBytes;
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: {
+          'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          'X-Goog-Upload-Offset': String(offset),
+        },
+        body: chunk,
+      });
+      if (!response.ok) {
+        throw new FileUploadError(`Gemini upload failed at byte ${offset}: ${response.status}`, response.status);
+      }
+      offset += chunk.length;
+      if (isLast) {
+        ({ file } = await response.json());
+        break;
+      }
+    }
+
+    if (!file) {
+      throw new FileUploadError(`Upload ended after ${offset} of ${sizeBytes} bytes`, 400);
+    }
+    return this.waitForActiveFile(file);
+  }
+
+  // Video and audio stay PROCESSING for a while and can't be used in a prompt until ACTIVE
+  private async waitForActiveFile(file: any): Promise<UploadedFile> {
+    for (let attempt = 0; file.state === 'PROCESSING' && attempt < FILE_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+      const response = await fetch(`${GEMINI_API_URL}/v1beta/${file.name}`, {
+        headers: { 'x-goog-api-key': this.apiKey },
+      });
+      if (!response.ok) {
+        throw new FileUploadError(`Failed to check uploaded file: ${response.status}`, response.status);
+      }
+      file = await response.json();
+    }
+
+    if (file.state !== 'ACTIVE') {
+      throw new FileUploadError(`Gemini could not process the file (${file.state})`);
+    }
+
+    return {
+      name: file.name,
+      fileUri: file.uri,
+      mimeType: file.mimeType,
+      sizeBytes: Number(file.sizeBytes),
+      expiresAt: file.expirationTime,
+    };
+  }
+}
+
+/**
+ * Resolve the provider selected by the LLM_PROVIDER env var (defaults to Gemini)
+ */
+export function getLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerName = (env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+
+  if (providerName === 'mock') {
+    return new MockProvider();
+  }
+
+  if (providerName !== 'gemini') {
+    throw new ProviderConfigError(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+
+  const apiKey = env.GEMINI_API_KEY;
+
+  if (!apiKey) {
+    throw new ProviderConfigError('GEMINI_API_KEY not configured');
+  }
+
+  // Validate API key format (Google API keys start with 'AIza')
+  if (!apiKey.startsWith('AIza')) {
+    throw new ProviderConfigError('GEMINI_API_KEY appears to be invalid format');
+  }
+
+  return new GeminiProvider(apiKey);
+}
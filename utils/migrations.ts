@@ -0,0 +1,106 @@
+// Upgrades stored reviews and editorials to the current SCHEMA_VERSION (utils/models.ts).
+// Records without a schemaVersion predate versioning and count as version 0. Each step
+// takes a record at the previous version to its own; the runner applies the steps a record
+// is missing in order. Steps are pure, and media a step moves out of a record is handed back
+// so utils/persistence.ts can put it in the media store.
+import { SCHEMA_VERSION, SavedReview, SavedEditorial } from './models';
+
+// A record at some older version; steps only rely on the fields they touch
+type LegacyRecord = Record<string, any>;
+
+export interface MigrationStep {
+  version: number; // The version a record is at after this step
+  description: string;
+  up(record: LegacyRecord, stashMedia: (dataUrl: string) => void): LegacyRecord;
+}
+
+export interface MigrationResult<T> {
+  record: T;
+  fromVersion: number;
+  migrated: boolean; // False when the record was already current, so there is nothing to write back
+  media?: string; // Data URL a step moved out of the record
+}
+
+// Before critics were a roster every reply from the author was flagged is_julian
+function attributeCriticReplies(comments: LegacyRecord[] = [], critic: string | undefined): LegacyRecord[] {
+  return comments.map(({ is_julian, ...comment }) => ({
+    ...comment,
+    replies: (comment.replies || []).map(({ is_julian: isJulian, ...reply }: LegacyRecord) =>
+      isJulian ? { ...reply, is_critic: true, critic: reply.critic || critic } : reply
+    ),
+  }));
+}
+
+export const REVIEW_MIGRATIONS: MigrationStep[] = [
+  {
+    version: 1,
+    description: 'Attribute reviews and critic replies to a critic instead of the is_julian flag',
+    up(record) {
+      const critic = record.review?.critic || 'music'; // Only Julian wrote reviews before the roster
+      return {
+        ...record,
+        review: { ...record.review, critic },
+        comments: attributeCriticReplies(record.comments, critic),
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Move inline media (audioDataUrl, audioPart) out of the record into the media store',
+    up({ audioDataUrl, audioPart, ...record }, stashMedia) {
+      const inline = audioPart?.inlineData;
+      const dataUrl = audioDataUrl || (inline?.data ? `data:${inline.mimeType};base64,${inline.data}` : undefined);
+      if (!dataUrl) return record;
+
+      stashMedia(dataUrl);
+      return { ...record, hasAudioInDB: true };
+    },
+  },
+];
+
+export const EDITORIAL_MIGRATIONS: MigrationStep[] = [
+  {
+    version: 1,
+    description: 'Drop the is_julian flag from editorial threads and fill in missing lists',
+    up(record) {
+      return {
+        ...record,
+        verdicts: record.verdicts || [],
+        reviewIds: record.reviewIds || [],
+        comments: attributeCriticReplies(record.comments, undefined),
+      };
+    },
+  },
+];
+
+/**
+ * Apply the steps a record is missing. Records from a newer version of the app are left
+ * alone rather than guessed at.
+ */
+export function runMigrations<T>(raw: unknown, steps: MigrationStep[]): MigrationResult<T> {
+  const input = raw as LegacyRecord;
+  const fromVersion = typeof input.schemaVersion === 'number' ? input.schemaVersion : 0;
+  if (fromVersion >= SCHEMA_VERSION) {
+    return { record: input as T, fromVersion, migrated: false };
+  }
+
+  let media: string | undefined;
+  const upgraded = steps
+    .filter(step => step.version > fromVersion)
+    .reduce((record, step) => step.up(record, dataUrl => { media = dataUrl; }), input);
+
+  return {
+    record: { ...upgraded, schemaVersion: SCHEMA_VERSION } as T,
+    fromVersion,
+    migrated: true,
+    media,
+  };
+}
+
+export function migrateReview(raw: unknown): MigrationResult<SavedReview> {
+  return runMigrations<SavedReview>(raw, REVIEW_MIGRATIONS);
+}
+
+export function migrateEditorial(raw: unknown): MigrationResult<SavedEditorial> {
+  return runMigrations<SavedEditorial>(raw, EDITORIAL_MIGRATIONS);
+}
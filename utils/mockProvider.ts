@@ -0,0 +1,295 @@
+// Deterministic offline provider: answers each agent prompt with templated JSON
+import type { GeminiGenerateRequest, GeminiGenerateResponse, GeminiStreamChunk, UploadedFile } from './api';
+import type { LLMProvider, ProviderName, FileUploadRequest } from './llm';
+
+export type PromptKind =
+  | 'classification'
+  | 'transcript'
+  | 'editorial'
+  | 'comments'
+  | 'commenter_responses'
+  | 'critic_replies'
+  | 'comment_likes'
+  | 'reply_likes'
+  | 'content_likes'
+  | 'review'
+  | 'rebuttal'
+  | 'counter_rebuttal'
+  | 'new_reply'
+  | 'new_comment'
+  | 'reply'
+  | 'comment'
+  | 'unknown';
+
+const STREAM_CHUNK_SIZE = 64;
+
+const PERSONAS = [
+  'The Stan', 'The Hater', "The 'Actually' Guy", 'The Bot', 'The Boomer',
+  'The Confused', 'The Conspiracy Theorist', 'The Theory Nerd', 'The Nostalgic', 'The Contrarian',
+  'The Lurker', 'The Pedant', 'The Superfan', 'The Troll', 'The Optimist'
+];
+
+/**
+ * Small stable string hash (djb2) so the same prompt always yields the same output
+ */
+export function hashString(value: string): number {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Concatenate every text part of a request into one prompt string
+ */
+export function extractPromptText(contents: any[]): string {
+  return (contents || [])
+    .flatMap((content: any) => content?.parts || [])
+    .map((part: any) => (typeof part?.text === 'string' ? part.text : ''))
+    .join('\n');
+}
+
+/**
+ * Work out which agent sent a prompt by looking at the output format it asks for.
+ * Only the text after the last "Output"/"Structure:" marker is inspected, because the
+ * prompts embed earlier reviews and comments as JSON that would otherwise match.
+ */
+export function detectPromptKind(prompt: string): PromptKind {
+  const markerIndex = Math.max(prompt.lastIndexOf('Output'), prompt.lastIndexOf('Structure:'));
+  const schema = markerIndex >= 0 ? prompt.slice(markerIndex) : prompt;
+  const has = (key: string) => schema.includes(`"${key}"`);
+
+  if (has('classification')) return 'classification';
+  if (has('segments')) return 'transcript';
+  if (has('verdicts')) return 'editorial';
+  if (has('parent_comment_id')) return 'commenter_responses';
+  if (has('comment_id')) return has('reply_text') ? 'critic_replies' : 'comment_likes';
+  if (has('reply_id')) return 'reply_likes';
+  if (has('persona_type') && has('timestamp')) return 'comments';
+  if (has('id') && has('likes')) return 'content_likes';
+  if (has('notable_lyrics_quoted')) return 'review';
+  if (has('headline')) return has('score') ? 'rebuttal' : 'counter_rebuttal';
+  if (has('reply_text')) return has('username') ? 'new_reply' : 'reply';
+  if (has('username')) return 'new_comment';
+  if (has('text')) return 'comment';
+  return 'unknown';
+}
+
+function matchAll(prompt: string, pattern: RegExp): string[] {
+  const values: string[] = [];
+  for (const match of Array.from(prompt.matchAll(pattern))) {
+    if (!values.includes(match[1])) values.push(match[1]);
+  }
+  return values;
+}
+
+function firstMatch(prompt: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = prompt.match(pattern);
+    if (match && match[1].trim() && match[1].trim() !== 'Unknown') return match[1].trim();
+  }
+  return undefined;
+}
+
+function likesFor(id: string, min: number, max: number): number {
+  return min + (hashString(id) % (max - min + 1));
+}
+
+function mockScore(seed: string): number {
+  return Math.round((1.5 + (hashString(seed) % 41) / 10) * 10) / 10;
+}
+
+// Album prompts label each attached track "Track N: title"
+function buildTrackVerdicts(prompt: string) {
+  return Array.from(prompt.matchAll(/^Track (\d+): ([^\n]+)$/gm)).map(match => ({
+    track: Number(match[1]),
+    title: match[2],
+    score: mockScore(match[2]),
+    verdict: `"${match[2]}" happens, and then it stops happening.`
+  }));
+}
+
+function buildReview(prompt: string) {
+  const schema = prompt.slice(prompt.lastIndexOf('Output'));
+  const isAlbum = schema.includes('"tracks"');
+  const title = firstMatch(prompt, isAlbum ? [/Album: ([^\n]+)/] : [])
+    || firstMatch(prompt, [/Title: "([^"\n]+)"/, /Title: ([^\n]+)/])
+    || 'Untitled Submission';
+  const artist = firstMatch(prompt, [/Channel\/Creator: ([^\n]+)/, /Creator: ([^\n]+)/, /Artist: ([^\n]+)/]) || 'Unknown Artist';
+  const score = mockScore(title + artist);
+
+  return {
+    ...(isAlbum ? { tracks: buildTrackVerdicts(prompt) } : {}),
+    ...(schema.includes('"annotations"') ? {
+      annotations: [
+        { time: '0:12', note: 'The first sign of trouble.' },
+        { time: '1:05', note: 'Here it briefly threatens to become interesting.' }
+      ]
+    } : {}),
+    title,
+    artist,
+    score,
+    summary: `"${title}" is a competent exercise in wasting my afternoon.`,
+    body: [
+      `I approached "${title}" by ${artist} the way one approaches a lukewarm buffet: with low expectations and a napkin.`,
+      'The opening gestures toward ambition before retreating into the comfort of the familiar.',
+      'There are flashes of something here, mostly the flash of my own eyes rolling.',
+      `In the end, ${artist} has made a thing that exists, and I have reviewed it. We are both diminished.`
+    ],
+    notable_lyrics_quoted: 'Something about the night, probably.'
+  };
+}
+
+function buildComments() {
+  return PERSONAS.map((persona, i) => ({
+    id: `c${i + 1}`,
+    username: `${persona.replace(/[^a-zA-Z]/g, '')}${i + 1}`,
+    persona_type: persona,
+    timestamp: `${i + 1} minutes ago`,
+    text: `${persona} here. This review says more about the critic than the work.`,
+    likes: 0
+  }));
+}
+
+function buildEditorial(prompt: string) {
+  const titles = matchAll(prompt, /"mediaTitle":"([^"]*)"/g);
+  const artists = matchAll(prompt, /"mediaArtist":"([^"]*)"/g);
+
+  return {
+    title: 'My Critics Need To Get Out More',
+    summary: 'I read the reviews, I checked the stuff myself, and here is the truth.',
+    body: [
+      'Look, I pay these people to have opinions. I did not pay them to have THIS many.',
+      'I sat down with everything they reviewed. Some of it was good. Some of it was not. That is the job.',
+      'Next time, fewer footnotes and more honesty. The readers deserve it.'
+    ],
+    verdicts: titles.map((mediaTitle, i) => ({
+      mediaTitle,
+      mediaArtist: artists[i] || 'Unknown',
+      verdict: hashString(mediaTitle) % 2 === 0 ? 'ROCKS' : 'SUCKS',
+      reason: 'Because I said so, and I sign the checks.'
+    }))
+  };
+}
+
+/**
+ * Build the templated payload for a prompt kind
+ */
+export function buildMockPayload(kind: PromptKind, prompt: string): unknown {
+  const commentIds = matchAll(prompt, /"id":"(c[^"]*)"/g);
+  const replyIds = matchAll(prompt, /"id":"(r[^"]*)"/g);
+
+  switch (kind) {
+    case 'classification':
+      return { classification: 'literary', confidence: 'low', reasoning: 'The mock provider files every document under literature.' };
+    case 'transcript':
+      return {
+        language: 'en',
+        segments: [
+          { start: 0, end: 6, text: 'Good evening, and thank you for pressing play.' },
+          { start: 6, end: 14, text: 'What follows was planned in detail and executed in spirit.' },
+          { start: 14, end: 21, text: 'If you made it this far, you already know how it ends.' }
+        ]
+      };
+    case 'editorial':
+      return buildEditorial(prompt);
+    case 'comments':
+      return buildComments();
+    case 'comment_likes':
+      return commentIds.map(id => ({ comment_id: id, likes: likesFor(id, -15, 120) }));
+    case 'reply_likes':
+      return replyIds.map(id => ({ reply_id: id, likes: likesFor(id, -15, 120) }));
+    case 'content_likes':
+      return matchAll(prompt, /"id":"([^"]+)"/g).map(id => ({ id, likes: likesFor(id, -10, 100) }));
+    case 'critic_replies':
+      return commentIds.slice(0, 3).map(id => ({
+        comment_id: id,
+        reply_text: `Your comment (${id}) has been noted, filed, and found wanting.`
+      }));
+    case 'commenter_responses':
+      return commentIds.slice(0, 4).map((id, i) => ({
+        parent_comment_id: id,
+        username: `Responder${i + 1}`,
+        persona_type: PERSONAS[i % PERSONAS.length],
+        reply_text: 'Imagine writing all that and still being wrong.'
+      }));
+    case 'review':
+      return buildReview(prompt);
+    case 'rebuttal':
+      return {
+        headline: 'My Colleague Has Confused Volume With Insight',
+        body: [
+          'I read the review twice, which is once more than it deserved.',
+          'Every point it makes is either borrowed or wrong, and the borrowed ones are wrong too.'
+        ],
+        score: (hashString(prompt) % 101) / 10
+      };
+    case 'counter_rebuttal':
+      return {
+        headline: 'I Stand By Every Word',
+        body: [
+          'My colleague mistakes disagreement for an argument.',
+          'I have read the rebuttal, and I will be framing it as a warning to others.'
+        ]
+      };
+    case 'new_reply':
+      return { username: 'LateArrival', persona_type: 'The Contrarian', reply_text: 'Hard disagree, and I have not even read it.' };
+    case 'new_comment':
+      return { username: 'FreshEyes', persona_type: 'The Confused', text: 'Wait, is this a review or a cry for help?' };
+    case 'reply':
+      return { reply_text: 'With respect, no.' };
+    case 'comment':
+      return { text: 'I have thoughts, and they are all correct.' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Offline provider selected with LLM_PROVIDER=mock.
+ * Returns canned, prompt-aware JSON so the whole pipeline runs without an API key.
+ */
+export class MockProvider implements LLMProvider {
+  name: ProviderName = 'mock';
+
+  async generateContent({ contents, generationConfig }: GeminiGenerateRequest): Promise<GeminiGenerateResponse> {
+    const prompt = extractPromptText(contents);
+    const kind = detectPromptKind(prompt);
+    const parts: any[] = [];
+
+    if (generationConfig?.thinkingConfig?.includeThoughts) {
+      parts.push({ text: `Considering the submission.\nDetected prompt kind: ${kind}.`, thought: true });
+    }
+    parts.push({ text: JSON.stringify(buildMockPayload(kind, prompt)) });
+
+    return {
+      candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }],
+      parts,
+    };
+  }
+
+  async *generateContentStream(request: GeminiGenerateRequest): AsyncGenerator<GeminiStreamChunk> {
+    const { parts } = await this.generateContent(request);
+
+    for (const part of parts) {
+      for (let i = 0; i < part.text.length; i += STREAM_CHUNK_SIZE) {
+        yield { parts: [{ ...part, text: part.text.slice(i, i + STREAM_CHUNK_SIZE) }] };
+      }
+    }
+  }
+
+  /**
+   * Local stand-in for the Files API: reads the whole upload, keeps none of it, and hands
+   * back a stable mock:// URI. Mock answers never look at media anyway.
+   */
+  async uploadFile({ mimeType, displayName, data }: FileUploadRequest): Promise<UploadedFile> {
+    let sizeBytes = 0;
+    for await (const chunk of data) {
+      sizeBytes += chunk.length;
+    }
+
+    const name = `files/mock-${hashString(`${displayName || ''}:${mimeType}:${sizeBytes}`).toString(36)}`;
+    return { name, fileUri: `mock://${name}`, mimeType, sizeBytes };
+  }
+}
@@ -0,0 +1,98 @@
+// Shapes of the records the archive stores: reviews, editorials and their comment threads.
+// Every page and store module reads these; records saved by older versions of the app are
+// upgraded to SCHEMA_VERSION on load by utils/migrations.ts.
+import type { CriticType, CustomCriticSpec } from './critics';
+import type { ReviewData, PanelResult, CriticDebate, CollectionResult } from './pipeline';
+import type { Transcript } from './transcript';
+
+/**
+ * Bump this and add a step to utils/migrations.ts whenever a stored shape changes
+ */
+export const SCHEMA_VERSION = 2;
+
+export interface Reply {
+  id: string;
+  username: string;
+  persona_type: string;
+  timestamp: string;
+  text: string;
+  likes: number;
+  is_critic?: boolean; // Posted by a critic (the author, a guest or a panelist)
+  is_editor?: boolean; // Posted by the Editor-in-Chief
+  critic?: CriticType; // Which critic, when is_critic
+  replyingToUsername?: string; // Username being replied to in the thread
+  replyingToId?: string; // ID of the reply being replied to
+}
+
+export interface Comment {
+  id: string;
+  username: string;
+  persona_type: string;
+  timestamp: string;
+  text: string;
+  likes: number;
+  replies: Reply[];
+  is_critic?: boolean; // Posted by a critic other than the author (guest or panelist)
+  is_editor?: boolean;
+  critic?: CriticType;
+}
+
+/**
+ * One track of an album review. Each track's media is stored under its own id.
+ */
+export interface AlbumTrack {
+  mediaId: string; // `${reviewId}-t${number}`, see utils/album.ts
+  title: string;
+  artist?: string;
+  fileName: string;
+  waveformData?: number[];
+}
+
+export interface SavedReview {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  artist: string;
+  slug: string;
+  slugAliases?: string[]; // Slugs the review had before, which still lead to it
+  timestamp: number;
+  review: ReviewData;
+  comments: Comment[];
+  audioFileName?: string;
+  albumArt?: string;
+  waveformData?: number[];
+  hasAudioInDB?: boolean; // Media is in the media store (server, cached in IndexedDB)
+  commentsOpen?: boolean; // Whether comments are still being generated
+  commentCloseTime?: number; // When comments close (5 min after publication)
+  youtubeUrl?: string; // YouTube video URL
+  isYouTube?: boolean; // Flag to indicate this is a YouTube review
+  documentContent?: string; // Extracted text content for documents/PDFs
+  documentFileName?: string; // Original document filename
+  model?: string; // Model that wrote the review, after any overload fallback
+  customCritic?: CustomCriticSpec; // Copy of the custom critic who wrote it, if any
+  panel?: PanelResult; // Every critic's review when it went to a panel
+  panelCritics?: CustomCriticSpec[]; // Copies of the custom critics among the panel's guests
+  debate?: CriticDebate; // A colleague's rebuttal and the author's counter-rebuttal
+  tracklist?: AlbumTrack[]; // Album reviews: the tracks in order (per-track scores are on review.tracks)
+  collection?: CollectionResult; // Playlist and channel reviews: every video's score, ranked
+  transcript?: Transcript; // Videos and audio: captions or the model's transcription, with timestamps
+}
+
+export interface Verdict {
+  mediaTitle: string;
+  mediaArtist: string;
+  verdict: 'ROCKS' | 'SUCKS';
+  reason: string;
+}
+
+export interface SavedEditorial {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  summary: string;
+  body: string[];
+  verdicts: Verdict[];
+  timestamp: number;
+  reviewIds: string[];
+  comments: Comment[];
+}
@@ -0,0 +1,411 @@
+// Client for the /api/reviews, /api/editorials and /api/critics store.
+// The server is the source of truth; localStorage keeps a copy for offline reads and
+// IndexedDB (utils/db.ts) keeps a local cache of media Blobs.
+import { saveMedia, getMedia, markMediaUploaded, dataUrlToBlob } from './db';
+import { registerCustomCritics, unregisterCustomCritic, CustomCriticSpec, CustomCriticId } from './critics';
+import { createBundle, planImport, ArchiveBundle, ConflictPolicy, ImportPlan } from './bundle';
+import { migrateReview, migrateEditorial, MigrationResult } from './migrations';
+import type { SavedReview, SavedEditorial } from './models';
+import { resolveSlug } from './slugs';
+import { reviewMedia, mediaIdsFor } from './album';
+
+const REVIEWS_CACHE_KEY = 'smudged_reviews';
+const EDITORIALS_CACHE_KEY = 'smudged_editorials';
+const CRITICS_CACHE_KEY = 'smudged_critics';
+const MIGRATION_FLAG_KEY = 'smudged_server_migrated';
+
+interface Identified {
+  id: string;
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || `Request failed: ${response.status}`);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+function readCache<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error(`Failed to read ${key} cache`, e);
+    return [];
+  }
+}
+
+function writeCache<T>(key: string, records: T[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(records));
+  } catch (e) {
+    console.error(`Failed to write ${key} cache (quota exceeded?)`, e);
+  }
+}
+
+function upsertCache<T extends Identified>(key: string, record: T): void {
+  writeCache(key, [record, ...readCache<T>(key).filter(r => r.id !== record.id)]);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// ---- Media ----
+
+export function mediaUrl(id: string): string {
+  return `/api/reviews/${encodeURIComponent(id)}/media`;
+}
+
+export async function uploadMedia(id: string, blob: Blob, fileName?: string): Promise<void> {
+  await requestJSON(mediaUrl(id), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': blob.type || 'application/octet-stream',
+      ...(fileName ? { 'X-File-Name': encodeURIComponent(fileName) } : {}),
+    },
+    body: blob,
+  });
+}
+
+// Removes only the server copy; callers clear the IndexedDB one and the review's hasAudioInDB
+export async function deleteMediaRecord(id: string): Promise<void> {
+  await requestJSON(mediaUrl(id), { method: 'DELETE' });
+}
+
+/**
+ * Media for a review: the IndexedDB copy if present, otherwise downloaded from the server
+ * and cached locally for next time.
+ */
+export async function loadMedia(id: string): Promise<Blob | undefined> {
+  try {
+    const cached = await getMedia(id);
+    if (cached) return cached;
+  } catch (e) {
+    console.error('Failed to read media cache', e);
+  }
+
+  const response = await fetch(mediaUrl(id));
+  if (!response.ok) return undefined;
+
+  const blob = await response.blob();
+  try {
+    await saveMedia(id, blob, undefined, true);
+  } catch (e) {
+    console.error('Failed to cache media in IndexedDB', e);
+  }
+  return blob;
+}
+
+// Upload media and keep the local copy, which a failed IndexedDB write doesn't undo
+async function storeMedia(id: string, blob: Blob, fileName?: string): Promise<void> {
+  await uploadMedia(id, blob, fileName);
+  try {
+    await saveMedia(id, blob, fileName, true);
+  } catch (e) {
+    console.error('Failed to cache media in IndexedDB', e);
+  }
+}
+
+// ---- Migration ----
+
+let migrationPromise: Promise<void> | null = null;
+
+type Migrator = (raw: unknown) => MigrationResult<Identified & { hasAudioInDB?: boolean; audioFileName?: string }>;
+
+async function migrateCollection(cacheKey: string, listUrl: string, collectionKey: string, migrate: Migrator): Promise<void> {
+  const localRecords = readCache<Identified>(cacheKey);
+  if (localRecords.length === 0) return;
+
+  const remote = await requestJSON<Record<string, Identified[]>>(listUrl);
+  const remoteIds = new Set(remote[collectionKey].map(r => r.id));
+
+  for (const raw of localRecords.filter(r => !remoteIds.has(r.id))) {
+    // Upgrade first, so inline media goes to the media store rather than into the record
+    const { record, media } = migrate(raw);
+    const blob = media ? dataUrlToBlob(media) : (record.hasAudioInDB ? await getMedia(record.id) : undefined);
+    if (blob) {
+      await uploadMedia(record.id, blob, record.audioFileName);
+      if (!media) await markMediaUploaded(record.id).catch(e => console.error('Failed to mark media as uploaded', e));
+    }
+    await requestJSON(listUrl, jsonInit('POST', record));
+  }
+}
+
+/**
+ * One-time upload of reviews, editorials and media saved before the server store existed.
+ * The flag is only set once everything made it, so a failed run is retried on the next load.
+ */
+export function migrateLocalData(): Promise<void> {
+  if (typeof window === 'undefined' || localStorage.getItem(MIGRATION_FLAG_KEY)) {
+    return Promise.resolve();
+  }
+
+  if (!migrationPromise) {
+    migrationPromise = (async () => {
+      try {
+        await migrateCollection(REVIEWS_CACHE_KEY, '/api/reviews', 'reviews', migrateReview);
+        await migrateCollection(EDITORIALS_CACHE_KEY, '/api/editorials', 'editorials', migrateEditorial);
+        localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+      } catch (e) {
+        console.error('Local data migration failed; will retry on next load', e);
+      } finally {
+        migrationPromise = null;
+      }
+    })();
+  }
+
+  return migrationPromise;
+}
+
+/**
+ * Bring records saved by older versions of the app up to the current schema, writing the
+ * upgraded copy (and any media moved out of it) back so the upgrade only happens once.
+ * A failed write-back is retried on the next load; the upgraded record is used either way.
+ */
+async function upgradeRecords<T extends Identified & { audioFileName?: string }>(
+  records: unknown[],
+  migrate: (raw: unknown) => MigrationResult<T>,
+  listUrl: string
+): Promise<T[]> {
+  const upgraded: T[] = [];
+  for (const raw of records) {
+    const { record, migrated, media } = migrate(raw);
+    if (migrated) {
+      try {
+        if (media) await storeMedia(record.id, dataUrlToBlob(media), record.audioFileName);
+        await requestJSON(listUrl, jsonInit('POST', record));
+      } catch (e) {
+        console.error(`Failed to save upgraded record ${record.id}`, e);
+      }
+    }
+    upgraded.push(record);
+  }
+  return upgraded;
+}
+
+// ---- Reviews ----
+
+/**
+ * Reviews saved before slugs were unique can share one. Re-saving all but the newest lets the
+ * server move them to the next free slug, so every review is reachable again.
+ */
+async function separateSharedSlugs(reviews: SavedReview[]): Promise<SavedReview[]> {
+  const seen = new Set<string>();
+  const separated: SavedReview[] = [];
+  for (const review of reviews) {
+    if (!seen.has(review.slug)) {
+      seen.add(review.slug);
+      separated.push(review);
+      continue;
+    }
+    try {
+      const { review: saved } = await requestJSON<{ review: SavedReview }>('/api/reviews', jsonInit('POST', review));
+      separated.push(saved);
+    } catch (e) {
+      console.error(`Failed to give review ${review.id} its own slug`, e);
+      separated.push(review);
+    }
+  }
+  return separated;
+}
+
+/**
+ * All saved reviews, newest first. Falls back to the local copy if the server is unreachable.
+ */
+export async function listReviews(): Promise<SavedReview[]> {
+  await migrateLocalData();
+
+  let reviews: unknown[];
+  let online = true;
+  try {
+    ({ reviews } = await requestJSON<{ reviews: unknown[] }>('/api/reviews'));
+  } catch (e) {
+    console.error('Failed to load reviews from server, using local copy', e);
+    reviews = readCache(REVIEWS_CACHE_KEY);
+    online = false;
+  }
+
+  let upgraded = await upgradeRecords(reviews, migrateReview, '/api/reviews');
+  if (online) upgraded = await separateSharedSlugs(upgraded);
+  writeCache(REVIEWS_CACHE_KEY, upgraded);
+  return upgraded;
+}
+
+/**
+ * The review a slug leads to, either its current slug or one it used to have. Callers
+ * compare the result's slug with the one they asked for to spot a redirect.
+ */
+export async function getReviewBySlug(slug: string): Promise<SavedReview | null> {
+  await migrateLocalData();
+
+  let reviews: unknown[];
+  try {
+    ({ reviews } = await requestJSON<{ reviews: unknown[] }>(`/api/reviews?slug=${encodeURIComponent(slug)}`));
+  } catch (e) {
+    console.error('Failed to load review from server, using local copy', e);
+    reviews = readCache(REVIEWS_CACHE_KEY);
+  }
+
+  const found = resolveSlug(slug, reviews as SavedReview[]);
+  if (!found) return null;
+  const [review] = await upgradeRecords([found.review], migrateReview, '/api/reviews');
+  return review;
+}
+
+/**
+ * Save a review. The server may give it a different slug than asked for if another review
+ * has that one, so use the returned copy.
+ */
+export async function saveReviewRecord(review: SavedReview): Promise<SavedReview> {
+  upsertCache(REVIEWS_CACHE_KEY, review);
+  const { review: saved } = await requestJSON<{ review: SavedReview }>('/api/reviews', jsonInit('POST', review));
+  upsertCache(REVIEWS_CACHE_KEY, saved);
+  return saved;
+}
+
+export async function updateReviewRecord(id: string, patch: Partial<SavedReview>): Promise<void> {
+  const cached = readCache<SavedReview>(REVIEWS_CACHE_KEY);
+  writeCache(REVIEWS_CACHE_KEY, cached.map(r => (r.id === id ? { ...r, ...patch, id } : r)));
+  await requestJSON(`/api/reviews/${encodeURIComponent(id)}`, jsonInit('PATCH', patch));
+}
+
+export async function deleteReviewRecord(id: string): Promise<void> {
+  writeCache(REVIEWS_CACHE_KEY, readCache<Identified>(REVIEWS_CACHE_KEY).filter(r => r.id !== id));
+  await requestJSON(`/api/reviews/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// ---- Editorials ----
+
+export async function listEditorials(): Promise<SavedEditorial[]> {
+  await migrateLocalData();
+
+  let editorials: unknown[];
+  try {
+    ({ editorials } = await requestJSON<{ editorials: unknown[] }>('/api/editorials'));
+  } catch (e) {
+    console.error('Failed to load editorials from server, using local copy', e);
+    editorials = readCache(EDITORIALS_CACHE_KEY);
+  }
+
+  const upgraded = await upgradeRecords(editorials, migrateEditorial, '/api/editorials');
+  writeCache(EDITORIALS_CACHE_KEY, upgraded);
+  return upgraded;
+}
+
+export async function saveEditorialRecord(editorial: SavedEditorial): Promise<SavedEditorial> {
+  upsertCache(EDITORIALS_CACHE_KEY, editorial);
+  const { editorial: saved } = await requestJSON<{ editorial: SavedEditorial }>('/api/editorials', jsonInit('POST', editorial));
+  return saved;
+}
+
+export async function updateEditorialRecord(id: string, patch: Partial<SavedEditorial>): Promise<void> {
+  const cached = readCache<SavedEditorial>(EDITORIALS_CACHE_KEY);
+  writeCache(EDITORIALS_CACHE_KEY, cached.map(r => (r.id === id ? { ...r, ...patch, id } : r)));
+  await requestJSON(`/api/editorials/${encodeURIComponent(id)}`, jsonInit('PATCH', patch));
+}
+
+// ---- Critics ----
+
+/**
+ * Custom critics, newest first. Every one returned is also registered in the critic
+ * roster, so routing and getCriticInfo know about them.
+ */
+export async function listCustomCritics(): Promise<CustomCriticSpec[]> {
+  let critics: CustomCriticSpec[];
+  try {
+    ({ critics } = await requestJSON<{ critics: CustomCriticSpec[] }>('/api/critics'));
+    writeCache(CRITICS_CACHE_KEY, critics);
+  } catch (e) {
+    console.error('Failed to load critics from server, using local copy', e);
+    critics = readCache<CustomCriticSpec>(CRITICS_CACHE_KEY);
+  }
+
+  registerCustomCritics(critics);
+  return critics;
+}
+
+export async function saveCustomCritic(critic: CustomCriticSpec): Promise<CustomCriticSpec> {
+  const { critic: saved } = await requestJSON<{ critic: CustomCriticSpec }>('/api/critics', jsonInit('POST', critic));
+  upsertCache(CRITICS_CACHE_KEY, saved);
+  registerCustomCritics([saved]);
+  return saved;
+}
+
+export async function deleteCustomCritic(id: CustomCriticId): Promise<void> {
+  writeCache(CRITICS_CACHE_KEY, readCache<Identified>(CRITICS_CACHE_KEY).filter(c => c.id !== id));
+  unregisterCustomCritic(id);
+  await requestJSON(`/api/critics/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// ---- Archive bundles ----
+
+/**
+ * Everything in the archive, media included, as one portable bundle (see utils/bundle.ts).
+ * Reviews whose media can't be found are still exported, just without it.
+ */
+export async function exportArchive(): Promise<ArchiveBundle> {
+  const reviews = await listReviews();
+  const editorials = await listEditorials();
+  const critics = await listCustomCritics();
+
+  const media: Record<string, string> = {};
+  for (const { id } of reviews.flatMap(reviewMedia)) {
+    try {
+      const blob = await loadMedia(id);
+      if (blob) media[id] = await blobToDataUrl(blob);
+    } catch (e) {
+      console.error(`Failed to export media ${id}`, e);
+    }
+  }
+
+  return createBundle({ reviews, editorials, critics, media });
+}
+
+/**
+ * Merge a bundle into the archive. Media goes up before the review that points at it,
+ * and critics before the reviews that might use them.
+ */
+export async function importArchive(bundle: ArchiveBundle, policy: ConflictPolicy = 'keep-both'): Promise<ImportPlan> {
+  const plan = planImport(bundle, {
+    reviews: await listReviews(),
+    editorials: await listEditorials(),
+    critics: await listCustomCritics(),
+  }, policy);
+
+  for (const critic of plan.critics) {
+    await saveCustomCritic(critic);
+  }
+
+  for (const review of plan.reviews) {
+    const mediaIds = mediaIdsFor(review);
+    for (let i = 0; i < mediaIds.length; i++) {
+      const dataUrl = plan.media[mediaIds[i]];
+      if (dataUrl) await storeMedia(mediaIds[i], dataUrlToBlob(dataUrl), review.tracklist?.[i].fileName || review.audioFileName);
+    }
+    await saveReviewRecord(review);
+  }
+
+  for (const editorial of plan.editorials) {
+    await saveEditorialRecord(editorial);
+  }
+
+  return plan;
+}
@@ -0,0 +1,1246 @@
+// Review pipeline stages (transcript → critic review → comments → likes → arguments → replies →
+// final likes), plus the optional panel stages (guest critics' reviews and their crossfire in
+// the comments) and a rebuttal round between two critics.
+// Shared by the browser and the /api/jobs runner; each stage reports progress through a
+// PipelineContext and returns the updated data instead of touching React state.
+import { ServerSideGeminiAI } from './api';
+import { getCriticInfo, introducePersona, findDebateOpponent, isDocumentCritic, CriticPersona, CriticType } from './critics';
+import { extractPartialReview, PartialReview } from './streaming';
+import { canonicalVideoUrl } from './youtube';
+import { Transcript, transcriptText } from './transcript';
+import type { Reply, Comment } from './models';
+import {
+  MAX_REPAIR_ATTEMPTS,
+  RepairListener,
+  createRepairHandler,
+  generateValidated,
+  parseWithRepair,
+  checkModelOutput,
+  reviewSchema,
+  classificationSchema,
+  transcriptSchema,
+  commentListSchema,
+  commentLikesSchema,
+  criticRepliesSchema,
+  commenterResponsesSchema,
+  replyLikesSchema,
+  commentTextSchema,
+  replyTextSchema,
+  rebuttalSchema,
+  counterRebuttalSchema,
+} from './schemas';
+import type { RetryEvent } from './retry';
+
+export type { CriticType };
+
+// Type for Gemini AI media parts
+export interface GeminiMediaPart {
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+  fileData?: {
+    mimeType?: string;
+    fileUri: string;
+  };
+  text?: string;
+}
+
+// Type for metadata
+export interface MediaMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  transcript?: Transcript; // What is said in the media, which critics may quote by timestamp
+}
+
+export interface ReviewData {
+  title: string;
+  artist: string;
+  score: number;
+  summary: string;
+  body: string[];
+  notable_lyrics_quoted: string;
+  critic?: CriticType;
+  criticName?: string;
+  model?: string; // Model that wrote the review, which differs from the critic's usual one after a fallback
+  tracks?: TrackVerdict[]; // Album reviews: a mini-score for every track
+  annotations?: Annotation[]; // Videos and audio: moments the critic singled out, in order
+}
+
+/**
+ * A critic's note pinned to a moment of the media ("2:14 – the bridge collapses")
+ */
+export interface Annotation {
+  time: number; // Seconds from the start
+  note: string;
+}
+
+export interface TrackVerdict {
+  track: number; // 1-based position in the tracklist
+  title: string;
+  score: number;
+  verdict: string; // One sentence
+}
+
+/**
+ * One track of an album submission, as the critics receive it
+ */
+export interface AlbumTrackInput {
+  title: string;
+  contentPart: GeminiMediaPart;
+}
+
+/**
+ * One video of a YouTube playlist or channel, routed to its own critic
+ */
+export interface CollectionItem {
+  videoId: string;
+  title: string;
+  channelTitle?: string;
+  thumbnailUrl?: string;
+  criticType: CriticType;
+}
+
+/**
+ * A collection item after its critic has been at it
+ */
+export interface CollectionEntry {
+  rank: number; // 1 is the best-scored
+  position: number; // 1-based order in the playlist
+  videoId: string;
+  title: string;
+  channelTitle?: string;
+  thumbnailUrl?: string;
+  score: number;
+  summary: string;
+  critic?: CriticType;
+  criticName?: string;
+}
+
+export interface CollectionResult {
+  kind: 'playlist' | 'channel';
+  title: string;
+  channelTitle?: string;
+  sourceUrl: string;
+  average: number;
+  entries: CollectionEntry[]; // Ranked, best first
+}
+
+export type PanelVerdict = 'consensus' | 'split' | 'divided';
+
+export interface PanelScore {
+  critic: CriticType;
+  criticName: string;
+  score: number;
+}
+
+/**
+ * How far apart a panel's scores are, with a one-line summary for the scoreboard
+ */
+export interface PanelSummary {
+  average: number;
+  spread: number; // Highest minus lowest score
+  verdict: PanelVerdict;
+  highest: PanelScore;
+  lowest: PanelScore;
+  summary: string;
+}
+
+/**
+ * Every review of a panel submission; the lead critic's comes first and is also the
+ * submission's main review
+ */
+export interface PanelResult {
+  reviews: ReviewData[];
+  summary: PanelSummary;
+}
+
+export interface DebateStatement {
+  critic: CriticType;
+  criticName: string;
+  headline: string;
+  body: string[];
+  score?: number; // What the rebutting critic thinks it deserves (rebuttals only)
+}
+
+/**
+ * A second critic's formal rebuttal of the review and the author's counter-rebuttal
+ */
+export interface CriticDebate {
+  rebuttal: DebateStatement;
+  counterRebuttal: DebateStatement;
+}
+
+/**
+ * The parts of a saved review the critics read back as their own history
+ */
+export interface PastReview {
+  title: string;
+  artist: string;
+  timestamp: number;
+  review: Pick<ReviewData, 'score' | 'summary' | 'critic' | 'criticName'>;
+}
+
+/**
+ * How a stage reports progress. The browser wires these to React state; the job
+ * runner records them on the job.
+ */
+export interface PipelineContext {
+  genAI: ServerSideGeminiAI;
+  log: (msg: string) => void;
+  setStage: (stage: string) => void;
+  history?: PastReview[];
+  onReview?: (review: ReviewData) => void;
+  onDraftReview?: (draft: PartialReview | null) => void;
+  onComments?: (comments: Comment[]) => void;
+  onPanel?: (panel: PanelResult) => void;
+  onDebate?: (debate: CriticDebate) => void;
+  onCollection?: (collection: CollectionResult) => void;
+  onTranscript?: (transcript: Transcript) => void;
+}
+
+// Retries each stage may spend on overloaded calls, and the models to fall back to when
+// gemini-2.5-pro stays overloaded
+const STAGE_RETRY_BUDGETS = { transcript: 1, review: 4, classification: 1, comments: 3, likes: 2, replies: 2, debate: 2, collection: 2 };
+const FALLBACK_MODELS = ['gemini-2.5-flash'];
+
+function retryOptions(ctx: PipelineContext, stage: keyof typeof STAGE_RETRY_BUDGETS) {
+  return {
+    fallbackModels: FALLBACK_MODELS,
+    retryBudget: STAGE_RETRY_BUDGETS[stage],
+    onRetry: ({ model, nextModel, delayMs }: RetryEvent) => {
+      const target = nextModel === model ? '' : ` with ${nextModel}`;
+      ctx.log(`WARNING: ${model} is overloaded. Retrying${target} in ${(delayMs / 1000).toFixed(1)}s...`);
+    },
+  };
+}
+
+// Logs each re-ask so a malformed answer is visible in the terminal
+function logRepairs(ctx: PipelineContext, agent: string): RepairListener {
+  return (errors, attempt) => {
+    ctx.log(`WARNING: ${agent} returned malformed JSON (${errors[0]}), asking again (${attempt}/${MAX_REPAIR_ATTEMPTS})...`);
+  };
+}
+
+// Stream a critic's review: thoughts go to the log line by line while the answer
+// renders progressively as a draft review card. Resolves with the validated review;
+// a malformed answer is repaired with a (non-streamed) re-ask.
+async function streamCriticReview(
+  ctx: PipelineContext,
+  model: ReturnType<ServerSideGeminiAI['getGenerativeModel']>,
+  request: { contents: any[]; generationConfig?: any },
+  criticLabel: string
+): Promise<ReviewData> {
+  let thoughtBuffer = '';
+  let thoughtsStarted = false;
+  let reviewText = '';
+
+  const flushThoughts = (final: boolean) => {
+    const lines = thoughtBuffer.split('\n');
+    thoughtBuffer = final ? '' : lines.pop() || '';
+    lines.forEach(line => {
+      if (line.trim()) ctx.log(`   ${line.trim()}`);
+    });
+  };
+
+  let answeredBy: string;
+  try {
+    const result = await model.generateContentStream(request, ({ parts }) => {
+      for (const part of parts) {
+        if (!part.text) continue;
+
+        if (part.thought) {
+          // This is the critic's internal thought process
+          if (!thoughtsStarted) {
+            ctx.log(`💭 ${criticLabel}'S THOUGHTS:`);
+            thoughtsStarted = true;
+          }
+          thoughtBuffer += part.text;
+          flushThoughts(false);
+        } else {
+          // This is the actual review
+          reviewText += part.text;
+          ctx.onDraftReview?.(extractPartialReview(reviewText));
+        }
+      }
+    });
+    answeredBy = result.response.model;
+    flushThoughts(true);
+  } finally {
+    ctx.onDraftReview?.(null);
+  }
+
+  const review = await parseWithRepair(reviewText, reviewSchema, createRepairHandler(model, request, logRepairs(ctx, criticLabel)));
+  review.annotations?.sort((a, b) => a.time - b.time);
+  return { ...review, model: answeredBy };
+}
+
+function describeMetadata(metadata?: MediaMetadata, isYouTube?: boolean): string {
+  if (!metadata || !(metadata.title || metadata.artist || metadata.album)) return '';
+  if (isYouTube) {
+    return `\n\nYouTube Video Information:\n- Video Title: "${metadata.title}"\n- Channel/Creator: ${metadata.artist || 'Unknown'}\n\nIMPORTANT: Use this exact title in your review. You may critique the title choice if you wish.`;
+  }
+  return `\n\nFile metadata (use as hints, but trust your own judgement more):\n- Title: ${metadata.title || 'Unknown'}\n- Artist: ${metadata.artist || 'Unknown'}\n- Album: ${metadata.album || 'Unknown'}`;
+}
+
+function describeTranscript(transcript?: Transcript): string {
+  if (!transcript || transcript.segments.length === 0) return '';
+  const source = transcript.source === 'captions' ? 'from the video\'s captions' : 'transcribed from the media';
+  return `\n\nTranscript (${source}, timestamps as [m:ss]):\n${transcriptText(transcript)}\n\nWhen you quote what is said, cite where with its timestamp in brackets, e.g. "[2:14]".`;
+}
+
+// A critic's own past reviews (for consistency) and their colleagues' (for reference),
+// as prompt sections that are empty when there is nothing to show
+function describeHistory(critic: CriticPersona, history: PastReview[] = []): { own: string; colleagues: string } {
+  // Reviews saved before critics were recorded are all Julian's
+  const ownHistory = history
+    .filter(r => (r.review.critic || 'music') === critic.id)
+    .map(r => ({
+      title: r.title,
+      artist: r.artist,
+      score: r.review.score,
+      summary: r.review.summary,
+      timestamp: new Date(r.timestamp).toLocaleDateString()
+    }));
+
+  const otherCritics = history
+    .filter(r => r.review.critic && r.review.critic !== critic.id)
+    .map(r => ({
+      critic: r.review.criticName,
+      title: r.title,
+      artist: r.artist,
+      score: r.review.score,
+      summary: r.review.summary
+    }));
+
+  return {
+    own: ownHistory.length > 0
+      ? `\n\nYour previous reviews (for consistency):\n${JSON.stringify(ownHistory)}`
+      : '',
+    colleagues: otherCritics.length > 0
+      ? `\n\nYour colleagues' recent reviews (for reference):\n${JSON.stringify(otherCritics)}`
+      : '',
+  };
+}
+
+function describeCharacter(critic: CriticPersona): string {
+  return `You are ${critic.name}, ${critic.role} for '${critic.publication}'.
+
+YOUR CHARACTER:
+${critic.systemPrompt}`;
+}
+
+// The album framing added to a critic's usual task, and the per-track part of the JSON shape
+function describeAlbum(tracks: { title: string }[]): { task: string; shape: string } {
+  const tracklist = tracks.map((track, i) => `${i + 1}. ${track.title}`).join('\n');
+  return {
+    task: `\n\nThis is an album of ${tracks.length} tracks, attached in order after this message, each labelled "Track N". Review the album as a whole, then give every track its own score and a one-sentence verdict.\n\nTracklist:\n${tracklist}`,
+    shape: `,\n"tracks": [{"track": 1, "title": "Track title", "score": (number 0.0 to 10.0), "verdict": "One sentence on this track"}] (one entry per track, in order)`,
+  };
+}
+
+// Media with a timeline: critics pin notes to moments of it
+const ANNOTATION_TASK = `\n\nAlso pick 3-6 moments worth pointing at and pin a short note to each, with its timestamp as m:ss, in order.`;
+const ANNOTATION_SHAPE = `,\n"annotations": [{"time": "m:ss", "note": "What happens at that moment, in your voice"}]`;
+
+/**
+ * A critic's full review prompt: character, score habits, their own and colleagues' past
+ * reviews, the media metadata, the writing task and the JSON shape. Albums also get the
+ * tracklist and ask for a score per track; single videos and audio ask for annotations.
+ */
+export function buildReviewPrompt(critic: CriticPersona, history: PastReview[] = [], metadata?: MediaMetadata, isYouTube?: boolean, tracks?: { title: string }[]): string {
+  const { own, colleagues } = describeHistory(critic, history);
+  const { typical, exceptional, exceptionalWhen } = critic.scoreRange;
+  const { fields, paragraphs } = critic.review;
+  const body = Array.from({ length: paragraphs }, (_, i) => `"Paragraph ${i + 1}"`).join(', ');
+  const album = tracks && tracks.length > 0 ? describeAlbum(tracks) : undefined;
+  const timed = !album && (isYouTube || !isDocumentCritic(critic.id));
+  const title = album ? 'Album title (use the metadata album if available, otherwise identify it)' : fields.title;
+
+  return `
+${describeCharacter(critic)}
+
+Your scores typically range ${typical[0]}-${typical[1]}, but occasionally you'll give a ${exceptional[0]}-${exceptional[1]} ${exceptionalWhen}.${own}${describeMetadata(metadata, isYouTube)}${describeTranscript(metadata?.transcript)}${colleagues}
+
+${isYouTube && critic.review.youtubeTask ? critic.review.youtubeTask : critic.review.task}${album ? album.task : ''}${timed ? ANNOTATION_TASK : ''}
+
+Output ONLY valid JSON with NO markdown formatting:
+{
+"title": "${title}",
+"artist": "${fields.artist}",
+"score": (number 0.0 to 10.0, usually ${typical[0]}-${typical[1]}),
+"summary": "${fields.summary}",
+"body": [${body}],
+"notable_lyrics_quoted": "${fields.quote}"${album ? album.shape : ''}${timed ? ANNOTATION_SHAPE : ''}
+}`;
+}
+
+// What the critic takes in: the one media part, or every track of an album behind its label
+function mediaParts(contentPart: GeminiMediaPart, tracks?: AlbumTrackInput[]): GeminiMediaPart[] {
+  if (!tracks || tracks.length === 0) return [contentPart];
+  return tracks.flatMap((track, i) => [{ text: `Track ${i + 1}: ${track.title}` }, track.contentPart]);
+}
+
+/**
+ * Have a critic review the media, streaming their thoughts to the log. With `tracks`,
+ * the critic hears the whole album instead of `contentPart` alone.
+ */
+export async function runPersonaReview(
+  ctx: PipelineContext,
+  critic: CriticPersona,
+  contentPart: GeminiMediaPart,
+  metadata?: MediaMetadata,
+  isYouTube?: boolean,
+  tracks?: AlbumTrackInput[]
+): Promise<ReviewData> {
+  const firstName = critic.name.split(' ')[0];
+  ctx.setStage(`${firstName.toLowerCase()}_reviewing`);
+  ctx.log(`AGENT ACTIVATED: ${critic.name} (${critic.title})`);
+  ctx.log(`ACTION: ${isYouTube && critic.actions.reviewingVideo ? critic.actions.reviewingVideo : critic.actions.reviewing}`);
+
+  const model = ctx.genAI.getGenerativeModel({ model: 'gemini-2.5-pro', ...retryOptions(ctx, 'review') });
+  const prompt = buildReviewPrompt(critic, ctx.history, metadata, isYouTube, tracks);
+
+  try {
+    const reviewData = await streamCriticReview(ctx, model, {
+      contents: [
+        { role: 'user', parts: [{ text: prompt }] },
+        { role: 'user', parts: mediaParts(contentPart, tracks) }
+      ],
+      generationConfig: {
+        thinkingConfig: {
+          includeThoughts: true,
+        },
+      } as any, // TypeScript types don't include thinkingConfig yet
+    }, firstName.toUpperCase());
+
+    reviewData.critic = critic.id;
+    reviewData.criticName = critic.name;
+    ctx.onReview?.(reviewData);
+    ctx.log(`SUCCESS: ${critic.actions.done}`);
+    return reviewData;
+  } catch (e: any) {
+    throw new Error(`${firstName} refused to work: ${e.message}`);
+  }
+}
+
+/**
+ * Whether there is anything to transcribe: a single video or audio file (including talks
+ * routed to the document critics). Albums and documents go without.
+ */
+export function wantsTranscript(contentPart: GeminiMediaPart, isYouTube?: boolean, tracks?: AlbumTrackInput[]): boolean {
+  if (tracks && tracks.length > 0) return false;
+  const mimeType = contentPart.inlineData?.mimeType || contentPart.fileData?.mimeType || '';
+  return Boolean(isYouTube) || mimeType.startsWith('audio/') || mimeType.startsWith('video/');
+}
+
+/**
+ * Have the model transcribe the media with timestamps. A transcript is a bonus, so any
+ * failure is logged and the review goes ahead without one.
+ */
+export async function runTranscription(ctx: PipelineContext, contentPart: GeminiMediaPart): Promise<Transcript | undefined> {
+  ctx.setStage('transcribing');
+  ctx.log('AGENT ACTIVATED: Transcriber');
+  ctx.log('ACTION: Writing down every word, with timestamps...');
+
+  const model = ctx.genAI.getGenerativeModel({ model: 'gemini-2.5-flash', ...retryOptions(ctx, 'transcript') });
+
+  const prompt = `You are the transcription desk at 'The Smudged Pamphlet'.
+
+Transcribe everything said or sung in the provided media, in its original language. Start a new segment at each change of speaker or every sentence or two. Timestamps are seconds from the start. If nothing is said or sung, return a single segment describing that, such as "[instrumental]".
+
+Output ONLY valid JSON:
+{
+"language": "BCP-47 language code, e.g. en",
+"segments": [{"start": (seconds), "end": (seconds), "text": "What is said"}]
+}`;
+
+  try {
+    const result = await model.generateContent({
+      contents: [
+        { role: 'user', parts: [{ text: prompt }] },
+        { role: 'user', parts: [contentPart] }
+      ],
+      generationConfig: {
+        responseMimeType: 'application/json'
+      }
+    });
+
+    const checked = checkModelOutput(result.response.text(), transcriptSchema);
+    if (!checked.ok || !checked.value) {
+      ctx.log(`WARNING: Invalid transcript (${checked.errors[0]}), reviewing without one`);
+      return undefined;
+    }
+
+    const segments = checked.value.segments.slice().sort((a, b) => a.start - b.start);
+    const transcript: Transcript = { source: 'model', language: checked.value.language, segments };
+    ctx.log(`SUCCESS: Transcribed ${segments.length} segments`);
+    return transcript;
+  } catch (e: any) {
+    ctx.log(`WARNING: Transcription failed (${e.message}), reviewing without one`);
+    return undefined;
+  }
+}
+
+export async function classifyDocument(ctx: PipelineContext, documentPart: GeminiMediaPart): Promise<'literary' | 'business'> {
+  ctx.log('AGENT ACTIVATED: Document Classifier');
+  ctx.log('ACTION: Analyzing document type...');
+
+  const model = ctx.genAI.getGenerativeModel({ model: 'gemini-2.5-pro', ...retryOptions(ctx, 'classification') });
+
+  const prompt = `You are a document classifier for 'The Smudged Pamphlet'.
+
+Analyze the provided document and determine if it is:
+- LITERARY: Fiction, poetry, creative non-fiction, literary essays, novels, short stories, memoirs with artistic merit
+- BUSINESS: Business documents, academic papers, technical reports, professional writing, white papers, case studies, research papers, educational materials
+
+CRITICAL: Base your decision on the CONTENT and PURPOSE of the document:
+- Literary works are creative, narrative, or artistic in nature
+- Business/academic documents are informational, analytical, or professional in nature
+
+Output ONLY valid JSON:
+{
+"classification": "literary" or "business",
+"confidence": "high" or "medium" or "low",
+"reasoning": "Brief explanation (one sentence)"
+}`;
+
+  try {
+    const result = await model.generateContent({
+      contents: [
+        { role: 'user', parts: [{ text: prompt }] },
+        { role: 'user', parts: [documentPart] }
+      ],
+      generationConfig: {
+        responseMimeType: 'application/json'
+      }
+    });
+
+    // A misclassification is cheap, so no re-ask: anything invalid falls back to literary
+    const checked = checkModelOutput(result.response.text(), classificationSchema);
+    if (!checked.ok || !checked.value) {
+      ctx.log(`WARNING: Invalid classification (${checked.errors[0]}), defaulting to literary`);
+      return 'literary';
+    }
+
+    const classification = checked.value;
+    ctx.log(`CLASSIFICATION: ${classification.classification.toUpperCase()} (${classification.confidence || 'unknown'} confidence)`);
+    ctx.log(`REASON: ${classification.reasoning || 'No reasoning provided'}`);
+
+    return classification.classification;
+  } catch (e: any) {
+    ctx.log(`ERROR: Classification failed (${e.message}), defaulting to literary`);
+    return 'literary';
+  }
+}
+
+export async function runCommenters(ctx: PipelineContext, reviewData: ReviewData, audioPart: GeminiMediaPart): Promise<Comment[]> {
+  ctx.setStage('commenters_reacting');
+  ctx.log('AGENTS ACTIVATED: The Comment Section Horde (x15)');
+  ctx.log('ACTION: Trolls are emerging from under digital bridges...');
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: {
+        responseMimeType: "application/json",
+        maxOutputTokens: 65535
+      },
+      ...retryOptions(ctx, 'comments')
+  });
+
+  const criticInfo = getCriticInfo(reviewData.critic || 'music');
+  const media = criticInfo.media;
+
+  const prompt = `
+    You are simulating the comments section of a pretentious ${media.noun} review site 'The Smudged Pamphlet'.
+
+    IMPORTANT: You have access to the SAME ${media.medium.toUpperCase()} that ${criticInfo.name} reviewed. ${media.experience === 'reading' ? 'Read' : 'Watch/listen to'} it yourself and form your own opinions.
+
+    Read this review by ${criticInfo.name}:
+    ${JSON.stringify(reviewData)}
+
+    Generate 15 distinct comments from different standard internet personas (e.g., The Stan, The Hater, The 'Actually' Guy, The Bot, The Boomer, The Confused, The Conspiracy Theorist, ${media.expertCommenter}, The Nostalgic, The Contrarian).
+
+    CRITICAL: Some commenters should reference specific things they ${media.verb} in the ${media.medium} that ${criticInfo.name} missed or got wrong.
+    They should react based on BOTH the review AND their own ${media.experience} experience.
+    Some should attack ${criticInfo.name}, some should defend the ${media.creator} blindly, some should just be confused.
+
+    DO NOT assign likes yet - they will be assigned by a discriminator agent.
+
+    CRITICAL: Output ONLY a valid JSON array with NO markdown formatting, NO HTML tags, NO explanations.
+    Output a JSON ARRAY of objects:
+    [
+      {
+        "id": "c1",
+        "username": "User handle",
+        "persona_type": "short description of persona",
+        "timestamp": "relative time e.g. '2 minutes ago'",
+        "text": "The comment text",
+        "likes": 0
+      }
+    ]
+  `;
+
+  const commentsData = await generateValidated(model, [prompt, audioPart], commentListSchema, logRepairs(ctx, 'The comment section'));
+  const commentsWithReplies: Comment[] = commentsData.map(c => ({ ...c, replies: [] }));
+  ctx.onComments?.(commentsWithReplies);
+  ctx.log(`SUCCESS: ${commentsData.length} comments posted. The horde is restless.`);
+  return commentsWithReplies;
+}
+
+export async function runDiscriminator(ctx: PipelineContext, currentComments: Comment[]): Promise<Comment[]> {
+  ctx.setStage('discriminator_judging');
+  ctx.log('AGENT ACTIVATED: The Discriminator (Like/Dislike Judge)');
+  ctx.log('ACTION: Analyzing comment quality and assigning likes...');
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: "application/json" },
+      ...retryOptions(ctx, 'likes')
+  });
+
+  const prompt = `
+    You are the Discriminator Agent for a review site comment section.
+    Your job is to analyze each comment and assign a realistic number of likes based on:
+    - How funny/entertaining the comment is
+    - How provocative or controversial it is
+    - How well it's written
+    - Internet comment section dynamics (trolls get likes, reasonable takes get buried, etc.)
+
+    Here are the comments:
+    ${JSON.stringify(currentComments)}
+
+    For each comment, assign a like count between -15 and 120.
+    Hot takes and funny trolling should get more likes.
+    Boring or overly serious comments should get fewer likes.
+    Some should even have negative likes (very unpopular).
+
+    Output a JSON ARRAY:
+    [
+      {
+        "comment_id": "the comment id",
+        "likes": (integer between -15 and 120)
+      }
+    ]
+  `;
+
+  const likeData = await generateValidated(model, prompt, commentLikesSchema, logRepairs(ctx, 'The Discriminator'));
+
+  const updatedComments = currentComments.map(c => {
+    const data = likeData.find(d => d.comment_id === c.id);
+    return data ? { ...c, likes: data.likes } : c;
+  });
+  ctx.onComments?.(updatedComments);
+
+  ctx.log(`SUCCESS: Discriminator assigned likes to ${likeData.length} comments.`);
+  return updatedComments;
+}
+
+export async function runJulianArguments(ctx: PipelineContext, currentComments: Comment[], reviewData: ReviewData): Promise<Comment[]> {
+  const criticInfo = getCriticInfo(reviewData.critic || 'music');
+  ctx.setStage('julian_arguing');
+  ctx.log(`AGENT REACTIVATED: ${criticInfo.name} is triggered.`);
+  ctx.log(`ACTION: ${criticInfo.name} is ${criticInfo.actions.arguing}`);
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: "application/json" },
+      ...retryOptions(ctx, 'replies')
+  });
+
+  const prompt = `
+    ${introducePersona(criticInfo, 'replyPersona')}
+    You just read the comments on your review: ${reviewData.title}.
+    You are intellectually insecure and must have the last word but your not autistic, youll get in the mud and the weeds and will insult people quite crudely with a virceral cold repressed rage.
+
+    Here are the comments with their like counts:
+    ${JSON.stringify(currentComments)}
+
+    Select 3-4 comments to reply to based on YOUR GUT FEELING - which ones annoy you most personally.
+    Consider the likes as a factor (highly liked comments that attack you are especially annoying),
+    but also respond to comments that just rub you the wrong way regardless of popularity.
+
+    Don't just pick the top comments - pick the ones that PERSONALLY trigger you.
+    Write vicious, petty, intellectualizing replies to them.
+
+    Output a JSON ARRAY of objects only for the replies:
+    [
+      {
+        "comment_id": "id of the comment",
+        "reply_text": "${criticInfo.name}'s scathing reply"
+      }
+    ]
+  `;
+
+  const criticReplies = await generateValidated(model, prompt, criticRepliesSchema, logRepairs(ctx, criticInfo.name));
+  ctx.log(`SUCCESS: ${criticInfo.name} started ${criticReplies.length} fights in the comments.`);
+
+  const updatedComments = currentComments.map(c => {
+    const reply = criticReplies.find(r => r.comment_id === c.id);
+    if (reply) {
+      const newReply: Reply = {
+        id: `r-critic-${c.id}`,
+        username: criticInfo.username || criticInfo.name,
+        persona_type: 'Author',
+        timestamp: 'Just now',
+        text: reply.reply_text,
+        likes: 0,
+        is_critic: true,
+        critic: reviewData.critic
+      };
+      return { ...c, replies: [...c.replies, newReply] };
+    }
+    return c;
+  });
+  ctx.onComments?.(updatedComments);
+
+  return updatedComments;
+}
+
+/**
+ * The rebuttal round: a colleague (the panelist who disagrees most, otherwise a staff critic
+ * from the same side of the paper) answers the review formally, then the author responds.
+ * Both write in character with their review history, as they do for reviews.
+ */
+export async function runCriticDebate(ctx: PipelineContext, reviewData: ReviewData, panel?: PanelResult): Promise<CriticDebate> {
+  const author = getCriticInfo(reviewData.critic || 'music');
+  const challengerReview = panel?.reviews.slice(1)
+    .reduce((a, b) => (Math.abs(b.score - reviewData.score) > Math.abs(a.score - reviewData.score) ? b : a));
+  const challenger = getCriticInfo(challengerReview?.critic || findDebateOpponent(author.id));
+
+  ctx.setStage('critics_debating');
+  ctx.log(`AGENT ACTIVATED: ${challenger.name} has read ${author.name}'s review and requests the floor.`);
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: "application/json" },
+      ...retryOptions(ctx, 'debate')
+  });
+
+  const reviewed = JSON.stringify({ score: reviewData.score, summary: reviewData.summary, body: reviewData.body });
+  const challengerHistory = describeHistory(challenger, ctx.history);
+  const ownStake = challengerReview
+    ? `\n\nYou reviewed it too and gave it ${challengerReview.score}/10: ${JSON.stringify(challengerReview.summary)}`
+    : '';
+
+  const rebuttal = await generateValidated(model, `
+${describeCharacter(challenger)}${challengerHistory.own}${challengerHistory.colleagues}
+
+Your colleague ${author.name} (${author.role}) just published this review of "${reviewData.title}" by ${reviewData.artist}:
+${reviewed}${ownStake}
+
+The paper is giving you space for a formal rebuttal. Take their argument apart point by point, in character,
+and say what score the work really deserves.
+
+Output ONLY valid JSON with NO markdown formatting:
+{
+"headline": "Your rebuttal's headline",
+"body": ["Paragraph 1", "Paragraph 2", "Paragraph 3"],
+"score": (number 0.0 to 10.0, what it really deserves)
+}`, rebuttalSchema, logRepairs(ctx, challenger.name));
+  ctx.log(`SUCCESS: ${challenger.name} filed "${rebuttal.headline}" (${rebuttal.score.toFixed(1)}/10).`);
+
+  ctx.log(`AGENT REACTIVATED: ${author.name} is drafting a counter-rebuttal.`);
+  const authorHistory = describeHistory(author, ctx.history);
+  const counterRebuttal = await generateValidated(model, `
+${describeCharacter(author)}${authorHistory.own}${authorHistory.colleagues}
+
+You reviewed "${reviewData.title}" by ${reviewData.artist}:
+${reviewed}
+
+Your colleague ${challenger.name} (${challenger.role}) published this formal rebuttal, saying it deserves ${rebuttal.score}/10:
+${JSON.stringify({ headline: rebuttal.headline, body: rebuttal.body })}
+
+Write your counter-rebuttal for the paper. Defend your review, concede nothing you don't have to, in character.
+
+Output ONLY valid JSON with NO markdown formatting:
+{
+"headline": "Your counter-rebuttal's headline",
+"body": ["Paragraph 1", "Paragraph 2"]
+}`, counterRebuttalSchema, logRepairs(ctx, author.name));
+  ctx.log(`SUCCESS: ${author.name} has had the last word. For now.`);
+
+  const debate: CriticDebate = {
+    rebuttal: { critic: challenger.id, criticName: challenger.name, ...rebuttal },
+    counterRebuttal: { critic: author.id, criticName: author.name, ...counterRebuttal },
+  };
+  ctx.onDebate?.(debate);
+  return debate;
+}
+
+export async function runCommenterResponses(ctx: PipelineContext, currentComments: Comment[], reviewData: ReviewData): Promise<Comment[]> {
+  const criticInfo = getCriticInfo(reviewData.critic || 'music');
+  ctx.setStage('commenters_responding');
+  ctx.log(`AGENTS ACTIVATED: Commenters are responding to ${criticInfo.name} and each other...`);
+  ctx.log('ACTION: The comment wars have begun...');
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: "application/json" },
+      ...retryOptions(ctx, 'replies')
+  });
+
+  // Find comments that have critic's replies
+  const commentsWithCriticReplies = currentComments.filter(c =>
+    c.replies.some(r => r.is_critic)
+  );
+
+  // Also pick some random comments for inter-commenter drama
+  const randomComments = currentComments
+    .filter(c => !c.replies.some(r => r.is_critic))
+    .sort(() => Math.random() - 0.5)
+    .slice(0, 3);
+
+  const prompt = `
+    You are simulating a chaotic comment section on 'The Smudged Pamphlet' review site.
+    The review was about: ${reviewData.title} by ${reviewData.artist}.
+
+    Part 1: ${criticInfo.name} (the critic) has replied to some comments. Generate responses from the original commenters who are FURIOUS or defending themselves:
+    ${JSON.stringify(commentsWithCriticReplies)}
+
+    Part 2: Also generate 3-4 replies where commenters respond to OTHER commenters (not ${criticInfo.name}), creating side arguments:
+    ${JSON.stringify(randomComments)}
+
+    For Part 1: Each original commenter MUST respond to ${criticInfo.name}'s reply. Stay in character with their persona type.
+    For Part 2: Pick different commenters to start arguments with each other about the ${criticInfo.media.noun}, the review, or completely off-topic things.
+
+    Output a JSON ARRAY:
+    [
+      {
+        "parent_comment_id": "id of the comment being replied to",
+        "username": "username of the person replying",
+        "persona_type": "their persona type",
+        "reply_text": "the reply text"
+      }
+    ]
+  `;
+
+  const responses = await generateValidated(model, prompt, commenterResponsesSchema, logRepairs(ctx, 'The commenters'));
+  ctx.log(`SUCCESS: Generated ${responses.length} counter-responses and side arguments.`);
+
+  const updatedComments = currentComments.map(c => {
+    const newReplies = responses
+      .filter(r => r.parent_comment_id === c.id)
+      .map((r, idx): Reply => ({
+        id: `r-${c.id}-${idx}`,
+        username: r.username,
+        persona_type: r.persona_type,
+        timestamp: 'Just now',
+        text: r.reply_text,
+        likes: 0
+      }));
+
+    return newReplies.length > 0
+      ? { ...c, replies: [...c.replies, ...newReplies] }
+      : c;
+  });
+  ctx.onComments?.(updatedComments);
+
+  return updatedComments;
+}
+
+export async function runFinalDiscriminator(ctx: PipelineContext, currentComments: Comment[]): Promise<Comment[]> {
+  ctx.setStage('final_discrimination');
+  ctx.log('AGENT REACTIVATED: The Discriminator is judging all replies...');
+  ctx.log('ACTION: Assigning likes to the entire comment thread...');
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: "application/json" },
+      ...retryOptions(ctx, 'likes')
+  });
+
+  const prompt = `
+    You are the Discriminator Agent. Now that replies have been posted, assign likes to ALL replies.
+
+    Rules:
+    - Critic replies (is_critic true) typically get moderate likes (20-60) from their fanbase
+    - Replies that "own" the critic get high likes (40-100)
+    - Side argument replies vary wildly (-10 to 80)
+    - Consider the quality, humor, and toxicity
+
+    Here are all comments with their reply threads:
+    ${JSON.stringify(currentComments)}
+
+    Output a JSON ARRAY for ALL replies:
+    [
+      {
+        "reply_id": "the reply id",
+        "likes": (integer between -15 and 120)
+      }
+    ]
+  `;
+
+  const likeData = await generateValidated(model, prompt, replyLikesSchema, logRepairs(ctx, 'The Discriminator'));
+
+  const updatedComments = currentComments.map(c => ({
+    ...c,
+    replies: c.replies.map(r => {
+      const data = likeData.find(d => d.reply_id === r.id);
+      return data ? { ...r, likes: data.likes } : r;
+    })
+  }));
+  ctx.onComments?.(updatedComments);
+
+  ctx.log(`SUCCESS: Discriminator assigned likes to ${likeData.length} replies.`);
+  return updatedComments;
+}
+
+/**
+ * Route content to the critic for its type; documents are classified first
+ */
+export async function runCriticReview(
+  ctx: PipelineContext,
+  criticType: CriticType,
+  contentPart: GeminiMediaPart,
+  metadata?: MediaMetadata,
+  isYouTube?: boolean,
+  tracks?: AlbumTrackInput[]
+): Promise<ReviewData> {
+  // Documents go to the literary critic unless the classifier says they're business; videos
+  // were already classified from their YouTube metadata
+  if (!isYouTube && (criticType === 'literary' || criticType === 'business')) {
+    const documentType = await classifyDocument(ctx, contentPart);
+    return runPersonaReview(ctx, getCriticInfo(documentType), contentPart);
+  }
+
+  return runPersonaReview(ctx, getCriticInfo(criticType), contentPart, metadata, isYouTube, tracks);
+}
+
+// Score spread at or below which a panel agrees, and above which it is at war
+const PANEL_CONSENSUS_SPREAD = 1.5;
+const PANEL_DIVIDED_SPREAD = 4;
+
+/**
+ * Average, spread and verdict of a panel's scores (needs at least one review)
+ */
+export function summarizePanel(reviews: ReviewData[]): PanelSummary {
+  const scores: PanelScore[] = reviews.map(r => ({
+    critic: r.critic || 'music',
+    criticName: r.criticName || getCriticInfo(r.critic || 'music').name,
+    score: r.score,
+  }));
+  const highest = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const lowest = scores.reduce((a, b) => (b.score < a.score ? b : a));
+  const average = Math.round((scores.reduce((sum, s) => sum + s.score, 0) / scores.length) * 10) / 10;
+  const spread = Math.round((highest.score - lowest.score) * 10) / 10;
+
+  if (spread <= PANEL_CONSENSUS_SPREAD) {
+    return {
+      average, spread, highest, lowest,
+      verdict: 'consensus',
+      summary: `The panel agrees: ${average.toFixed(1)}/10 on average, with only ${spread.toFixed(1)} between ${highest.criticName} and ${lowest.criticName}.`,
+    };
+  }
+  if (spread <= PANEL_DIVIDED_SPREAD) {
+    return {
+      average, spread, highest, lowest,
+      verdict: 'split',
+      summary: `A split panel: ${highest.criticName} gives it ${highest.score.toFixed(1)}, ${lowest.criticName} only ${lowest.score.toFixed(1)}.`,
+    };
+  }
+  return {
+    average, spread, highest, lowest,
+    verdict: 'divided',
+    summary: `The panel is at war: ${highest.criticName} (${highest.score.toFixed(1)}) and ${lowest.criticName} (${lowest.score.toFixed(1)}) are ${spread.toFixed(1)} points apart.`,
+  };
+}
+
+/**
+ * Guest critics review the same content after the lead. Their drafts are not streamed
+ * (the page shows the lead's); each finished review updates the panel instead. Guests are
+ * not re-classified: on a document panel that could turn a guest into a second lead.
+ */
+export async function runPanelReviews(
+  ctx: PipelineContext,
+  lead: ReviewData,
+  guests: CriticType[],
+  contentPart: GeminiMediaPart,
+  metadata?: MediaMetadata,
+  isYouTube?: boolean,
+  tracks?: AlbumTrackInput[]
+): Promise<PanelResult> {
+  const guestCtx: PipelineContext = { ...ctx, onReview: undefined, onDraftReview: undefined };
+  const reviews = [lead];
+
+  ctx.log(`SYSTEM: Panel convened: ${[lead.critic || 'music', ...guests].map(type => getCriticInfo(type).name).join(', ')}`);
+
+  for (const guest of guests) {
+    reviews.push(await runPersonaReview(guestCtx, getCriticInfo(guest), contentPart, metadata, isYouTube, tracks));
+    ctx.onPanel?.({ reviews: [...reviews], summary: summarizePanel(reviews) });
+  }
+
+  const panel = { reviews, summary: summarizePanel(reviews) };
+  ctx.log(`SYSTEM: ${panel.summary.summary}`);
+  return panel;
+}
+
+/**
+ * Each panelist comments on the colleague whose score is furthest from theirs, and that
+ * colleague fires back. The comments are pinned above the horde's.
+ */
+export async function runPanelCrossfire(ctx: PipelineContext, currentComments: Comment[], panel: PanelResult): Promise<Comment[]> {
+  ctx.setStage('panel_crossfire');
+  ctx.log('AGENTS ACTIVATED: The panel turns on itself.');
+
+  const model = ctx.genAI.getGenerativeModel({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: "application/json" },
+      ...retryOptions(ctx, 'replies')
+  });
+
+  const panelComments: Comment[] = [];
+  for (let i = 0; i < panel.reviews.length; i++) {
+    const review = panel.reviews[i];
+    const critic = getCriticInfo(review.critic || 'music');
+    const target = panel.reviews
+      .filter(other => other !== review)
+      .reduce((a, b) => (Math.abs(b.score - review.score) > Math.abs(a.score - review.score) ? b : a));
+    const rival = getCriticInfo(target.critic || 'music');
+
+    const attack = await generateValidated(model, `
+    ${introducePersona(critic, 'replyPersona')}
+    You sat on a panel reviewing "${review.title}". You gave it ${review.score}/10:
+    ${JSON.stringify({ summary: review.summary, body: review.body })}
+
+    Your colleague ${rival.name} gave it ${target.score}/10:
+    ${JSON.stringify({ summary: target.summary, body: target.body })}
+
+    Post a comment under the review tearing into ${rival.name}'s take. Be specific about where they went wrong.
+    Keep it brief and in character. Output: {"text":"your comment"}
+    `, commentTextSchema, logRepairs(ctx, critic.name));
+
+    const comment: Comment = {
+      id: `c-panel-${i + 1}`,
+      username: critic.username,
+      persona_type: 'Panelist',
+      timestamp: 'Just now',
+      text: attack.text,
+      likes: 0,
+      replies: [],
+      is_critic: true,
+      critic: critic.id,
+    };
+
+    const retort = await generateValidated(model, `
+    ${introducePersona(rival, 'replyPersona')}
+    You gave "${target.title}" ${target.score}/10. Your colleague ${critic.name} gave it ${review.score}/10 and just posted this about your review:
+    ${JSON.stringify(attack.text)}
+
+    Fire back. Keep it brief and in character. Output: {"reply_text":"your reply"}
+    `, replyTextSchema, logRepairs(ctx, rival.name));
+
+    comment.replies.push({
+      id: `r-panel-${i + 1}`,
+      username: rival.username,
+      persona_type: 'Panelist',
+      timestamp: 'Just now',
+      text: retort.reply_text,
+      likes: 0,
+      is_critic: true,
+      critic: rival.id,
+      replyingToUsername: critic.username,
+      replyingToId: comment.id,
+    });
+
+    panelComments.push(comment);
+    ctx.log(`SUCCESS: ${critic.name} and ${rival.name} are at it in the comments.`);
+  }
+
+  const updatedComments = [...panelComments, ...currentComments];
+  ctx.onComments?.(updatedComments);
+  return updatedComments;
+}
+
+/**
+ * Rank reviewed collection items, best score first (ties keep playlist order), with the
+ * average score to one decimal
+ */
+export function rankCollection(entries: Omit<CollectionEntry, 'rank'>[]): { average: number; entries: CollectionEntry[] } {
+  const ranked = [...entries]
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+  const average = entries.length > 0
+    ? Math.round((entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length) * 10) / 10
+    : 0;
+  return { average, entries: ranked };
+}
+
+/**
+ * A lead critic's review of a whole playlist or channel, written from the per-video
+ * reviews rather than by watching everything again
+ */
+export function buildCollectionPrompt(critic: CriticPersona, collection: CollectionResult): string {
+  const { fields, paragraphs } = critic.review;
+  const body = Array.from({ length: paragraphs }, (_, i) => `"Paragraph ${i + 1}"`).join(', ');
+  const reviews = collection.entries.map(entry => ({
+    rank: entry.rank,
+    title: entry.title,
+    critic: entry.criticName,
+    score: entry.score,
+    summary: entry.summary,
+  }));
+
+  return `
+${describeCharacter(critic)}
+
+Your paper has reviewed every video in a YouTube ${collection.kind === 'channel' ? "channel's latest uploads" : 'playlist'}, one by one.
+
+Collection Information:
+- Title: "${collection.title}"
+- Channel/Creator: ${collection.channelTitle || 'Various'}
+- Average score: ${collection.average.toFixed(1)}
+
+The individual reviews, best first:
+${JSON.stringify(reviews)}
+
+Write one review of the collection as a whole: what it adds up to, its high and low points, and whether the ranking is fair. Refer to the videos by title. The collection's score is its average; don't invent another.
+
+Output ONLY valid JSON with NO markdown formatting:
+{
+"title": "${collection.title}",
+"artist": "${collection.channelTitle || fields.artist}",
+"score": ${collection.average.toFixed(1)},
+"summary": "${fields.summary}",
+"body": [${body}],
+"notable_lyrics_quoted": "${fields.quote}"
+}`;
+}
+
+/**
+ * Review every video in a collection with the critic it was routed to, then have the lead
+ * critic write the collection review. The review's score is the average of the videos'.
+ */
+export async function runCollectionReview(
+  ctx: PipelineContext,
+  criticType: CriticType,
+  collection: { kind: CollectionResult['kind']; title: string; channelTitle?: string; sourceUrl: string; items: CollectionItem[] }
+): Promise<{ review: ReviewData; collection: CollectionResult }> {
+  const itemCtx: PipelineContext = { ...ctx, onReview: undefined, onDraftReview: undefined };
+  const reviewed: Omit<CollectionEntry, 'rank'>[] = [];
+
+  for (let i = 0; i < collection.items.length; i++) {
+    const item = collection.items[i];
+    ctx.log(`SYSTEM: Video ${i + 1} of ${collection.items.length}: "${item.title}"`);
+    const review = await runCriticReview(
+      itemCtx,
+      item.criticType,
+      { fileData: { fileUri: canonicalVideoUrl(item.videoId) } },
+      { title: item.title, artist: item.channelTitle },
+      true
+    );
+    reviewed.push({
+      position: i + 1,
+      videoId: item.videoId,
+      title: item.title,
+      channelTitle: item.channelTitle,
+      thumbnailUrl: item.thumbnailUrl,
+      score: review.score,
+      summary: review.summary,
+      critic: review.critic,
+      criticName: review.criticName,
+    });
+    ctx.onCollection?.({ ...collection, ...rankCollection(reviewed) });
+  }
+
+  const result: CollectionResult = {
+    kind: collection.kind,
+    title: collection.title,
+    channelTitle: collection.channelTitle,
+    sourceUrl: collection.sourceUrl,
+    ...rankCollection(reviewed),
+  };
+  ctx.log(`SYSTEM: Collection average ${result.average.toFixed(1)}. Top of the pile: "${result.entries[0].title}"`);
+
+  const critic = getCriticInfo(criticType);
+  const firstName = critic.name.split(' ')[0];
+  ctx.setStage(`${firstName.toLowerCase()}_reviewing`);
+  ctx.log(`AGENT ACTIVATED: ${critic.name} (${critic.title}) sums up the collection`);
+
+  const model = ctx.genAI.getGenerativeModel({
+    model: 'gemini-2.5-pro',
+    generationConfig: { responseMimeType: 'application/json' },
+    ...retryOptions(ctx, 'collection')
+  });
+
+  try {
+    const review = await generateValidated(model, buildCollectionPrompt(critic, result), reviewSchema, logRepairs(ctx, firstName.toUpperCase()));
+    const reviewData: ReviewData = { ...review, score: result.average, critic: critic.id, criticName: critic.name };
+    ctx.onReview?.(reviewData);
+    ctx.log(`SUCCESS: ${critic.actions.done}`);
+    return { review: reviewData, collection: result };
+  } catch (e: any) {
+    throw new Error(`${firstName} refused to work: ${e.message}`);
+  }
+}
+
+/**
+ * The full initial pipeline: transcript, review, comment horde, likes, the critic's replies,
+ * the rebuttal round, counter-responses and final likes. Organic comments are not part of it.
+ * Videos and audio are transcribed first unless `transcript` (e.g. captions) is passed in.
+ * With panel guests, they review too and argue with each other before the likes.
+ * For albums, the critics hear every track; `contentPart` (the commenters' media) should
+ * be the opening track, since the whole album would multiply every comment request.
+ * Collections are reviewed video by video instead, and the lead critic sums them up.
+ */
+export async function runReviewPipeline(
+  ctx: PipelineContext,
+  input: {
+    criticType: CriticType;
+    panel?: CriticType[];
+    contentPart: GeminiMediaPart;
+    metadata?: MediaMetadata;
+    isYouTube?: boolean;
+    tracks?: AlbumTrackInput[];
+    collection?: Parameters<typeof runCollectionReview>[2];
+    transcript?: Transcript; // Captions fetched beforehand; otherwise the model transcribes
+  }
+): Promise<{ review: ReviewData; comments: Comment[]; panel?: PanelResult; debate?: CriticDebate; collection?: CollectionResult; transcript?: Transcript }> {
+  let transcript = input.transcript;
+  if (!transcript && !input.collection && wantsTranscript(input.contentPart, input.isYouTube, input.tracks)) {
+    transcript = await runTranscription(ctx, input.contentPart);
+  }
+  if (transcript) ctx.onTranscript?.(transcript);
+  const metadata = transcript ? { ...input.metadata, transcript } : input.metadata;
+
+  let review: ReviewData;
+  let collection: CollectionResult | undefined;
+  if (input.collection) {
+    ({ review, collection } = await runCollectionReview(ctx, input.criticType, input.collection));
+  } else {
+    review = await runCriticReview(ctx, input.criticType, input.contentPart, metadata, input.isYouTube, input.tracks);
+  }
+
+  // The lead may have been reassigned by the document classifier
+  const guests = Array.from(new Set(input.panel || []))
+    .filter(type => type !== input.criticType && type !== review.critic);
+  const panel = guests.length > 0
+    ? await runPanelReviews(ctx, review, guests, input.contentPart, metadata, input.isYouTube, input.tracks)
+    : undefined;
+
+  let comments = await runCommenters(ctx, review, input.contentPart);
+  if (panel) comments = await runPanelCrossfire(ctx, comments, panel);
+  comments = await runDiscriminator(ctx, comments);
+  comments = await runJulianArguments(ctx, comments, review);
+  // The rebuttal round is a bonus: losing it shouldn't cost the review and comments already written
+  let debate: CriticDebate | undefined;
+  try {
+    debate = await runCriticDebate(ctx, review, panel);
+  } catch (e: any) {
+    ctx.log(`WARNING: Rebuttal round failed (${e.message}), publishing without it`);
+  }
+  comments = await runCommenterResponses(ctx, comments, review);
+
+  // Run final discriminator to assign likes to ALL replies (including the critic's)
+  comments = await runFinalDiscriminator(ctx, comments);
+
+  return { review, comments, panel, debate, collection, transcript };
+}
+
+/**
+ * URL slug for a review: "artist-title", lowercased, non-alphanumerics collapsed to dashes
+ */
+export function buildReviewSlug(review: Pick<ReviewData, 'artist' | 'title'>): string {
+  return `${review.artist.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${review.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+}
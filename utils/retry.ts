@@ -0,0 +1,99 @@
+// Retry policy for model calls: exponential backoff with jitter, a retry budget shared by
+// every call made for one pipeline stage, and an optional chain of fallback models.
+
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  attemptsPerModel: number; // Tries on each model before falling back to the next one
+  budget: number; // Default number of retries shared by all calls of one model handle
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  attemptsPerModel: 3,
+  budget: 4,
+};
+
+/**
+ * Retries left for a stage. Every retry of every call drawing from it spends one.
+ */
+export class RetryBudget {
+  remaining: number;
+
+  constructor(retries: number) {
+    this.remaining = retries;
+  }
+
+  take(): boolean {
+    if (this.remaining <= 0) return false;
+    this.remaining--;
+    return true;
+  }
+}
+
+export interface RetryEvent {
+  model: string; // Model that failed
+  nextModel: string; // Model the next attempt will use
+  retry: number; // 1 for the first retry
+  delayMs: number;
+  error: Error;
+}
+
+/**
+ * Overloaded or briefly unavailable upstream. Other failures (bad requests, our own
+ * rate limit, config errors) would fail the same way again.
+ */
+export function isRetryableError(error: any): boolean {
+  if (!error) return false;
+  if (error.isOverloaded) return true;
+  if ([502, 503, 504].includes(error.status)) return true;
+  return /overloaded|unavailable/i.test(error.message || '');
+}
+
+/**
+ * Delay before the given retry (0-based): doubling from baseDelayMs up to maxDelayMs,
+ * randomised over the upper half so parallel callers don't retry in lockstep.
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Call `call` with each model in turn (attemptsPerModel tries each) until one succeeds.
+ * Gives up on the first non-retryable error, when canRetry() says no, or when the budget
+ * runs out. Resolves with the result and the model that produced it.
+ */
+export async function withRetry<T>(
+  models: string[],
+  call: (model: string) => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    budget: RetryBudget;
+    onRetry?: (event: RetryEvent) => void;
+    canRetry?: () => boolean;
+    wait?: (ms: number) => Promise<unknown>;
+    random?: () => number;
+  }
+): Promise<{ result: T; model: string }> {
+  const { policy, budget, onRetry, canRetry, wait = sleep, random } = options;
+  const plan = models.flatMap(model => Array<string>(Math.max(1, policy.attemptsPerModel)).fill(model));
+
+  for (let i = 0; ; i++) {
+    try {
+      return { result: await call(plan[i]), model: plan[i] };
+    } catch (error: any) {
+      const isLast = i === plan.length - 1;
+      if (isLast || !isRetryableError(error) || (canRetry && !canRetry()) || !budget.take()) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(i, policy, random);
+      onRetry?.({ model: plan[i], nextModel: plan[i + 1], retry: i + 1, delayMs, error });
+      await wait(delayMs);
+    }
+  }
+}
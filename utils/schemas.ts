@@ -0,0 +1,485 @@
+// Runtime schemas for every agent's JSON output.
+// Each schema validates and coerces what the model returned (numeric strings, paragraphs
+// as one string, wrapped arrays...) and reports what it could not fix, so the caller can
+// ask the model again with the errors.
+import type { ReviewData, TrackVerdict, Annotation } from './pipeline';
+import type { TranscriptSegment } from './transcript';
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface Checked<T> {
+  value?: T;
+  errors: string[];
+}
+
+/** Validates `input` found at `path` (e.g. "body[2]"), returning the coerced value or errors */
+export type Schema<T> = (input: unknown, path: string) => Checked<T>;
+
+/**
+ * Thrown when model output is still invalid after the allowed repair attempts
+ */
+export class SchemaValidationError extends Error {
+  errors: string[];
+  raw: string;
+
+  constructor(errors: string[], raw: string) {
+    super(`Model output failed validation: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+    this.raw = raw;
+  }
+}
+
+function ok<T>(value: T): Checked<T> {
+  return { value, errors: [] };
+}
+
+function fail<T>(path: string, message: string): Checked<T> {
+  return { errors: [`${path || '(root)'}: ${message}`] };
+}
+
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+// ---- Primitive schemas ----
+
+export function string(options: { fallback?: string } = {}): Schema<string> {
+  return (input, path) => {
+    if (typeof input === 'string' && input.trim()) return ok(input.trim());
+    if (typeof input === 'number' || typeof input === 'boolean') return ok(String(input));
+    if (options.fallback !== undefined && (input === undefined || input === null || input === '')) {
+      return ok(options.fallback);
+    }
+    return fail(path, input === undefined ? 'is required' : 'expected a non-empty string');
+  };
+}
+
+/**
+ * Numbers, also accepting numeric strings such as "7.5" or "7.5/10". Out-of-range values are
+ * clamped rather than rejected.
+ */
+export function number(options: { min?: number; max?: number; integer?: boolean; decimals?: number; fallback?: number } = {}): Schema<number> {
+  return (input, path) => {
+    let value: number | undefined;
+    if (typeof input === 'number' && Number.isFinite(input)) {
+      value = input;
+    } else if (typeof input === 'string') {
+      const match = input.trim().match(/^-?\d+(?:\.\d+)?/);
+      if (match) value = parseFloat(match[0]);
+    }
+
+    if (value === undefined) {
+      if (options.fallback !== undefined && (input === undefined || input === null)) return ok(options.fallback);
+      return fail(path, input === undefined ? 'is required' : 'expected a number');
+    }
+
+    if (options.min !== undefined) value = Math.max(options.min, value);
+    if (options.max !== undefined) value = Math.min(options.max, value);
+    if (options.integer) value = Math.round(value);
+    if (options.decimals !== undefined) {
+      const factor = 10 ** options.decimals;
+      value = Math.round(value * factor) / factor;
+    }
+    return ok(value);
+  };
+}
+
+/**
+ * One of a fixed set of strings, matched case-insensitively
+ */
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (input, path) => {
+    if (typeof input === 'string') {
+      const match = values.find(v => v.toLowerCase() === input.trim().toLowerCase());
+      if (match) return ok(match);
+    }
+    return fail(path, `expected one of ${values.map(v => `"${v}"`).join(', ')}`);
+  };
+}
+
+/**
+ * A point in the media, in seconds. Also accepts clock times ("2:14", "1:02:03") and
+ * bracketed ones ("[2:14]").
+ */
+export function timestamp(): Schema<number> {
+  return (input, path) => {
+    if (typeof input === 'number' && Number.isFinite(input) && input >= 0) return ok(input);
+    if (typeof input === 'string') {
+      const text = input.trim().replace(/^\[|\]$/g, '');
+      if (/^\d+(\.\d+)?$/.test(text)) return ok(parseFloat(text));
+      if (/^\d+(:\d{1,2}){1,2}$/.test(text)) return ok(text.split(':').reduce((total, part) => total * 60 + Number(part), 0));
+    }
+    return fail(path, input === undefined ? 'is required' : 'expected seconds or a m:ss timestamp');
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (input, path) => (input === undefined || input === null ? ok(undefined) : schema(input, path));
+}
+
+/**
+ * A list of paragraphs. A single string is split on blank lines; empty entries are dropped.
+ */
+export function paragraphs(options: { minItems?: number } = {}): Schema<string[]> {
+  const minItems = options.minItems ?? 1;
+  return (input, path) => {
+    let items: unknown[];
+    if (typeof input === 'string') {
+      items = input.split(/\n\s*\n/);
+    } else if (Array.isArray(input)) {
+      items = input;
+    } else {
+      return fail(path, 'expected an array of paragraphs');
+    }
+
+    const value = items
+      .filter(item => typeof item === 'string' || typeof item === 'number')
+      .map(item => String(item).trim())
+      .filter(Boolean);
+
+    if (value.length < minItems) return fail(path, `expected at least ${minItems} non-empty paragraph(s)`);
+    return ok(value);
+  };
+}
+
+// ---- Composite schemas ----
+
+type Shape<T> = { [K in keyof T]: Schema<T[K]> };
+
+/**
+ * An object with the given fields; unknown fields are dropped. A one-element array holding
+ * the object is unwrapped.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return (input, path) => {
+    if (Array.isArray(input) && input.length === 1) input = input[0];
+    if (!isPlainObject(input)) return fail(path, 'expected an object');
+
+    const value = {} as T;
+    const errors: string[] = [];
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      const field = shape[key](input[key as string], path ? `${path}.${String(key)}` : String(key));
+      errors.push(...field.errors);
+      if (field.value !== undefined) value[key] = field.value as T[keyof T];
+    }
+    return errors.length > 0 ? { errors } : ok(value);
+  };
+}
+
+/**
+ * An array of items. Also accepts a single item, or an object wrapping the array under one
+ * key (e.g. {"comments": [...]}), both common model slips.
+ */
+export function arrayOf<T>(item: Schema<T>, options: { minItems?: number } = {}): Schema<T[]> {
+  return (input, path) => {
+    if (isPlainObject(input)) {
+      const arrays = Object.values(input).filter(Array.isArray);
+      input = arrays.length === 1 ? arrays[0] : [input];
+    }
+    if (!Array.isArray(input)) return fail(path, 'expected an array');
+
+    const value: T[] = [];
+    const errors: string[] = [];
+    input.forEach((entry, i) => {
+      const checked = item(entry, `${path}[${i}]`);
+      errors.push(...checked.errors);
+      if (checked.value !== undefined) value.push(checked.value);
+    });
+
+    if (errors.length === 0 && value.length < (options.minItems ?? 0)) {
+      errors.push(`${path || '(root)'}: expected at least ${options.minItems} item(s)`);
+    }
+    return errors.length > 0 ? { errors } : ok(value);
+  };
+}
+
+// ---- Agent output schemas ----
+
+export const reviewSchema: Schema<ReviewData> = object<ReviewData>({
+  title: string(),
+  artist: string({ fallback: 'Unknown Artist' }),
+  score: number({ min: 0, max: 10, decimals: 1 }),
+  summary: string(),
+  body: paragraphs(),
+  notable_lyrics_quoted: string({ fallback: '' }),
+  critic: optional(oneOf(['music', 'film', 'literary', 'business'] as const)),
+  criticName: optional(string()),
+  tracks: optional(arrayOf(object<TrackVerdict>({
+    track: number({ min: 1, integer: true }),
+    title: string(),
+    score: number({ min: 0, max: 10, decimals: 1 }),
+    verdict: string({ fallback: '' }),
+  }))),
+  annotations: optional(arrayOf(object<Annotation>({
+    time: timestamp(),
+    note: string(),
+  }))),
+});
+
+export interface DocumentClassification {
+  classification: 'literary' | 'business';
+  confidence?: string;
+  reasoning?: string;
+}
+
+export const classificationSchema = object<DocumentClassification>({
+  classification: oneOf(['literary', 'business'] as const),
+  confidence: optional(string()),
+  reasoning: optional(string()),
+});
+
+export interface GeneratedTranscript {
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+export const transcriptSchema = object<GeneratedTranscript>({
+  language: optional(string()),
+  segments: arrayOf(object<TranscriptSegment>({
+    start: timestamp(),
+    end: optional(timestamp()),
+    text: string(),
+  }), { minItems: 1 }),
+});
+
+export interface GeneratedComment {
+  id: string;
+  username: string;
+  persona_type: string;
+  timestamp: string;
+  text: string;
+  likes: number;
+}
+
+export const commentListSchema = arrayOf(object<GeneratedComment>({
+  id: string(),
+  username: string(),
+  persona_type: string({ fallback: 'Commenter' }),
+  timestamp: string({ fallback: 'Just now' }),
+  text: string(),
+  likes: number({ integer: true, fallback: 0 }),
+}), { minItems: 1 });
+
+const likes = number({ min: -15, max: 120, integer: true });
+
+export const commentLikesSchema = arrayOf(object<{ comment_id: string; likes: number }>({
+  comment_id: string(),
+  likes,
+}));
+
+export const replyLikesSchema = arrayOf(object<{ reply_id: string; likes: number }>({
+  reply_id: string(),
+  likes,
+}));
+
+export const contentLikesSchema = arrayOf(object<{ id: string; likes: number }>({
+  id: string(),
+  likes,
+}));
+
+export const criticRepliesSchema = arrayOf(object<{ comment_id: string; reply_text: string }>({
+  comment_id: string(),
+  reply_text: string(),
+}));
+
+export const commenterResponsesSchema = arrayOf(object<{ parent_comment_id: string; username: string; persona_type: string; reply_text: string }>({
+  parent_comment_id: string(),
+  username: string(),
+  persona_type: string({ fallback: 'Commenter' }),
+  reply_text: string(),
+}));
+
+// Single organic interactions
+export const newCommentSchema = object<{ username: string; persona_type: string; text: string }>({
+  username: string(),
+  persona_type: string({ fallback: 'Commenter' }),
+  text: string(),
+});
+
+export const newReplySchema = object<{ username: string; persona_type: string; reply_text: string }>({
+  username: string(),
+  persona_type: string({ fallback: 'Commenter' }),
+  reply_text: string(),
+});
+
+export const replyTextSchema = object<{ reply_text: string }>({ reply_text: string() });
+
+export const commentTextSchema = object<{ text: string }>({ text: string() });
+
+export interface GeneratedRebuttal {
+  headline: string;
+  body: string[];
+  score: number; // What the rebutting critic thinks the work really deserves
+}
+
+export const rebuttalSchema = object<GeneratedRebuttal>({
+  headline: string(),
+  body: paragraphs(),
+  score: number({ min: 0, max: 10, decimals: 1 }),
+});
+
+export const counterRebuttalSchema = object<{ headline: string; body: string[] }>({
+  headline: string(),
+  body: paragraphs(),
+});
+
+export interface EditorialVerdict {
+  mediaTitle: string;
+  mediaArtist: string;
+  verdict: 'ROCKS' | 'SUCKS';
+  reason: string;
+}
+
+export interface EditorialData {
+  title: string;
+  summary: string;
+  body: string[];
+  verdicts: EditorialVerdict[];
+}
+
+export const editorialSchema = object<EditorialData>({
+  title: string(),
+  summary: string(),
+  body: paragraphs(),
+  verdicts: arrayOf(object<EditorialVerdict>({
+    mediaTitle: string(),
+    mediaArtist: string({ fallback: 'Unknown' }),
+    verdict: oneOf(['ROCKS', 'SUCKS'] as const),
+    reason: string({ fallback: '' }),
+  })),
+});
+
+// ---- Parsing and repair ----
+
+/**
+ * Parse JSON out of a model reply: strips markdown fences and HTML tags, and falls back to
+ * the outermost {...} or [...] when the model wrapped the JSON in prose.
+ */
+export function parseModelJSON(text: string): { value?: unknown; error?: string } {
+  const cleaned = text.replace(/```json|```/g, '').replace(/<[^>]*>/g, '').trim();
+
+  try {
+    return { value: JSON.parse(cleaned) };
+  } catch (e) {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      try {
+        return { value: JSON.parse(cleaned.slice(start, end + 1)) };
+      } catch {
+        // Fall through to the original error
+      }
+    }
+    return { error: `not valid JSON (${e instanceof Error ? e.message : 'unknown error'})` };
+  }
+}
+
+export function validate<T>(schema: Schema<T>, input: unknown): { ok: boolean; value?: T; errors: string[] } {
+  const checked = schema(input, '');
+  return { ok: checked.errors.length === 0, value: checked.value, errors: checked.errors };
+}
+
+/**
+ * Parse and validate a raw model reply in one step
+ */
+export function checkModelOutput<T>(text: string, schema: Schema<T>): { ok: boolean; value?: T; errors: string[] } {
+  const parsed = parseModelJSON(text);
+  if (parsed.error) return { ok: false, errors: [parsed.error] };
+  return validate(schema, parsed.value);
+}
+
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous reply could not be used because:
+${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+Reply again with ONLY the corrected JSON, in the same structure as requested. No markdown, no commentary.`;
+}
+
+/** Asks the model to fix `previousText` given the validation errors; resolves with the new reply */
+export type RepairHandler = (errors: string[], previousText: string, attempt: number) => Promise<string>;
+
+export type RepairListener = (errors: string[], attempt: number) => void;
+
+/**
+ * Validate a reply, asking the model again (up to maxRepairs times) with the validation
+ * errors until it passes. Throws SchemaValidationError when it never does.
+ */
+export async function parseWithRepair<T>(
+  text: string,
+  schema: Schema<T>,
+  reask?: RepairHandler,
+  maxRepairs: number = MAX_REPAIR_ATTEMPTS
+): Promise<T> {
+  let current = text;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = checkModelOutput(current, schema);
+    if (result.ok) return result.value as T;
+
+    if (!reask || attempt > maxRepairs) {
+      console.error('Model output failed validation:', result.errors, current);
+      throw new SchemaValidationError(result.errors, current);
+    }
+    current = await reask(result.errors, current, attempt);
+  }
+}
+
+// Minimal model surface needed for re-asking (matches ServerSideGeminiAI models)
+interface JSONModel {
+  generateContent(request: ModelRequest): Promise<{ response: { text(): string } }>;
+}
+
+type ModelRequest = { contents: any[]; generationConfig?: any } | string | any[];
+
+function toContents(request: ModelRequest): { contents: any[]; generationConfig?: any } {
+  if (typeof request === 'string') return { contents: [{ role: 'user', parts: [{ text: request }] }] };
+  if (Array.isArray(request)) {
+    return { contents: [{ role: 'user', parts: request.map(item => (typeof item === 'string' ? { text: item } : item)) }] };
+  }
+  return request;
+}
+
+/**
+ * A RepairHandler that replays the original prompt plus the bad reply and the errors.
+ * Media parts are left out of the replay: fixing the format doesn't need them, and
+ * re-sending inline files would be slow and expensive.
+ */
+export function createRepairHandler(
+  model: JSONModel,
+  request: ModelRequest,
+  onRepair?: RepairListener
+): RepairHandler {
+  const { contents, generationConfig } = toContents(request);
+  const textOnly = contents
+    .map(content => ({ ...content, parts: (content.parts || []).filter((part: any) => typeof part.text === 'string') }))
+    .filter(content => content.parts.length > 0);
+
+  return async (errors, previousText, attempt) => {
+    onRepair?.(errors, attempt);
+    const result = await model.generateContent({
+      contents: [
+        ...textOnly,
+        { role: 'model', parts: [{ text: previousText }] },
+        { role: 'user', parts: [{ text: buildRepairPrompt(errors) }] },
+      ],
+      generationConfig: generationConfig?.thinkingConfig
+        ? { responseMimeType: 'application/json' } // Repairs don't need the critic's thoughts again
+        : generationConfig,
+    });
+    return result.response.text();
+  };
+}
+
+/**
+ * generateContent + validation + bounded repair. onRepair is told about each re-ask.
+ */
+export async function generateValidated<T>(
+  model: JSONModel,
+  request: ModelRequest,
+  schema: Schema<T>,
+  onRepair?: RepairListener
+): Promise<T> {
+  const result = await model.generateContent(request);
+  return parseWithRepair(result.response.text(), schema, createRepairHandler(model, request, onRepair));
+}
@@ -0,0 +1,269 @@
+// Full-text search over the review archive.
+// An inverted index (term → review → weight) kept in memory in the browser and updated one
+// review at a time as reviews are saved, re-saved with new comments, or deleted; facets
+// (critic, score, media type, date) filter the matches.
+import { isDocumentCritic, CriticType } from './critics';
+import { isVideoMedia } from './video';
+
+export type ArchiveMediaType = 'youtube' | 'audio' | 'video' | 'document';
+
+export const ARCHIVE_MEDIA_TYPES: Record<ArchiveMediaType, string> = {
+  youtube: 'YouTube',
+  audio: 'Audio',
+  video: 'Video',
+  document: 'Document',
+};
+
+/**
+ * The parts of a saved review the index reads
+ */
+export interface SearchableReview {
+  id: string;
+  title: string;
+  artist: string;
+  timestamp: number;
+  review: {
+    score: number;
+    summary: string;
+    body: string[];
+    notable_lyrics_quoted: string;
+    critic?: CriticType;
+  };
+  comments: { text: string; replies: { text: string }[] }[];
+  isYouTube?: boolean;
+  audioFileName?: string;
+}
+
+export type SearchField = 'title' | 'artist' | 'summary' | 'quote' | 'body' | 'comments';
+
+// How much a hit in each field counts towards a review's rank
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 8,
+  artist: 6,
+  summary: 4,
+  quote: 3,
+  body: 2,
+  comments: 1,
+};
+
+export interface SearchFilters {
+  critics?: CriticType[];
+  mediaTypes?: ArchiveMediaType[];
+  minScore?: number;
+  maxScore?: number;
+  publishedWithin?: number; // Milliseconds; only reviews published this recently
+}
+
+export interface SearchResult {
+  id: string;
+  rank: number;
+  fields: SearchField[]; // Where the query matched, best first (empty without a query)
+}
+
+export interface SearchFacets {
+  critics: Partial<Record<CriticType, number>>;
+  mediaTypes: Partial<Record<ArchiveMediaType, number>>;
+}
+
+// Words too common to be worth an index entry
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+/**
+ * Lowercased, accent-free words of a text, without stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token));
+}
+
+/**
+ * What was reviewed, for the media type facet. Older reviews don't record the file's MIME
+ * type, so video is recognised by the film critic or the file extension.
+ */
+export function getArchiveMediaType(review: SearchableReview): ArchiveMediaType {
+  if (review.isYouTube) return 'youtube';
+  const critic = review.review.critic || 'music';
+  if (isDocumentCritic(critic)) return 'document';
+  if (critic === 'film' || isVideoMedia(review.audioFileName)) return 'video';
+  return 'audio';
+}
+
+function fieldTexts(review: SearchableReview): Record<SearchField, string> {
+  return {
+    title: review.title,
+    artist: review.artist,
+    summary: review.review.summary,
+    quote: review.review.notable_lyrics_quoted,
+    body: review.review.body.join(' '),
+    comments: review.comments
+      .flatMap(comment => [comment.text, ...comment.replies.map(reply => reply.text)])
+      .join(' '),
+  };
+}
+
+interface Posting {
+  weight: number;
+  fields: Set<SearchField>;
+}
+
+interface IndexedReview {
+  review: SearchableReview;
+  terms: string[];
+  critic: CriticType;
+  mediaType: ArchiveMediaType;
+  score: number;
+  timestamp: number;
+}
+
+export class SearchIndex {
+  private postings = new Map<string, Map<string, Posting>>();
+  private reviews = new Map<string, IndexedReview>();
+
+  constructor(reviews: SearchableReview[] = []) {
+    reviews.forEach(review => this.add(review));
+  }
+
+  get size(): number {
+    return this.reviews.size;
+  }
+
+  /**
+   * Index a review, replacing what was indexed for it before
+   */
+  add(review: SearchableReview): void {
+    this.remove(review.id);
+
+    const texts = fieldTexts(review);
+    const terms = new Set<string>();
+    for (const field of Object.keys(texts) as SearchField[]) {
+      for (const term of tokenize(texts[field])) {
+        terms.add(term);
+        let byReview = this.postings.get(term);
+        if (!byReview) {
+          byReview = new Map();
+          this.postings.set(term, byReview);
+        }
+        let posting = byReview.get(review.id);
+        if (!posting) {
+          posting = { weight: 0, fields: new Set() };
+          byReview.set(review.id, posting);
+        }
+        posting.weight += FIELD_WEIGHTS[field];
+        posting.fields.add(field);
+      }
+    }
+
+    this.reviews.set(review.id, {
+      review,
+      terms: Array.from(terms),
+      critic: review.review.critic || 'music',
+      mediaType: getArchiveMediaType(review),
+      score: review.review.score,
+      timestamp: review.timestamp,
+    });
+  }
+
+  /**
+   * Re-index a review with some fields changed, such as new comments; ignored if the review
+   * isn't indexed
+   */
+  update(id: string, patch: Partial<Omit<SearchableReview, 'id'>>): void {
+    const indexed = this.reviews.get(id);
+    if (indexed) this.add({ ...indexed.review, ...patch });
+  }
+
+  remove(id: string): void {
+    const indexed = this.reviews.get(id);
+    if (!indexed) return;
+
+    for (const term of indexed.terms) {
+      const byReview = this.postings.get(term);
+      byReview?.delete(id);
+      if (byReview && byReview.size === 0) this.postings.delete(term);
+    }
+    this.reviews.delete(id);
+  }
+
+  /**
+   * Reviews matching every query word and the filters, best first (newest first without a
+   * query). The last word also matches as a prefix so results update while typing.
+   */
+  search(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const words = tokenize(query);
+    const candidates = Array.from(this.reviews.keys()).filter(id => this.matchesFilters(id, filters));
+
+    if (words.length === 0) {
+      return candidates
+        .sort((a, b) => this.reviews.get(b)!.timestamp - this.reviews.get(a)!.timestamp)
+        .map(id => ({ id, rank: 0, fields: [] }));
+    }
+
+    const results: SearchResult[] = [];
+    for (const id of candidates) {
+      let rank = 0;
+      const fields = new Set<SearchField>();
+      const matchesAll = words.every((word, i) => {
+        const postings = this.lookup(word, i === words.length - 1, id);
+        postings.forEach(posting => {
+          rank += posting.weight;
+          posting.fields.forEach(field => fields.add(field));
+        });
+        return postings.length > 0;
+      });
+
+      if (matchesAll) {
+        results.push({
+          id,
+          rank,
+          fields: Array.from(fields).sort((a, b) => FIELD_WEIGHTS[b] - FIELD_WEIGHTS[a]),
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.rank - a.rank || this.reviews.get(b.id)!.timestamp - this.reviews.get(a.id)!.timestamp);
+  }
+
+  /**
+   * How many matches each critic and media type would have if picked. Each facet's counts
+   * ignore its own selection, so picking one critic doesn't hide the others.
+   */
+  facets(query: string, filters: SearchFilters = {}): SearchFacets {
+    const facets: SearchFacets = { critics: {}, mediaTypes: {} };
+    for (const { id } of this.search(query, { ...filters, critics: undefined })) {
+      const { critic } = this.reviews.get(id)!;
+      facets.critics[critic] = (facets.critics[critic] || 0) + 1;
+    }
+    for (const { id } of this.search(query, { ...filters, mediaTypes: undefined })) {
+      const { mediaType } = this.reviews.get(id)!;
+      facets.mediaTypes[mediaType] = (facets.mediaTypes[mediaType] || 0) + 1;
+    }
+    return facets;
+  }
+
+  // Postings of a review for a word, or for every indexed term it starts with
+  private lookup(word: string, asPrefix: boolean, id: string): Posting[] {
+    const exact = this.postings.get(word)?.get(id);
+    if (exact || !asPrefix) return exact ? [exact] : [];
+
+    return this.reviews.get(id)!.terms
+      .filter(term => term.startsWith(word))
+      .map(term => this.postings.get(term)!.get(id)!);
+  }
+
+  private matchesFilters(id: string, filters: SearchFilters): boolean {
+    const indexed = this.reviews.get(id)!;
+    if (filters.critics?.length && !filters.critics.includes(indexed.critic)) return false;
+    if (filters.mediaTypes?.length && !filters.mediaTypes.includes(indexed.mediaType)) return false;
+    if (filters.minScore !== undefined && indexed.score < filters.minScore) return false;
+    if (filters.maxScore !== undefined && indexed.score > filters.maxScore) return false;
+    if (filters.publishedWithin !== undefined && indexed.timestamp < Date.now() - filters.publishedWithin) return false;
+    return true;
+  }
+}
@@ -0,0 +1,81 @@
+// Review slugs: the readable part of /review/<slug>, built from artist and title
+// (buildReviewSlug in utils/pipeline.ts) and kept unique across the archive by suffixing.
+// A review that gets a new slug keeps its old ones as aliases, so links people already
+// shared still find it.
+import type { FileStore, StoredRecord } from './fileStore';
+
+export interface SluggedReview {
+  id: string;
+  slug: string;
+  slugAliases?: string[];
+}
+
+/**
+ * Slugs no new review may take: every other review's slug and aliases
+ */
+export function takenSlugs(reviews: SluggedReview[]): Set<string> {
+  const taken = new Set<string>();
+  for (const review of reviews) {
+    taken.add(review.slug);
+    (review.slugAliases || []).forEach(alias => taken.add(alias));
+  }
+  return taken;
+}
+
+/**
+ * The slug itself if free, otherwise the first free slug-2, slug-3...
+ */
+export function uniqueSlug(slug: string, taken: Set<string>): string {
+  if (!taken.has(slug)) return slug;
+  let n = 2;
+  while (taken.has(`${slug}-${n}`)) n++;
+  return `${slug}-${n}`;
+}
+
+/**
+ * Settle the slug of a review about to be saved. It gets its requested slug or the next free
+ * one; if the stored copy had a different slug, that becomes an alias.
+ */
+export function placeSlug<T extends SluggedReview>(review: T, others: SluggedReview[], previous?: SluggedReview | null): T {
+  const slug = uniqueSlug(review.slug, takenSlugs(others));
+  const aliases = new Set(previous?.slugAliases || []);
+  (review.slugAliases || []).forEach(alias => aliases.add(alias));
+  if (previous && previous.slug !== slug) aliases.add(previous.slug);
+  aliases.delete(slug);
+
+  const placed: T = { ...review, slug };
+  if (aliases.size > 0) {
+    placed.slugAliases = Array.from(aliases);
+  } else {
+    delete placed.slugAliases;
+  }
+  return placed;
+}
+
+/**
+ * Find the review a slug points at, preferring a review whose current slug it is.
+ * `redirect` is set when the slug is only an alias, with the slug to send the reader to.
+ */
+export function resolveSlug<T extends SluggedReview>(slug: string, reviews: T[]): { review: T; redirect?: string } | null {
+  const current = reviews.find(r => r.slug === slug);
+  if (current) return { review: current };
+
+  const aliased = reviews.find(r => r.slugAliases?.includes(slug));
+  return aliased ? { review: aliased, redirect: aliased.slug } : null;
+}
+
+// Saves take turns so two reviews finishing together can't both claim the same slug
+let slugQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Write a review to the store with a slug no other review holds (server only)
+ */
+export function saveReviewWithUniqueSlug<T extends StoredRecord & SluggedReview>(store: FileStore, review: T): Promise<T> {
+  const save = slugQueue.then(async () => {
+    const reviews = await store.list<StoredRecord & SluggedReview>('reviews');
+    const previous = reviews.find(r => r.id === review.id);
+    return store.put('reviews', placeSlug(review, reviews.filter(r => r.id !== review.id), previous));
+  });
+  slugQueue = save.catch(() => undefined);
+  return save;
+}
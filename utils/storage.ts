@@ -0,0 +1,85 @@
+// What the archive costs in browser storage, record by record, for the storage page.
+// localStorage holds a JSON copy of every review and editorial; IndexedDB holds media.
+import type { SavedReview, SavedEditorial } from './models';
+import type { MediaRecord } from './db';
+import { mediaIdsFor } from './album';
+
+export interface StorageRow {
+  kind: 'review' | 'editorial';
+  id: string;
+  label: string;
+  timestamp: number;
+  localBytes: number; // Its share of the localStorage copy
+  mediaBytes: number; // Its IndexedDB media, if cached
+  commentCount: number;
+}
+
+/**
+ * Approximate localStorage cost of a value: browsers count its JSON as UTF-16, two bytes
+ * per code unit.
+ */
+export function jsonBytes(value: unknown): number {
+  return JSON.stringify(value).length * 2;
+}
+
+export function reviewRows(reviews: SavedReview[], media: MediaRecord[]): StorageRow[] {
+  const mediaSizes = new Map(media.map(record => [record.id, record.size]));
+  return reviews.map(review => ({
+    kind: 'review',
+    id: review.id,
+    label: `${review.artist} - ${review.title}`,
+    timestamp: review.timestamp,
+    localBytes: jsonBytes(review),
+    mediaBytes: mediaIdsFor(review).reduce((total, id) => total + (mediaSizes.get(id) || 0), 0),
+    commentCount: review.comments.length,
+  }));
+}
+
+export function editorialRows(editorials: SavedEditorial[]): StorageRow[] {
+  return editorials.map(editorial => ({
+    kind: 'editorial',
+    id: editorial.id,
+    label: editorial.title,
+    timestamp: editorial.timestamp,
+    localBytes: jsonBytes(editorial),
+    mediaBytes: 0,
+    commentCount: editorial.comments.length,
+  }));
+}
+
+// A review's media is cached before its job finishes and saves the review, so anything this
+// recent may belong to a review that doesn't exist yet
+export const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cached media whose review no longer exists, left behind by deletes that didn't reach
+ * IndexedDB or by imports that were rolled back. Media stored within ORPHAN_GRACE_MS is
+ * never counted, since its review may still be in the works.
+ */
+export function findOrphanedMedia(media: MediaRecord[], reviews: SavedReview[], now = Date.now()): MediaRecord[] {
+  const ownedIds = new Set(reviews.flatMap(review => [review.id, ...mediaIdsFor(review)]));
+  return media.filter(record => !ownedIds.has(record.id) && now - record.storedAt >= ORPHAN_GRACE_MS);
+}
+
+/** Total localStorage use across every key, including other apps' keys on this origin */
+export function localStorageBytes(): number {
+  if (typeof localStorage === 'undefined') return 0;
+  let total = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i) || '';
+    total += (key.length + (localStorage.getItem(key) || '').length) * 2;
+  }
+  return total;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = -1;
+  do {
+    value /= 1024;
+    unit++;
+  } while (value >= 1024 && unit < units.length - 1);
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
@@ -0,0 +1,118 @@
+// Helpers for streamed (Server-Sent Events) generation
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Split a buffer of SSE text into complete events.
+ * Returns the parsed events plus any trailing partial frame to prepend to the next read.
+ */
+export function parseSSEEvents(buffer: string): { events: SSEEvent[]; rest: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n');
+  const frames = normalized.split('\n\n');
+  const rest = frames.pop() || '';
+  const events: SSEEvent[] = [];
+
+  for (const frame of frames) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (dataLines.length > 0) {
+      events.push({ event, data: dataLines.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Format one SSE frame
+ */
+export function formatSSEEvent(data: unknown, event?: string): string {
+  return `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Collapse streamed part deltas into whole parts: consecutive thought text is joined
+ * into one thought part, consecutive answer text into one text part.
+ */
+export function mergeStreamParts(chunks: { parts: any[] }[]): any[] {
+  const merged: any[] = [];
+
+  for (const part of chunks.flatMap(chunk => chunk.parts || [])) {
+    const last = merged[merged.length - 1];
+    if (typeof part.text === 'string' && last && typeof last.text === 'string' && !!last.thought === !!part.thought) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+
+  return merged;
+}
+
+export interface PartialReview {
+  title?: string;
+  artist?: string;
+  score?: number;
+  summary?: string;
+  body: string[];
+}
+
+const JSON_STRING = '"((?:[^"\\\\]|\\\\.)*)"';
+
+function readStringField(text: string, field: string): string | undefined {
+  const match = text.match(new RegExp(`"${field}"\\s*:\\s*${JSON_STRING}`));
+  if (!match) return undefined;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pull whatever review fields are already complete out of a truncated JSON response,
+ * so the review card can render paragraph by paragraph while the model is still writing.
+ */
+export function extractPartialReview(text: string): PartialReview {
+  const cleaned = text.replace(/```json|```/g, '');
+  const partial: PartialReview = { body: [] };
+
+  partial.title = readStringField(cleaned, 'title');
+  partial.artist = readStringField(cleaned, 'artist');
+  partial.summary = readStringField(cleaned, 'summary');
+
+  const scoreMatch = cleaned.match(/"score"\s*:\s*(-?\d+(?:\.\d+)?)\s*[,}\n]/);
+  if (scoreMatch) partial.score = parseFloat(scoreMatch[1]);
+
+  const bodyStart = cleaned.search(/"body"\s*:\s*\[/);
+  if (bodyStart >= 0) {
+    const bodyText = cleaned.slice(cleaned.indexOf('[', bodyStart) + 1);
+    const paragraph = new RegExp(`^\\s*,?\\s*${JSON_STRING}`);
+    let remaining = bodyText;
+    let match = remaining.match(paragraph);
+
+    while (match) {
+      try {
+        partial.body.push(JSON.parse(`"${match[1]}"`));
+      } catch {
+        break;
+      }
+      remaining = remaining.slice(match[0].length);
+      match = remaining.match(paragraph);
+    }
+  }
+
+  return partial;
+}
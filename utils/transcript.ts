@@ -0,0 +1,95 @@
+// Timed transcripts of videos and podcasts: a YouTube caption track, or the model's own
+// transcription of uploaded media. Critics read them with timestamps they can quote, and the
+// review page shows them next to the player.
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the media
+  end?: number;
+  text: string;
+}
+
+export interface Transcript {
+  source: 'captions' | 'model';
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+// Long talks are cut off here in the review prompt; the saved transcript keeps everything
+export const MAX_PROMPT_TRANSCRIPT_CHARS = 40000;
+
+/**
+ * "m:ss", or "h:mm:ss" from an hour in
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Segments from YouTube's json3 caption format ({ events: [{ tStartMs, dDurationMs, segs: [{ utf8 }] }] }).
+ * Events without text (window and style changes) are dropped.
+ */
+export function parseCaptionEvents(data: any): TranscriptSegment[] {
+  return (Array.isArray(data?.events) ? data.events : [])
+    .map((event: any) => {
+      const text = (event.segs || []).map((seg: any) => seg.utf8 || '').join('').replace(/\s+/g, ' ').trim();
+      const start = Number(event.tStartMs) / 1000;
+      const duration = Number(event.dDurationMs) / 1000;
+      return { start, end: Number.isFinite(duration) ? start + duration : undefined, text };
+    })
+    .filter((segment: TranscriptSegment) => segment.text && Number.isFinite(segment.start));
+}
+
+/**
+ * Whether a value has the shape of a Transcript, for checking job input
+ */
+export function isTranscript(value: any): value is Transcript {
+  return Boolean(value)
+    && (value.source === 'captions' || value.source === 'model')
+    && Array.isArray(value.segments)
+    && value.segments.every((segment: any) => Number.isFinite(segment?.start) && typeof segment.text === 'string');
+}
+
+/**
+ * The transcript as "[m:ss] text" lines for a prompt, cut at `maxChars` with a note saying so
+ */
+export function transcriptText(transcript: Transcript, maxChars = MAX_PROMPT_TRANSCRIPT_CHARS): string {
+  const lines: string[] = [];
+  let length = 0;
+  for (const segment of transcript.segments) {
+    const line = `[${formatTimestamp(segment.start)}] ${segment.text}`;
+    if (length + line.length > maxChars) {
+      lines.push(`[... transcript continues past ${formatTimestamp(segment.start)}]`);
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Indexes of the segments containing every word of the query, case-insensitively
+ */
+export function searchTranscript(segments: TranscriptSegment[], query: string): number[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return segments
+    .map((segment, i) => ({ text: segment.text.toLowerCase(), i }))
+    .filter(({ text }) => words.every(word => text.includes(word)))
+    .map(({ i }) => i);
+}
+
+/**
+ * Index of the segment being spoken at `seconds`, or -1 before the first
+ */
+export function activeSegmentIndex(segments: TranscriptSegment[], seconds: number): number {
+  let active = -1;
+  segments.forEach((segment, i) => {
+    if (segment.start <= seconds) active = i;
+  });
+  return active;
+}
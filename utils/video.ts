@@ -0,0 +1,78 @@
+// Uploaded video files: telling them apart from audio, and pulling still frames out of them
+// in the browser for the player's poster and thumbnail strip.
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv|avi)$/i;
+
+export const THUMBNAIL_COUNT = 8;
+export const THUMBNAIL_WIDTH = 160;
+
+/**
+ * Whether a media file is video, by its MIME type or, when that is missing or generic
+ * (stored media can come back as application/octet-stream), its name
+ */
+export function isVideoMedia(fileName?: string, mimeType?: string): boolean {
+  if (mimeType?.startsWith('video/')) return true;
+  if (mimeType?.startsWith('audio/')) return false;
+  return VIDEO_EXTENSIONS.test(fileName || '');
+}
+
+/**
+ * Where to grab the poster: a little way in, past the black frames most videos open with
+ */
+export function posterTime(duration: number): number {
+  return Math.min(duration * 0.1, 5);
+}
+
+/**
+ * The middle of each of `count` equal stretches of the video, for its thumbnail strip
+ */
+export function frameTimes(duration: number, count = THUMBNAIL_COUNT): number[] {
+  if (!(duration > 0) || count < 1) return [];
+  const step = duration / count;
+  return Array.from({ length: count }, (_, i) => (i + 0.5) * step);
+}
+
+// Resolves once the element fires `event`, rejects if it fails to load instead
+function once(video: HTMLVideoElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener(event, onEvent);
+      reject(new Error('Could not read the video'));
+    };
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+}
+
+/**
+ * JPEG data URLs of the frames at `times`, drawn through a canvas from a detached <video>
+ * so the one being watched doesn't jump around
+ */
+export async function captureFrames(src: string, times: number[], width = THUMBNAIL_WIDTH): Promise<string[]> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = src;
+  await once(video, 'loadeddata');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(width * (video.videoHeight / video.videoWidth || 9 / 16));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  const frames: string[] = [];
+  for (const time of times) {
+    video.currentTime = time;
+    await once(video, 'seeked');
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    frames.push(canvas.toDataURL('image/jpeg', 0.7));
+  }
+  video.removeAttribute('src');
+  video.load();
+  return frames;
+}
@@ -0,0 +1,264 @@
+// YouTube URL parsing shared by the page, the API routes and the pipeline. Every shape a
+// link can take (watch, youtu.be, Shorts, live, embeds, mobile and YouTube Music hosts)
+// reduces to one canonical URL, which is what goes to the model and into storage. Also
+// scores a video's metadata to pick the critic who should watch it.
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]{2,64}$/;
+const CHANNEL_ID_PATTERN = /^UC[A-Za-z0-9_-]{22}$/;
+const HANDLE_PATTERN = /^@[A-Za-z0-9._-]{3,30}$/;
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+const SHORT_HOSTS = ['youtu.be', 'www.youtu.be'];
+
+// Path prefixes followed by a video id: /shorts/ID, /embed/ID and so on
+const VIDEO_PATH_PREFIXES = ['shorts', 'live', 'embed', 'v', 'e'];
+
+export type YouTubeLink =
+  | { kind: 'video'; videoId: string; startSeconds?: number; url: string }
+  | { kind: 'playlist'; playlistId: string; url: string }
+  | { kind: 'channel'; channelId: string; url: string }
+  | { kind: 'channel'; handle: string; url: string };
+
+export function isYouTubeVideoId(value: unknown): value is string {
+  return typeof value === 'string' && VIDEO_ID_PATTERN.test(value);
+}
+
+/**
+ * Seconds from a YouTube timestamp: "90", "90s", "1m30s", "1h2m3s" or "1:30"
+ */
+export function parseTimestamp(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const text = value.trim().toLowerCase();
+
+  if (/^\d+$/.test(text)) return Number(text) || undefined;
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    const seconds = text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    return seconds || undefined;
+  }
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!units || !units[0]) return undefined;
+  const seconds = Number(units[1] || 0) * 3600 + Number(units[2] || 0) * 60 + Number(units[3] || 0);
+  return seconds || undefined;
+}
+
+/**
+ * The canonical form of a video link: www.youtube.com/watch, with `t` only when it starts
+ * part-way through
+ */
+export function canonicalVideoUrl(videoId: string, startSeconds?: number): string {
+  return `https://www.youtube.com/watch?v=${videoId}${startSeconds ? `&t=${startSeconds}s` : ''}`;
+}
+
+export function youtubeEmbedUrl(videoId: string, startSeconds?: number): string {
+  return `https://www.youtube.com/embed/${videoId}${startSeconds ? `?start=${startSeconds}` : ''}`;
+}
+
+function videoLink(videoId: string | null | undefined, url: URL): YouTubeLink | null {
+  if (!isYouTubeVideoId(videoId)) return null;
+  const hash = new URLSearchParams(url.hash.slice(1));
+  const startSeconds = parseTimestamp(url.searchParams.get('t') || url.searchParams.get('start') || url.searchParams.get('time_continue') || hash.get('t'));
+  return { kind: 'video', videoId, startSeconds, url: canonicalVideoUrl(videoId, startSeconds) };
+}
+
+/**
+ * What a YouTube URL points at, or null if it isn't one this app can review. A watch URL
+ * that also names a playlist is the video; the scheme may be left off.
+ */
+export function parseYouTubeUrl(input: string): YouTubeLink | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (SHORT_HOSTS.includes(host)) {
+    return videoLink(segments[0], url);
+  }
+  if (!YOUTUBE_HOSTS.includes(host)) return null;
+
+  if (segments[0] === 'watch') {
+    return videoLink(url.searchParams.get('v'), url);
+  }
+
+  if (segments[0] === 'playlist' || (segments[0] === 'embed' && segments[1] === 'videoseries')) {
+    const playlistId = url.searchParams.get('list');
+    if (!playlistId || !PLAYLIST_ID_PATTERN.test(playlistId)) return null;
+    return { kind: 'playlist', playlistId, url: `https://www.youtube.com/playlist?list=${playlistId}` };
+  }
+
+  if (VIDEO_PATH_PREFIXES.includes(segments[0])) {
+    return videoLink(segments[1], url);
+  }
+
+  if (segments[0] === 'channel' && CHANNEL_ID_PATTERN.test(segments[1] || '')) {
+    return { kind: 'channel', channelId: segments[1], url: `https://www.youtube.com/channel/${segments[1]}` };
+  }
+
+  // Handles arrive percent-encoded when they contain anything unusual
+  const handle = segments[0] ? decodeURIComponent(segments[0]) : '';
+  if (HANDLE_PATTERN.test(handle)) {
+    return { kind: 'channel', handle, url: `https://www.youtube.com/${handle}` };
+  }
+
+  return null;
+}
+
+/**
+ * The video id of a YouTube video link, or null for anything else
+ */
+export function extractYouTubeId(url: string): string | null {
+  const link = parseYouTubeUrl(url);
+  return link?.kind === 'video' ? link.videoId : null;
+}
+
+/**
+ * Seconds in a Data API duration such as "PT1H2M3S" (or "P1DT2H" for very long streams)
+ */
+export function parseIsoDuration(value: string | null | undefined): number | undefined {
+  const match = (value || '').match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || !match.slice(1).some(Boolean)) return undefined;
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * A topic name from the Wikipedia URL the Data API uses for topicCategories
+ */
+export function topicName(url: string): string {
+  const page = url.split('/').pop() || url;
+  try {
+    return decodeURIComponent(page).replace(/_/g, ' ');
+  } catch {
+    return page.replace(/_/g, ' ');
+  }
+}
+
+export type VideoCategory = 'film' | 'music' | 'business' | 'literary';
+
+// In order of preference when scores tie; film is what an unremarkable video gets
+export const VIDEO_CATEGORIES: VideoCategory[] = ['film', 'music', 'business', 'literary'];
+
+/**
+ * What the classifier reads from a video's metadata
+ */
+export interface VideoSignals {
+  title: string;
+  description?: string;
+  channelTitle?: string;
+  categoryId?: string;
+  tags?: string[];
+  topicCategories?: string[]; // Topic names, e.g. "Pop music"
+  durationSeconds?: number;
+}
+
+export interface VideoClassification {
+  category: VideoCategory;
+  confidence: 'high' | 'medium' | 'low';
+  scores: Record<VideoCategory, number>;
+  reasons: string[]; // One line per signal that moved a score, for the agent log
+}
+
+// Data API category ids: https://developers.google.com/youtube/v3/docs/videoCategories
+const CATEGORY_SIGNALS: Record<string, { name: string; weights: Partial<Record<VideoCategory, number>> }> = {
+  '1': { name: 'Film & Animation', weights: { film: 3 } },
+  '10': { name: 'Music', weights: { music: 3 } },
+  '20': { name: 'Gaming', weights: { film: 1 } },
+  '23': { name: 'Comedy', weights: { film: 1 } },
+  '24': { name: 'Entertainment', weights: { film: 1 } },
+  '25': { name: 'News & Politics', weights: { business: 1.5 } },
+  '27': { name: 'Education', weights: { literary: 1, business: 1 } },
+  '28': { name: 'Science & Technology', weights: { business: 1.5 } },
+  '30': { name: 'Movies', weights: { film: 3 } },
+  '44': { name: 'Trailers', weights: { film: 3 } },
+};
+
+const TOPIC_SIGNALS: Array<{ pattern: RegExp; weights: Partial<Record<VideoCategory, number>> }> = [
+  { pattern: /music$/i, weights: { music: 3 } },
+  { pattern: /^(film|movies|television program)$/i, weights: { film: 3 } },
+  { pattern: /^(business|technology|politics)$/i, weights: { business: 2 } },
+  { pattern: /^(knowledge|society)$/i, weights: { literary: 1, business: 1 } },
+];
+
+// Phrases in the title, tags or description; the title and tags count double
+const KEYWORD_SIGNALS: Record<VideoCategory, string[]> = {
+  music: [
+    'official video', 'official audio', 'music video', 'official music', 'official mv', 'lyrics', 'lyric video',
+    'album', 'single', 'soundtrack', 'ost', 'remix', 'cover', 'acoustic', 'live performance', 'concert', 'ft.', 'feat.', 'prod.',
+  ],
+  film: ['short film', 'trailer', 'teaser', 'documentary', 'animation', 'cinematography', 'directed by'],
+  business: [
+    'keynote', 'startup', 'entrepreneur', 'investing', 'investor', 'marketing', 'earnings', 'economics', 'business',
+    'leadership', 'pitch', 'founder', 'strategy', 'conference talk',
+  ],
+  literary: ['audiobook', 'poetry', 'poem', 'book review', 'booktube', 'literature', 'novel', 'short story', 'essay', 'author', 'lecture'],
+};
+
+// Talks and podcasts are spoken word: the document critics' territory, but not yet whose
+const SPOKEN_WORD = ['podcast', 'interview', 'talk', 'panel discussion', 'ted', 'episode', 'conversation', 'reading'];
+
+const MUSIC_CHANNEL = /vevo|records|music|- topic$/i;
+
+function mentions(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, 'i').test(text);
+}
+
+/**
+ * Score a video for each kind of critic and pick the best. Every signal that moves a score
+ * leaves a reason, so the agent log can explain the routing.
+ */
+export function classifyVideo(video: VideoSignals): VideoClassification {
+  const scores: Record<VideoCategory, number> = { film: 0, music: 0, business: 0, literary: 0 };
+  const reasons: string[] = [];
+  const add = (weights: Partial<Record<VideoCategory, number>>, because: string) => {
+    const moved = VIDEO_CATEGORIES.filter(category => weights[category]);
+    moved.forEach(category => { scores[category] += weights[category]!; });
+    reasons.push(`${because} (${moved.map(category => `${weights[category]! > 0 ? '+' : ''}${weights[category]} ${category}`).join(', ')})`);
+  };
+
+  const category = video.categoryId ? CATEGORY_SIGNALS[video.categoryId] : undefined;
+  if (category) add(category.weights, `YouTube category is ${category.name}`);
+
+  (video.topicCategories || []).forEach(topic => {
+    const signal = TOPIC_SIGNALS.find(candidate => candidate.pattern.test(topic));
+    if (signal) add(signal.weights, `Topic "${topic}"`);
+  });
+
+  const headline = [video.title, ...(video.tags || [])].join(' \n ');
+  const description = video.description || '';
+  VIDEO_CATEGORIES.forEach(target => {
+    const inHeadline = KEYWORD_SIGNALS[target].filter(phrase => mentions(headline, phrase));
+    const inDescription = KEYWORD_SIGNALS[target].filter(phrase => !inHeadline.includes(phrase) && mentions(description, phrase));
+    if (inHeadline.length > 0) add({ [target]: Math.min(inHeadline.length, 2) * 2 }, `Title or tags mention "${inHeadline.join('", "')}"`);
+    if (inDescription.length > 0) add({ [target]: Math.min(inDescription.length, 2) * 0.5 }, `Description mentions "${inDescription.join('", "')}"`);
+  });
+
+  const spoken = SPOKEN_WORD.filter(phrase => mentions(headline, phrase));
+  if (spoken.length > 0) add({ business: 1, literary: 1, music: -1 }, `Looks like spoken word: "${spoken.join('", "')}"`);
+
+  if (video.channelTitle && MUSIC_CHANNEL.test(video.channelTitle)) add({ music: 2 }, `Channel "${video.channelTitle}" is a music channel`);
+
+  const duration = video.durationSeconds;
+  if (duration !== undefined && duration >= 20 * 60) {
+    add({ business: 1, literary: 1, music: -1 }, `Runs ${Math.round(duration / 60)} minutes, long enough for a talk or podcast`);
+  } else if (duration !== undefined && duration >= 90 && duration <= 8 * 60) {
+    add({ music: 0.5 }, `Runs ${Math.round(duration / 60)} minutes, the length of a song`);
+  }
+
+  const ranked = VIDEO_CATEGORIES.slice().sort((a, b) => scores[b] - scores[a]);
+  const lead = scores[ranked[0]] > 0 ? ranked[0] : 'film';
+  const margin = scores[lead] - Math.max(...VIDEO_CATEGORIES.filter(c => c !== lead).map(c => scores[c]));
+  const confidence = margin >= 3 ? 'high' : margin >= 1 ? 'medium' : 'low';
+  if (reasons.length === 0) reasons.push('No signals either way, so it goes to the film critic');
+
+  return { category: lead, confidence, scores, reasons };
+}
@@ -0,0 +1,87 @@
+// Minimal ZIP reader for album uploads: stored and deflated entries, no ZIP64 or encryption.
+// Deflate goes through the platform's DecompressionStream rather than a bundled inflater.
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipEntry {
+  name: string; // Path inside the archive
+  data: Uint8Array<ArrayBuffer>;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - EOCD_MIN_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new ZipError('Not a zip file');
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ZipError('This browser cannot unpack compressed zip entries');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Every file in a zip archive, in central directory order. Directories are left out.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new ZipError('Corrupt zip central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new ZipError(`${name} is encrypted`);
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+      throw new ZipError(`Corrupt zip entry: ${name}`);
+    }
+
+    // The local header's name and extra field can differ in length from the central copy
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ name, data: raw.slice() });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new ZipError(`${name} uses an unsupported compression method (${method})`);
+    }
+  }
+
+  return entries;
+}